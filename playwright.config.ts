@@ -7,7 +7,7 @@ import { defineConfig, devices } from '@playwright/test';
  * Make sure to run `npm run dev` before running tests.
  */
 export default defineConfig({
-  testDir: './tests',
+  testDir: './tests/e2e',
 
   /* Run tests in files in parallel */
   fullyParallel: true,
@@ -6,20 +6,17 @@
  *
  * Key Regional Differences:
  * - Asian BMI thresholds (India) - Lower thresholds due to higher body fat % at same BMI
- * - Default unit systems (Imperial for US, Metric for rest)
  * - Visual presentation preferences (gauge vs curve)
  * - Age/gender adjustments
  */
 
 import type { Locale } from '@/utils/i18n';
+import { languages, type UnitSystem } from '@/config/languages';
 
 export type BMIThresholdType = 'WHO_STANDARD' | 'ASIAN';
 export type VisualStyle = 'gauge' | 'curve' | 'both' | 'simple';
 
 export interface BMIRegionalConfig {
-  /** Default unit system for this region */
-  defaultUnit: 'metric' | 'imperial';
-
   /** BMI threshold type (WHO standard or Asian) */
   thresholds: BMIThresholdType;
 
@@ -60,7 +57,6 @@ export interface BMIRegionalConfig {
 export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
   // Spanish - Spain & Latin America
   es: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: false,
@@ -73,7 +69,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // English - US, UK, International
   en: {
-    defaultUnit: 'imperial', // US market preference
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: true,
@@ -88,7 +83,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Portuguese - Brazil & Portugal
   pt: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: false,
@@ -101,7 +95,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // French - France, Belgium, Switzerland
   fr: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: true,
@@ -118,7 +111,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Hindi - India
   hi: {
-    defaultUnit: 'metric',
     thresholds: 'ASIAN', // ⚠️ CRITICAL - Asian BMI thresholds
     categories: 4, // Simpler but with different thresholds
     ageAdjustment: false,
@@ -131,7 +123,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // German - Germany, Austria, Switzerland
   de: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: true,
@@ -146,7 +137,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Italian - Italy
   it: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: true,
@@ -159,7 +149,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Polish - Poland
   pl: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: false,
@@ -172,7 +161,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Dutch - Netherlands, Belgium
   nl: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 4, // Dutch prefer simpler presentation
     ageAdjustment: false,
@@ -185,7 +173,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Turkish - Turkey
   tr: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: false,
@@ -198,7 +185,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Swedish - Sweden
   sv: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 4,
     ageAdjustment: false,
@@ -213,7 +199,6 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
 
   // Russian - Russia, ex-Soviet states
   ru: {
-    defaultUnit: 'metric',
     thresholds: 'WHO_STANDARD',
     categories: 8,
     ageAdjustment: false,
@@ -223,6 +208,18 @@ export const BMI_REGIONAL_CONFIG: Record<Locale, BMIRegionalConfig> = {
     healthAuthority: 'ВОЗ, Минздрав России',
     terminology: 'ВОЗ', // WHO in Cyrillic
   },
+
+  // Arabic - Gulf states and Middle East
+  ar: {
+    thresholds: 'WHO_STANDARD',
+    categories: 8,
+    ageAdjustment: false,
+    genderAdjustment: false,
+    visualStyle: 'gauge',
+    features: {},
+    healthAuthority: 'WHO, وزارة الصحة',
+    terminology: 'منظمة الصحة العالمية', // WHO in Arabic
+  },
 };
 
 /**
@@ -240,10 +237,10 @@ export function usesAsianThresholds(lang: Locale): boolean {
 }
 
 /**
- * Get default unit system for a language
+ * Get default unit system for a language (from its locale profile)
  */
-export function getDefaultUnitSystem(lang: Locale): 'metric' | 'imperial' {
-  return getBMIRegionalConfig(lang).defaultUnit;
+export function getDefaultUnitSystem(lang: Locale): UnitSystem {
+  return languages[lang].units;
 }
 
 /**
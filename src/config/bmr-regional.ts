@@ -13,6 +13,8 @@
  */
 
 import type { Locale } from '@/utils/i18n';
+import { languages, type UnitSystem } from '@/config/languages';
+import type { BMRFormula as BMRFormulaId } from '@/utils/calculators/bmr';
 
 export type BMRFormula =
   | 'MIFFLIN_ST_JEOR'    // Most accurate modern formula (1990)
@@ -33,9 +35,6 @@ export type TDEEIntegration =
   | 'prominent';          // Equal prominence to BMR (Poland: PPM+CPM)
 
 export interface BMRRegionalConfig {
-  /** Default unit system for this region */
-  defaultUnit: 'metric' | 'imperial';
-
   /** Primary recommended formula for this market */
   primaryFormula: BMRFormula;
 
@@ -91,7 +90,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Calculatodo, Calculadoras.uno, Mundodeportivo
   // Key feature: Calorie deficit table highly valued
   es: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -112,7 +110,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Calculator.net, Omnicalculator, BMI-Calculator.net
   // Key feature: Educational content, simple presentation
   en: {
-    defaultUnit: 'imperial', // US market preference
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'KATCH_MCARDLE'],
     formulaDisplay: 'comparison',
@@ -132,7 +129,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Tua Saúde, MD.Saúde, GSupplementos
   // Key feature: WHO/FAO age-group formulas popular
   pt: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'WHO_FAO'],
     formulaDisplay: 'comparison',
@@ -153,7 +149,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: ToutPourMaSante, Nutriandco, IMC.fr
   // Key feature: 4 formulas by athlete profile
   fr: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'KATCH_MCARDLE'],
     formulaDisplay: 'comparison',
@@ -174,7 +169,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Steadfast Nutrition, Amarujala, ICICI Prudential
   // Key feature: Simple presentation, professional referral
   hi: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -193,7 +187,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Rechnerplus, Stiftung-Gesundheitswissen, IKK-Classic
   // Key feature: Detailed scientific approach
   de: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -213,7 +206,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Fitnesspassion, Educazione Nutrizionale, BestBody
   // Key feature: Professional nutrition focus
   it: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -233,7 +225,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Dieta.pl, Kalkulatory.gofin.pl, MaximalHealth
   // Key feature: CRITICAL - Use "PPM" not "BMR", always show CPM (TDEE)
   pl: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'KATCH_MCARDLE'],
     formulaDisplay: 'multi_comparison', // Polish market prefers detailed comparison
@@ -254,7 +245,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Voedingswaardetabel, Berekenen.nl, HappyHealthy
   // Key feature: 7 formulas including Ten Haaf (Dutch-specific)
   nl: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'TEN_HAAF', 'WHO_FAO'],
     formulaDisplay: 'multi_comparison', // Dutch prefer comprehensive comparison
@@ -275,7 +265,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Diyetkolik, Cerrahi.com.tr, Medicana
   // Key feature: Simple calculator, professional referral
   tr: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -294,7 +283,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Kalkylator.org, Vikt.nu, Hälsoliv
   // Key feature: Privacy note, simple minimalist design
   sv: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT'],
     formulaDisplay: 'comparison',
@@ -314,7 +302,6 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
   // Research: Beregifiguru, Kalkulyator-onlayn, Hudeemz
   // Key feature: 5 formulas with graphical comparison
   ru: {
-    defaultUnit: 'metric',
     primaryFormula: 'MIFFLIN_ST_JEOR',
     secondaryFormulas: ['HARRIS_BENEDICT', 'KATCH_MCARDLE', 'WHO_FAO'],
     formulaDisplay: 'multi_comparison', // Russian market loves detailed comparison
@@ -330,6 +317,23 @@ export const BMR_REGIONAL_CONFIG: Record<Locale, BMRRegionalConfig> = {
     uiStyle: 'professional',
     defaultActivityLevel: 'sedentary',
   },
+
+  // Arabic - Gulf states and Middle East
+  // Key feature: Mifflin-St Jeor with Harris-Benedict, linked to TDEE
+  ar: {
+    primaryFormula: 'MIFFLIN_ST_JEOR',
+    secondaryFormulas: ['HARRIS_BENEDICT'],
+    formulaDisplay: 'comparison',
+    tdeeIntegration: 'integrated',
+    terminology: 'معدل الأيض الأساسي',
+    tdeeName: 'إجمالي استهلاك الطاقة اليومي',
+    features: {
+      macroLink: true,
+    },
+    healthAuthority: 'WHO, وزارة الصحة',
+    uiStyle: 'simple',
+    defaultActivityLevel: 'sedentary',
+  },
 };
 
 /**
@@ -355,6 +359,31 @@ export function getFormulasForLang(lang: Locale): BMRFormula[] {
   return [config.primaryFormula, ...config.secondaryFormulas];
 }
 
+/**
+ * Formula identifiers used by the BMR calculation utilities
+ */
+const FORMULA_IDS: Record<BMRFormula, BMRFormulaId> = {
+  MIFFLIN_ST_JEOR: 'mifflin',
+  HARRIS_BENEDICT: 'harris',
+  KATCH_MCARDLE: 'katch',
+  WHO_FAO: 'whoFao',
+  TEN_HAAF: 'tenHaaf',
+  SCHOFIELD: 'schofield',
+};
+
+/**
+ * Get the formulas to compute for a language, primary first
+ * Katch-McArdle is added wherever the body fat field is shown,
+ * since that field only feeds the Katch-McArdle formula
+ */
+export function getComputedFormulas(lang: Locale): BMRFormulaId[] {
+  const formulas = getFormulasForLang(lang).map(formula => FORMULA_IDS[formula]);
+  if (showBodyFatField(lang) && !formulas.includes('katch')) {
+    formulas.push('katch');
+  }
+  return formulas;
+}
+
 /**
  * Get local terminology for BMR
  */
@@ -405,10 +434,10 @@ export function showGraphComparison(lang: Locale): boolean {
 }
 
 /**
- * Get default unit system for a language
+ * Get default unit system for a language (from its locale profile)
  */
-export function getDefaultUnitSystem(lang: Locale): 'metric' | 'imperial' {
-  return getBMRRegionalConfig(lang).defaultUnit;
+export function getDefaultUnitSystem(lang: Locale): UnitSystem {
+  return languages[lang].units;
 }
 
 /**
@@ -3,6 +3,7 @@
  * Organizes calculators into logical groups for the index page
  */
 
+import { registry } from './calculator-registry';
 import type { CalculatorId } from './calculators';
 import type { Locale } from '@/utils/i18n';
 
@@ -19,72 +20,28 @@ export interface Category {
 }
 
 /**
- * Calculator categories
+ * Index page section order
  */
-export const categories: Category[] = [
-  {
-    id: 'body-composition',
-    calculators: [
-      'bmi',
-      'bmr',
-      'body-fat',
-      'army-body-fat',
-      'body-frame',
-      'body-type',
-      'bsa',
-      'healthy-weight',
-      'ideal-weight',
-      'lean-body-mass',
-      'waist-hip',
-    ]
-  },
-  {
-    id: 'nutrition',
-    calculators: [
-      'calorie',
-      'tdee',
-      'macro',
-      'protein',
-      'carbohydrate',
-      'fat-intake',
-      'calories-burned',
-      'weight-watchers',
-    ]
-  },
-  {
-    id: 'pregnancy-fertility',
-    calculators: [
-      'pregnancy',
-      'due-date',
-      'ovulation',
-      'period',
-      'pregnancy-conception',
-      'pregnancy-weight-gain',
-    ]
-  },
-  {
-    id: 'health-fitness',
-    calculators: [
-      'heart-rate',
-      'gfr',
-      'one-rep-max',
-      'pace',
-      'sleep',
-      'bac',
-      'blood-type',
-    ]
-  },
-  {
-    id: 'general',
-    calculators: [
-      'age',
-      'date',
-      'percentage',
-      'tip',
-    ]
-  }
+const categoryOrder: CategoryId[] = [
+  'body-composition',
+  'nutrition',
+  'pregnancy-fertility',
+  'health-fitness',
+  'general'
 ];
 
+/**
+ * Calculator categories
+ * Derived from the index category declared in the calculator registry,
+ * keeping registry order within each section
+ */
+export const categories: Category[] = categoryOrder.map(id => ({
+  id,
+  calculators: registry
+    .filter(calculator => calculator.indexCategory === id)
+    .map(calculator => calculator.id)
+}));
+
 /**
  * Category translations
  */
@@ -352,6 +309,28 @@ export const categoryTranslations: Record<Locale, Record<CategoryId, { name: str
       name: 'Общие',
       description: 'Калькуляторы общего назначения для повседневного использования'
     }
+  },
+  ar: {
+    'body-composition': {
+      name: 'تكوين الجسم',
+      description: 'حاسبات لتحليل الوزن ومؤشر كتلة الجسم وتكوين الجسم'
+    },
+    'nutrition': {
+      name: 'التغذية',
+      description: 'أدوات لحساب السعرات الحرارية والمغذيات الكبرى والاحتياجات الغذائية'
+    },
+    'pregnancy-fertility': {
+      name: 'الحمل والخصوبة',
+      description: 'حاسبات الحمل وموعد الولادة والتبويض والدورة الشهرية'
+    },
+    'health-fitness': {
+      name: 'الصحة واللياقة',
+      description: 'حاسبات معدل ضربات القلب والتمارين والصحة العامة'
+    },
+    'general': {
+      name: 'عامة',
+      description: 'حاسبات متعددة الأغراض للاستخدام اليومي'
+    }
   }
 };
 
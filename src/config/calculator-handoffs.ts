@@ -0,0 +1,171 @@
+/**
+ * Calculator hand-offs
+ *
+ * Results (and the inputs behind them) that another calculator takes as
+ * input, e.g. the body fat percentage for BMR's Katch-McArdle formula. After
+ * a calculation, the results panel links to each target calculator with its
+ * input in the target's share parameters (see utils/shareUrl.ts), so the
+ * target page fills in its form and calculates.
+ *
+ * Each hand-off maps the source's input and result to a partial input of the
+ * target; both sides are typed from the registry. Values of 'convert' schemas
+ * are metric, so hand-offs to 'raw' schemas convert them to the unit system
+ * the source was used in.
+ */
+
+import type { Locale } from './languages';
+import type { CalculatorId, CalculatorInput, CalculatorResult } from './calculators';
+import { getBMRRegionalConfig, showBodyFatField } from './bmr-regional';
+import { encodeShareParams } from '@/utils/shareUrl';
+import { toImperial, type InputSchema, type UnitDimension, type UnitSystem } from '@/utils/inputSchema';
+import { bmrInputSchema } from '@/utils/calculators/bmr';
+import { dueDateInputSchema } from '@/utils/calculators/dueDate';
+import { macroInputSchema } from '@/utils/calculators/macro';
+import { proteinInputSchema } from '@/utils/calculators/protein';
+import { tdeeInputSchema } from '@/utils/calculators/tdee';
+
+/**
+ * A calculation of the source calculator
+ */
+export interface HandoffSource<From extends CalculatorId> {
+  input: CalculatorInput<From>;
+  result: CalculatorResult<From>;
+  /** Unit system the form was submitted in */
+  unitSystem: UnitSystem;
+}
+
+export interface CalculatorHandoff<From extends CalculatorId = CalculatorId, To extends CalculatorId = CalculatorId> {
+  from: From;
+  to: To;
+  /** Input schema of the target, to encode its share parameters */
+  schema: InputSchema<CalculatorInput<To>>;
+  map: (source: HandoffSource<From>) => Partial<CalculatorInput<To>>;
+  /** Markets where the hand-off is offered, defaults to all */
+  available?: (locale: Locale) => boolean;
+}
+
+/**
+ * Define a hand-off, inferring the source and target calculators
+ */
+function defineHandoff<const From extends CalculatorId, const To extends CalculatorId>(
+  handoff: CalculatorHandoff<From, To>
+): CalculatorHandoff<From, To> {
+  return handoff;
+}
+
+/**
+ * Convert a metric value for a 'raw' schema in the given unit system
+ */
+function toUnitSystem(value: number, dimension: UnitDimension, unitSystem: UnitSystem): number {
+  return unitSystem === 'imperial' ? toImperial(value, dimension) : value;
+}
+
+/**
+ * All hand-offs, listed in the order they are offered
+ */
+export const handoffs = [
+  defineHandoff({
+    from: 'body-fat',
+    to: 'bmr',
+    schema: bmrInputSchema,
+    map: ({ input, result }) => ({
+      age: input.age,
+      gender: input.gender,
+      heightCm: input.heightCm,
+      weightKg: input.weightKg,
+      bodyFatPercentage: result.bodyFatPercentage,
+    }),
+    // Katch-McArdle is only offered where BMR has the body fat field
+    available: showBodyFatField,
+  }),
+  defineHandoff({
+    from: 'bmr',
+    to: 'tdee',
+    schema: tdeeInputSchema,
+    map: ({ input }) => ({
+      age: input.age,
+      gender: input.gender,
+      heightCm: input.heightCm,
+      weightKg: input.weightKg,
+      bodyFatPercentage: input.bodyFatPercentage,
+    }),
+  }),
+  defineHandoff({
+    from: 'bmr',
+    to: 'macro',
+    schema: macroInputSchema,
+    map: ({ input, unitSystem }) => ({
+      age: input.age,
+      gender: input.gender,
+      height: toUnitSystem(input.heightCm, 'height', unitSystem),
+      weight: toUnitSystem(input.weightKg, 'mass', unitSystem),
+      unitSystem,
+    }),
+    available: locale => !!getBMRRegionalConfig(locale).features.macroLink,
+  }),
+  defineHandoff({
+    from: 'tdee',
+    to: 'macro',
+    schema: macroInputSchema,
+    map: ({ input, unitSystem }) => ({
+      age: input.age,
+      gender: input.gender,
+      height: toUnitSystem(input.heightCm, 'height', unitSystem),
+      weight: toUnitSystem(input.weightKg, 'mass', unitSystem),
+      activityLevel: ({
+        'sedentary': 'sedentary',
+        'light': 'light',
+        'moderate': 'moderate',
+        'active': 'active',
+        'very-active': 'veryActive',
+        'extra-active': 'extraActive',
+      } as const)[input.activityLevel],
+      unitSystem,
+    }),
+  }),
+  defineHandoff({
+    from: 'tdee',
+    to: 'protein',
+    schema: proteinInputSchema,
+    map: ({ input, unitSystem }) => ({
+      weight: toUnitSystem(input.weightKg, 'mass', unitSystem),
+      // The protein calculator's most active level covers both of TDEE's
+      activityLevel: ({
+        'sedentary': 'sedentary',
+        'light': 'light',
+        'moderate': 'moderate',
+        'active': 'active',
+        'very-active': 'very_active',
+        'extra-active': 'very_active',
+      } as const)[input.activityLevel],
+      unitSystem,
+    }),
+  }),
+  defineHandoff({
+    from: 'period',
+    to: 'due-date',
+    schema: dueDateInputSchema,
+    map: ({ input }) => ({
+      method: 'lmp' as const,
+      date: input.lastPeriodDate,
+      cycleLength: input.cycleLength,
+    }),
+  }),
+];
+
+/**
+ * Get the hand-offs offered from a calculator in a market
+ */
+export function getHandoffs(calculatorId: CalculatorId, locale: Locale): CalculatorHandoff[] {
+  return handoffs.filter(handoff => handoff.from === calculatorId && (handoff.available?.(locale) ?? true)) as CalculatorHandoff[];
+}
+
+/**
+ * Share parameters that open the target of a hand-off with the source's values
+ */
+export function getHandoffParams<From extends CalculatorId, To extends CalculatorId>(
+  handoff: CalculatorHandoff<From, To>,
+  source: HandoffSource<From>
+): URLSearchParams {
+  return encodeShareParams(handoff.schema, handoff.map(source), { unitSystem: source.unitSystem });
+}
@@ -0,0 +1,941 @@
+/**
+ * Calculator registry
+ *
+ * Single source of truth for every calculator in the application.
+ * Each entry declares:
+ * - id: Calculator identifier, also the MDX and translation file name
+ * - acronym: Whether the id is an acronym (uppercased in the component name)
+ * - category: Category label shown on the homepage and in MDX frontmatter
+ * - indexCategory: Section the calculator is listed under on the index pages
+ * - slugs: URL slug for every supported language
+ * - inputs: Input schema used to render the form and parse its values
+ * - validate: Field-level validation of the parsed input
+ * - compute: Main calculation entry point from src/utils/calculators
+ * - trends: Numeric results plotted over time in the calculation history
+ *
+ * Calculator IDs, routes, component names, category maps, test helpers and
+ * translation bundles are all derived from this list, so a calculator with a
+ * missing slug or category fails type-checking instead of producing a 404.
+ *
+ * Entries are listed in the order they appear on the calculator index pages.
+ */
+
+import type { Locale } from './languages';
+import type { CategoryId } from './categories';
+import type { CategoryId as IndexCategoryId } from './calculator-categories';
+import type { TranslationKey } from '@/utils/i18n';
+import type { InputSchema } from '@/utils/inputSchema';
+import type { ValidationResult } from '@/utils/validation';
+import { ageInputSchema, calculateAge, validateAgeInput } from '@/utils/calculators/age';
+import { armyBodyFatInputSchema, calculateArmyBodyFatMetrics, validateArmyBodyFatInput } from '@/utils/calculators/armyBodyFat';
+import { bacInputSchema, calculateBAC, validateBACInput } from '@/utils/calculators/bac';
+import { bloodTypeInputSchema, calculateBloodTypeProbabilities, validateBloodTypeInput } from '@/utils/calculators/bloodType';
+import { bmiInputSchema, calculateBMIMetrics, validateBMIInput } from '@/utils/calculators/bmi';
+import { bmrInputSchema, calculateBMR, validateBMRInput } from '@/utils/calculators/bmr';
+import { bodyFatInputSchema, calculateBodyFat, validateBodyFatInput } from '@/utils/calculators/bodyFat';
+import { bodyFrameInputSchema, calculateBodyFrame, validateBodyFrameInput } from '@/utils/calculators/bodyFrame';
+import { bodyTypeInputSchema, calculateBodyTypeMetrics, validateBodyTypeInput } from '@/utils/calculators/bodyType';
+import { bsaInputSchema, calculateBSAMetrics, validateBSAInput } from '@/utils/calculators/bsa';
+import { calculateCalories, calorieInputSchema, validateCalorieInput } from '@/utils/calculators/calorie';
+import { calculateCaloriesBurned, caloriesBurnedInputSchema, validateCaloriesBurnedInput } from '@/utils/calculators/caloriesBurned';
+import { calculateCarbohydrateNeeds, carbohydrateInputSchema, validateCarbohydrateInput } from '@/utils/calculators/carbohydrate';
+import { addSubtractDate, dateAddSubtractInputSchema, validateDateAddSubtractInput } from '@/utils/calculators/date';
+import { calculateDueDate, dueDateInputSchema, validateDueDateInput } from '@/utils/calculators/dueDate';
+import { calculateFatIntake, fatIntakeInputSchema, validateFatIntakeInput } from '@/utils/calculators/fatIntake';
+import { calculateGFR, gfrInputSchema, validateGFRInput } from '@/utils/calculators/gfr';
+import { calculateHealthyWeight, healthyWeightInputSchema, validateHealthyWeightInput } from '@/utils/calculators/healthyWeight';
+import { calculateHeartRateMetrics, heartRateInputSchema, validateHeartRateInput } from '@/utils/calculators/heartRate';
+import { calculateIdealWeight, idealWeightInputSchema, validateIdealWeightInput } from '@/utils/calculators/idealWeight';
+import { calculateLBMMetrics, lbmInputSchema, validateLBMInput } from '@/utils/calculators/leanBodyMass';
+import { calculateMacroMetrics, macroInputSchema, validateMacroInput } from '@/utils/calculators/macro';
+import { calculateOneRepMax, oneRepMaxInputSchema, validateOneRepMaxInput } from '@/utils/calculators/oneRepMax';
+import { calculateOvulation, ovulationInputSchema, validateOvulationInput } from '@/utils/calculators/ovulation';
+import { calculatePaceMetrics, paceInputSchema, validatePaceInput } from '@/utils/calculators/pace';
+import { calculatePercentage, percentageInputSchema, validatePercentageInput } from '@/utils/calculators/percentage';
+import { calculatePeriodMetrics, periodInputSchema, validatePeriodInput } from '@/utils/calculators/period';
+import { calculatePregnancyMetrics, pregnancyInputSchema, validatePregnancyInput } from '@/utils/calculators/pregnancy';
+import { calculatePregnancyConception, pregnancyConceptionInputSchema, validatePregnancyConceptionInput } from '@/utils/calculators/pregnancyConception';
+import { calculatePregnancyWeightGain, pregnancyWeightGainInputSchema, validatePregnancyWeightGainInput } from '@/utils/calculators/pregnancyWeightGain';
+import { calculateProteinMetrics, proteinInputSchema, validateProteinInput } from '@/utils/calculators/protein';
+import { calculateSleepTimes, sleepInputSchema, validateSleepInput } from '@/utils/calculators/sleep';
+import { calculateTDEE, tdeeInputSchema, validateTDEEInput } from '@/utils/calculators/tdee';
+import { calculateTip, tipInputSchema, validateTipInput } from '@/utils/calculators/tip';
+import { calculateWaistHipMetrics, validateWaistHipInput, waistHipInputSchema } from '@/utils/calculators/waistHip';
+import { calculateFoodPoints, foodPointsInputSchema, validateFoodPointsInput } from '@/utils/calculators/weightWatchers';
+
+export interface CalculatorDefinition<Id extends string = string, Input = unknown, Result = unknown> {
+  id: Id;
+  acronym?: boolean;
+  category: CategoryId;
+  indexCategory: IndexCategoryId;
+  slugs: Record<Locale, string>;
+  inputs: InputSchema<Input>;
+  validate: (input: Partial<Input>) => ValidationResult;
+  compute: (input: Input) => Result;
+  trends?: TrendMetric<Result>[];
+}
+
+/**
+ * Numeric top-level result plotted in the calculation history
+ */
+export interface TrendMetric<Result = unknown> {
+  key: Extract<keyof Result, string>;
+  /** Translation key of the label */
+  label: TranslationKey;
+}
+
+/**
+ * Define a calculator entry, inferring its id literal and input type
+ */
+function defineCalculator<const Id extends string, Input, Result>(
+  definition: CalculatorDefinition<Id, Input, Result>
+): CalculatorDefinition<Id, Input, Result> {
+  return definition;
+}
+
+/**
+ * All registered calculators
+ */
+export const registry = [
+  defineCalculator({
+    id: 'bmi',
+    acronym: true,
+    category: 'health-fitness',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'imc',
+      en: 'bmi',
+      pt: 'imc',
+      fr: 'imc',
+      hi: 'bmi',
+      de: 'bmi',
+      it: 'imc',
+      pl: 'bmi',
+      nl: 'bmi',
+      tr: 'vki',
+      sv: 'bmi',
+      ru: 'imt',
+      ar: 'muashir-kutlat-aljism'
+    },
+    inputs: bmiInputSchema,
+    validate: validateBMIInput,
+    compute: calculateBMIMetrics,
+    trends: [{ key: 'bmi', label: 'bmi.results.bmiValue' }]
+  }),
+  defineCalculator({
+    id: 'bmr',
+    acronym: true,
+    category: 'health-fitness',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'tmb',
+      en: 'bmr',
+      pt: 'tmb',
+      fr: 'mb',
+      hi: 'bmr',
+      de: 'bmr',
+      it: 'mb',
+      pl: 'ppm',
+      nl: 'bmr',
+      tr: 'bmh',
+      sv: 'bmr',
+      ru: 'obm',
+      ar: 'muadal-alayd-alasasi'
+    },
+    inputs: bmrInputSchema,
+    validate: validateBMRInput,
+    compute: calculateBMR,
+    trends: [{ key: 'recommended', label: 'bmr.results.yourBMR' }]
+  }),
+  defineCalculator({
+    id: 'body-fat',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'grasa-corporal',
+      en: 'body-fat',
+      pt: 'gordura-corporal',
+      fr: 'graisse-corporelle',
+      hi: 'body-fat',
+      de: 'body-fat',
+      it: 'grasso-corporeo',
+      pl: 'tkanka-tluszczowa',
+      nl: 'lichaamsvet',
+      tr: 'vucut-yag',
+      sv: 'kroppsfett',
+      ru: 'zhir-tela',
+      ar: 'dohun-aljism'
+    },
+    inputs: bodyFatInputSchema,
+    validate: validateBodyFatInput,
+    compute: calculateBodyFat,
+    trends: [{ key: 'bodyFatPercentage', label: 'bodyFat.results.bodyFatPercentage' }]
+  }),
+  defineCalculator({
+    id: 'army-body-fat',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'grasa-corporal-ejercito',
+      en: 'army-body-fat',
+      pt: 'gordura-corporal-exercito',
+      fr: 'graisse-corporelle-armee',
+      hi: 'army-body-fat',
+      de: 'army-body-fat',
+      it: 'grasso-corporeo-esercito',
+      pl: 'tkanka-tluszczowa-wojsko',
+      nl: 'lichaamsvet-leger',
+      tr: 'ordu-vucut-yag',
+      sv: 'kroppsfett-militaren',
+      ru: 'zhir-tela-armiya',
+      ar: 'dohun-aljism-aljaysh'
+    },
+    inputs: armyBodyFatInputSchema,
+    validate: validateArmyBodyFatInput,
+    compute: calculateArmyBodyFatMetrics,
+    trends: [{ key: 'bodyFatPercentage', label: 'armyBodyFat.results.bodyFatValue' }]
+  }),
+  defineCalculator({
+    id: 'body-frame',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'complexion',
+      en: 'body-frame',
+      pt: 'estrutura-corporal',
+      fr: 'morphologie',
+      hi: 'body-frame',
+      de: 'body-frame',
+      it: 'corporatura',
+      pl: 'budowa-ciala',
+      nl: 'lichaamsbouw',
+      tr: 'vucut-yapilanmasi',
+      sv: 'kroppsbyggnad',
+      ru: 'teloslozheniye',
+      ar: 'haykal-aljism'
+    },
+    inputs: bodyFrameInputSchema,
+    validate: validateBodyFrameInput,
+    compute: calculateBodyFrame
+  }),
+  defineCalculator({
+    id: 'body-type',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'tipo-cuerpo',
+      en: 'body-type',
+      pt: 'tipo-corpo',
+      fr: 'type-corps',
+      hi: 'body-type',
+      de: 'body-type',
+      it: 'tipo-corpo',
+      pl: 'typ-sylwetki',
+      nl: 'lichaamstype',
+      tr: 'vucut-tipi',
+      sv: 'kroppstyp',
+      ru: 'tip-tela',
+      ar: 'naw-aljism'
+    },
+    inputs: bodyTypeInputSchema,
+    validate: validateBodyTypeInput,
+    compute: calculateBodyTypeMetrics
+  }),
+  defineCalculator({
+    id: 'bsa',
+    acronym: true,
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'superficie-corporal',
+      en: 'bsa',
+      pt: 'superficie-corporal',
+      fr: 'surface-corporelle',
+      hi: 'bsa',
+      de: 'bsa',
+      it: 'superficie-corporea',
+      pl: 'powierzchnia-ciala',
+      nl: 'lichaamsoppervlak',
+      tr: 'vucut-yuzey-alani',
+      sv: 'kroppsyta',
+      ru: 'poverkhnost-tela',
+      ar: 'masahat-sath-aljism'
+    },
+    inputs: bsaInputSchema,
+    validate: validateBSAInput,
+    compute: calculateBSAMetrics
+  }),
+  defineCalculator({
+    id: 'healthy-weight',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'peso-saludable',
+      en: 'healthy-weight',
+      pt: 'peso-saudavel',
+      fr: 'poids-sante',
+      hi: 'healthy-weight',
+      de: 'gesundes-gewicht',
+      it: 'peso-salutare',
+      pl: 'zdrowa-waga',
+      nl: 'gezond-gewicht',
+      tr: 'saglikli-kilo',
+      sv: 'halsosamvikt',
+      ru: 'zdorovyy-ves',
+      ar: 'alwazn-alsihhi'
+    },
+    inputs: healthyWeightInputSchema,
+    validate: validateHealthyWeightInput,
+    compute: calculateHealthyWeight
+  }),
+  defineCalculator({
+    id: 'ideal-weight',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'peso-ideal',
+      en: 'ideal-weight',
+      pt: 'peso-ideal',
+      fr: 'poids-ideal',
+      hi: 'ideal-weight',
+      de: 'idealgewicht',
+      it: 'peso-ideale',
+      pl: 'idealna-waga',
+      nl: 'ideaal-gewicht',
+      tr: 'ideal-kilo',
+      sv: 'idealvikt',
+      ru: 'idealnyy-ves',
+      ar: 'alwazn-almithali'
+    },
+    inputs: idealWeightInputSchema,
+    validate: validateIdealWeightInput,
+    compute: calculateIdealWeight
+  }),
+  defineCalculator({
+    id: 'lean-body-mass',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'masa-corporal-magra',
+      en: 'lean-body-mass',
+      pt: 'massa-corporal-magra',
+      fr: 'masse-maigre',
+      hi: 'lean-body-mass',
+      de: 'magermasse',
+      it: 'massa-magra',
+      pl: 'beztluszczowa-masa-ciala',
+      nl: 'vetvrije-massa',
+      tr: 'yagsiz-vucut-kutle',
+      sv: 'fettfri-massa',
+      ru: 'myshechnaya-massa',
+      ar: 'kutlat-aljism-alkhaliya'
+    },
+    inputs: lbmInputSchema,
+    validate: validateLBMInput,
+    compute: calculateLBMMetrics
+  }),
+  defineCalculator({
+    id: 'waist-hip',
+    category: 'body-composition',
+    indexCategory: 'body-composition',
+    slugs: {
+      es: 'cintura-cadera',
+      en: 'waist-hip',
+      pt: 'cintura-quadril',
+      fr: 'taille-hanches',
+      hi: 'waist-hip',
+      de: 'taille-hufte',
+      it: 'vita-fianchi',
+      pl: 'talia-biodra',
+      nl: 'taille-heup',
+      tr: 'bel-kalca',
+      sv: 'midja-hoft',
+      ru: 'taliya-bedra',
+      ar: 'alkhasr-walwirk'
+    },
+    inputs: waistHipInputSchema,
+    validate: validateWaistHipInput,
+    compute: calculateWaistHipMetrics,
+    trends: [{ key: 'whr', label: 'waistHip.results.whrValue' }]
+  }),
+  defineCalculator({
+    id: 'calorie',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'calorias',
+      en: 'calorie',
+      pt: 'calorias',
+      fr: 'calories',
+      hi: 'calorie',
+      de: 'kalorien',
+      it: 'calorie',
+      pl: 'kalorie',
+      nl: 'calorieen',
+      tr: 'kalori',
+      sv: 'kalorier',
+      ru: 'kalorii',
+      ar: 'alsuarat'
+    },
+    inputs: calorieInputSchema,
+    validate: validateCalorieInput,
+    compute: calculateCalories
+  }),
+  defineCalculator({
+    id: 'tdee',
+    acronym: true,
+    category: 'health-fitness',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'gasto-energetico-diario',
+      en: 'tdee',
+      pt: 'gasto-energetico-diario',
+      fr: 'depense-energetique-quotidienne',
+      hi: 'tdee',
+      de: 'gesamtumsatz',
+      it: 'dispendio-energetico-totale',
+      pl: 'calkowite-wydatki-energetyczne',
+      nl: 'totaal-dagelijks-energieverbruik',
+      tr: 'gunluk-enerji-harcamasi',
+      sv: 'total-daglig-energiforbrukning',
+      ru: 'obshchiy-raskhod-energii',
+      ar: 'ijmali-istihlak-altaqa'
+    },
+    inputs: tdeeInputSchema,
+    validate: validateTDEEInput,
+    compute: calculateTDEE
+  }),
+  defineCalculator({
+    id: 'macro',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'macros',
+      en: 'macro',
+      pt: 'macros',
+      fr: 'macros',
+      hi: 'macro',
+      de: 'makros',
+      it: 'macro',
+      pl: 'makroskadniki',
+      nl: 'macros',
+      tr: 'makrolar',
+      sv: 'makron',
+      ru: 'makronutrienty',
+      ar: 'almughadhiyat-alkubra'
+    },
+    inputs: macroInputSchema,
+    validate: validateMacroInput,
+    compute: calculateMacroMetrics
+  }),
+  defineCalculator({
+    id: 'protein',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'proteinas',
+      en: 'protein',
+      pt: 'proteinas',
+      fr: 'proteines',
+      hi: 'protein',
+      de: 'protein',
+      it: 'proteine',
+      pl: 'bialko',
+      nl: 'proteinen',
+      tr: 'protein',
+      sv: 'protein',
+      ru: 'belok',
+      ar: 'albrotin'
+    },
+    inputs: proteinInputSchema,
+    validate: validateProteinInput,
+    compute: calculateProteinMetrics
+  }),
+  defineCalculator({
+    id: 'carbohydrate',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'carbohidratos',
+      en: 'carbohydrate',
+      pt: 'carboidratos',
+      fr: 'glucides',
+      hi: 'carbohydrate',
+      de: 'kohlenhydrate',
+      it: 'carboidrati',
+      pl: 'weglowodany',
+      nl: 'koolhydraten',
+      tr: 'karbonhidrat',
+      sv: 'kolhydrater',
+      ru: 'uglevody',
+      ar: 'alkarbohydrat'
+    },
+    inputs: carbohydrateInputSchema,
+    validate: validateCarbohydrateInput,
+    compute: calculateCarbohydrateNeeds
+  }),
+  defineCalculator({
+    id: 'fat-intake',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'consumo-grasas',
+      en: 'fat-intake',
+      pt: 'consumo-gorduras',
+      fr: 'apport-lipides',
+      hi: 'fat-intake',
+      de: 'fettaufnahme',
+      it: 'assunzione-grassi',
+      pl: 'spozycie-tluszczow',
+      nl: 'vetinname',
+      tr: 'yag-tuketimi',
+      sv: 'fettintag',
+      ru: 'potrebleniye-zhirov',
+      ar: 'istihlak-aldohun'
+    },
+    inputs: fatIntakeInputSchema,
+    validate: validateFatIntakeInput,
+    compute: calculateFatIntake
+  }),
+  defineCalculator({
+    id: 'calories-burned',
+    category: 'health-fitness',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'calorias-quemadas',
+      en: 'calories-burned',
+      pt: 'calorias-queimadas',
+      fr: 'calories-brulees',
+      hi: 'calories-burned',
+      de: 'verbrannte-kalorien',
+      it: 'calorie-bruciate',
+      pl: 'spalone-kalorie',
+      nl: 'verbrande-calorieen',
+      tr: 'yakilan-kalori',
+      sv: 'branda-kalorier',
+      ru: 'sozhzhennye-kalorii',
+      ar: 'alsuarat-almahruqa'
+    },
+    inputs: caloriesBurnedInputSchema,
+    validate: validateCaloriesBurnedInput,
+    compute: calculateCaloriesBurned
+  }),
+  defineCalculator({
+    id: 'weight-watchers',
+    category: 'nutrition',
+    indexCategory: 'nutrition',
+    slugs: {
+      es: 'weight-watchers',
+      en: 'weight-watchers',
+      pt: 'weight-watchers',
+      fr: 'weight-watchers',
+      hi: 'weight-watchers',
+      de: 'weight-watchers',
+      it: 'weight-watchers',
+      pl: 'weight-watchers',
+      nl: 'weight-watchers',
+      tr: 'weight-watchers',
+      sv: 'weight-watchers',
+      ru: 'weight-watchers',
+      ar: 'weight-watchers'
+    },
+    inputs: foodPointsInputSchema,
+    validate: validateFoodPointsInput,
+    compute: calculateFoodPoints
+  }),
+  defineCalculator({
+    id: 'pregnancy',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'embarazo',
+      en: 'pregnancy',
+      pt: 'gravidez',
+      fr: 'grossesse',
+      hi: 'pregnancy',
+      de: 'schwangerschaft',
+      it: 'gravidanza',
+      pl: 'ciaza',
+      nl: 'zwangerschap',
+      tr: 'hamilelik',
+      sv: 'graviditet',
+      ru: 'beremennost',
+      ar: 'alhaml'
+    },
+    inputs: pregnancyInputSchema,
+    validate: validatePregnancyInput,
+    compute: calculatePregnancyMetrics
+  }),
+  defineCalculator({
+    id: 'due-date',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'fecha-parto',
+      en: 'due-date',
+      pt: 'data-parto',
+      fr: 'date-accouchement',
+      hi: 'due-date',
+      de: 'geburtstermin',
+      it: 'data-parto',
+      pl: 'termin-porodu',
+      nl: 'uitgerekende-datum',
+      tr: 'dogum-tarihi',
+      sv: 'beraknad-forlossning',
+      ru: 'data-rodov',
+      ar: 'mawid-alwilada'
+    },
+    inputs: dueDateInputSchema,
+    validate: validateDueDateInput,
+    compute: calculateDueDate
+  }),
+  defineCalculator({
+    id: 'ovulation',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'ovulacion',
+      en: 'ovulation',
+      pt: 'ovulacao',
+      fr: 'ovulation',
+      hi: 'ovulation',
+      de: 'eisprung',
+      it: 'ovulazione',
+      pl: 'owulacja',
+      nl: 'eisprong',
+      tr: 'yumurtlama',
+      sv: 'agglosning',
+      ru: 'ovulyatsiya',
+      ar: 'altabwid'
+    },
+    inputs: ovulationInputSchema,
+    validate: validateOvulationInput,
+    compute: calculateOvulation
+  }),
+  defineCalculator({
+    id: 'period',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'periodo',
+      en: 'period',
+      pt: 'periodo',
+      fr: 'regles',
+      hi: 'period',
+      de: 'periode',
+      it: 'periodo',
+      pl: 'okres',
+      nl: 'periode',
+      tr: 'donem',
+      sv: 'period',
+      ru: 'period',
+      ar: 'aldawra-alshahriya'
+    },
+    inputs: periodInputSchema,
+    validate: validatePeriodInput,
+    compute: calculatePeriodMetrics
+  }),
+  defineCalculator({
+    id: 'pregnancy-conception',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'concepcion-embarazo',
+      en: 'pregnancy-conception',
+      pt: 'concepcao-gravidez',
+      fr: 'conception-grossesse',
+      hi: 'pregnancy-conception',
+      de: 'empfangnis-schwangerschaft',
+      it: 'concepimento-gravidanza',
+      pl: 'poczecie-ciaza',
+      nl: 'conceptie-zwangerschap',
+      tr: 'gebelik-donemi',
+      sv: 'befruktning-graviditet',
+      ru: 'zachatiye-beremennost',
+      ar: 'tarikh-alhaml'
+    },
+    inputs: pregnancyConceptionInputSchema,
+    validate: validatePregnancyConceptionInput,
+    compute: calculatePregnancyConception
+  }),
+  defineCalculator({
+    id: 'pregnancy-weight-gain',
+    category: 'pregnancy',
+    indexCategory: 'pregnancy-fertility',
+    slugs: {
+      es: 'aumento-peso-embarazo',
+      en: 'pregnancy-weight-gain',
+      pt: 'aumento-peso-gravidez',
+      fr: 'prise-poids-grossesse',
+      hi: 'pregnancy-weight-gain',
+      de: 'gewichtszunahme-schwangerschaft',
+      it: 'aumento-peso-gravidanza',
+      pl: 'przyrost-masy-ciaza',
+      nl: 'gewichtstoename-zwangerschap',
+      tr: 'hamilelik-kilo-alimi',
+      sv: 'viktuppgang-graviditet',
+      ru: 'nabor-vesa-beremennost',
+      ar: 'ziyadat-alwazn-alhaml'
+    },
+    inputs: pregnancyWeightGainInputSchema,
+    validate: validatePregnancyWeightGainInput,
+    compute: calculatePregnancyWeightGain
+  }),
+  defineCalculator({
+    id: 'heart-rate',
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'frecuencia-cardiaca',
+      en: 'heart-rate',
+      pt: 'frequencia-cardiaca',
+      fr: 'frequence-cardiaque',
+      hi: 'heart-rate',
+      de: 'herzfrequenz',
+      it: 'frequenza-cardiaca',
+      pl: 'tetno',
+      nl: 'hartslag',
+      tr: 'kalp-hizi',
+      sv: 'hjartfrekvens',
+      ru: 'puls',
+      ar: 'muadal-darabat-alqalb'
+    },
+    inputs: heartRateInputSchema,
+    validate: validateHeartRateInput,
+    compute: calculateHeartRateMetrics,
+    trends: [{ key: 'restingHeartRate', label: 'heartRate.results.restingHR' }]
+  }),
+  defineCalculator({
+    id: 'gfr',
+    acronym: true,
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'tasa-filtracion-glomerular',
+      en: 'gfr',
+      pt: 'taxa-filtracao-glomerular',
+      fr: 'debit-filtration-glomerulaire',
+      hi: 'gfr',
+      de: 'gfr',
+      it: 'velocita-filtrazione-glomerulare',
+      pl: 'przesaczanie-klebuszkowe',
+      nl: 'gfr',
+      tr: 'glomerular-filtrasyon-hizi',
+      sv: 'gfr',
+      ru: 'skorost-klubochkovoy-filtratsii',
+      ar: 'muadal-altarshih-alkubaybi'
+    },
+    inputs: gfrInputSchema,
+    validate: validateGFRInput,
+    compute: calculateGFR,
+    trends: [{ key: 'gfr', label: 'gfr.results.gfrValue' }]
+  }),
+  defineCalculator({
+    id: 'one-rep-max',
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: '1rm',
+      en: 'one-rep-max',
+      pt: '1rm',
+      fr: '1rm',
+      hi: 'one-rep-max',
+      de: '1rm',
+      it: '1rm',
+      pl: '1rm',
+      nl: '1rm',
+      tr: '1rm',
+      sv: '1rm',
+      ru: '1rm',
+      ar: '1rm'
+    },
+    inputs: oneRepMaxInputSchema,
+    validate: validateOneRepMaxInput,
+    compute: calculateOneRepMax
+  }),
+  defineCalculator({
+    id: 'pace',
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'ritmo',
+      en: 'pace',
+      pt: 'ritmo',
+      fr: 'allure',
+      hi: 'pace',
+      de: 'tempo',
+      it: 'ritmo',
+      pl: 'tempo',
+      nl: 'tempo',
+      tr: 'tempo',
+      sv: 'tempo',
+      ru: 'temp',
+      ar: 'alwatira'
+    },
+    inputs: paceInputSchema,
+    validate: validatePaceInput,
+    compute: calculatePaceMetrics
+  }),
+  defineCalculator({
+    id: 'sleep',
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'sueno',
+      en: 'sleep',
+      pt: 'sono',
+      fr: 'sommeil',
+      hi: 'sleep',
+      de: 'schlaf',
+      it: 'sonno',
+      pl: 'sen',
+      nl: 'slaap',
+      tr: 'uyku',
+      sv: 'somn',
+      ru: 'son',
+      ar: 'alnawm'
+    },
+    inputs: sleepInputSchema,
+    validate: validateSleepInput,
+    compute: calculateSleepTimes
+  }),
+  defineCalculator({
+    id: 'bac',
+    acronym: true,
+    category: 'health-fitness',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'alcoholemia',
+      en: 'bac',
+      pt: 'alcoolemia',
+      fr: 'alcoolemie',
+      hi: 'bac',
+      de: 'bak',
+      it: 'tasso-alcolemico',
+      pl: 'alkohol-we-krwi',
+      nl: 'bac',
+      tr: 'kan-alkol',
+      sv: 'promille',
+      ru: 'uroven-alkogolya',
+      ar: 'nisbat-alkohol-aldam'
+    },
+    inputs: bacInputSchema,
+    validate: validateBACInput,
+    compute: calculateBAC
+  }),
+  defineCalculator({
+    id: 'blood-type',
+    category: 'general',
+    indexCategory: 'health-fitness',
+    slugs: {
+      es: 'tipo-sangre',
+      en: 'blood-type',
+      pt: 'tipo-sanguineo',
+      fr: 'groupe-sanguin',
+      hi: 'blood-type',
+      de: 'blood-type',
+      it: 'gruppo-sanguigno',
+      pl: 'grupa-krwi',
+      nl: 'bloedgroep',
+      tr: 'kan-grubu',
+      sv: 'blodgrupp',
+      ru: 'gruppa-krovi',
+      ar: 'fasilat-aldam'
+    },
+    inputs: bloodTypeInputSchema,
+    validate: validateBloodTypeInput,
+    compute: calculateBloodTypeProbabilities
+  }),
+  defineCalculator({
+    id: 'age',
+    category: 'date-time',
+    indexCategory: 'general',
+    slugs: {
+      es: 'edad',
+      en: 'age',
+      pt: 'idade',
+      fr: 'age',
+      hi: 'age',
+      de: 'alter',
+      it: 'eta',
+      pl: 'wiek',
+      nl: 'leeftijd',
+      tr: 'yas',
+      sv: 'alder',
+      ru: 'vozrast',
+      ar: 'alumr'
+    },
+    inputs: ageInputSchema,
+    validate: validateAgeInput,
+    compute: calculateAge
+  }),
+  defineCalculator({
+    id: 'date',
+    category: 'date-time',
+    indexCategory: 'general',
+    slugs: {
+      es: 'fecha',
+      en: 'date',
+      pt: 'data',
+      fr: 'date',
+      hi: 'date',
+      de: 'datum',
+      it: 'data',
+      pl: 'data',
+      nl: 'datum',
+      tr: 'tarih',
+      sv: 'datum',
+      ru: 'data',
+      ar: 'altarikh'
+    },
+    inputs: dateAddSubtractInputSchema,
+    validate: validateDateAddSubtractInput,
+    compute: addSubtractDate
+  }),
+  defineCalculator({
+    id: 'percentage',
+    category: 'general',
+    indexCategory: 'general',
+    slugs: {
+      es: 'porcentaje',
+      en: 'percentage',
+      pt: 'porcentagem',
+      fr: 'pourcentage',
+      hi: 'percentage',
+      de: 'prozentsatz',
+      it: 'percentuale',
+      pl: 'procent',
+      nl: 'percentage',
+      tr: 'yuzde',
+      sv: 'procent',
+      ru: 'protsent',
+      ar: 'alnisba-almiawiya'
+    },
+    inputs: percentageInputSchema,
+    validate: validatePercentageInput,
+    compute: calculatePercentage
+  }),
+  defineCalculator({
+    id: 'tip',
+    category: 'financial',
+    indexCategory: 'general',
+    slugs: {
+      es: 'propina',
+      en: 'tip',
+      pt: 'gorjeta',
+      fr: 'pourboire',
+      hi: 'tip',
+      de: 'trinkgeld',
+      it: 'mancia',
+      pl: 'napiwek',
+      nl: 'fooi',
+      tr: 'bahsis',
+      sv: 'dricks',
+      ru: 'chaevyye',
+      ar: 'albaqshish'
+    },
+    inputs: tipInputSchema,
+    validate: validateTipInput,
+    compute: calculateTip
+  })
+] as const;
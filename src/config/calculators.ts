@@ -1,115 +1,52 @@
 /**
  * Calculator configuration
  *
- * This file defines all available calculators in the application.
- * Each calculator ID must have:
+ * This file exposes the calculator IDs defined in the registry
+ * (src/config/calculator-registry.ts). Each calculator ID must have:
  * - A corresponding component in src/components/calculators/{ID}Calculator.astro
  * - A corresponding utility in src/utils/calculators/{ID}.ts
  * - Translation files in public/locales/{lang}/calculators/{ID}.json for each language
  * - MDX content files in src/content/calculators/{lang}/{ID}.mdx for each language
  */
 
-export type CalculatorId =
-  | 'age'
-  | 'army-body-fat'
-  | 'bac'
-  | 'bmi'
-  | 'bmr'
-  | 'blood-type'
-  | 'body-fat'
-  | 'body-frame'
-  | 'body-type'
-  | 'bsa'
-  | 'calorie'
-  | 'calories-burned'
-  | 'carbohydrate'
-  | 'date'
-  | 'due-date'
-  | 'fat-intake'
-  | 'gfr'
-  | 'healthy-weight'
-  | 'heart-rate'
-  | 'ideal-weight'
-  | 'lean-body-mass'
-  | 'macro'
-  | 'one-rep-max'
-  | 'ovulation'
-  | 'pace'
-  | 'percentage'
-  | 'period'
-  | 'pregnancy'
-  | 'pregnancy-conception'
-  | 'pregnancy-weight-gain'
-  | 'protein'
-  | 'sleep'
-  | 'tdee'
-  | 'tip'
-  | 'waist-hip'
-  | 'weight-watchers';
+import { registry } from './calculator-registry';
+
+export type CalculatorId = (typeof registry)[number]['id'];
+
+export type RegisteredCalculator = (typeof registry)[number];
+
+/**
+ * Input and result types of a calculator, from its compute function
+ */
+export type CalculatorInput<Id extends CalculatorId> = Parameters<Extract<RegisteredCalculator, { id: Id }>['compute']>[0];
+export type CalculatorResult<Id extends CalculatorId> = ReturnType<Extract<RegisteredCalculator, { id: Id }>['compute']>;
 
 /**
  * List of all calculator IDs
  */
-export const calculators: CalculatorId[] = [
-  'age',
-  'army-body-fat',
-  'bac',
-  'bmi',
-  'bmr',
-  'blood-type',
-  'body-fat',
-  'body-frame',
-  'body-type',
-  'bsa',
-  'calorie',
-  'calories-burned',
-  'carbohydrate',
-  'date',
-  'due-date',
-  'fat-intake',
-  'gfr',
-  'healthy-weight',
-  'heart-rate',
-  'ideal-weight',
-  'lean-body-mass',
-  'macro',
-  'one-rep-max',
-  'ovulation',
-  'pace',
-  'percentage',
-  'period',
-  'pregnancy',
-  'pregnancy-conception',
-  'pregnancy-weight-gain',
-  'protein',
-  'sleep',
-  'tdee',
-  'tip',
-  'waist-hip',
-  'weight-watchers'
-];
+export const calculators: CalculatorId[] = registry.map(calculator => calculator.id);
 
 /**
- * Acronyms that should be uppercased in component names
+ * Get the registry entry for a calculator
  */
-const ACRONYMS = new Set(['bmi', 'bmr', 'bsa', 'gfr', 'tdee', 'bac']);
+export function getCalculatorDefinition(calculatorId: CalculatorId): RegisteredCalculator {
+  return registry.find(calculator => calculator.id === calculatorId)!;
+}
 
 /**
  * Convert calculator ID to component name
  * Example: 'bmi' -> 'BMICalculator', 'one-rep-max' -> 'OneRepMaxCalculator'
  */
 export function getCalculatorComponentName(calculatorId: CalculatorId): string {
-  // Convert kebab-case to PascalCase, handling acronyms
+  // Acronym IDs are uppercased as a whole
+  if (getCalculatorDefinition(calculatorId).acronym) {
+    return calculatorId.toUpperCase() + 'Calculator';
+  }
+
+  // Otherwise convert kebab-case to PascalCase
   return calculatorId
     .split('-')
-    .map(word => {
-      // Check if this word is an acronym
-      if (ACRONYMS.has(word)) {
-        return word.toUpperCase();
-      }
-      // Otherwise, capitalize first letter
-      return word.charAt(0).toUpperCase() + word.slice(1);
-    })
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
     .join('') + 'Calculator';
 }
 
@@ -8,6 +8,7 @@
  * translated for each language.
  */
 
+import { registry } from './calculator-registry';
 import type { CalculatorId } from './calculators';
 import type { Locale } from './languages';
 
@@ -39,7 +40,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Gezondheid en Fitness',
     'tr': 'Sağlık ve Fitness',
     'sv': 'Hälsa och Fitness',
-    'ru': 'Здоровье и Фитнес'
+    'ru': 'Здоровье и Фитнес',
+    'ar': 'الصحة واللياقة'
   },
   'pregnancy': {
     'en': 'Pregnancy',
@@ -53,7 +55,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Zwangerschap',
     'tr': 'Hamilelik',
     'sv': 'Graviditet',
-    'ru': 'Беременность'
+    'ru': 'Беременность',
+    'ar': 'الحمل'
   },
   'nutrition': {
     'en': 'Nutrition',
@@ -67,7 +70,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Voeding',
     'tr': 'Beslenme',
     'sv': 'Näring',
-    'ru': 'Питание'
+    'ru': 'Питание',
+    'ar': 'التغذية'
   },
   'body-composition': {
     'en': 'Body Composition',
@@ -81,7 +85,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Lichaamssamenstelling',
     'tr': 'Vücut Kompozisyonu',
     'sv': 'Kroppssammansättning',
-    'ru': 'Состав Тела'
+    'ru': 'Состав Тела',
+    'ar': 'تكوين الجسم'
   },
   'date-time': {
     'en': 'Date & Time',
@@ -95,7 +100,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Datum en Tijd',
     'tr': 'Tarih ve Saat',
     'sv': 'Datum och Tid',
-    'ru': 'Дата и Время'
+    'ru': 'Дата и Время',
+    'ar': 'التاريخ والوقت'
   },
   'financial': {
     'en': 'Financial',
@@ -109,7 +115,8 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Financieel',
     'tr': 'Finansal',
     'sv': 'Finansiellt',
-    'ru': 'Финансовый'
+    'ru': 'Финансовый',
+    'ar': 'مالية'
   },
   'general': {
     'en': 'General',
@@ -123,64 +130,18 @@ export const categoryNames: Record<CategoryId, Record<Locale, string>> = {
     'nl': 'Algemeen',
     'tr': 'Genel',
     'sv': 'Allmänt',
-    'ru': 'Общий'
+    'ru': 'Общий',
+    'ar': 'عامة'
   }
 };
 
 /**
  * Mapping of calculator IDs to their categories
+ * Derived from the category declared in the calculator registry
  */
-export const calculatorCategories: Record<CalculatorId, CategoryId> = {
-  // Health & Fitness
-  'bmi': 'health-fitness',
-  'bmr': 'health-fitness',
-  'tdee': 'health-fitness',
-  'heart-rate': 'health-fitness',
-  'gfr': 'health-fitness',
-  'bac': 'health-fitness',
-  'sleep': 'health-fitness',
-  'calories-burned': 'health-fitness',
-  'one-rep-max': 'health-fitness',
-  'pace': 'health-fitness',
-
-  // Pregnancy
-  'pregnancy': 'pregnancy',
-  'due-date': 'pregnancy',
-  'pregnancy-conception': 'pregnancy',
-  'pregnancy-weight-gain': 'pregnancy',
-  'ovulation': 'pregnancy',
-  'period': 'pregnancy',
-
-  // Nutrition
-  'calorie': 'nutrition',
-  'protein': 'nutrition',
-  'carbohydrate': 'nutrition',
-  'macro': 'nutrition',
-  'fat-intake': 'nutrition',
-  'weight-watchers': 'nutrition',
-
-  // Body Composition
-  'body-fat': 'body-composition',
-  'army-body-fat': 'body-composition',
-  'body-frame': 'body-composition',
-  'body-type': 'body-composition',
-  'bsa': 'body-composition',
-  'lean-body-mass': 'body-composition',
-  'ideal-weight': 'body-composition',
-  'healthy-weight': 'body-composition',
-  'waist-hip': 'body-composition',
-
-  // Date & Time
-  'age': 'date-time',
-  'date': 'date-time',
-
-  // Financial
-  'tip': 'financial',
-
-  // General
-  'percentage': 'general',
-  'blood-type': 'general'
-};
+export const calculatorCategories = Object.fromEntries(
+  registry.map(calculator => [calculator.id, calculator.category])
+) as Record<CalculatorId, CategoryId>;
 
 /**
  * Get category for a calculator
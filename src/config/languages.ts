@@ -1,11 +1,23 @@
 /**
  * Language configuration for all supported locales
  *
- * This file defines all supported languages in the application.
- * Each language includes:
+ * Each locale has one profile here, and everything that varies by language
+ * (URLs, HTML attributes, Open Graph, units, currency, number separators) is
+ * derived from it. Each language includes:
  * - name: Native language name
+ * - englishName: Language name in English (labels such as "Switch to German")
+ * - tag: BCP-47 tag of the target market (e.g., es-ES, pt-BR), used in metadata
+ * - ogLocale: Open Graph locale (e.g., es_ES)
  * - folder: URL path segment for calculator listings (e.g., /calculators/, /calculadoras/)
  * - dir: Text direction (ltr or rtl)
+ * - units: Default unit system of calculator forms
+ * - currency, currencySymbol, currencyPosition: How money amounts are written
+ * - decimalSeparator, thousandSeparator: Number separators of calculator results
+ * - wordsPerMinute: Average silent reading speed of adults, for reading times
+ *   (IReST norms; Hindi, not covered by them, from Devanagari reading studies)
+ *
+ * The profile describes the language's main market (see tag); other markets
+ * of the same language are regions in regions.ts.
  */
 
 export type Locale =
@@ -20,74 +32,222 @@ export type Locale =
   | 'nl'
   | 'tr'
   | 'sv'
-  | 'ru';
+  | 'ru'
+  | 'ar';
+
+export type UnitSystem = 'metric' | 'imperial';
 
 export interface LanguageConfig {
   name: string;
+  englishName: string;
+  tag: string;
+  ogLocale: string;
   folder: string;
   dir: 'ltr' | 'rtl';
+  units: UnitSystem;
+  currency: string;
+  currencySymbol: string;
+  currencyPosition: 'before' | 'after';
+  decimalSeparator: '.' | ',';
+  thousandSeparator: ',' | '.' | ' ' | '';
+  wordsPerMinute: number;
 }
 
 export const languages: Record<Locale, LanguageConfig> = {
   es: {
     name: 'Español',
+    englishName: 'Spanish',
+    tag: 'es-ES',
+    ogLocale: 'es_ES',
     folder: 'calculadoras',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 218
   },
   en: {
     name: 'English',
+    englishName: 'English',
+    tag: 'en-US',
+    ogLocale: 'en_US',
     folder: 'calculators',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'imperial',
+    currency: 'USD',
+    currencySymbol: '$',
+    currencyPosition: 'before',
+    decimalSeparator: '.',
+    thousandSeparator: ',',
+    wordsPerMinute: 228
   },
   pt: {
     name: 'Português',
+    englishName: 'Portuguese',
+    tag: 'pt-BR',
+    ogLocale: 'pt_BR',
     folder: 'calculadoras',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'BRL',
+    currencySymbol: 'R$',
+    currencyPosition: 'before',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 181
   },
   fr: {
     name: 'Français',
+    englishName: 'French',
+    tag: 'fr-FR',
+    ogLocale: 'fr_FR',
     folder: 'calculatrices',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: ' ',
+    wordsPerMinute: 195
   },
   hi: {
     name: 'हिन्दी',
+    englishName: 'Hindi',
+    tag: 'hi-IN',
+    ogLocale: 'hi_IN',
     folder: 'calculators',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'INR',
+    currencySymbol: '₹',
+    currencyPosition: 'before',
+    decimalSeparator: '.',
+    thousandSeparator: ',',
+    wordsPerMinute: 150
   },
   de: {
     name: 'Deutsch',
+    englishName: 'German',
+    tag: 'de-DE',
+    ogLocale: 'de_DE',
     folder: 'rechner',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 179
   },
   it: {
     name: 'Italiano',
+    englishName: 'Italian',
+    tag: 'it-IT',
+    ogLocale: 'it_IT',
     folder: 'calcolatrici',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 188
   },
   pl: {
     name: 'Polski',
+    englishName: 'Polish',
+    tag: 'pl-PL',
+    ogLocale: 'pl_PL',
     folder: 'kalkulatory',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'PLN',
+    currencySymbol: 'zł',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: ' ',
+    wordsPerMinute: 166
   },
   nl: {
     name: 'Nederlands',
+    englishName: 'Dutch',
+    tag: 'nl-NL',
+    ogLocale: 'nl_NL',
     folder: 'rekenmachines',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'before',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 202
   },
   tr: {
     name: 'Türkçe',
+    englishName: 'Turkish',
+    tag: 'tr-TR',
+    ogLocale: 'tr_TR',
     folder: 'hesap-makineleri',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'TRY',
+    currencySymbol: '₺',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: '.',
+    wordsPerMinute: 166
   },
   sv: {
     name: 'Svenska',
+    englishName: 'Swedish',
+    tag: 'sv-SE',
+    ogLocale: 'sv_SE',
     folder: 'kalkylatorer',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'SEK',
+    currencySymbol: 'kr',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: ' ',
+    wordsPerMinute: 199
   },
   ru: {
     name: 'Русский',
+    englishName: 'Russian',
+    tag: 'ru-RU',
+    ogLocale: 'ru_RU',
     folder: 'kalkulyatory',
-    dir: 'ltr'
+    dir: 'ltr',
+    units: 'metric',
+    currency: 'RUB',
+    currencySymbol: '₽',
+    currencyPosition: 'after',
+    decimalSeparator: ',',
+    thousandSeparator: ' ',
+    wordsPerMinute: 184
+  },
+  ar: {
+    name: 'العربية',
+    englishName: 'Arabic',
+    tag: 'ar-SA',
+    ogLocale: 'ar_SA',
+    folder: 'hasibat',
+    dir: 'rtl',
+    units: 'metric',
+    currency: 'SAR',
+    currencySymbol: 'ر.س',
+    currencyPosition: 'after',
+    decimalSeparator: '.',
+    thousandSeparator: ',',
+    wordsPerMinute: 138
   }
 };
 
@@ -106,3 +266,54 @@ export function getSupportedLocales(): Locale[] {
 export function isValidLocale(locale: string): locale is Locale {
   return locale in languages;
 }
+
+/**
+ * Get the URL prefix of a locale ('' for the default locale, '/es' otherwise)
+ */
+export function getLocalePrefix(locale: Locale): string {
+  return locale === defaultLocale ? '' : `/${locale}`;
+}
+
+/**
+ * Get the home page path of a locale (e.g., '/', '/es/')
+ */
+export function getHomePath(locale: Locale): string {
+  return `${getLocalePrefix(locale)}/`;
+}
+
+/**
+ * Get the calculator listing path of a locale (e.g., '/calculators/', '/es/calculadoras/')
+ */
+export function getCalculatorsIndexPath(locale: Locale): string {
+  return `${getLocalePrefix(locale)}/${languages[locale].folder}/`;
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ * @example parseAcceptLanguage('es-MX,en;q=0.8,es;q=0.9') // ['es-MX', 'es', 'en']
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.map(param => /^\s*q=([\d.]+)\s*$/.exec(param)).find(Boolean);
+      return { tag, quality: quality ? Number(quality[1]) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Pick the supported locale that best matches the visitor's language preferences
+ * @param preferences - An Accept-Language header or navigator.languages
+ */
+export function detectLocale(preferences: string | readonly string[]): Locale | undefined {
+  const tags = typeof preferences === 'string' ? parseAcceptLanguage(preferences) : preferences;
+  for (const tag of tags) {
+    const language = tag.split('-')[0].toLowerCase();
+    if (isValidLocale(language)) return language;
+  }
+  return undefined;
+}
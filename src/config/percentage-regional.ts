@@ -1,6 +1,7 @@
 /**
  * Regional configuration for percentage calculator
- * Tax rates, currency symbols, and market-specific settings
+ * Tax rates, tip and discount presets, and market-specific settings
+ * (currency and number separators are in the locale profile, languages.ts)
  */
 
 export interface TaxRate {
@@ -10,11 +11,6 @@ export interface TaxRate {
 }
 
 export interface PercentageRegionalConfig {
-  currency: string;
-  currencySymbol: string;
-  currencyPosition: 'before' | 'after';
-  decimalSeparator: '.' | ',';
-  thousandSeparator: ',' | '.' | ' ' | '';
   taxName: string; // IVA, VAT, GST, MwSt, BTW, etc.
   taxRates: TaxRate[];
   commonTipPercentages: number[];
@@ -23,11 +19,6 @@ export interface PercentageRegionalConfig {
 
 export const percentageRegionalConfig: Record<string, PercentageRegionalConfig> = {
   es: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
     taxName: 'IVA',
     taxRates: [
       { rate: 21, label: 'IVA General', description: 'Tipo general (21%)' },
@@ -38,28 +29,17 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
   en: {
-    currency: 'USD',
-    currencySymbol: '$',
-    currencyPosition: 'before',
-    decimalSeparator: '.',
-    thousandSeparator: ',',
     taxName: 'Sales Tax',
     taxRates: [
       { rate: 0, label: 'No Tax', description: 'Tax-free states' },
       { rate: 5, label: 'Low Tax', description: 'Low tax states (5%)' },
       { rate: 7, label: 'Medium Tax', description: 'Medium tax states (7%)' },
       { rate: 10, label: 'High Tax', description: 'High tax states (10%)' },
-      { rate: 20, label: 'UK VAT', description: 'UK Standard VAT (20%)' },
     ],
     commonTipPercentages: [15, 18, 20, 25],
     commonDiscountPercentages: [10, 15, 20, 25, 30, 40, 50, 60, 70],
   },
   de: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
     taxName: 'MwSt',
     taxRates: [
       { rate: 19, label: 'Regelsteuersatz', description: 'Regelsteuersatz (19%)' },
@@ -69,11 +49,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50],
   },
   fr: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: ' ',
     taxName: 'TVA',
     taxRates: [
       { rate: 20, label: 'Taux normal', description: 'Taux normal (20%)' },
@@ -85,11 +60,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
   it: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
     taxName: 'IVA',
     taxRates: [
       { rate: 22, label: 'Aliquota ordinaria', description: 'Aliquota ordinaria (22%)' },
@@ -101,27 +71,16 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
   pt: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
-    taxName: 'IVA',
+    taxName: 'ICMS',
     taxRates: [
-      { rate: 23, label: 'Taxa normal', description: 'Taxa normal - Portugal (23%)' },
-      { rate: 13, label: 'Taxa intermédia', description: 'Taxa intermédia - Portugal (13%)' },
-      { rate: 6, label: 'Taxa reduzida', description: 'Taxa reduzida - Portugal (6%)' },
+      { rate: 18, label: 'ICMS São Paulo', description: 'ICMS - São Paulo (18%)' },
       { rate: 17, label: 'ICMS médio', description: 'ICMS médio - Brasil (17%)' },
+      { rate: 5, label: 'ISS máximo', description: 'ISS - serviços (5%)' },
     ],
     commonTipPercentages: [10],
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
   hi: {
-    currency: 'INR',
-    currencySymbol: '₹',
-    currencyPosition: 'before',
-    decimalSeparator: '.',
-    thousandSeparator: ',',
     taxName: 'GST',
     taxRates: [
       { rate: 28, label: 'GST 28%', description: 'Luxury items (28%)' },
@@ -133,11 +92,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 40, 50, 60, 70],
   },
   nl: {
-    currency: 'EUR',
-    currencySymbol: '€',
-    currencyPosition: 'before',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
     taxName: 'BTW',
     taxRates: [
       { rate: 21, label: 'Algemeen tarief', description: 'Algemeen tarief (21%)' },
@@ -148,11 +102,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50],
   },
   pl: {
-    currency: 'PLN',
-    currencySymbol: 'zł',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: ' ',
     taxName: 'VAT',
     taxRates: [
       { rate: 23, label: 'Stawka podstawowa', description: 'Stawka podstawowa (23%)' },
@@ -164,11 +113,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
   ru: {
-    currency: 'RUB',
-    currencySymbol: '₽',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: ' ',
     taxName: 'НДС',
     taxRates: [
       { rate: 20, label: 'Основная ставка', description: 'Основная ставка (20%)' },
@@ -178,12 +122,17 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonTipPercentages: [10],
     commonDiscountPercentages: [10, 20, 30, 50, 70],
   },
+  ar: {
+    taxName: 'ضريبة القيمة المضافة',
+    taxRates: [
+      { rate: 15, label: 'النسبة الأساسية', description: 'النسبة الأساسية في السعودية (15%)' },
+      { rate: 5, label: 'نسبة الخليج', description: 'النسبة في الإمارات والبحرين (5%)' },
+      { rate: 0, label: 'النسبة الصفرية', description: 'النسبة الصفرية (0%)' },
+    ],
+    commonTipPercentages: [10, 15],
+    commonDiscountPercentages: [10, 20, 30, 50, 70],
+  },
   sv: {
-    currency: 'SEK',
-    currencySymbol: 'kr',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: ' ',
     taxName: 'Moms',
     taxRates: [
       { rate: 25, label: 'Normalskatt', description: 'Normalskatt (25%)' },
@@ -194,11 +143,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
     commonDiscountPercentages: [10, 20, 30, 50],
   },
   tr: {
-    currency: 'TRY',
-    currencySymbol: '₺',
-    currencyPosition: 'after',
-    decimalSeparator: ',',
-    thousandSeparator: '.',
     taxName: 'KDV',
     taxRates: [
       { rate: 20, label: 'Genel Oran', description: 'Genel Oran (20%)' },
@@ -210,30 +154,6 @@ export const percentageRegionalConfig: Record<string, PercentageRegionalConfig>
   },
 };
 
-/**
- * Format number according to locale
- */
-export function formatCurrency(
-  amount: number,
-  locale: string
-): string {
-  const config = percentageRegionalConfig[locale] || percentageRegionalConfig.en;
-
-  // Format number with proper separators
-  const parts = amount.toFixed(2).split('.');
-  const integerPart = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, config.thousandSeparator);
-  const decimalPart = parts[1];
-
-  const formattedNumber = `${integerPart}${config.decimalSeparator}${decimalPart}`;
-
-  // Add currency symbol
-  if (config.currencyPosition === 'before') {
-    return `${config.currencySymbol}${formattedNumber}`;
-  } else {
-    return `${formattedNumber} ${config.currencySymbol}`;
-  }
-}
-
 /**
  * Get tax rates for a specific locale
  */
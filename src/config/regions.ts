@@ -0,0 +1,170 @@
+/**
+ * Regional variants of the supported languages
+ *
+ * A language can be used in several markets (English in the US, the UK and
+ * India). Pages are built once per language; a region only overrides the
+ * market-specific parts of the locale profile and regional configs:
+ * - units, currency and number separators (languages.ts)
+ * - health authority and BMI thresholds (bmi-regional.ts)
+ * - tax name and rates (percentage-regional.ts)
+ * Dates follow the region's tag, which Intl formats them with, so en-GB reads
+ * "15 March 2024" where en-US reads "March 15, 2024".
+ *
+ * The language's own profile is its default region (its tag, e.g. en-US), so
+ * that region has no overrides. The region of a visitor is picked on the
+ * client: their choice in the region selector, else detected from the
+ * browser languages (see utils/region.ts).
+ */
+
+import { languages, parseAcceptLanguage, type LanguageConfig, type Locale } from '@/config/languages';
+import type { BMIThresholdType } from '@/config/bmi-regional';
+import type { TaxRate } from '@/config/percentage-regional';
+
+export type Region =
+  | 'en-US'
+  | 'en-GB'
+  | 'en-IN'
+  | 'es-ES'
+  | 'es-MX'
+  | 'pt-BR'
+  | 'pt-PT';
+
+export interface RegionConfig extends Partial<Pick<
+  LanguageConfig,
+  'ogLocale' | 'units' | 'currency' | 'currencySymbol' | 'currencyPosition' | 'decimalSeparator' | 'thousandSeparator'
+>> {
+  locale: Locale;
+  /** Region name in its language, for the region selector */
+  name: string;
+  healthAuthority?: string;
+  bmiThresholds?: BMIThresholdType;
+  taxName?: string;
+  taxRates?: TaxRate[];
+}
+
+export const regions: Record<Region, RegionConfig> = {
+  'en-US': {
+    locale: 'en',
+    name: 'United States'
+  },
+  'en-GB': {
+    locale: 'en',
+    name: 'United Kingdom',
+    ogLocale: 'en_GB',
+    units: 'metric',
+    currency: 'GBP',
+    currencySymbol: '£',
+    healthAuthority: 'WHO, NHS, NICE',
+    taxName: 'VAT',
+    taxRates: [
+      { rate: 20, label: 'Standard VAT', description: 'Standard rate (20%)' },
+      { rate: 5, label: 'Reduced VAT', description: 'Reduced rate (5%)' },
+      { rate: 0, label: 'Zero-rated', description: 'Zero rate (0%)' },
+    ]
+  },
+  'en-IN': {
+    locale: 'en',
+    name: 'India',
+    ogLocale: 'en_IN',
+    units: 'metric',
+    currency: 'INR',
+    currencySymbol: '₹',
+    healthAuthority: 'ICMR, WHO',
+    bmiThresholds: 'ASIAN',
+    taxName: 'GST',
+    taxRates: [
+      { rate: 28, label: 'GST 28%', description: 'Luxury items (28%)' },
+      { rate: 18, label: 'GST 18%', description: 'Standard rate (18%)' },
+      { rate: 12, label: 'GST 12%', description: 'Reduced rate (12%)' },
+      { rate: 5, label: 'GST 5%', description: 'Essential items (5%)' },
+    ]
+  },
+  'es-ES': {
+    locale: 'es',
+    name: 'España'
+  },
+  'es-MX': {
+    locale: 'es',
+    name: 'México',
+    ogLocale: 'es_MX',
+    currency: 'MXN',
+    currencySymbol: '$',
+    currencyPosition: 'before',
+    decimalSeparator: '.',
+    thousandSeparator: ',',
+    healthAuthority: 'OMS, Secretaría de Salud (México)',
+    taxRates: [
+      { rate: 16, label: 'IVA General', description: 'Tasa general (16%)' },
+      { rate: 8, label: 'IVA Frontera', description: 'Región fronteriza (8%)' },
+      { rate: 0, label: 'Tasa 0%', description: 'Alimentos y medicinas (0%)' },
+    ]
+  },
+  'pt-BR': {
+    locale: 'pt',
+    name: 'Brasil'
+  },
+  'pt-PT': {
+    locale: 'pt',
+    name: 'Portugal',
+    ogLocale: 'pt_PT',
+    currency: 'EUR',
+    currencySymbol: '€',
+    currencyPosition: 'after',
+    thousandSeparator: ' ',
+    healthAuthority: 'OMS, Direção-Geral da Saúde',
+    taxName: 'IVA',
+    taxRates: [
+      { rate: 23, label: 'Taxa normal', description: 'Taxa normal (23%)' },
+      { rate: 13, label: 'Taxa intermédia', description: 'Taxa intermédia (13%)' },
+      { rate: 6, label: 'Taxa reduzida', description: 'Taxa reduzida (6%)' },
+    ]
+  }
+};
+
+/**
+ * Check if a tag is a supported region
+ */
+export function isValidRegion(tag: string): tag is Region {
+  return tag in regions;
+}
+
+/**
+ * Get the regions of a language, empty if it has no variants
+ */
+export function getLocaleRegions(locale: Locale): Region[] {
+  return (Object.keys(regions) as Region[]).filter(region => regions[region].locale === locale);
+}
+
+/**
+ * Get the default region of a language (the tag of its profile), if it has variants
+ */
+export function getDefaultRegion(locale: Locale): Region | undefined {
+  const { tag } = languages[locale];
+  return isValidRegion(tag) ? tag : undefined;
+}
+
+/**
+ * Locale profile of a region: the language's profile with the region's overrides
+ */
+export function getRegionProfile(region: Region): LanguageConfig {
+  const { locale, name, healthAuthority, bmiThresholds, taxName, taxRates, ...overrides } = regions[region];
+  return { ...languages[locale], ...overrides, tag: region };
+}
+
+/**
+ * Pick the region of a language from the visitor's language preferences
+ * @param preferences - An Accept-Language header ('en-GB,en;q=0.9') or navigator.languages
+ * @returns The preferred region of the language, undefined when none is given
+ */
+export function detectRegion(locale: Locale, preferences: string | readonly string[]): Region | undefined {
+  const tags = typeof preferences === 'string' ? parseAcceptLanguage(preferences) : preferences;
+
+  for (const tag of tags) {
+    const [language, country] = tag.split('-');
+    if (language.toLowerCase() !== locale || !country) continue;
+
+    const region = `${locale}-${country.toUpperCase()}`;
+    if (isValidRegion(region)) return region;
+  }
+  return undefined;
+}
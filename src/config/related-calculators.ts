@@ -0,0 +1,78 @@
+/**
+ * Related calculators
+ *
+ * Ranks the other calculators by how related they are to a calculator, for
+ * the "Related calculators" cards on calculator pages. Relatedness comes from:
+ * - links: a calculator whose result is the input of another (BMR → TDEE),
+ *   related in both directions, and more weakly two links away (BMR → macro)
+ * - the registry category and the index page category, one point each
+ * Ties keep registry order, and calculators with nothing in common only fill
+ * the list up to its minimum length.
+ */
+
+import { registry } from './calculator-registry';
+import type { CalculatorId } from './calculators';
+
+/**
+ * Calculators whose inputs include each calculator's result
+ */
+export const calculatorLinks: Partial<Record<CalculatorId, CalculatorId[]>> = {
+  'bmi': ['healthy-weight', 'ideal-weight'],
+  'bmr': ['tdee'],
+  'tdee': ['macro'],
+  'due-date': ['pregnancy-weight-gain'],
+};
+
+const LINK_SCORE = 4;
+const INDIRECT_LINK_SCORE = 2;
+const CATEGORY_SCORE = 1;
+
+export const MIN_RELATED = 4;
+export const MAX_RELATED = 6;
+
+/**
+ * Calculators linked to a calculator in either direction
+ */
+function getLinkedCalculators(calculatorId: CalculatorId): Set<CalculatorId> {
+  const linked = new Set(calculatorLinks[calculatorId]);
+  for (const [source, targets] of Object.entries(calculatorLinks)) {
+    if (targets.includes(calculatorId)) linked.add(source as CalculatorId);
+  }
+  return linked;
+}
+
+/**
+ * Relatedness of two calculators, 0 when they have nothing in common
+ */
+export function getRelatedness(calculatorId: CalculatorId, otherId: CalculatorId): number {
+  const linked = getLinkedCalculators(calculatorId);
+  const calculator = registry.find(entry => entry.id === calculatorId)!;
+  const other = registry.find(entry => entry.id === otherId)!;
+  let score = 0;
+
+  if (linked.has(otherId)) {
+    score += LINK_SCORE;
+  } else if ([...linked].some(id => getLinkedCalculators(id).has(otherId))) {
+    score += INDIRECT_LINK_SCORE;
+  }
+  if (calculator.category === other.category) score += CATEGORY_SCORE;
+  if (calculator.indexCategory === other.indexCategory) score += CATEGORY_SCORE;
+
+  return score;
+}
+
+/**
+ * Get the calculators most related to a calculator, most related first
+ * @returns Between MIN_RELATED and MAX_RELATED calculator IDs
+ */
+export function getRelatedCalculators(calculatorId: CalculatorId): CalculatorId[] {
+  const ranked = registry
+    .filter(entry => entry.id !== calculatorId)
+    .map((entry, index) => ({ id: entry.id, index, score: getRelatedness(calculatorId, entry.id) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const related = ranked.filter(entry => entry.score > 0).slice(0, MAX_RELATED);
+  const fill = ranked.slice(related.length, MIN_RELATED);
+
+  return [...related, ...fill].map(entry => entry.id);
+}
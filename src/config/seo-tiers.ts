@@ -0,0 +1,66 @@
+/**
+ * SEO tiers
+ *
+ * Priority of each calculator page by language, from the keyword research in
+ * docs/seo-keyword-research-COMPLETE.xlsx (see docs/PRIORIDADES_SEO.md):
+ * - 1: opportunity score above 150, quick wins
+ * - 2: opportunity score from 50 to 150
+ * - 3: opportunity score below 50, long-term
+ *
+ * Languages and calculators not covered by the research yet take the middle
+ * tier. The tiers set the page priorities in the sitemap.
+ */
+
+import type { CalculatorId } from './calculators';
+import type { Locale } from './languages';
+
+export type SeoTier = 1 | 2 | 3;
+
+/** Tier of pages outside the keyword research */
+export const DEFAULT_SEO_TIER: SeoTier = 2;
+
+export const seoTiers: Partial<Record<CalculatorId, Partial<Record<Locale, SeoTier>>>> = {
+  'bmi': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 1, tr: 1, sv: 2, ru: 1 },
+  'bmr': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 1, nl: 2, tr: 2, sv: 2, ru: 2 },
+  'body-fat': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 2, nl: 2, tr: 2, sv: 2, ru: 2 },
+  'army-body-fat': { es: 2, en: 2, pt: 2, fr: 2, hi: 2, de: 2, it: 3, pl: 3, nl: 3, tr: 3, sv: 3, ru: 3 },
+  'body-frame': { es: 3, en: 2, pt: 2, fr: 3, hi: 2, de: 2, it: 3, pl: 3, nl: 3, tr: 3, sv: 3, ru: 3 },
+  'body-type': { es: 2, en: 2, pt: 2, fr: 2, hi: 2, de: 2, it: 2, pl: 3, nl: 3, tr: 3, sv: 3, ru: 3 },
+  'bsa': { es: 2, en: 2, pt: 2, fr: 2, hi: 2, de: 2, it: 2, pl: 3, nl: 3, tr: 3, sv: 3, ru: 2 },
+  'healthy-weight': { es: 1, en: 1, pt: 1, fr: 2, hi: 1, de: 2, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'ideal-weight': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 2, tr: 1, sv: 2, ru: 1 },
+  'lean-body-mass': { es: 2, en: 2, pt: 2, fr: 2, hi: 1, de: 3, it: 2, pl: 2, nl: 2, tr: 3, sv: 3, ru: 2 },
+  'waist-hip': { es: 2, en: 1, pt: 2, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 3, tr: 3, sv: 3, ru: 3 },
+  'calorie': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 1, tr: 1, sv: 2, ru: 1 },
+  'tdee': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 1, nl: 2, tr: 2, sv: 3, ru: 1 },
+  'macro': { es: 1, en: 1, pt: 1, fr: 2, hi: 1, de: 1, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'protein': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'carbohydrate': { es: 1, en: 1, pt: 1, fr: 2, hi: 2, de: 2, it: 2, pl: 3, nl: 2, tr: 3, sv: 3, ru: 2 },
+  'fat-intake': { es: 2, en: 1, pt: 1, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 3, tr: 3, sv: 3, ru: 2 },
+  'calories-burned': { es: 1, en: 1, pt: 2, fr: 2, hi: 1, de: 2, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'weight-watchers': { es: 2, en: 1, pt: 1, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 3, tr: 2, sv: 3, ru: 2 },
+  'pregnancy': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 1, tr: 1, sv: 2, ru: 1 },
+  'due-date': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'ovulation': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 2, tr: 2, sv: 2, ru: 1 },
+  'period': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 2, tr: 2, sv: 2, ru: 2 },
+  'pregnancy-conception': { es: 1, en: 1, pt: 2, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'pregnancy-weight-gain': { es: 1, en: 1, pt: 1, fr: 2, hi: 1, de: 2, it: 2, pl: 2, nl: 3, tr: 2, sv: 3, ru: 2 },
+  'heart-rate': { es: 2, en: 1, pt: 1, fr: 1, hi: 1, de: 2, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'gfr': { es: 2, en: 1, pt: 2, fr: 2, hi: 1, de: 2, it: 2, pl: 2, nl: 2, tr: 3, sv: 3, ru: 2 },
+  'one-rep-max': { es: 2, en: 1, pt: 1, fr: 2, hi: 2, de: 2, it: 2, pl: 3, nl: 3, tr: 3, sv: 3, ru: 3 },
+  'pace': { es: 1, en: 1, pt: 2, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+  'sleep': { es: 1, en: 1, pt: 1, fr: 2, hi: 2, de: 2, it: 2, pl: 2, nl: 3, tr: 3, sv: 3, ru: 2 },
+  'bac': { es: 2, en: 1, pt: 2, fr: 3, hi: 2, de: 2, it: 2, pl: 3, nl: 2, tr: 3, sv: 3, ru: 2 },
+  'blood-type': { es: 1, en: 1, pt: 2, fr: 2, hi: 1, de: 2, it: 2, pl: 3, nl: 2, tr: 3, sv: 3, ru: 2 },
+  'age': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 1, nl: 2, tr: 2, sv: 2, ru: 2 },
+  'date': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 2, nl: 2, tr: 2, sv: 2, ru: 1 },
+  'percentage': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 1, pl: 1, nl: 1, tr: 1, sv: 2, ru: 1 },
+  'tip': { es: 1, en: 1, pt: 1, fr: 1, hi: 1, de: 1, it: 2, pl: 2, nl: 2, tr: 2, sv: 3, ru: 2 },
+};
+
+/**
+ * SEO tier of a calculator page in a language
+ */
+export function getSeoTier(calculatorId: CalculatorId, locale: Locale): SeoTier {
+  return seoTiers[calculatorId]?.[locale] ?? DEFAULT_SEO_TIER;
+}
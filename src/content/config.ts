@@ -17,11 +17,16 @@ const calculators = defineCollection({
     keywords: z.string().optional(),
     canonical: z.string(),
 
+    // Last content change, used when the git history isn't available
+    // (see src/utils/contentMetadata.ts)
+    updated: z.coerce.date().optional(),
+
     // Category classification
     // This should match the category displayed on the homepage
     category: z.string(),
 
-    // Optional Schema.org structured data
+    // Optional Schema.org properties added to the page's WebApplication
+    // structured data (see src/utils/structuredData.ts)
     schema: z.record(z.any()).optional(),
   })
 });
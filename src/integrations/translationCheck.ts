@@ -0,0 +1,296 @@
+/**
+ * Translation Check
+ *
+ * Build step that compares every file under public/locales with its English
+ * source and lists, per file and locale, the keys that are missing, extra or
+ * untranslated (identical to English). It also collects the translation keys
+ * written as string literals in src/ (t('bmi.form.title'), schema labels...)
+ * and fails the build when one of them is missing from a shipped locale,
+ * since t() would render the raw key on that locale's pages.
+ *
+ * Keys built at runtime (template literals, concatenation) can't be found
+ * by the scan and are not checked.
+ *
+ * The English keys are also written as types (TranslationKeys, see i18n.ts)
+ * so t('bmi.form.title') is checked by `astro check` and the editor.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { defaultLocale, getSupportedLocales } from '../config/languages';
+
+type TranslationFile = { [key: string]: unknown };
+
+export interface FileReport {
+  /** Path under the locale folder, e.g. 'calculators/bmi.json' */
+  file: string;
+  missing: string[];
+  extra: string[];
+  /** Keys whose text is the English text */
+  untranslated: string[];
+}
+
+export interface MissingReference {
+  /** Key as t() resolves it, e.g. 'bmi.form.title' */
+  key: string;
+  /** Source files using the key, relative to the project root */
+  files: string[];
+  /** Shipped locales without the key */
+  locales: string[];
+}
+
+export interface TranslationReport {
+  /** Files with issues, by locale */
+  locales: Record<string, FileReport[]>;
+  missingReferences: MissingReference[];
+}
+
+/** Folders scanned for translation keys, and their file types */
+const SOURCE_DIRS = ['src/components', 'src/config', 'src/layouts', 'src/pages', 'src/utils'];
+const SOURCE_EXTENSIONS = ['.astro', '.ts'];
+
+/**
+ * Quoted strings shaped like translation keys: 'namespace.path' or 'namespace:path'
+ */
+const KEY_LITERAL = /(['"`])([a-z][A-Za-z0-9]*)([.:])([A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*)\1/g;
+
+/**
+ * Flatten nested translations into dotted keys
+ */
+export function flattenTranslations(translations: TranslationFile, prefix = ''): Map<string, unknown> {
+  const keys = new Map<string, unknown>();
+
+  for (const [key, value] of Object.entries(translations)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of flattenTranslations(value as TranslationFile, `${prefix}${key}.`)) {
+        keys.set(nestedKey, nestedValue);
+      }
+    } else {
+      keys.set(`${prefix}${key}`, value);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Compare a translation file with its English source
+ * Text without letters (numbers, symbols) reads the same in every language and
+ * doesn't count as untranslated.
+ */
+export function compareTranslations(file: string, source: TranslationFile, target: TranslationFile): FileReport {
+  const sourceKeys = flattenTranslations(source);
+  const targetKeys = flattenTranslations(target);
+
+  return {
+    file,
+    missing: [...sourceKeys.keys()].filter(key => !targetKeys.has(key)),
+    extra: [...targetKeys.keys()].filter(key => !sourceKeys.has(key)),
+    untranslated: [...sourceKeys].filter(([key, value]) =>
+      typeof value === 'string' && /\p{L}/u.test(value) && targetKeys.get(key) === value
+    ).map(([key]) => key),
+  };
+}
+
+function hasIssues(report: FileReport): boolean {
+  return report.missing.length + report.extra.length + report.untranslated.length > 0;
+}
+
+/**
+ * Prefix of a file's keys in the t() bundle (see i18n.ts)
+ * common.json is at the root, categories.json under 'categories' and
+ * calculator files under their camelCase ID.
+ */
+export function getBundlePrefix(file: string): string {
+  if (file === 'common.json') return '';
+  const name = file.replace(/\.json$/, '').split('/').pop()!;
+  return `${name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())}.`;
+}
+
+function readJson(path: string): TranslationFile {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : {};
+}
+
+function listFiles(dir: string, extensions: string[]): string[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(path, extensions);
+    return extensions.some(extension => entry.name.endsWith(extension)) ? [path] : [];
+  });
+}
+
+/**
+ * Translation keys written as string literals in source files
+ * A key counts when its namespace is one of the bundle's: 'bmi.form.title',
+ * 'bmi:form.title' or 'common.calculate'. The colon form is only used for
+ * calculator namespaces, which keeps storage keys like 'profile:dismissed' out.
+ * @param namespaces - Top-level bundle keys
+ * @param calculatorNamespaces - Namespaces of calculator files
+ * @returns Files using each key
+ */
+export function findTranslationKeys(
+  sources: { file: string; content: string }[],
+  namespaces: Set<string>,
+  calculatorNamespaces: Set<string>
+): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+
+  for (const { file, content } of sources) {
+    for (const [, , namespace, separator, path] of content.matchAll(KEY_LITERAL)) {
+      const known = separator === ':' ? calculatorNamespaces.has(namespace) : namespaces.has(namespace);
+      if (!known) continue;
+
+      const key = `${namespace}.${path}`;
+      const files = references.get(key) ?? [];
+      if (!files.includes(file)) files.push(file);
+      references.set(key, files);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Check the translation files of every shipped locale
+ * @param root - Project root
+ */
+export function getTranslationReport(root: string): TranslationReport {
+  const localesDir = join(root, 'public/locales');
+  const sourceDir = join(localesDir, defaultLocale);
+  const locales = getSupportedLocales().filter(locale => locale !== defaultLocale);
+
+  const sourceFiles = listFiles(sourceDir, ['.json']).map(path => relative(sourceDir, path));
+  const report: TranslationReport = { locales: {}, missingReferences: [] };
+
+  // Keys t() resolves for each locale, to look up referenced keys
+  const bundleKeys = new Map<string, Set<string>>();
+  const addBundleKeys = (locale: string, file: string, translations: TranslationFile) => {
+    const keys = bundleKeys.get(locale) ?? new Set<string>();
+    const prefix = getBundlePrefix(file);
+    for (const key of flattenTranslations(translations, prefix).keys()) {
+      // Groups are valid references too (e.g. a base key completed at runtime)
+      const parts = key.split('.');
+      for (let i = 1; i <= parts.length; i++) keys.add(parts.slice(0, i).join('.'));
+    }
+    bundleKeys.set(locale, keys);
+  };
+
+  for (const file of sourceFiles) {
+    addBundleKeys(defaultLocale, file, readJson(join(sourceDir, file)));
+  }
+
+  for (const locale of locales) {
+    const localeDir = join(localesDir, locale);
+    const files = new Set([...sourceFiles, ...listFiles(localeDir, ['.json']).map(path => relative(localeDir, path))]);
+
+    report.locales[locale] = [...files].sort().flatMap((file) => {
+      const translations = readJson(join(localeDir, file));
+      addBundleKeys(locale, file, translations);
+      const fileReport = compareTranslations(file, readJson(join(sourceDir, file)), translations);
+      return hasIssues(fileReport) ? [fileReport] : [];
+    });
+  }
+
+  const sourceKeys = bundleKeys.get(defaultLocale)!;
+  const namespaces = new Set([...sourceKeys].filter(key => !key.includes('.')));
+  const calculatorNamespaces = new Set(
+    sourceFiles.filter(file => file.startsWith('calculators/')).map(file => getBundlePrefix(file).slice(0, -1))
+  );
+  const sources = SOURCE_DIRS.flatMap(dir => listFiles(join(root, dir), SOURCE_EXTENSIONS)).map(path => ({
+    file: relative(root, path),
+    content: readFileSync(path, 'utf-8'),
+  }));
+
+  for (const [key, files] of findTranslationKeys(sources, namespaces, calculatorNamespaces)) {
+    const missingIn = [defaultLocale, ...locales].filter(locale => !bundleKeys.get(locale)?.has(key));
+    // Keys absent from English are regional additions (e.g. the BMR deficit
+    // table), only shown where the locale has them; they fail only if no locale has them
+    const regional = !sourceKeys.has(key) && missingIn.length < locales.length + 1;
+    if (missingIn.length > 0 && !regional) {
+      report.missingReferences.push({ key, files, locales: missingIn });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Declaration of the TranslationKeys interface, listing the keys t() accepts
+ * Keys come from the English files; only texts are listed, not groups or lists.
+ * @param root - Project root
+ */
+export function getTranslationKeyTypes(root: string): string {
+  const sourceDir = join(root, 'public/locales', defaultLocale);
+  const keys = listFiles(sourceDir, ['.json']).sort().flatMap((path) => {
+    const prefix = getBundlePrefix(relative(sourceDir, path));
+    return [...flattenTranslations(readJson(path), prefix)]
+      .filter(([, value]) => typeof value === 'string')
+      .map(([key]) => key);
+  });
+
+  return [
+    '// Generated from public/locales/en by the translation check (src/integrations/translationCheck.ts)',
+    'interface TranslationKeys {',
+    ...keys.map(key => `  '${key}': true;`),
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * One line per file with issues, e.g. 'calculators/bmi.json: 2 missing, 1 untranslated'
+ */
+export function formatFileReport({ file, missing, extra, untranslated }: FileReport): string {
+  const counts = [
+    [missing.length, 'missing'],
+    [extra.length, 'extra'],
+    [untranslated.length, 'untranslated'],
+  ].filter(([count]) => count).map(([count, label]) => `${count} ${label}`);
+  return `${file}: ${counts.join(', ')}`;
+}
+
+/**
+ * Astro integration running the check before each build
+ * The full report is written to .astro/translation-report.json; the key
+ * types are generated whenever Astro syncs (dev, build, check).
+ */
+export function translationCheck(): AstroIntegration {
+  let root = process.cwd();
+
+  return {
+    name: 'translation-check',
+    hooks: {
+      'astro:config:done': ({ config, injectTypes }) => {
+        root = fileURLToPath(config.root);
+        injectTypes({ filename: 'translation-keys.d.ts', content: getTranslationKeyTypes(root) });
+      },
+      'astro:build:start': ({ logger }) => {
+        const report = getTranslationReport(root);
+
+        for (const [locale, files] of Object.entries(report.locales)) {
+          const total = (key: 'missing' | 'extra' | 'untranslated') => files.reduce((sum, file) => sum + file[key].length, 0);
+          logger.info(`${locale}: ${total('missing')} missing, ${total('extra')} extra, ${total('untranslated')} untranslated keys`);
+          for (const file of files) {
+            if (file.missing.length || file.extra.length) logger.info(`  ${formatFileReport(file)}`);
+          }
+        }
+
+        const reportDir = join(root, '.astro');
+        mkdirSync(reportDir, { recursive: true });
+        writeFileSync(join(reportDir, 'translation-report.json'), JSON.stringify(report, null, 2));
+        logger.info('Full report: .astro/translation-report.json');
+
+        if (report.missingReferences.length > 0) {
+          const lines = report.missingReferences.map(({ key, files, locales }) =>
+            `  ${key} (${files.join(', ')}) missing in: ${locales.join(', ')}`
+          );
+          throw new Error(`Translation keys used in src/ are missing from shipped locales:\n${lines.join('\n')}`);
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Middleware
+ *
+ * Loads the translations of the page's language before it renders, so t()
+ * can stay synchronous. The language is the first path segment (/es/...),
+ * English for the root pages. Runs at build time for prerendered pages.
+ */
+
+import { defineMiddleware } from 'astro:middleware';
+import { defaultLocale, isValidLocale } from '@/config/languages';
+import { loadTranslations } from '@/utils/i18n';
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  const [segment = ''] = context.url.pathname.split('/').filter(Boolean);
+  await loadTranslations(isValidLocale(segment) ? segment : defaultLocale);
+  return next();
+});
@@ -0,0 +1,28 @@
+/**
+ * Share image of the pages of each language without their own, e.g. /og/es.png
+ * (see utils/ogImage.ts)
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getSupportedLocales, languages, type Locale } from '@/config/languages';
+import { loadTranslations, t } from '@/utils/i18n';
+import { renderOgImagePng } from '@/utils/ogImage';
+
+export const getStaticPaths = (() => {
+  return getSupportedLocales().map(locale => ({ params: { locale }, props: { locale } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const locale = props.locale as Locale;
+  await loadTranslations(locale);
+
+  const png = await renderOgImagePng({
+    title: t('site.title', locale),
+    visual: 'bars',
+    dir: languages[locale].dir,
+  });
+
+  return new Response(png, {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,33 @@
+/**
+ * Share image of each calculator page, e.g. /og/es/bmi.png (see utils/ogImage.ts)
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { calculators, type CalculatorId } from '@/config/calculators';
+import { getCategoryName } from '@/config/categories';
+import { getSupportedLocales, languages, type Locale } from '@/config/languages';
+import { getCalculatorNamespace, loadTranslations, t, type TranslationKey } from '@/utils/i18n';
+import { getOgVisual, renderOgImagePng } from '@/utils/ogImage';
+
+export const getStaticPaths = (() => {
+  return getSupportedLocales().flatMap(locale =>
+    calculators.map(calculator => ({ params: { locale, calculator }, props: { locale, calculator } }))
+  );
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const locale = props.locale as Locale;
+  const calculatorId = props.calculator as CalculatorId;
+  await loadTranslations(locale);
+
+  const png = await renderOgImagePng({
+    title: t(`${getCalculatorNamespace(calculatorId)}.title` as TranslationKey, locale),
+    category: getCategoryName(calculatorId, locale),
+    visual: getOgVisual(calculatorId),
+    dir: languages[locale].dir,
+  });
+
+  return new Response(png, {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,59 @@
+/**
+ * Search index of each language, e.g. /search-index/es.json
+ *
+ * Lists every calculator with its title, description and URL in the language,
+ * and the terms it is found by (see utils/search.ts): its slug in every
+ * language, the keywords of its MDX page, its category names, and its English
+ * title and keywords, so visitors find calculators by their international
+ * names too.
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { calculators, getCalculatorDefinition } from '@/config/calculators';
+import { getCategoryName } from '@/config/categories';
+import { getCategoryTranslation } from '@/config/calculator-categories';
+import { getSupportedLocales, type Locale } from '@/config/languages';
+import { getSlug } from '@/config/routes';
+import { calculatorPaths, getCalculatorNamespace, loadTranslations, t, type TranslationKey } from '@/utils/i18n';
+import { normalizeSearchText, type SearchEntry } from '@/utils/search';
+
+export const getStaticPaths = (() => {
+  return getSupportedLocales().map(locale => ({ params: { locale }, props: { locale } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  const locale = props.locale as Locale;
+  await Promise.all([loadTranslations(locale), loadTranslations('en')]);
+  const entries = await getCollection('calculators');
+
+  const index: SearchEntry[] = calculators.map(calculatorId => {
+    const namespace = getCalculatorNamespace(calculatorId);
+    const title = t(`${namespace}.title` as TranslationKey, locale);
+    const category = getCategoryName(calculatorId, locale);
+    const getKeywords = (language: Locale) =>
+      entries.find(entry => entry.id === `${language}/${calculatorId}.mdx`)?.data.keywords ?? '';
+
+    const terms = [
+      ...getSupportedLocales().map(other => getSlug(calculatorId, other).replace(/-/g, ' ')),
+      // Keyword lists are separated by commas, Arabic ones by Arabic commas
+      ...`${getKeywords(locale)},${getKeywords('en')}`.split(/[,،]/),
+      category,
+      getCategoryTranslation(getCalculatorDefinition(calculatorId).indexCategory, locale).name,
+      t(`${namespace}.title` as TranslationKey, 'en'),
+    ];
+
+    return {
+      id: calculatorId,
+      title,
+      description: t(`${namespace}.description` as TranslationKey, locale),
+      url: calculatorPaths[namespace][locale],
+      category,
+      terms: [...new Set(terms.map(term => normalizeSearchText(term).trim()).filter(Boolean))],
+    };
+  });
+
+  return new Response(JSON.stringify(index), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
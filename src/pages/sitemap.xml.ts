@@ -0,0 +1,21 @@
+/**
+ * Sitemap of every page in every language, /sitemap.xml (see utils/sitemap.ts)
+ */
+
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import { getSitemapEntries, renderSitemap } from '@/utils/sitemap';
+
+export const GET: APIRoute = async ({ site }) => {
+  const entries = await getCollection('calculators');
+  const updated = new Map(entries.map(entry => [entry.id, entry.data.updated]));
+
+  const sitemap = renderSitemap(
+    getSitemapEntries((calculatorId, locale) => updated.get(`${locale}/${calculatorId}.mdx`)),
+    site!
+  );
+
+  return new Response(sitemap, {
+    headers: { 'Content-Type': 'application/xml' },
+  });
+};
@@ -1,3 +1,9 @@
+import type { Locale } from '@/config/languages';
+import { formatWeekday } from '@/utils/format';
+import { HOURS_PER_DAY, MINUTES_PER_HOUR, MS_PER_DAY, SECONDS_PER_MINUTE } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface AgeInput {
   birthDate: Date;
   targetDate?: Date; // Optional: Calculate age at a specific date (defaults to today)
@@ -33,11 +39,10 @@ export interface DateAtAgeInput {
 }
 
 /**
- * Get weekday name from date
+ * Get weekday name from date, in English unless a locale is given
  */
-export function getWeekdayName(date: Date): string {
-  const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return weekdays[date.getDay()];
+export function getWeekdayName(date: Date, locale: Locale = 'en'): string {
+  return formatWeekday(date, locale);
 }
 
 /**
@@ -72,7 +77,7 @@ export function calculateDateDifference(
  */
 export function calculateTotalDays(startDate: Date, endDate: Date): number {
   const diffTime = endDate.getTime() - startDate.getTime();
-  return Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  return Math.floor(diffTime / MS_PER_DAY);
 }
 
 /**
@@ -106,9 +111,7 @@ export function calculateAge(input: AgeInput): AgeResult {
   const targetDate = input.targetDate || new Date();
 
   // Validate dates
-  if (input.birthDate > targetDate) {
-    throw new Error('Birth date cannot be in the future');
-  }
+  assertValid(validateAgeInput(input));
 
   // Calculate age in years, months, days
   const { years, months, days } = calculateDateDifference(input.birthDate, targetDate);
@@ -117,9 +120,9 @@ export function calculateAge(input: AgeInput): AgeResult {
   const totalDays = calculateTotalDays(input.birthDate, targetDate);
   const totalWeeks = Math.floor(totalDays / 7);
   const totalMonths = years * 12 + months;
-  const totalHours = totalDays * 24;
-  const totalMinutes = totalHours * 60;
-  const totalSeconds = totalMinutes * 60;
+  const totalHours = totalDays * HOURS_PER_DAY;
+  const totalMinutes = totalHours * MINUTES_PER_HOUR;
+  const totalSeconds = totalMinutes * SECONDS_PER_MINUTE;
 
   // Calculate next birthday
   const nextBirthday = calculateNextBirthday(input.birthDate, targetDate);
@@ -189,8 +192,26 @@ export function calculateDateAtAge(input: DateAtAgeInput): Date {
 }
 
 /**
- * Format a number with thousands separator
+ * Validate age calculator input
  */
-export function formatNumber(num: number): string {
-  return num.toLocaleString();
+export function validateAgeInput(input: Partial<AgeInput>): ValidationResult {
+  return new Validator()
+    .pastDate('birthDate', input.birthDate, input.targetDate)
+    .result();
 }
+
+/**
+ * Form fields for the age calculator
+ */
+export const ageInputSchema: InputSchema<AgeInput> = {
+  fields: [
+    { name: 'birthDate', type: 'date', label: 'age:form.birthDateLabel' },
+    {
+      name: 'targetDate',
+      type: 'date',
+      label: 'age:form.targetDateLabel',
+      help: 'age:form.targetDateHint',
+      required: false,
+    },
+  ],
+};
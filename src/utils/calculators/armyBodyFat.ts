@@ -1,3 +1,7 @@
+import { centimeters, cmToInches } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type ArmyStandard = 'pass' | 'fail';
@@ -19,20 +23,6 @@ export interface ArmyBodyFatResult {
   ageGroup: string;
 }
 
-/**
- * Convert inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
-/**
- * Convert centimeters to inches
- */
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
 /**
  * Get maximum allowed body fat percentage based on age and gender
  * According to US Army Regulation 600-9
@@ -77,10 +67,10 @@ export function calculateArmyBodyFat(
 
   // Convert to inches if metric
   if (unitSystem === 'metric') {
-    heightValue = cmToInches(height);
-    neckValue = cmToInches(neck);
-    waistValue = cmToInches(waist);
-    hipValue = hip ? cmToInches(hip) : undefined;
+    heightValue = cmToInches(centimeters(height));
+    neckValue = cmToInches(centimeters(neck));
+    waistValue = cmToInches(centimeters(waist));
+    hipValue = hip ? cmToInches(centimeters(hip)) : undefined;
   } else {
     heightValue = height;
     neckValue = neck;
@@ -89,7 +79,7 @@ export function calculateArmyBodyFat(
   }
 
   if (heightValue <= 0 || neckValue <= 0 || waistValue <= 0) {
-    throw new Error('All measurements must be positive numbers');
+    invalid(heightValue <= 0 ? 'height' : neckValue <= 0 ? 'neck' : 'waist', 'positive');
   }
 
   let bodyFat: number;
@@ -100,7 +90,7 @@ export function calculateArmyBodyFat(
   } else {
     // Female formula using inches
     if (!hipValue || hipValue <= 0) {
-      throw new Error('Hip measurement is required for females');
+      invalid('hip', 'required');
     }
     bodyFat = 163.205 * Math.log10(waistValue + hipValue - neckValue) - 97.684 * Math.log10(heightValue) - 78.387;
   }
@@ -113,9 +103,7 @@ export function calculateArmyBodyFat(
  */
 export function calculateArmyBodyFatMetrics(input: ArmyBodyFatInput): ArmyBodyFatResult {
   // Validate input
-  if (input.gender === 'female' && !input.hip) {
-    throw new Error('Hip measurement is required for females');
-  }
+  assertValid(validateArmyBodyFatInput(input));
 
   // Calculate body fat percentage
   const bodyFatPercentage = calculateArmyBodyFat(
@@ -140,3 +128,80 @@ export function calculateArmyBodyFatMetrics(input: ArmyBodyFatInput): ArmyBodyFa
     ageGroup,
   };
 }
+
+/**
+ * Validate Army body fat input
+ */
+export function validateArmyBodyFatInput(input: Partial<ArmyBodyFatInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('neck', input.neck)
+    .positive('waist', input.waist);
+
+  if (input.gender === 'female') {
+    validator.positive('hip', input.hip);
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the Army body fat calculator
+ */
+export const armyBodyFatInputSchema: InputSchema<ArmyBodyFatInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      type: 'number',
+      label: 'armyBodyFat:form.ageLabel',
+      placeholder: 'armyBodyFat:form.agePlaceholder',
+      min: 17,
+      max: 100,
+    },
+    { name: 'gender', type: 'select', label: 'armyBodyFat:form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      type: 'number',
+      label: 'armyBodyFat:form.heightLabel',
+      placeholder: 'armyBodyFat:form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'neck',
+      type: 'number',
+      label: 'armyBodyFat:form.neckLabel',
+      placeholder: 'armyBodyFat:form.neckPlaceholder',
+      unit: 'length',
+      min: 20,
+      max: 60,
+      step: 0.1,
+    },
+    {
+      name: 'waist',
+      type: 'number',
+      label: 'armyBodyFat:form.waistLabel',
+      placeholder: 'armyBodyFat:form.waistPlaceholder',
+      unit: 'length',
+      min: 40,
+      max: 200,
+      step: 0.1,
+    },
+    {
+      name: 'hip',
+      type: 'number',
+      label: 'armyBodyFat:form.hipLabel',
+      placeholder: 'armyBodyFat:form.hipPlaceholder',
+      unit: 'length',
+      min: 50,
+      max: 200,
+      step: 0.1,
+      when: { gender: 'female' },
+    },
+  ],
+};
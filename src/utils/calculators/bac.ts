@@ -3,6 +3,20 @@
  * Uses the Widmark formula to estimate blood alcohol concentration
  */
 
+import {
+  flOzToMl,
+  fluidOunces,
+  kgToGrams,
+  kilograms,
+  lbsToGrams,
+  milliliters,
+  pounds,
+  type Grams,
+  type Milliliters,
+} from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface BACInput {
   weight: number;
   weightUnit: 'kg' | 'lb';
@@ -12,6 +26,8 @@ export interface BACInput {
   drinkVolume: number;
   volumeUnit: 'ml' | 'oz';
   hoursDrinking: number;
+  /** Preset the drink volume and alcohol content come from (see applyDrinkPreset) */
+  drinkType?: DrinkType;
 }
 
 export interface BACResult {
@@ -33,23 +49,15 @@ const LEGAL_LIMIT_US = 0.08; // 0.08% BAC
 /**
  * Convert weight to grams
  */
-function convertWeightToGrams(weight: number, unit: 'kg' | 'lb'): number {
-  if (unit === 'kg') {
-    return weight * 1000;
-  }
-  // Convert pounds to grams (1 lb = 453.592 g)
-  return weight * 453.592;
+function convertWeightToGrams(weight: number, unit: 'kg' | 'lb'): Grams {
+  return unit === 'kg' ? kgToGrams(kilograms(weight)) : lbsToGrams(pounds(weight));
 }
 
 /**
  * Convert volume to milliliters
  */
-function convertVolumeToML(volume: number, unit: 'ml' | 'oz'): number {
-  if (unit === 'ml') {
-    return volume;
-  }
-  // Convert oz to ml (1 oz = 29.5735 ml)
-  return volume * 29.5735;
+function convertVolumeToML(volume: number, unit: 'ml' | 'oz'): Milliliters {
+  return unit === 'ml' ? milliliters(volume) : flOzToMl(fluidOunces(volume));
 }
 
 /**
@@ -114,6 +122,8 @@ function getImpairmentLevel(bac: number): {
  * Calculate BAC using Widmark formula
  */
 export function calculateBAC(input: BACInput): BACResult {
+  assertValid(validateBACInput(input));
+
   // Convert inputs to standard units
   const weightGrams = convertWeightToGrams(input.weight, input.weightUnit);
   const alcoholGrams = calculateAlcoholGrams(
@@ -152,7 +162,7 @@ export function calculateBAC(input: BACInput): BACResult {
 
   return {
     bac: currentBAC,
-    bacFormatted: `${(currentBAC * 100).toFixed(3)}%`,
+    bacFormatted: `${currentBAC.toFixed(3)}%`,
     timeUntilSober: parseFloat(timeUntilSober.toFixed(1)),
     impairmentLevel: impairment.level,
     impairmentDescription: impairment.description,
@@ -186,3 +196,109 @@ export const DRINK_PRESETS = {
     alcoholContent: 0,
   },
 };
+
+export type DrinkType = keyof typeof DRINK_PRESETS;
+
+/**
+ * Take the drink volume and alcohol content from the input's preset drink, if any
+ */
+export function applyDrinkPreset(input: BACInput): BACInput {
+  if (!input.drinkType || input.drinkType === 'custom') return input;
+
+  const preset = DRINK_PRESETS[input.drinkType];
+  return { ...input, drinkVolume: preset.volume, volumeUnit: preset.volumeUnit, alcoholContent: preset.alcoholContent };
+}
+
+/**
+ * Find the preset drink with the input's volume and alcohol content, custom when none matches
+ */
+export function findDrinkType(input: Partial<BACInput>): DrinkType {
+  const preset = Object.entries(DRINK_PRESETS).find(([, drink]) =>
+    drink.volume === input.drinkVolume && drink.volumeUnit === input.volumeUnit && drink.alcoholContent === input.alcoholContent
+  );
+  return (preset?.[0] as DrinkType | undefined) ?? 'custom';
+}
+
+/**
+ * Validate BAC input
+ */
+export function validateBACInput(input: Partial<BACInput>): ValidationResult {
+  return new Validator()
+    .positive('weight', input.weight)
+    .required('weightUnit', input.weightUnit)
+    .required('gender', input.gender)
+    .min('drinks', input.drinks, 1)
+    .range('alcoholContent', input.alcoholContent, 0, 100)
+    .positive('drinkVolume', input.drinkVolume)
+    .required('volumeUnit', input.volumeUnit)
+    .nonNegative('hoursDrinking', input.hoursDrinking)
+    .result();
+}
+
+/**
+ * Form fields for the BAC calculator
+ */
+export const bacInputSchema: InputSchema<BACInput> = {
+  fields: [
+    { name: 'weight', type: 'number', label: 'bac.weight.label', min: 0, step: 0.1 },
+    {
+      name: 'weightUnit',
+      type: 'select',
+      label: 'bac.weight.unitLabel',
+      options: [
+        { value: 'kg', label: 'bac.units.kg' },
+        { value: 'lb', label: 'bac.units.lb' },
+      ],
+    },
+    {
+      name: 'gender',
+      type: 'radio',
+      label: 'bac.gender.label',
+      options: [
+        { value: 'male', label: 'bac.gender.male' },
+        { value: 'female', label: 'bac.gender.female' },
+      ],
+      default: 'male',
+    },
+    {
+      name: 'drinkType',
+      type: 'select',
+      label: 'bac.drinkType.label',
+      options: [
+        { value: 'beer', label: 'bac.drinkType.beer' },
+        { value: 'wine', label: 'bac.drinkType.wine' },
+        { value: 'liquor', label: 'bac.drinkType.liquor' },
+        { value: 'custom', label: 'bac.drinkType.custom' },
+      ],
+    },
+    {
+      name: 'drinkVolume',
+      type: 'number',
+      label: 'bac.drinkVolume.label',
+      min: 0,
+      step: 0.1,
+      when: { drinkType: 'custom' },
+    },
+    {
+      name: 'volumeUnit',
+      type: 'select',
+      label: 'bac.drinkVolume.unitLabel',
+      options: [
+        { value: 'oz', label: 'bac.units.oz' },
+        { value: 'ml', label: 'bac.units.ml' },
+      ],
+      when: { drinkType: 'custom' },
+    },
+    {
+      name: 'alcoholContent',
+      type: 'number',
+      label: 'bac.alcoholContent.label',
+      min: 0,
+      max: 100,
+      step: 0.1,
+      when: { drinkType: 'custom' },
+    },
+    { name: 'drinks', type: 'number', label: 'bac.drinks.label', min: 1, step: 1, default: 1 },
+    { name: 'hoursDrinking', type: 'number', label: 'bac.hours.label', min: 0, step: 0.5, default: 1 },
+  ],
+};
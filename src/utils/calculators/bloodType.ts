@@ -1,3 +1,7 @@
+import type { TranslationKey } from '@/utils/i18n';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type BloodType = 'A' | 'B' | 'AB' | 'O';
 export type RhFactor = '+' | '-';
 
@@ -83,6 +87,8 @@ function genotypeToRh(allele1: string, allele2: string): RhFactor {
  * Calculate all possible blood type combinations using Punnett square
  */
 export function calculateBloodTypeProbabilities(input: BloodTypeInput): BloodTypeResult {
+  assertValid(validateBloodTypeInput(input));
+
   const motherBloodGenotypes = getBloodTypeGenotypes(input.motherBloodType);
   const fatherBloodGenotypes = getBloodTypeGenotypes(input.fatherBloodType);
   const motherRhGenotypes = getRhGenotypes(input.motherRh);
@@ -196,3 +202,45 @@ export function getBloodTypeInfo(bloodType: BloodType, rh: RhFactor): {
 
   return compatibility[fullType] || { canDonateTo: [], canReceiveFrom: [] };
 }
+
+// Blood group names are the same in every language; t() shows unknown keys as written
+const bloodTypeOptions = (['A', 'B', 'AB', 'O'] as const).map(type => ({ value: type, label: type as TranslationKey }));
+
+const rhFactorOptions = [
+  { value: '+', label: 'bloodType.form.rhPositive' },
+  { value: '-', label: 'bloodType.form.rhNegative' },
+] as const;
+
+/**
+ * Validate blood type input
+ */
+export function validateBloodTypeInput(input: Partial<BloodTypeInput>): ValidationResult {
+  return new Validator()
+    .required('motherBloodType', input.motherBloodType)
+    .required('motherRh', input.motherRh)
+    .required('fatherBloodType', input.fatherBloodType)
+    .required('fatherRh', input.fatherRh)
+    .result();
+}
+
+/**
+ * Form fields for the blood type calculator
+ */
+export const bloodTypeInputSchema: InputSchema<BloodTypeInput> = {
+  fields: [
+    {
+      name: 'motherBloodType',
+      type: 'select',
+      label: 'bloodType.form.motherLabel',
+      options: bloodTypeOptions,
+    },
+    { name: 'motherRh', type: 'select', label: 'bloodType.form.motherRhLabel', options: rhFactorOptions },
+    {
+      name: 'fatherBloodType',
+      type: 'select',
+      label: 'bloodType.form.fatherLabel',
+      options: bloodTypeOptions,
+    },
+    { name: 'fatherRh', type: 'select', label: 'bloodType.form.fatherRhLabel', options: rhFactorOptions },
+  ],
+};
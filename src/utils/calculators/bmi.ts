@@ -6,6 +6,20 @@
  * Asian Thresholds: Used for Asian populations (India, China, etc.) due to higher body fat % at lower BMI
  */
 
+import {
+  centimeters,
+  cmToMeters,
+  inches,
+  inchesToCm,
+  kgToLbs,
+  kilograms,
+  lbsToKg,
+  pounds,
+} from '@/utils/units';
+import type { TranslationKey } from '@/utils/i18n';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 
@@ -70,7 +84,7 @@ export interface BMIResult {
 export interface BMICategoryDetails {
   code: BMICategory;
   range: { min: number; max: number };
-  translationKey: string;
+  translationKey: TranslationKey;
   colorClass: string;
   riskLevel: 'very-high' | 'high' | 'moderate' | 'low';
 }
@@ -212,38 +226,6 @@ export const ASIAN_CATEGORY_THRESHOLDS: Record<BMICategoryAsian, BMICategoryDeta
   },
 };
 
-// ============================================================================
-// Unit Conversion Functions
-// ============================================================================
-
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert height from centimeters to meters
- */
-export function cmToMeters(cm: number): number {
-  return cm / 100;
-}
-
-/**
- * Convert weight from kilograms to pounds
- */
-export function kgToLbs(kg: number): number {
-  return kg * 2.20462;
-}
-
 // ============================================================================
 // BMI Calculation Functions
 // ============================================================================
@@ -253,7 +235,7 @@ export function kgToLbs(kg: number): number {
  */
 export function calculateBMI(weightKg: number, heightM: number): number {
   if (heightM <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightM <= 0 ? 'height' : 'weight', 'positive');
   }
   return weightKg / (heightM * heightM);
 }
@@ -272,7 +254,7 @@ export function calculateBMIPrime(bmi: number): number {
  */
 export function calculatePonderalIndex(weightKg: number, heightM: number): number {
   if (heightM <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightM <= 0 ? 'height' : 'weight', 'positive');
   }
   return weightKg / (heightM * heightM * heightM);
 }
@@ -387,8 +369,8 @@ export function getHealthyWeightRange(
 
   if (unitSystem === 'imperial') {
     return {
-      min: parseFloat(kgToLbs(minWeight).toFixed(1)),
-      max: parseFloat(kgToLbs(maxWeight).toFixed(1)),
+      min: parseFloat(kgToLbs(kilograms(minWeight)).toFixed(1)),
+      max: parseFloat(kgToLbs(kilograms(maxWeight)).toFixed(1)),
     };
   }
 
@@ -406,16 +388,18 @@ export function getHealthyWeightRange(
  * Main function to calculate all BMI-related metrics
  */
 export function calculateBMIMetrics(input: BMIInput): BMIResult {
+  assertValid(validateBMIInput(input));
+
   const thresholdType = input.thresholdType || 'WHO_8';
   let heightM: number;
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightM = cmToMeters(input.height * 2.54); // input.height is in inches
-    weightKg = lbsToKg(input.weight);
+    heightM = cmToMeters(inchesToCm(inches(input.height))); // input.height is in inches
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
-    heightM = cmToMeters(input.height);
+    heightM = cmToMeters(centimeters(input.height));
     weightKg = input.weight;
   }
 
@@ -456,3 +440,56 @@ export function getAllCategoryThresholds(
       return WHO_8_CATEGORY_THRESHOLDS;
   }
 }
+
+/**
+ * Validate BMI input
+ */
+export function validateBMIInput(input: Partial<BMIInput>): ValidationResult {
+  return new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('weight', input.weight)
+    .result();
+}
+
+/**
+ * Form fields for the BMI calculator
+ */
+export const bmiInputSchema: InputSchema<BMIInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'bmi.form.ageLabel',
+      placeholder: 'bmi.form.agePlaceholder',
+      min: 2,
+      max: 120,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'bmi.form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'bmi.form.heightLabel',
+      placeholder: 'bmi.form.heightPlaceholder',
+      unit: 'height',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'bmi.form.weightLabel',
+      placeholder: 'bmi.form.weightPlaceholder',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+    },
+  ],
+};
@@ -3,9 +3,18 @@
  * Calculates Basal Metabolic Rate using multiple formulas
  */
 
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 
-export type BMRFormula = 'mifflin' | 'harris' | 'katch';
+export type BMRFormula =
+  | 'mifflin'    // Mifflin-St Jeor (1990)
+  | 'harris'     // Revised Harris-Benedict (1984)
+  | 'katch'      // Katch-McArdle (requires body fat %)
+  | 'whoFao'     // WHO/FAO/UNU (1985), age-group equations
+  | 'tenHaaf'    // Ten Haaf & Weijs (2014)
+  | 'schofield'; // Schofield (1985), age-group equations
 
 export type ActivityLevel =
   | 'sedentary'      // Little or no exercise
@@ -21,12 +30,22 @@ export interface BMRInput {
   heightCm: number;
   weightKg: number;
   bodyFatPercentage?: number; // Optional, for Katch-McArdle formula
+  formulas?: BMRFormula[]; // Formulas to evaluate, primary first
+}
+
+export interface BMRFormulaValue {
+  formula: BMRFormula;
+  value: number;
 }
 
 export interface BMRResult {
   mifflin: number;
   harris: number;
   katch: number | null;
+  whoFao: number | null;
+  tenHaaf: number | null;
+  schofield: number | null;
+  formulas: BMRFormulaValue[]; // Requested formulas that could be evaluated, in request order
   recommended: number;
   recommendedFormula: BMRFormula;
   calorieNeeds: {
@@ -49,6 +68,61 @@ const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
   'extra-active': 1.95,
 };
 
+// Formulas evaluated when the caller doesn't request specific ones
+const DEFAULT_FORMULAS: BMRFormula[] = ['mifflin', 'harris', 'katch'];
+
+interface AgeGroupEquation {
+  maxAge: number; // Upper bound (exclusive) of the age group
+  slope: number;
+  intercept: number;
+}
+
+// WHO/FAO/UNU (1985) equations in kcal/day: BMR = slope × W + intercept
+const WHO_FAO_EQUATIONS: Record<Gender, AgeGroupEquation[]> = {
+  male: [
+    { maxAge: 3, slope: 60.9, intercept: -54 },
+    { maxAge: 10, slope: 22.7, intercept: 495 },
+    { maxAge: 18, slope: 17.5, intercept: 651 },
+    { maxAge: 30, slope: 15.3, intercept: 679 },
+    { maxAge: 60, slope: 11.6, intercept: 879 },
+    { maxAge: Infinity, slope: 13.5, intercept: 487 },
+  ],
+  female: [
+    { maxAge: 3, slope: 61.0, intercept: -51 },
+    { maxAge: 10, slope: 22.5, intercept: 499 },
+    { maxAge: 18, slope: 12.2, intercept: 746 },
+    { maxAge: 30, slope: 14.7, intercept: 496 },
+    { maxAge: 60, slope: 8.7, intercept: 829 },
+    { maxAge: Infinity, slope: 10.5, intercept: 596 },
+  ],
+};
+
+// Schofield (1985) equations in MJ/day: BMR = slope × W + intercept
+const SCHOFIELD_EQUATIONS: Record<Gender, AgeGroupEquation[]> = {
+  male: [
+    { maxAge: 3, slope: 0.249, intercept: -0.127 },
+    { maxAge: 10, slope: 0.095, intercept: 2.110 },
+    { maxAge: 18, slope: 0.074, intercept: 2.754 },
+    { maxAge: 30, slope: 0.063, intercept: 2.896 },
+    { maxAge: 60, slope: 0.048, intercept: 3.653 },
+    { maxAge: Infinity, slope: 0.049, intercept: 2.459 },
+  ],
+  female: [
+    { maxAge: 3, slope: 0.244, intercept: -0.130 },
+    { maxAge: 10, slope: 0.085, intercept: 2.033 },
+    { maxAge: 18, slope: 0.056, intercept: 2.898 },
+    { maxAge: 30, slope: 0.062, intercept: 2.036 },
+    { maxAge: 60, slope: 0.034, intercept: 3.538 },
+    { maxAge: Infinity, slope: 0.038, intercept: 2.755 },
+  ],
+};
+
+const KCAL_PER_MJ = 239.006;
+
+function findAgeGroupEquation(equations: AgeGroupEquation[], age: number): AgeGroupEquation {
+  return equations.find(equation => age < equation.maxAge) ?? equations[equations.length - 1];
+}
+
 /**
  * Calculate BMR using Mifflin-St Jeor Equation (most accurate)
  * Men: BMR = 10W + 6.25H - 5A + 5
@@ -96,11 +170,60 @@ export function calculateKatchMcArdle(
   return 370 + 21.6 * leanBodyMass;
 }
 
+/**
+ * Calculate BMR using the WHO/FAO/UNU (1985) age-group equations
+ * Only weight is used; the coefficients change per age group
+ * Example (men 30-60): BMR = 11.6W + 879
+ */
+export function calculateWHOFAO(
+  weightKg: number,
+  age: number,
+  gender: Gender
+): number {
+  const { slope, intercept } = findAgeGroupEquation(WHO_FAO_EQUATIONS[gender], age);
+  return slope * weightKg + intercept;
+}
+
+/**
+ * Calculate BMR using the Ten Haaf & Weijs (2014) equation
+ * BMR = 11.936W + 587.728H(m) - 8.129A + 191.027S + 29.279
+ * S = 1 for men, 0 for women
+ * Developed and validated on Dutch adults
+ */
+export function calculateTenHaaf(
+  weightKg: number,
+  heightCm: number,
+  age: number,
+  gender: Gender
+): number {
+  const sex = gender === 'male' ? 1 : 0;
+  return 11.936 * weightKg + 587.728 * (heightCm / 100) - 8.129 * age + 191.027 * sex + 29.279;
+}
+
+/**
+ * Calculate BMR using the Schofield (1985) age-group equations
+ * Coefficients are published in MJ/day and converted to kcal/day
+ * Example (men 30-60): BMR = (0.048W + 3.653) × 239.006
+ */
+export function calculateSchofield(
+  weightKg: number,
+  age: number,
+  gender: Gender
+): number {
+  const { slope, intercept } = findAgeGroupEquation(SCHOFIELD_EQUATIONS[gender], age);
+  return (slope * weightKg + intercept) * KCAL_PER_MJ;
+}
+
 /**
  * Main function to calculate BMR using all available formulas
+ * The first entry of `formulas` is the primary (recommended) formula,
+ * unless a body fat percentage allows Katch-McArdle to be used
  */
 export function calculateBMR(input: BMRInput): BMRResult {
+  assertValid(validateBMRInput(input));
+
   const { age, gender, heightCm, weightKg, bodyFatPercentage } = input;
+  const requested = input.formulas && input.formulas.length > 0 ? input.formulas : DEFAULT_FORMULAS;
 
   // Calculate BMR using Mifflin-St Jeor (recommended)
   const mifflin = Math.round(calculateMifflinStJeor(weightKg, heightCm, age, gender));
@@ -114,15 +237,38 @@ export function calculateBMR(input: BMRInput): BMRResult {
     katch = Math.round(calculateKatchMcArdle(weightKg, bodyFatPercentage));
   }
 
+  // Regional formulas are only evaluated when requested
+  const whoFao = requested.includes('whoFao')
+    ? Math.round(calculateWHOFAO(weightKg, age, gender))
+    : null;
+  const tenHaaf = requested.includes('tenHaaf')
+    ? Math.round(calculateTenHaaf(weightKg, heightCm, age, gender))
+    : null;
+  const schofield = requested.includes('schofield')
+    ? Math.round(calculateSchofield(weightKg, age, gender))
+    : null;
+
+  const values: Record<BMRFormula, number | null> = { mifflin, harris, katch, whoFao, tenHaaf, schofield };
+  const formulas: BMRFormulaValue[] = [];
+  for (const formula of requested) {
+    const value = values[formula];
+    if (value !== null) {
+      formulas.push({ formula, value });
+    }
+  }
+
   // Determine recommended BMR
-  // Use Katch-McArdle if available (most accurate for those with known body fat %)
-  // Otherwise use Mifflin-St Jeor (most accurate general formula)
+  // Use Katch-McArdle if requested and available (most accurate for those with known body fat %)
+  // Otherwise use the primary formula, falling back to Mifflin-St Jeor (most accurate general formula)
   let recommended: number;
   let recommendedFormula: BMRFormula;
 
-  if (katch !== null) {
+  if (katch !== null && requested.includes('katch')) {
     recommended = katch;
     recommendedFormula = 'katch';
+  } else if (formulas.length > 0 && formulas[0].formula !== 'katch') {
+    recommended = formulas[0].value;
+    recommendedFormula = formulas[0].formula;
   } else {
     recommended = mifflin;
     recommendedFormula = 'mifflin';
@@ -142,36 +288,82 @@ export function calculateBMR(input: BMRInput): BMRResult {
     mifflin,
     harris,
     katch,
+    whoFao,
+    tenHaaf,
+    schofield,
+    formulas,
     recommended,
     recommendedFormula,
     calorieNeeds,
   };
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
-
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
-
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
+/**
+ * Validate BMR input
+ */
+export function validateBMRInput(input: Partial<BMRInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('heightCm', input.heightCm)
+    .positive('weightKg', input.weightKg);
 
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+  if (input.bodyFatPercentage !== undefined) {
+    validator.range('bodyFatPercentage', input.bodyFatPercentage, 0, 100);
+  }
 
-export function caloriesToKJ(calories: number): number {
-  return calories * 4.184;
+  return validator.result();
 }
 
-export function kjToCalories(kj: number): number {
-  return kj / 4.184;
-}
+/**
+ * Form fields for the BMR calculator
+ */
+export const bmrInputSchema: InputSchema<BMRInput> = {
+  units: 'convert',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'bmr.form.ageLabel',
+      placeholder: 'bmr.form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'bmr.form.genderLabel', options: genderOptions },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'bmr.form.heightLabel',
+      placeholder: 'bmr.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weightKg',
+      profile: 'weight',
+      type: 'number',
+      label: 'bmr.form.weightLabel',
+      placeholder: 'bmr.form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'bodyFatPercentage',
+      type: 'number',
+      label: 'bmr.form.bodyFatLabel',
+      placeholder: 'bmr.form.bodyFatPlaceholder',
+      help: 'bmr.form.bodyFatHelp',
+      suffix: 'units.percent',
+      min: 5,
+      max: 50,
+      step: 0.1,
+      required: false,
+    },
+  ],
+};
@@ -3,6 +3,9 @@
  * Calculates body fat percentage using US Navy Method and BMI-based methods
  */
 
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 export type CalculationMethod = 'navy' | 'bmi';
 
@@ -95,7 +98,7 @@ function calculateNavyMethod(
   } else {
     // Female formula: 495 / (1.29579 - 0.35004 * log10(waist + hip - neck) + 0.22100 * log10(height)) - 450
     if (!hipCm) {
-      throw new Error('Hip circumference is required for females');
+      invalid('hipCm', 'required');
     }
     const logWaistHipNeck = Math.log10(waistCm + hipCm - neckCm);
     const logHeight = Math.log10(heightCm);
@@ -168,19 +171,15 @@ function getIdealBodyFat(gender: Gender, age: number): number {
  * Main function to calculate body fat percentage and related metrics
  */
 export function calculateBodyFat(input: BodyFatInput): BodyFatResult {
+  assertValid(validateBodyFatInput(input));
+
   const { age, gender, heightCm, weightKg, neckCm, waistCm, hipCm, method } = input;
 
   let bodyFatPercentage: number;
 
   // Calculate based on selected method
   if (method === 'navy') {
-    if (!neckCm || !waistCm) {
-      throw new Error('Neck and waist measurements are required for Navy method');
-    }
-    if (gender === 'female' && !hipCm) {
-      throw new Error('Hip measurement is required for females using Navy method');
-    }
-    bodyFatPercentage = calculateNavyMethod(gender, heightCm, neckCm, waistCm, hipCm);
+    bodyFatPercentage = calculateNavyMethod(gender, heightCm, neckCm!, waistCm!, hipCm);
   } else {
     bodyFatPercentage = calculateBMIMethod(gender, age, heightCm, weightKg);
   }
@@ -214,30 +213,108 @@ export function calculateBodyFat(input: BodyFatInput): BodyFatResult {
   };
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
-
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
-
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
+/**
+ * Validate body fat input
+ */
+export function validateBodyFatInput(input: Partial<BodyFatInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('heightCm', input.heightCm)
+    .positive('weightKg', input.weightKg)
+    .required('method', input.method);
 
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
+  if (input.method === 'navy') {
+    validator.positive('neckCm', input.neckCm).positive('waistCm', input.waistCm);
+    if (input.gender === 'female') {
+      validator.positive('hipCm', input.hipCm);
+    }
+  }
 
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
+  return validator.result();
 }
 
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+/**
+ * Form fields for the body fat calculator
+ */
+export const bodyFatInputSchema: InputSchema<BodyFatInput> = {
+  units: 'convert',
+  fields: [
+    {
+      name: 'method',
+      type: 'select',
+      label: 'bodyFat.form.methodLabel',
+      options: [
+        { value: 'navy', label: 'bodyFat.method.navy' },
+        { value: 'bmi', label: 'bodyFat.method.bmi' },
+      ],
+    },
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'bodyFat.form.ageLabel',
+      placeholder: 'bodyFat.form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'bodyFat.form.genderLabel', options: genderOptions },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'bodyFat.form.heightLabel',
+      placeholder: 'bodyFat.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weightKg',
+      profile: 'weight',
+      type: 'number',
+      label: 'bodyFat.form.weightLabel',
+      placeholder: 'bodyFat.form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'neckCm',
+      type: 'number',
+      label: 'bodyFat.form.neckLabel',
+      placeholder: 'bodyFat.form.neckPlaceholder',
+      help: 'bodyFat.form.neckHelp',
+      unit: 'length',
+      min: 20,
+      max: 60,
+      step: 0.1,
+      when: { method: 'navy' },
+    },
+    {
+      name: 'waistCm',
+      type: 'number',
+      label: 'bodyFat.form.waistLabel',
+      placeholder: 'bodyFat.form.waistPlaceholder',
+      unit: 'length',
+      min: 50,
+      max: 200,
+      step: 0.1,
+      when: { method: 'navy' },
+    },
+    {
+      name: 'hipCm',
+      type: 'number',
+      label: 'bodyFat.form.hipLabel',
+      placeholder: 'bodyFat.form.hipPlaceholder',
+      help: 'bodyFat.form.hipHelp',
+      unit: 'length',
+      min: 50,
+      max: 200,
+      step: 0.1,
+      when: { method: 'navy', gender: 'female' },
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { centimeters, cmToInches, inches, inchesToCm } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type FrameSize = 'small' | 'medium' | 'large';
@@ -8,31 +12,21 @@ export interface BodyFrameInput {
   wristCircumference?: number; // cm or inches
   elbowBreadth?: number; // cm or inches
   unitSystem: UnitSystem;
+  /** Measurement the form asks for; the calculation uses whichever is given */
+  method?: BodyFrameMethod;
 }
 
+export type BodyFrameMethod = 'wrist' | 'elbow';
+
 export interface BodyFrameResult {
   frameSize: FrameSize;
-  method: 'wrist' | 'elbow';
+  method: BodyFrameMethod;
   wristCircumference?: number;
   elbowBreadth?: number;
   heightCm: number;
   rValue?: number; // height/wrist ratio for wrist method
 }
 
-/**
- * Convert inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
-/**
- * Convert centimeters to inches
- */
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
 /**
  * Calculate frame size using wrist circumference method
  * Based on height to wrist circumference ratio (r-value)
@@ -66,8 +60,8 @@ export function calculateFrameSizeByElbow(
   elbowBreadthCm: number,
   gender: Gender
 ): FrameSize {
-  const heightInches = cmToInches(heightCm);
-  const elbowInches = cmToInches(elbowBreadthCm);
+  const heightInches = cmToInches(centimeters(heightCm));
+  const elbowInches = cmToInches(centimeters(elbowBreadthCm));
 
   if (gender === 'male') {
     // Male height categories and elbow breadth ranges
@@ -126,17 +120,19 @@ export function calculateFrameSizeByElbow(
  * Prefers wrist method if available, falls back to elbow method
  */
 export function calculateBodyFrame(input: BodyFrameInput): BodyFrameResult {
+  assertValid(validateBodyFrameInput(input));
+
   let heightCm: number;
   let wristCircumferenceCm: number | undefined;
   let elbowBreadthCm: number | undefined;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = inchesToCm(input.height);
+    heightCm = inchesToCm(inches(input.height));
     wristCircumferenceCm = input.wristCircumference
-      ? inchesToCm(input.wristCircumference)
+      ? inchesToCm(inches(input.wristCircumference))
       : undefined;
-    elbowBreadthCm = input.elbowBreadth ? inchesToCm(input.elbowBreadth) : undefined;
+    elbowBreadthCm = input.elbowBreadth ? inchesToCm(inches(input.elbowBreadth)) : undefined;
   } else {
     heightCm = input.height;
     wristCircumferenceCm = input.wristCircumference;
@@ -175,8 +171,8 @@ export function calculateBodyFrame(input: BodyFrameInput): BodyFrameResult {
     };
   }
 
-  // Throw error if neither measurement is provided
-  throw new Error('Either wrist circumference or elbow breadth must be provided');
+  // Neither measurement is provided
+  return invalid('wristCircumference', 'required');
 }
 
 /**
@@ -215,3 +211,80 @@ export function getWristReferenceRanges(gender: Gender, unitSystem: UnitSystem =
     };
   }
 }
+
+/**
+ * Validate body frame input
+ * At least one of wrist circumference or elbow breadth is required
+ */
+export function validateBodyFrameInput(input: Partial<BodyFrameInput>): ValidationResult {
+  const validator = new Validator()
+    .required('gender', input.gender)
+    .positive('height', input.height);
+
+  if (input.wristCircumference === undefined && input.elbowBreadth === undefined) {
+    validator.required('wristCircumference', undefined).required('elbowBreadth', undefined);
+  }
+  if (input.wristCircumference !== undefined) {
+    validator.positive('wristCircumference', input.wristCircumference);
+  }
+  if (input.elbowBreadth !== undefined) {
+    validator.positive('elbowBreadth', input.elbowBreadth);
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the body frame calculator
+ */
+export const bodyFrameInputSchema: InputSchema<BodyFrameInput> = {
+  units: 'raw',
+  fields: [
+    { name: 'gender', type: 'select', label: 'bodyFrame:form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      type: 'number',
+      label: 'bodyFrame:form.heightLabel',
+      placeholder: 'bodyFrame:form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'method',
+      type: 'radio',
+      label: 'bodyFrame:form.measurementMethod',
+      help: 'bodyFrame:form.methodHelp',
+      options: [
+        { value: 'wrist', label: 'bodyFrame:form.wristMethod' },
+        { value: 'elbow', label: 'bodyFrame:form.elbowMethod' },
+      ],
+      default: 'wrist',
+    },
+    {
+      name: 'wristCircumference',
+      type: 'number',
+      label: 'bodyFrame:form.wristLabel',
+      placeholder: 'bodyFrame:form.wristPlaceholder',
+      help: 'bodyFrame:form.wristHelp',
+      unit: 'length',
+      min: 10,
+      max: 30,
+      step: 0.1,
+      when: { method: 'wrist' },
+    },
+    {
+      name: 'elbowBreadth',
+      type: 'number',
+      label: 'bodyFrame:form.elbowLabel',
+      placeholder: 'bodyFrame:form.elbowPlaceholder',
+      help: 'bodyFrame:form.elbowHelp',
+      unit: 'length',
+      min: 4,
+      max: 12,
+      step: 0.1,
+      when: { method: 'elbow' },
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { inches, inchesToCm } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type BodyType = 'ectomorph' | 'mesomorph' | 'endomorph';
@@ -21,20 +25,6 @@ export interface BodyTypeResult {
   height: number; // in selected unit system
 }
 
-/**
- * Convert inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
-/**
- * Convert centimeters to inches
- */
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
 /**
  * Determine frame size based on wrist circumference and height
  * Based on standard anthropometric measurements
@@ -110,15 +100,17 @@ export function calculateBodyType(
  * Main function to calculate body type and all related metrics
  */
 export function calculateBodyTypeMetrics(input: BodyTypeInput): BodyTypeResult {
+  assertValid(validateBodyTypeInput(input));
+
   let heightCm: number;
   let wristCm: number;
   let ankleCm: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = inchesToCm(input.height);
-    wristCm = inchesToCm(input.wristCircumference);
-    ankleCm = inchesToCm(input.ankleCircumference);
+    heightCm = inchesToCm(inches(input.height));
+    wristCm = inchesToCm(inches(input.wristCircumference));
+    ankleCm = inchesToCm(inches(input.ankleCircumference));
   } else {
     heightCm = input.height;
     wristCm = input.wristCircumference;
@@ -152,3 +144,58 @@ export function calculateBodyTypeMetrics(input: BodyTypeInput): BodyTypeResult {
     ),
   };
 }
+
+/**
+ * Validate body type input
+ */
+export function validateBodyTypeInput(input: Partial<BodyTypeInput>): ValidationResult {
+  return new Validator()
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('wristCircumference', input.wristCircumference)
+    .positive('ankleCircumference', input.ankleCircumference)
+    .result();
+}
+
+/**
+ * Form fields for the body type calculator
+ */
+export const bodyTypeInputSchema: InputSchema<BodyTypeInput> = {
+  units: 'raw',
+  fields: [
+    { name: 'gender', type: 'select', label: 'bodyType.form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      type: 'number',
+      label: 'bodyType.form.heightLabel',
+      placeholder: 'bodyType.form.heightPlaceholder',
+      // Entered in inches, not feet and inches
+      unit: 'length',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'wristCircumference',
+      type: 'number',
+      label: 'bodyType.form.wristLabel',
+      placeholder: 'bodyType.form.wristPlaceholder',
+      help: 'bodyType.form.wristHint',
+      unit: 'length',
+      min: 10,
+      max: 30,
+      step: 0.1,
+    },
+    {
+      name: 'ankleCircumference',
+      type: 'number',
+      label: 'bodyType.form.ankleLabel',
+      placeholder: 'bodyType.form.anklePlaceholder',
+      help: 'bodyType.form.ankleHint',
+      unit: 'length',
+      min: 15,
+      max: 40,
+      step: 0.1,
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { inches, inchesToCm, lbsToKg, pounds } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type BSAFormula = 'dubois' | 'mosteller' | 'haycock';
 
@@ -14,27 +18,6 @@ export interface BSAResult {
   averageBSA: number;
 }
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert height from inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
 /**
  * Calculate BSA using the Du Bois formula
  * BSA (m²) = 0.007184 × height^0.725 × weight^0.425
@@ -42,7 +25,7 @@ export function inchesToCm(inches: number): number {
  */
 export function calculateDuBois(heightCm: number, weightKg: number): number {
   if (heightCm <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightCm <= 0 ? 'height' : 'weight', 'positive');
   }
   return 0.007184 * Math.pow(heightCm, 0.725) * Math.pow(weightKg, 0.425);
 }
@@ -55,7 +38,7 @@ export function calculateDuBois(heightCm: number, weightKg: number): number {
  */
 export function calculateMosteller(heightCm: number, weightKg: number): number {
   if (heightCm <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightCm <= 0 ? 'height' : 'weight', 'positive');
   }
   return Math.sqrt((heightCm * weightKg) / 3600);
 }
@@ -67,7 +50,7 @@ export function calculateMosteller(heightCm: number, weightKg: number): number {
  */
 export function calculateHaycock(heightCm: number, weightKg: number): number {
   if (heightCm <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightCm <= 0 ? 'height' : 'weight', 'positive');
   }
   return 0.024265 * Math.pow(heightCm, 0.3964) * Math.pow(weightKg, 0.5378);
 }
@@ -76,13 +59,15 @@ export function calculateHaycock(heightCm: number, weightKg: number): number {
  * Main function to calculate all BSA metrics using different formulas
  */
 export function calculateBSAMetrics(input: BSAInput): BSAResult {
+  assertValid(validateBSAInput(input));
+
   let heightCm: number;
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = inchesToCm(input.height); // input.height is in inches
-    weightKg = lbsToKg(input.weight);
+    heightCm = inchesToCm(inches(input.height)); // input.height is in inches
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     heightCm = input.height;
     weightKg = input.weight;
@@ -100,3 +85,44 @@ export function calculateBSAMetrics(input: BSAInput): BSAResult {
     averageBSA: parseFloat(averageBSA.toFixed(3)),
   };
 }
+
+/**
+ * Validate BSA input
+ */
+export function validateBSAInput(input: Partial<BSAInput>): ValidationResult {
+  return new Validator()
+    .positive('height', input.height)
+    .positive('weight', input.weight)
+    .result();
+}
+
+/**
+ * Form fields for the body surface area calculator
+ */
+export const bsaInputSchema: InputSchema<BSAInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'bsa.form.heightLabel',
+      placeholder: 'bsa.form.heightPlaceholder',
+      unit: 'height',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'bsa.form.weightLabel',
+      placeholder: 'bsa.form.weightPlaceholder',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+    },
+  ],
+};
@@ -3,6 +3,9 @@
  * Calculates daily calorie needs based on age, gender, height, weight, and activity level
  */
 
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 
 export type ActivityLevel =
@@ -96,6 +99,8 @@ function calculateKatchMcArdle(
  * Main function to calculate daily calorie needs
  */
 export function calculateCalories(input: CalorieInput): CalorieResult {
+  assertValid(validateCalorieInput(input));
+
   const { age, gender, heightCm, weightKg, activityLevel, bodyFatPercentage } = input;
 
   // Calculate BMR using Mifflin-St Jeor (default, most accurate)
@@ -154,30 +159,74 @@ export function calculateAllBMRFormulas(
   return result;
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
-
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
-
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+/**
+ * Validate calorie input
+ */
+export function validateCalorieInput(input: Partial<CalorieInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('heightCm', input.heightCm)
+    .positive('weightKg', input.weightKg)
+    .required('activityLevel', input.activityLevel);
+
+  if (input.bodyFatPercentage !== undefined) {
+    validator.range('bodyFatPercentage', input.bodyFatPercentage, 0, 100);
+  }
 
-export function caloriesToKJ(calories: number): number {
-  return calories * 4.184;
+  return validator.result();
 }
 
-export function kjToCalories(kj: number): number {
-  return kj / 4.184;
-}
+/**
+ * Form fields for the calorie calculator
+ */
+export const calorieInputSchema: InputSchema<CalorieInput> = {
+  units: 'convert',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'calorie.form.ageLabel',
+      placeholder: 'calorie.form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'calorie.form.genderLabel', options: genderOptions },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'calorie.form.heightLabel',
+      placeholder: 'calorie.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weightKg',
+      profile: 'weight',
+      type: 'number',
+      label: 'calorie.form.weightLabel',
+      placeholder: 'calorie.form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'calorie.form.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'calorie.activity.sedentary' },
+        { value: 'light', label: 'calorie.activity.light' },
+        { value: 'moderate', label: 'calorie.activity.moderate' },
+        { value: 'active', label: 'calorie.activity.active' },
+        { value: 'very-active', label: 'calorie.activity.veryActive' },
+        { value: 'extra-active', label: 'calorie.activity.extraActive' },
+      ],
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { lbsToKg, MINUTES_PER_HOUR, pounds } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type ActivityLevel =
   | 'walking_slow'
@@ -66,20 +70,13 @@ export const MET_VALUES: Record<ActivityLevel, number> = {
   golf: 3.5,                  // Walking, carrying clubs
 };
 
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
 /**
  * Calculate calories burned per minute using MET formula
  * Formula: (MET × weight in kg × 3.5) / 200
  */
 export function calculateCaloriesPerMinute(met: number, weightKg: number): number {
   if (weightKg <= 0 || met <= 0) {
-    throw new Error('Weight and MET must be positive numbers');
+    invalid(weightKg <= 0 ? 'weight' : 'activity', weightKg <= 0 ? 'positive' : 'invalid');
   }
   return (met * weightKg * 3.5) / 200;
 }
@@ -92,7 +89,7 @@ export function calculateTotalCalories(
   durationMinutes: number
 ): number {
   if (durationMinutes <= 0) {
-    throw new Error('Duration must be a positive number');
+    invalid('duration', 'positive');
   }
   return caloriesPerMinute * durationMinutes;
 }
@@ -101,11 +98,13 @@ export function calculateTotalCalories(
  * Main function to calculate all calories burned metrics
  */
 export function calculateCaloriesBurned(input: CaloriesBurnedInput): CaloriesBurnedResult {
+  assertValid(validateCaloriesBurnedInput(input));
+
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    weightKg = lbsToKg(input.weight);
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     weightKg = input.weight;
   }
@@ -113,7 +112,7 @@ export function calculateCaloriesBurned(input: CaloriesBurnedInput): CaloriesBur
   const met = MET_VALUES[input.activity];
   const caloriesPerMinute = calculateCaloriesPerMinute(met, weightKg);
   const calories = calculateTotalCalories(caloriesPerMinute, input.duration);
-  const caloriesPerHour = caloriesPerMinute * 60;
+  const caloriesPerHour = caloriesPerMinute * MINUTES_PER_HOUR;
 
   return {
     calories: parseFloat(calories.toFixed(1)),
@@ -122,3 +121,51 @@ export function calculateCaloriesBurned(input: CaloriesBurnedInput): CaloriesBur
     caloriesPerHour: parseFloat(caloriesPerHour.toFixed(1)),
   };
 }
+
+/**
+ * Validate calories burned input
+ */
+export function validateCaloriesBurnedInput(input: Partial<CaloriesBurnedInput>): ValidationResult {
+  return new Validator()
+    .required('activity', input.activity)
+    .positive('duration', input.duration)
+    .positive('weight', input.weight)
+    .result();
+}
+
+/**
+ * Form fields for the calories burned calculator
+ */
+export const caloriesBurnedInputSchema: InputSchema<CaloriesBurnedInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'activity',
+      type: 'select',
+      label: 'caloriesBurned.form.activityLabel',
+      options: (Object.keys(MET_VALUES) as ActivityLevel[]).map(activity => ({
+        value: activity,
+        label: `caloriesBurned.activities.${activity}`,
+      })),
+    },
+    {
+      name: 'duration',
+      type: 'number',
+      label: 'caloriesBurned.form.durationLabel',
+      placeholder: 'caloriesBurned.form.durationPlaceholder',
+      min: 1,
+      max: 1440,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'caloriesBurned.form.weightLabel',
+      placeholder: 'caloriesBurned.form.weightPlaceholder',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+    },
+  ],
+};
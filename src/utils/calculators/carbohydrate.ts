@@ -1,3 +1,7 @@
+import { inches, inchesToCm, lbsToKg, pounds } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'extra';
@@ -61,34 +65,13 @@ const carbPercentages = {
   high: { min: 50, max: 70, recommended: 60 },
 };
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert height from centimeters to meters
- */
-export function cmToMeters(cm: number): number {
-  return cm / 100;
-}
-
 /**
  * Calculate BMR using Mifflin-St Jeor Equation
  * More accurate than Harris-Benedict for modern populations
  */
 export function calculateBMR(weightKg: number, heightCm: number, age: number, gender: Gender): number {
   if (weightKg <= 0 || heightCm <= 0 || age <= 0) {
-    throw new Error('Weight, height, and age must be positive numbers');
+    invalid(weightKg <= 0 ? 'weight' : heightCm <= 0 ? 'height' : 'age', 'positive');
   }
 
   // Mifflin-St Jeor Equation
@@ -150,13 +133,15 @@ export function createCarbRecommendation(
  * Main function to calculate carbohydrate recommendations
  */
 export function calculateCarbohydrateNeeds(input: CarbohydrateInput): CarbohydrateResult {
+  assertValid(validateCarbohydrateInput(input));
+
   let heightCm: number;
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = input.height * 2.54; // input.height is in inches
-    weightKg = lbsToKg(input.weight);
+    heightCm = inchesToCm(inches(input.height)); // input.height is in inches
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     heightCm = input.height;
     weightKg = input.weight;
@@ -199,3 +184,82 @@ export function getCarbPercentageRanges() {
 export function getMinimumDailyCarbs(): number {
   return 130;
 }
+
+/**
+ * Validate carbohydrate input
+ */
+export function validateCarbohydrateInput(input: Partial<CarbohydrateInput>): ValidationResult {
+  return new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('weight', input.weight)
+    .required('activityLevel', input.activityLevel)
+    .required('goal', input.goal)
+    .result();
+}
+
+/**
+ * Form fields for the carbohydrate calculator
+ */
+export const carbohydrateInputSchema: InputSchema<CarbohydrateInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'carbohydrate:form.ageLabel',
+      placeholder: 'carbohydrate:form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'carbohydrate:form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'carbohydrate:form.heightLabel',
+      placeholder: 'carbohydrate:form.heightPlaceholder',
+      unit: 'height',
+      min: 120,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'carbohydrate:form.weightLabel',
+      placeholder: 'carbohydrate:form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'carbohydrate:form.activityLevelLabel',
+      options: [
+        { value: 'sedentary', label: 'carbohydrate:form.activityLevels.sedentary' },
+        { value: 'light', label: 'carbohydrate:form.activityLevels.light' },
+        { value: 'moderate', label: 'carbohydrate:form.activityLevels.moderate' },
+        { value: 'active', label: 'carbohydrate:form.activityLevels.active' },
+        { value: 'extra', label: 'carbohydrate:form.activityLevels.extra' },
+      ],
+      default: 'moderate',
+    },
+    {
+      name: 'goal',
+      type: 'select',
+      label: 'carbohydrate:form.goalLabel',
+      options: [
+        { value: 'loss', label: 'carbohydrate:form.goals.loss' },
+        { value: 'maintain', label: 'carbohydrate:form.goals.maintain' },
+        { value: 'gain', label: 'carbohydrate:form.goals.gain' },
+      ],
+      default: 'maintain',
+    },
+  ],
+};
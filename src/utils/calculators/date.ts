@@ -1,3 +1,9 @@
+import type { Locale } from '@/config/languages';
+import { formatWeekday } from '@/utils/format';
+import { MS_PER_DAY, MS_PER_HOUR, MS_PER_MINUTE } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type CalculationMode = 'add' | 'subtract' | 'difference';
 export type TimeUnit = 'days' | 'weeks' | 'months' | 'years';
 
@@ -52,11 +58,10 @@ export function getDaysInMonth(year: number, month: number): number {
 }
 
 /**
- * Get day of week name
+ * Get day of week name, in English unless a locale is given
  */
-export function getDayOfWeek(date: Date): string {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return days[date.getDay()];
+export function getDayOfWeek(date: Date, locale: Locale = 'en'): string {
+  return formatWeekday(date, locale);
 }
 
 /**
@@ -65,7 +70,7 @@ export function getDayOfWeek(date: Date): string {
 export function getDayOfYear(date: Date): number {
   const start = new Date(date.getFullYear(), 0, 0);
   const diff = date.getTime() - start.getTime();
-  const oneDay = 1000 * 60 * 60 * 24;
+  const oneDay = MS_PER_DAY;
   return Math.floor(diff / oneDay);
 }
 
@@ -99,6 +104,8 @@ export function isBusinessDay(date: Date): boolean {
  * Add or subtract time from a date
  */
 export function addSubtractDate(input: DateAddSubtractInput): DateAddSubtractResult {
+  assertValid(validateDateAddSubtractInput(input));
+
   const { startDate, mode, years = 0, months = 0, weeks = 0, days = 0 } = input;
   const multiplier = mode === 'add' ? 1 : -1;
 
@@ -133,6 +140,8 @@ export function addSubtractDate(input: DateAddSubtractInput): DateAddSubtractRes
  * Calculate the difference between two dates
  */
 export function calculateDateDifference(input: DateDifferenceInput): DateDifferenceResult {
+  assertValid(validateDateDifferenceInput(input));
+
   let { startDate, endDate, includeEndDate = false } = input;
 
   // Ensure start is before end
@@ -144,7 +153,7 @@ export function calculateDateDifference(input: DateDifferenceInput): DateDiffere
   const diffMs = endDate.getTime() - startDate.getTime() + (includeEndDate ? 86400000 : 0);
 
   // Calculate total days
-  const totalDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const totalDays = Math.floor(diffMs / MS_PER_DAY);
 
   // Calculate years, months, weeks, days
   let tempDate = new Date(startDate);
@@ -169,14 +178,14 @@ export function calculateDateDifference(input: DateDifferenceInput): DateDiffere
 
   // Calculate remaining days
   const remainingMs = endDate.getTime() - tempDate.getTime();
-  const days = Math.floor(remainingMs / (1000 * 60 * 60 * 24));
+  const days = Math.floor(remainingMs / MS_PER_DAY);
 
   // Calculate weeks from total days
   const weeks = Math.floor(totalDays / 7);
 
   // Calculate hours and minutes from remaining time
-  const hours = Math.floor(diffMs / (1000 * 60 * 60));
-  const minutes = Math.floor(diffMs / (1000 * 60));
+  const hours = Math.floor(diffMs / MS_PER_HOUR);
+  const minutes = Math.floor(diffMs / MS_PER_MINUTE);
 
   // Count business days and weekdays/weekends
   let businessDays = 0;
@@ -218,18 +227,6 @@ export function formatDateForInput(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
-/**
- * Format a date for display (locale-aware)
- */
-export function formatDateForDisplay(date: Date, locale: string = 'en-US'): string {
-  return date.toLocaleDateString(locale, {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-}
-
 /**
  * Parse a date string in YYYY-MM-DD format
  */
@@ -237,3 +234,89 @@ export function parseDateString(dateString: string): Date {
   const [year, month, day] = dateString.split('-').map(Number);
   return new Date(year, month - 1, day);
 }
+
+/**
+ * Validate add/subtract input
+ */
+export function validateDateAddSubtractInput(input: Partial<DateAddSubtractInput>): ValidationResult {
+  const validator = new Validator()
+    .date('startDate', input.startDate)
+    .required('mode', input.mode);
+
+  for (const field of ['years', 'months', 'weeks', 'days'] as const) {
+    if (input[field] !== undefined) {
+      validator.nonNegative(field, input[field]);
+    }
+  }
+
+  return validator.result();
+}
+
+/**
+ * Validate date difference input
+ */
+export function validateDateDifferenceInput(input: Partial<DateDifferenceInput>): ValidationResult {
+  return new Validator()
+    .date('startDate', input.startDate)
+    .date('endDate', input.endDate)
+    .result();
+}
+
+/**
+ * Form fields for the date add/subtract calculator
+ */
+export const dateAddSubtractInputSchema: InputSchema<DateAddSubtractInput> = {
+  fields: [
+    { name: 'startDate', type: 'date', label: 'date.addSubtract.startDate' },
+    {
+      name: 'mode',
+      type: 'radio',
+      label: 'date.addSubtract.operation',
+      options: [
+        { value: 'add', label: 'date.addSubtract.add' },
+        { value: 'subtract', label: 'date.addSubtract.subtract' },
+      ],
+      default: 'add',
+    },
+    {
+      name: 'years',
+      type: 'number',
+      label: 'date.units.years',
+      min: 0,
+      max: 1000,
+      default: 0,
+      required: false,
+    },
+    {
+      name: 'months',
+      type: 'number',
+      label: 'date.units.months',
+      min: 0,
+      max: 12,
+      default: 0,
+      required: false,
+    },
+    {
+      name: 'weeks',
+      type: 'number',
+      label: 'date.units.weeks',
+      min: 0,
+      max: 52,
+      default: 0,
+      required: false,
+    },
+    { name: 'days', type: 'number', label: 'date.units.days', min: 0, max: 365, default: 0, required: false },
+  ],
+};
+
+/**
+ * Form fields for the date difference calculator
+ */
+export const dateDifferenceInputSchema: InputSchema<DateDifferenceInput> = {
+  fields: [
+    // Its own id, the add/subtract form on the same page has a startDate too
+    { name: 'startDate', id: 'diffStartDate', type: 'date', label: 'date.difference.startDate' },
+    { name: 'endDate', type: 'date', label: 'date.difference.endDate' },
+    { name: 'includeEndDate', type: 'checkbox', label: 'date.difference.includeEndDate', required: false },
+  ],
+};
@@ -1,3 +1,7 @@
+import { MS_PER_DAY } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type CalculationMethod = 'lmp' | 'conception' | 'ultrasound' | 'ivf';
 export type EmbryoAge = 3 | 5 | 6;
 export type Trimester = 1 | 2 | 3;
@@ -35,7 +39,7 @@ export interface DueDateResult {
  */
 export function calculateFromLMP(lmpDate: Date, cycleLength: number = 28): DueDateResult {
   if (cycleLength < 22 || cycleLength > 44) {
-    throw new Error('Cycle length must be between 22 and 44 days');
+    invalid('cycleLength', 'range', { min: 22, max: 44 });
   }
 
   // Calculate due date using Naegele's rule
@@ -75,10 +79,10 @@ export function calculateFromUltrasound(
   days: number
 ): DueDateResult {
   if (weeks < 0 || weeks > 42) {
-    throw new Error('Ultrasound weeks must be between 0 and 42');
+    invalid('ultrasoundWeeks', 'range', { min: 0, max: 42 });
   }
   if (days < 0 || days > 6) {
-    throw new Error('Ultrasound days must be between 0 and 6');
+    invalid('ultrasoundDays', 'range', { min: 0, max: 6 });
   }
 
   // Calculate total days of pregnancy at ultrasound
@@ -137,7 +141,7 @@ function calculatePregnancyDetails(
 
   // Calculate days since LMP (gestational age in days)
   const daysSinceLMP = Math.floor(
-    (today.getTime() - lmpDate.getTime()) / (1000 * 60 * 60 * 24)
+    (today.getTime() - lmpDate.getTime()) / MS_PER_DAY
   );
 
   // Calculate current week and day of pregnancy
@@ -146,7 +150,7 @@ function calculatePregnancyDetails(
 
   // Calculate days remaining until due date
   const daysRemaining = Math.ceil(
-    (dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+    (dueDate.getTime() - today.getTime()) / MS_PER_DAY
   );
 
   // Determine current trimester (based on gestational age)
@@ -205,23 +209,19 @@ function calculatePregnancyDetails(
  * Main function to calculate due date based on method
  */
 export function calculateDueDate(input: DueDateInput): DueDateResult {
+  assertValid(validateDueDateInput(input));
+
   switch (input.method) {
     case 'lmp':
       return calculateFromLMP(input.date, input.cycleLength);
     case 'conception':
       return calculateFromConception(input.date);
     case 'ultrasound':
-      if (input.ultrasoundWeeks === undefined || input.ultrasoundDays === undefined) {
-        throw new Error('Ultrasound weeks and days are required for ultrasound method');
-      }
-      return calculateFromUltrasound(input.date, input.ultrasoundWeeks, input.ultrasoundDays);
+      return calculateFromUltrasound(input.date, input.ultrasoundWeeks!, input.ultrasoundDays ?? 0);
     case 'ivf':
-      if (!input.embryoAge) {
-        throw new Error('Embryo age is required for IVF method');
-      }
-      return calculateFromIVF(input.date, input.embryoAge);
+      return calculateFromIVF(input.date, input.embryoAge!);
     default:
-      throw new Error('Invalid calculation method');
+      return invalid('method', 'invalid');
   }
 }
 
@@ -236,12 +236,123 @@ export function formatDateForInput(date: Date): string {
 }
 
 /**
- * Format date to localized string
+ * Validate due date input
  */
-export function formatDate(date: Date, locale: string = 'en-US'): string {
-  return date.toLocaleDateString(locale, {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+export function validateDueDateInput(input: Partial<DueDateInput>): ValidationResult {
+  const validator = new Validator()
+    .required('method', input.method)
+    .date('date', input.date);
+
+  switch (input.method) {
+    case 'lmp':
+      if (input.cycleLength !== undefined) {
+        validator.range('cycleLength', input.cycleLength, 22, 44);
+      }
+      break;
+    case 'ultrasound':
+      validator.range('ultrasoundWeeks', input.ultrasoundWeeks, 0, 42);
+      if (input.ultrasoundDays !== undefined) {
+        validator.range('ultrasoundDays', input.ultrasoundDays, 0, 6);
+      }
+      break;
+    case 'ivf':
+      validator.required('embryoAge', input.embryoAge);
+      break;
+  }
+
+  return validator.result();
 }
+
+/**
+ * Form fields for the due date calculator
+ */
+export const dueDateInputSchema: InputSchema<DueDateInput> = {
+  fields: [
+    {
+      name: 'method',
+      type: 'radio',
+      label: 'dueDate:form.methodLabel',
+      options: [
+        { value: 'lmp', label: 'dueDate:form.methods.lmp' },
+        { value: 'conception', label: 'dueDate:form.methods.conception' },
+        { value: 'ultrasound', label: 'dueDate:form.methods.ultrasound' },
+        { value: 'ivf', label: 'dueDate:form.methods.ivf' },
+      ],
+      default: 'lmp',
+    },
+    {
+      name: 'date',
+      id: 'lmpDate',
+      type: 'date',
+      label: 'dueDate:form.lmpDateLabel',
+      help: 'dueDate:form.lmpHelper',
+      when: { method: 'lmp' },
+    },
+    {
+      name: 'cycleLength',
+      type: 'number',
+      label: 'dueDate:form.cycleLengthLabel',
+      help: 'dueDate:form.cycleLengthHelper',
+      suffix: 'dueDate:form.days',
+      min: 22,
+      max: 44,
+      default: 28,
+      required: false,
+      when: { method: 'lmp' },
+    },
+    {
+      name: 'date',
+      id: 'conceptionDate',
+      type: 'date',
+      label: 'dueDate:form.conceptionDateLabel',
+      help: 'dueDate:form.conceptionHelper',
+      when: { method: 'conception' },
+    },
+    {
+      name: 'date',
+      id: 'ultrasoundDate',
+      type: 'date',
+      label: 'dueDate:form.ultrasoundDateLabel',
+      when: { method: 'ultrasound' },
+    },
+    {
+      name: 'ultrasoundWeeks',
+      type: 'number',
+      label: 'dueDate:form.ultrasoundWeeksLabel',
+      help: 'dueDate:form.ultrasoundHelper',
+      suffix: 'dueDate:form.weeks',
+      min: 0,
+      max: 42,
+      when: { method: 'ultrasound' },
+    },
+    {
+      name: 'ultrasoundDays',
+      type: 'number',
+      label: 'dueDate:form.ultrasoundDaysLabel',
+      suffix: 'dueDate:form.days',
+      min: 0,
+      max: 6,
+      required: false,
+      when: { method: 'ultrasound' },
+    },
+    {
+      name: 'date',
+      id: 'ivfTransferDate',
+      type: 'date',
+      label: 'dueDate:form.ivfTransferDateLabel',
+      when: { method: 'ivf' },
+    },
+    {
+      name: 'embryoAge',
+      type: 'select',
+      label: 'dueDate:form.embryoAgeLabel',
+      help: 'dueDate:form.ivfHelper',
+      options: [
+        { value: 3, label: 'dueDate:form.embryoAge.day3' },
+        { value: 5, label: 'dueDate:form.embryoAge.day5' },
+        { value: 6, label: 'dueDate:form.embryoAge.day6' },
+      ],
+      when: { method: 'ivf' },
+    },
+  ],
+};
@@ -3,6 +3,9 @@
  * Calculates recommended daily fat intake based on TDEE and goals
  */
 
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 
 export type ActivityLevel =
@@ -97,6 +100,8 @@ function calculateDailyCalories(tdee: number, goal: Goal): number {
  * Main function to calculate fat intake recommendations
  */
 export function calculateFatIntake(input: FatIntakeInput): FatIntakeResult {
+  assertValid(validateFatIntakeInput(input));
+
   const { age, gender, heightCm, weightKg, activityLevel, goal } = input;
 
   // Calculate BMR and TDEE
@@ -131,22 +136,80 @@ export function calculateFatIntake(input: FatIntakeInput): FatIntakeResult {
   };
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
-
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
-
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
+/**
+ * Validate fat intake input
+ */
+export function validateFatIntakeInput(input: Partial<FatIntakeInput>): ValidationResult {
+  return new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('heightCm', input.heightCm)
+    .positive('weightKg', input.weightKg)
+    .required('activityLevel', input.activityLevel)
+    .required('goal', input.goal)
+    .result();
 }
 
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+/**
+ * Form fields for the fat intake calculator
+ */
+export const fatIntakeInputSchema: InputSchema<FatIntakeInput> = {
+  units: 'convert',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'fatIntake.form.ageLabel',
+      placeholder: 'fatIntake.form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'fatIntake.form.genderLabel', options: genderOptions },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'fatIntake.form.heightLabel',
+      placeholder: 'fatIntake.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weightKg',
+      profile: 'weight',
+      type: 'number',
+      label: 'fatIntake.form.weightLabel',
+      placeholder: 'fatIntake.form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'fatIntake.form.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'fatIntake.activity.sedentary' },
+        { value: 'light', label: 'fatIntake.activity.light' },
+        { value: 'moderate', label: 'fatIntake.activity.moderate' },
+        { value: 'active', label: 'fatIntake.activity.active' },
+        { value: 'very-active', label: 'fatIntake.activity.veryActive' },
+        { value: 'extra-active', label: 'fatIntake.activity.extraActive' },
+      ],
+    },
+    {
+      name: 'goal',
+      type: 'select',
+      label: 'fatIntake.form.goalLabel',
+      options: [
+        { value: 'lose-weight', label: 'fatIntake.goal.loseWeight' },
+        { value: 'maintain', label: 'fatIntake.goal.maintain' },
+        { value: 'gain-muscle', label: 'fatIntake.goal.gainMuscle' },
+      ],
+    },
+  ],
+};
@@ -6,6 +6,17 @@
  * - CKD-EPI 2009 (with race) - legacy
  */
 
+import {
+  CREATININE_UMOL_PER_MG_DL,
+  creatinineUmolToMgDl,
+  micromolesPerLiter,
+  milligramsPerDeciliter,
+  type MilligramsPerDeciliter,
+} from '@/utils/units';
+import type { TranslationKey } from '@/utils/i18n';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface GFRInput {
   age: number;
   gender: 'male' | 'female';
@@ -26,11 +37,11 @@ export interface GFRResult {
 /**
  * Convert serum creatinine from μmol/L to mg/dL
  */
-function convertCreatinineToMgDl(value: number, unit: 'mg/dL' | 'μmol/L'): number {
+function convertCreatinineToMgDl(value: number, unit: 'mg/dL' | 'μmol/L'): MilligramsPerDeciliter {
   if (unit === 'μmol/L') {
-    return value / 88.42; // 1 mg/dL = 88.42 μmol/L
+    return creatinineUmolToMgDl(micromolesPerLiter(value));
   }
-  return value;
+  return milligramsPerDeciliter(value);
 }
 
 /**
@@ -122,23 +133,11 @@ function determineStage(gfr: number): { stage: number; stageName: string; interp
  * Calculate GFR (Glomerular Filtration Rate)
  */
 export function calculateGFR(input: GFRInput): GFRResult {
-  // Validate inputs
-  if (input.age < 18 || input.age > 120) {
-    throw new Error('Age must be between 18 and 120 years');
-  }
-
-  if (input.serumCreatinine <= 0) {
-    throw new Error('Serum creatinine must be greater than 0');
-  }
+  assertValid(validateGFRInput(input));
 
   // Convert creatinine to mg/dL if needed
   const creatinineMgDl = convertCreatinineToMgDl(input.serumCreatinine, input.creatinineUnit);
 
-  // Validate creatinine range (typical range: 0.5-15 mg/dL)
-  if (creatinineMgDl < 0.1 || creatinineMgDl > 20) {
-    throw new Error('Serum creatinine value is outside valid range');
-  }
-
   // Determine which equation to use
   const equation = input.equation || 'ckd-epi-2021';
 
@@ -163,29 +162,87 @@ export function calculateGFR(input: GFRInput): GFRResult {
 
 /**
  * Validate GFR input
+ * Serum creatinine must fall within 0.1-20 mg/dL (or the μmol/L equivalent)
  */
-export function validateGFRInput(input: Partial<GFRInput>): string[] {
-  const errors: string[] = [];
-
-  if (!input.age) {
-    errors.push('Age is required');
-  } else if (input.age < 18 || input.age > 120) {
-    errors.push('Age must be between 18 and 120 years');
-  }
-
-  if (!input.gender) {
-    errors.push('Gender is required');
-  }
-
-  if (!input.serumCreatinine) {
-    errors.push('Serum creatinine is required');
-  } else if (input.serumCreatinine <= 0) {
-    errors.push('Serum creatinine must be greater than 0');
-  }
-
-  if (!input.creatinineUnit) {
-    errors.push('Creatinine unit is required');
+export function validateGFRInput(input: Partial<GFRInput>): ValidationResult {
+  const validator = new Validator()
+    .range('age', input.age, 18, 120)
+    .required('gender', input.gender)
+    .positive('serumCreatinine', input.serumCreatinine)
+    .required('creatinineUnit', input.creatinineUnit);
+
+  if (input.creatinineUnit && validator.isValid('serumCreatinine')) {
+    const factor = input.creatinineUnit === 'μmol/L' ? CREATININE_UMOL_PER_MG_DL : 1;
+    const creatinineMgDl = convertCreatinineToMgDl(input.serumCreatinine!, input.creatinineUnit);
+    validator.check(creatinineMgDl < 0.1 || creatinineMgDl > 20, 'serumCreatinine', 'range', {
+      min: parseFloat((0.1 * factor).toFixed(1)),
+      max: parseFloat((20 * factor).toFixed(1)),
+    });
   }
 
-  return errors;
+  return validator.result();
 }
+
+/**
+ * Form fields for the GFR calculator
+ */
+export const gfrInputSchema: InputSchema<GFRInput> = {
+  fields: [
+    {
+      name: 'age',
+      type: 'number',
+      label: 'gfr.inputs.age',
+      help: 'gfr.inputs.ageHelp',
+      min: 18,
+      max: 120,
+      step: 1,
+    },
+    {
+      name: 'gender',
+      type: 'radio',
+      label: 'gfr.inputs.gender',
+      options: [
+        { value: 'male', label: 'gfr.inputs.male' },
+        { value: 'female', label: 'gfr.inputs.female' },
+      ],
+    },
+    {
+      name: 'serumCreatinine',
+      type: 'number',
+      label: 'gfr.inputs.serumCreatinine',
+      help: 'gfr.inputs.creatinineHelp',
+      min: 0.1,
+      max: 20,
+      step: 0.01,
+    },
+    {
+      name: 'creatinineUnit',
+      type: 'select',
+      label: 'gfr.inputs.creatinineUnit',
+      // Unit symbols, shown as written in every language
+      options: [
+        { value: 'mg/dL', label: 'mg/dL' as TranslationKey },
+        { value: 'μmol/L', label: 'μmol/L' as TranslationKey },
+      ],
+    },
+    {
+      name: 'equation',
+      type: 'radio',
+      label: 'gfr.inputs.equation',
+      help: 'gfr.inputs.equationHelp',
+      options: [
+        { value: 'ckd-epi-2021', label: 'gfr.inputs.equation2021' },
+        { value: 'ckd-epi-2009', label: 'gfr.inputs.equation2009' },
+      ],
+      default: 'ckd-epi-2021',
+    },
+    {
+      name: 'race',
+      type: 'checkbox',
+      label: 'gfr.inputs.africanAmerican',
+      help: 'gfr.inputs.raceHelp',
+      values: { checked: 'african-american', unchecked: 'other' },
+      when: { equation: 'ckd-epi-2009' },
+    },
+  ],
+};
@@ -1,3 +1,17 @@
+import {
+  centimeters,
+  cmToInches,
+  cmToMeters,
+  inches,
+  inchesToCm,
+  kgToLbs,
+  kilograms,
+  lbsToKg,
+  pounds,
+} from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type BMICategory = 'underweight' | 'normal' | 'overweight' | 'obese';
@@ -30,54 +44,12 @@ export interface HealthyWeightResult {
   isHealthy?: boolean;
 }
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert height from centimeters to inches
- */
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
-/**
- * Convert height from inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert weight from kilograms to pounds
- */
-export function kgToLbs(kg: number): number {
-  return kg * 2.20462;
-}
-
-/**
- * Convert height from centimeters to meters
- */
-export function cmToMeters(cm: number): number {
-  return cm / 100;
-}
-
 /**
  * Calculate BMI using the standard formula: weight (kg) / height² (m)
  */
 export function calculateBMI(weightKg: number, heightM: number): number {
   if (heightM <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightM <= 0 ? 'height' : 'currentWeight', 'positive');
   }
   return weightKg / (heightM * heightM);
 }
@@ -112,8 +84,8 @@ export function getHealthyWeightRange(
 
   if (unitSystem === 'imperial') {
     return {
-      min: parseFloat((minWeight * 2.20462).toFixed(1)),
-      max: parseFloat((maxWeight * 2.20462).toFixed(1)),
+      min: parseFloat(kgToLbs(kilograms(minWeight)).toFixed(1)),
+      max: parseFloat(kgToLbs(kilograms(maxWeight)).toFixed(1)),
     };
   }
 
@@ -129,7 +101,7 @@ export function getHealthyWeightRange(
  * Women: 49 kg + 1.7 kg per inch over 5 feet
  */
 export function calculateRobinsonWeight(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = Math.max(0, heightInches - 60);
 
   if (gender === 'male') {
@@ -145,7 +117,7 @@ export function calculateRobinsonWeight(heightCm: number, gender: Gender): numbe
  * Women: 53.1 kg + 1.36 kg per inch over 5 feet
  */
 export function calculateMillerWeight(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = Math.max(0, heightInches - 60);
 
   if (gender === 'male') {
@@ -161,7 +133,7 @@ export function calculateMillerWeight(heightCm: number, gender: Gender): number
  * Women: 45.5 kg + 2.3 kg per inch over 5 feet
  */
 export function calculateDevineWeight(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = Math.max(0, heightInches - 60);
 
   if (gender === 'male') {
@@ -177,7 +149,7 @@ export function calculateDevineWeight(heightCm: number, gender: Gender): number
  * Women: 45.5 kg + 2.2 kg per inch over 5 feet
  */
 export function calculateHamwiWeight(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = Math.max(0, heightInches - 60);
 
   if (gender === 'male') {
@@ -204,12 +176,12 @@ export function calculateIdealWeights(
 
   if (unitSystem === 'imperial') {
     return {
-      robinson: parseFloat(kgToLbs(robinson).toFixed(1)),
-      miller: parseFloat(kgToLbs(miller).toFixed(1)),
-      devine: parseFloat(kgToLbs(devine).toFixed(1)),
-      hamwi: parseFloat(kgToLbs(hamwi).toFixed(1)),
-      hamwiSmallFrame: parseFloat(kgToLbs(hamwiSmallFrame).toFixed(1)),
-      hamwiLargeFrame: parseFloat(kgToLbs(hamwiLargeFrame).toFixed(1)),
+      robinson: parseFloat(kgToLbs(kilograms(robinson)).toFixed(1)),
+      miller: parseFloat(kgToLbs(kilograms(miller)).toFixed(1)),
+      devine: parseFloat(kgToLbs(kilograms(devine)).toFixed(1)),
+      hamwi: parseFloat(kgToLbs(kilograms(hamwi)).toFixed(1)),
+      hamwiSmallFrame: parseFloat(kgToLbs(kilograms(hamwiSmallFrame)).toFixed(1)),
+      hamwiLargeFrame: parseFloat(kgToLbs(kilograms(hamwiLargeFrame)).toFixed(1)),
     };
   }
 
@@ -227,20 +199,22 @@ export function calculateIdealWeights(
  * Main function to calculate healthy weight metrics
  */
 export function calculateHealthyWeight(input: HealthyWeightInput): HealthyWeightResult {
+  assertValid(validateHealthyWeightInput(input));
+
   let heightM: number;
   let heightCm: number;
   let currentWeightKg: number | undefined;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = inchesToCm(input.height); // input.height is in inches
-    heightM = cmToMeters(heightCm);
+    heightCm = inchesToCm(inches(input.height)); // input.height is in inches
+    heightM = cmToMeters(centimeters(heightCm));
     if (input.currentWeight !== undefined) {
-      currentWeightKg = lbsToKg(input.currentWeight);
+      currentWeightKg = lbsToKg(pounds(input.currentWeight));
     }
   } else {
     heightCm = input.height;
-    heightM = cmToMeters(input.height);
+    heightM = cmToMeters(centimeters(input.height));
     currentWeightKg = input.currentWeight;
   }
 
@@ -260,7 +234,7 @@ export function calculateHealthyWeight(input: HealthyWeightInput): HealthyWeight
     isHealthy = currentCategory === 'normal';
 
     const currentWeightInUserUnit = input.unitSystem === 'imperial'
-      ? parseFloat(kgToLbs(currentWeightKg).toFixed(1))
+      ? parseFloat(kgToLbs(kilograms(currentWeightKg)).toFixed(1))
       : parseFloat(currentWeightKg.toFixed(1));
 
     // Calculate weight to lose or gain to reach healthy range
@@ -282,3 +256,62 @@ export function calculateHealthyWeight(input: HealthyWeightInput): HealthyWeight
     isHealthy,
   };
 }
+
+/**
+ * Validate healthy weight input
+ */
+export function validateHealthyWeightInput(input: Partial<HealthyWeightInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('height', input.height);
+
+  if (input.currentWeight !== undefined) {
+    validator.positive('currentWeight', input.currentWeight);
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the healthy weight calculator
+ */
+export const healthyWeightInputSchema: InputSchema<HealthyWeightInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'healthyWeight.form.ageLabel',
+      placeholder: 'healthyWeight.form.agePlaceholder',
+      min: 18,
+      max: 120,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'healthyWeight.form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'healthyWeight.form.heightLabel',
+      placeholder: 'healthyWeight.form.heightPlaceholder',
+      unit: 'height',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'currentWeight',
+      profile: 'weight',
+      type: 'number',
+      label: 'healthyWeight.form.currentWeightLabel',
+      placeholder: 'healthyWeight.form.currentWeightPlaceholder',
+      help: 'healthyWeight.form.currentWeightHelp',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+      required: false,
+    },
+  ],
+};
@@ -1,3 +1,6 @@
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type HeartRateZone = 'resting' | 'warmup' | 'fatburn' | 'cardio' | 'peak';
 
 export interface HeartRateInput {
@@ -25,7 +28,7 @@ export interface HeartRateResult {
  */
 export function calculateMaxHeartRate(age: number): number {
   if (age <= 0 || age > 120) {
-    throw new Error('Age must be between 1 and 120');
+    invalid('age', 'range', { min: 1, max: 120 });
   }
   return 220 - age;
 }
@@ -120,9 +123,7 @@ export function calculateAllZones(maxHR: number, restingHR: number): HeartRateZo
  * Main function to calculate all heart rate metrics
  */
 export function calculateHeartRateMetrics(input: HeartRateInput): HeartRateResult {
-  if (input.restingHeartRate < 30 || input.restingHeartRate > 120) {
-    throw new Error('Resting heart rate must be between 30 and 120 bpm');
-  }
+  assertValid(validateHeartRateInput(input));
 
   const maxHeartRate = calculateMaxHeartRate(input.age);
   const heartRateReserve = calculateHeartRateReserve(maxHeartRate, input.restingHeartRate);
@@ -135,3 +136,38 @@ export function calculateHeartRateMetrics(input: HeartRateInput): HeartRateResul
     zones,
   };
 }
+
+/**
+ * Validate heart rate input
+ */
+export function validateHeartRateInput(input: Partial<HeartRateInput>): ValidationResult {
+  return new Validator()
+    .range('age', input.age, 1, 120)
+    .range('restingHeartRate', input.restingHeartRate, 30, 120)
+    .result();
+}
+
+/**
+ * Form fields for the heart rate calculator
+ */
+export const heartRateInputSchema: InputSchema<HeartRateInput> = {
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'heartRate.form.ageLabel',
+      placeholder: 'heartRate.form.agePlaceholder',
+      min: 10,
+      max: 120,
+    },
+    {
+      name: 'restingHeartRate',
+      type: 'number',
+      label: 'heartRate.form.restingHRLabel',
+      placeholder: 'heartRate.form.restingHRPlaceholder',
+      min: 30,
+      max: 120,
+    },
+  ],
+};
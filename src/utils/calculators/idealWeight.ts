@@ -3,6 +3,10 @@
  * Calculates ideal weight based on multiple formulas: Robinson, Miller, Devine, Hamwi, and BMI-based
  */
 
+import { centimeters, cmToInches } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 
 export interface IdealWeightInput {
@@ -23,20 +27,13 @@ export interface IdealWeightResult {
   average: number; // Average of all formulas (excluding BMI range)
 }
 
-/**
- * Convert height from cm to inches
- */
-function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
 /**
  * Calculate ideal weight using Robinson Formula (1983)
  * Male: 52 kg + 1.9 kg per inch over 5 feet
  * Female: 49 kg + 1.7 kg per inch over 5 feet
  */
 function calculateRobinson(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = heightInches - 60; // 5 feet = 60 inches
 
   if (gender === 'male') {
@@ -52,7 +49,7 @@ function calculateRobinson(heightCm: number, gender: Gender): number {
  * Female: 53.1 kg + 1.36 kg per inch over 5 feet
  */
 function calculateMiller(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = heightInches - 60; // 5 feet = 60 inches
 
   if (gender === 'male') {
@@ -68,7 +65,7 @@ function calculateMiller(heightCm: number, gender: Gender): number {
  * Female: 45.5 kg + 2.3 kg per inch over 5 feet
  */
 function calculateDevine(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = heightInches - 60; // 5 feet = 60 inches
 
   if (gender === 'male') {
@@ -84,7 +81,7 @@ function calculateDevine(heightCm: number, gender: Gender): number {
  * Female: 45.5 kg + 2.2 kg per inch over 5 feet
  */
 function calculateHamwi(heightCm: number, gender: Gender): number {
-  const heightInches = cmToInches(heightCm);
+  const heightInches = cmToInches(centimeters(heightCm));
   const inchesOver5Feet = heightInches - 60; // 5 feet = 60 inches
 
   if (gender === 'male') {
@@ -113,6 +110,8 @@ function calculateBMIRange(heightCm: number): { min: number; max: number } {
  * Main function to calculate ideal weight using all formulas
  */
 export function calculateIdealWeight(input: IdealWeightInput): IdealWeightResult {
+  assertValid(validateIdealWeightInput(input));
+
   const { heightCm, gender } = input;
 
   const robinson = calculateRobinson(heightCm, gender);
@@ -137,22 +136,48 @@ export function calculateIdealWeight(input: IdealWeightInput): IdealWeightResult
   };
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
+/**
+ * Validate ideal weight input
+ */
+export function validateIdealWeightInput(input: Partial<IdealWeightInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('heightCm', input.heightCm)
+    .required('gender', input.gender);
 
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
+  if (input.age !== undefined) {
+    validator.positive('age', input.age);
+  }
 
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
+  return validator.result();
 }
 
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+/**
+ * Form fields for the ideal weight calculator
+ */
+export const idealWeightInputSchema: InputSchema<IdealWeightInput> = {
+  units: 'convert',
+  fields: [
+    { name: 'gender', profile: 'gender', type: 'select', label: 'idealWeight.form.genderLabel', options: genderOptions },
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'idealWeight.form.ageLabel',
+      placeholder: 'idealWeight.form.agePlaceholder',
+      min: 2,
+      max: 80,
+      required: false,
+    },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'idealWeight.form.heightLabel',
+      placeholder: 'idealWeight.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { inches, inchesToCm, kgToLbs, kilograms, lbsToKg, pounds } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type LBMFormula = 'boer' | 'james' | 'hume';
@@ -23,27 +27,6 @@ export interface LBMResult {
   average: FormulaResult;
 }
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert weight from kilograms to pounds
- */
-export function kgToLbs(kg: number): number {
-  return kg * 2.20462;
-}
-
 /**
  * Calculate Lean Body Mass using Boer formula
  * Males: LBM = 0.407 × W + 0.267 × H - 19.2
@@ -101,7 +84,7 @@ export function calculateFatMass(weightKg: number, leanBodyMassKg: number): numb
  */
 export function calculateBodyFatPercentage(fatMassKg: number, weightKg: number): number {
   if (weightKg <= 0) {
-    throw new Error('Weight must be positive');
+    invalid('weight', 'positive');
   }
   return (fatMassKg / weightKg) * 100;
 }
@@ -135,25 +118,17 @@ export function calculateLBMMetrics(input: LBMInput): LBMResult {
   let heightCm: number;
   let weightKg: number;
 
-  // Validate age
-  if (input.age < 2 || input.age > 120) {
-    throw new Error('Age must be between 2 and 120 years');
-  }
+  assertValid(validateLBMInput(input));
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = input.height * 2.54; // input.height is in inches
-    weightKg = lbsToKg(input.weight);
+    heightCm = inchesToCm(inches(input.height)); // input.height is in inches
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     heightCm = input.height;
     weightKg = input.weight;
   }
 
-  // Validate inputs
-  if (heightCm <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
-  }
-
   // Calculate LBM using all three formulas
   const boerLBM = calculateBoerLBM(weightKg, heightCm, input.gender);
   const jamesLBM = calculateJamesLBM(weightKg, heightCm, input.gender);
@@ -178,8 +153,8 @@ export function calculateLBMMetrics(input: LBMInput): LBMResult {
  */
 export function convertResultsToImperial(results: LBMResult): LBMResult {
   const convertFormula = (result: FormulaResult): FormulaResult => ({
-    leanBodyMass: parseFloat(kgToLbs(result.leanBodyMass).toFixed(2)),
-    fatMass: parseFloat(kgToLbs(result.fatMass).toFixed(2)),
+    leanBodyMass: parseFloat(kgToLbs(kilograms(result.leanBodyMass)).toFixed(2)),
+    fatMass: parseFloat(kgToLbs(kilograms(result.fatMass)).toFixed(2)),
     bodyFatPercentage: result.bodyFatPercentage, // Percentage stays the same
   });
 
@@ -190,3 +165,56 @@ export function convertResultsToImperial(results: LBMResult): LBMResult {
     average: convertFormula(results.average),
   };
 }
+
+/**
+ * Validate lean body mass input
+ */
+export function validateLBMInput(input: Partial<LBMInput>): ValidationResult {
+  return new Validator()
+    .range('age', input.age, 2, 120)
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('weight', input.weight)
+    .result();
+}
+
+/**
+ * Form fields for the lean body mass calculator
+ */
+export const lbmInputSchema: InputSchema<LBMInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'leanBodyMass:form.ageLabel',
+      placeholder: 'leanBodyMass:form.agePlaceholder',
+      min: 2,
+      max: 120,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'leanBodyMass:form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'leanBodyMass:form.heightLabel',
+      placeholder: 'leanBodyMass:form.heightPlaceholder',
+      unit: 'height',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'leanBodyMass:form.weightLabel',
+      placeholder: 'leanBodyMass:form.weightPlaceholder',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { inches, inchesToCm, lbsToKg, pounds } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive' | 'extraActive';
@@ -73,27 +77,6 @@ const DIET_MACROS: Record<DietType, { protein: number; carbs: number; fats: numb
   highProtein: { protein: 40, carbs: 30, fats: 30 },
 };
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert weight from kilograms to pounds
- */
-export function kgToLbs(kg: number): number {
-  return kg * 2.20462;
-}
-
 /**
  * Calculate BMR using Mifflin-St Jeor Equation
  * This is the most accurate formula for most people
@@ -103,7 +86,7 @@ export function kgToLbs(kg: number): number {
  */
 export function calculateBMR(weightKg: number, heightCm: number, age: number, gender: Gender): number {
   if (weightKg <= 0 || heightCm <= 0 || age <= 0) {
-    throw new Error('Weight, height, and age must be positive numbers');
+    invalid(weightKg <= 0 ? 'weight' : heightCm <= 0 ? 'height' : 'age', 'positive');
   }
 
   const base = 10 * weightKg + 6.25 * heightCm - 5 * age;
@@ -185,13 +168,15 @@ export function calculateWeeklyWeightChange(goal: Goal, unitSystem: UnitSystem):
  * Main function to calculate all macro-related metrics
  */
 export function calculateMacroMetrics(input: MacroInput): MacroResult {
+  assertValid(validateMacroInput(input));
+
   let heightCm: number;
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightCm = input.height * 2.54; // input.height is in inches
-    weightKg = lbsToKg(input.weight);
+    heightCm = inchesToCm(inches(input.height)); // input.height is in inches
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     heightCm = input.height;
     weightKg = input.weight;
@@ -213,3 +198,100 @@ export function calculateMacroMetrics(input: MacroInput): MacroResult {
     weeklyWeightChange,
   };
 }
+
+/**
+ * Validate macro input
+ */
+export function validateMacroInput(input: Partial<MacroInput>): ValidationResult {
+  return new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('height', input.height)
+    .positive('weight', input.weight)
+    .required('activityLevel', input.activityLevel)
+    .required('goal', input.goal)
+    .required('dietType', input.dietType)
+    .result();
+}
+
+/**
+ * Form fields for the macro calculator
+ */
+export const macroInputSchema: InputSchema<MacroInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'macro.form.ageLabel',
+      placeholder: 'macro.form.agePlaceholder',
+      min: 18,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'macro.form.genderLabel', options: genderOptions },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'macro.form.heightLabel',
+      placeholder: 'macro.form.heightPlaceholder',
+      unit: 'height',
+      min: 130,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'macro.form.weightLabel',
+      placeholder: 'macro.form.weightPlaceholder',
+      unit: 'mass',
+      min: 40,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'macro.form.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'macro.form.activityLevels.sedentary' },
+        { value: 'light', label: 'macro.form.activityLevels.light' },
+        { value: 'moderate', label: 'macro.form.activityLevels.moderate' },
+        { value: 'active', label: 'macro.form.activityLevels.active' },
+        { value: 'veryActive', label: 'macro.form.activityLevels.veryActive' },
+        { value: 'extraActive', label: 'macro.form.activityLevels.extraActive' },
+      ],
+      default: 'moderate',
+    },
+    {
+      name: 'goal',
+      type: 'select',
+      label: 'macro.form.goalLabel',
+      options: [
+        { value: 'extremeLoss', label: 'macro.form.goals.extremeLoss' },
+        { value: 'moderateLoss', label: 'macro.form.goals.moderateLoss' },
+        { value: 'mildLoss', label: 'macro.form.goals.mildLoss' },
+        { value: 'maintain', label: 'macro.form.goals.maintain' },
+        { value: 'mildGain', label: 'macro.form.goals.mildGain' },
+        { value: 'moderateGain', label: 'macro.form.goals.moderateGain' },
+        { value: 'extremeGain', label: 'macro.form.goals.extremeGain' },
+      ],
+      default: 'maintain',
+    },
+    {
+      name: 'dietType',
+      type: 'select',
+      label: 'macro.form.dietTypeLabel',
+      options: [
+        { value: 'balanced', label: 'macro.form.dietTypes.balanced' },
+        { value: 'lowFat', label: 'macro.form.dietTypes.lowFat' },
+        { value: 'lowCarb', label: 'macro.form.dietTypes.lowCarb' },
+        { value: 'highProtein', label: 'macro.form.dietTypes.highProtein' },
+      ],
+      default: 'balanced',
+    },
+  ],
+};
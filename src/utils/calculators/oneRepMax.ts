@@ -1,3 +1,6 @@
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 
 export interface OneRepMaxInput {
@@ -84,13 +87,7 @@ export function calculateWathan(weight: number, reps: number): number {
  * Main function to calculate One Rep Max using all formulas
  */
 export function calculateOneRepMax(input: OneRepMaxInput): OneRepMaxResult {
-  if (input.weight <= 0 || input.reps <= 0) {
-    throw new Error('Weight and reps must be positive numbers');
-  }
-
-  if (input.reps > 30) {
-    throw new Error('Formulas are most accurate for 1-30 reps');
-  }
+  assertValid(validateOneRepMaxInput(input));
 
   const formulas: FormulaResults = {
     epley: parseFloat(calculateEpley(input.weight, input.reps).toFixed(1)),
@@ -112,3 +109,41 @@ export function calculateOneRepMax(input: OneRepMaxInput): OneRepMaxResult {
     unitSystem: input.unitSystem,
   };
 }
+
+/**
+ * Validate one rep max input
+ * The formulas are only accurate for 1-30 reps
+ */
+export function validateOneRepMaxInput(input: Partial<OneRepMaxInput>): ValidationResult {
+  return new Validator()
+    .positive('weight', input.weight)
+    .range('reps', input.reps, 1, 30)
+    .result();
+}
+
+/**
+ * Form fields for the one-rep max calculator
+ */
+export const oneRepMaxInputSchema: InputSchema<OneRepMaxInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'weight',
+      type: 'number',
+      label: 'oneRepMax.form.weightLabel',
+      placeholder: 'oneRepMax.form.weightPlaceholder',
+      unit: 'mass',
+      min: 1,
+      max: 1000,
+      step: 0.5,
+    },
+    {
+      name: 'reps',
+      type: 'number',
+      label: 'oneRepMax.form.repsLabel',
+      placeholder: 'oneRepMax.form.repsPlaceholder',
+      min: 1,
+      max: 30,
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { MS_PER_DAY } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface OvulationInput {
   lastPeriodDate: Date;
   cycleLength: number; // Default: 28 days
@@ -25,10 +29,9 @@ export function addDays(date: Date, days: number): Date {
  * Calculate difference in days between two dates
  */
 export function daysBetween(date1: Date, date2: Date): number {
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
+    const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
   const utc2 = Date.UTC(date2.getFullYear(), date2.getMonth(), date2.getDate());
-  return Math.floor((utc2 - utc1) / msPerDay);
+  return Math.floor((utc2 - utc1) / MS_PER_DAY);
 }
 
 /**
@@ -78,6 +81,8 @@ export function isInFertileWindow(currentDate: Date, windowStart: Date, windowEn
  * Main function to calculate ovulation metrics
  */
 export function calculateOvulation(input: OvulationInput): OvulationResult {
+  assertValid(validateOvulationInput(input));
+
   const { lastPeriodDate, cycleLength } = input;
 
   // Calculate ovulation date
@@ -117,12 +122,35 @@ export function formatDateForInput(date: Date): string {
 }
 
 /**
- * Format date for display
+ * Validate ovulation input
  */
-export function formatDate(date: Date, locale: string = 'es-ES'): string {
-  return date.toLocaleDateString(locale, {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+export function validateOvulationInput(input: Partial<OvulationInput>): ValidationResult {
+  return new Validator()
+    .date('lastPeriodDate', input.lastPeriodDate)
+    .range('cycleLength', input.cycleLength, 21, 35)
+    .result();
 }
+
+/**
+ * Form fields for the ovulation calculator
+ */
+export const ovulationInputSchema: InputSchema<OvulationInput> = {
+  fields: [
+    {
+      name: 'lastPeriodDate',
+      type: 'date',
+      label: 'ovulation:form.lastPeriodLabel',
+      help: 'ovulation:form.lastPeriodHelp',
+    },
+    {
+      name: 'cycleLength',
+      type: 'number',
+      label: 'ovulation:form.cycleLengthLabel',
+      help: 'ovulation:form.cycleLengthHelp',
+      min: 21,
+      max: 35,
+      step: 1,
+      default: 28,
+    },
+  ],
+};
@@ -1,3 +1,21 @@
+import {
+  KM_PER_MILE,
+  SECONDS_PER_HOUR,
+  SECONDS_PER_MINUTE,
+  kilometers,
+  kmToMeters,
+  kmToMiles,
+  kmToYards,
+  meters,
+  metersToKm,
+  miles,
+  milesToKm,
+  yards,
+  yardsToKm,
+} from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type CalculationMode = 'pace' | 'time' | 'distance';
 
@@ -46,10 +64,10 @@ export function timeStringToSeconds(timeStr: string): number {
 
   if (parts.length === 3) {
     // hh:mm:ss
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+    return parts[0] * SECONDS_PER_HOUR + parts[1] * SECONDS_PER_MINUTE + parts[2];
   } else if (parts.length === 2) {
     // mm:ss
-    return parts[0] * 60 + parts[1];
+    return parts[0] * SECONDS_PER_MINUTE + parts[1];
   }
 
   return 0;
@@ -59,9 +77,9 @@ export function timeStringToSeconds(timeStr: string): number {
  * Convert seconds to formatted time string (hh:mm:ss or mm:ss)
  */
 export function secondsToTimeString(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
+  const hours = Math.floor(seconds / SECONDS_PER_HOUR);
+  const minutes = Math.floor((seconds % SECONDS_PER_HOUR) / SECONDS_PER_MINUTE);
+  const secs = Math.floor(seconds % SECONDS_PER_MINUTE);
 
   if (hours > 0) {
     return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
@@ -78,11 +96,11 @@ export function toKilometers(distance: number, unit: string): number {
     case 'km':
       return distance;
     case 'mi':
-      return distance * 1.60934;
+      return milesToKm(miles(distance));
     case 'm':
-      return distance / 1000;
+      return metersToKm(meters(distance));
     case 'yd':
-      return distance * 0.0009144;
+      return yardsToKm(yards(distance));
     default:
       return distance;
   }
@@ -96,11 +114,11 @@ export function fromKilometers(distanceKm: number, unit: string): number {
     case 'km':
       return distanceKm;
     case 'mi':
-      return distanceKm / 1.60934;
+      return kmToMiles(kilometers(distanceKm));
     case 'm':
-      return distanceKm * 1000;
+      return kmToMeters(kilometers(distanceKm));
     case 'yd':
-      return distanceKm / 0.0009144;
+      return kmToYards(kilometers(distanceKm));
     default:
       return distanceKm;
   }
@@ -113,7 +131,7 @@ export function paceToSecondsPerKm(pace: number, unit: string): number {
   if (unit === 'min/km') {
     return pace;
   } else if (unit === 'min/mi') {
-    return pace / 1.60934;
+    return pace / KM_PER_MILE;
   }
   return pace;
 }
@@ -125,7 +143,7 @@ export function paceFromSecondsPerKm(pacePerKm: number, unit: string): number {
   if (unit === 'min/km') {
     return pacePerKm;
   } else if (unit === 'min/mi') {
-    return pacePerKm * 1.60934;
+    return pacePerKm * KM_PER_MILE;
   }
   return pacePerKm;
 }
@@ -135,7 +153,7 @@ export function paceFromSecondsPerKm(pacePerKm: number, unit: string): number {
  */
 export function calculatePace(timeSeconds: number, distanceKm: number): number {
   if (distanceKm <= 0 || timeSeconds <= 0) {
-    throw new Error('Time and distance must be positive numbers');
+    invalid(distanceKm <= 0 ? 'distance' : 'time', 'positive');
   }
   return timeSeconds / distanceKm; // seconds per km
 }
@@ -145,7 +163,7 @@ export function calculatePace(timeSeconds: number, distanceKm: number): number {
  */
 export function calculateTime(pacePerKm: number, distanceKm: number): number {
   if (distanceKm <= 0 || pacePerKm <= 0) {
-    throw new Error('Pace and distance must be positive numbers');
+    invalid(distanceKm <= 0 ? 'distance' : 'pace', 'positive');
   }
   return pacePerKm * distanceKm; // total seconds
 }
@@ -155,7 +173,7 @@ export function calculateTime(pacePerKm: number, distanceKm: number): number {
  */
 export function calculateDistance(pacePerKm: number, timeSeconds: number): number {
   if (pacePerKm <= 0 || timeSeconds <= 0) {
-    throw new Error('Pace and time must be positive numbers');
+    invalid(pacePerKm <= 0 ? 'pace' : 'time', 'positive');
   }
   return timeSeconds / pacePerKm; // km
 }
@@ -217,6 +235,8 @@ export function getCommonRaces(pacePerKm: number, paceUnit: string): RaceTime[]
  * Main function to calculate pace metrics
  */
 export function calculatePaceMetrics(input: PaceInput): PaceResult {
+  assertValid(validatePaceInput(input));
+
   const result: PaceResult = {
     splits: [],
     commonRaces: [],
@@ -228,11 +248,7 @@ export function calculatePaceMetrics(input: PaceInput): PaceResult {
   switch (input.mode) {
     case 'pace': {
       // Calculate pace from time and distance
-      if (!input.time || !distanceKm) {
-        throw new Error('Time and distance are required to calculate pace');
-      }
-
-      const pacePerKm = calculatePace(input.time, distanceKm);
+      const pacePerKm = calculatePace(input.time!, distanceKm);
       const pace = paceFromSecondsPerKm(pacePerKm, input.paceUnit);
 
       result.pace = pace;
@@ -244,11 +260,7 @@ export function calculatePaceMetrics(input: PaceInput): PaceResult {
 
     case 'time': {
       // Calculate time from pace and distance
-      if (!input.pace || !distanceKm) {
-        throw new Error('Pace and distance are required to calculate time');
-      }
-
-      const pacePerKm = paceToSecondsPerKm(input.pace, input.paceUnit);
+      const pacePerKm = paceToSecondsPerKm(input.pace!, input.paceUnit);
       const time = calculateTime(pacePerKm, distanceKm);
 
       result.time = time;
@@ -260,12 +272,8 @@ export function calculatePaceMetrics(input: PaceInput): PaceResult {
 
     case 'distance': {
       // Calculate distance from pace and time
-      if (!input.pace || !input.time) {
-        throw new Error('Pace and time are required to calculate distance');
-      }
-
-      const pacePerKm = paceToSecondsPerKm(input.pace, input.paceUnit);
-      const calculatedDistanceKm = calculateDistance(pacePerKm, input.time);
+      const pacePerKm = paceToSecondsPerKm(input.pace!, input.paceUnit);
+      const calculatedDistanceKm = calculateDistance(pacePerKm, input.time!);
       const distance = fromKilometers(calculatedDistanceKm, input.distanceUnit);
 
       result.distance = distance;
@@ -278,3 +286,90 @@ export function calculatePaceMetrics(input: PaceInput): PaceResult {
 
   return result;
 }
+
+/**
+ * Validate pace input
+ * Each mode requires the two values it is calculated from
+ */
+export function validatePaceInput(input: Partial<PaceInput>): ValidationResult {
+  const validator = new Validator()
+    .required('mode', input.mode)
+    .required('distanceUnit', input.distanceUnit)
+    .required('paceUnit', input.paceUnit);
+
+  if (input.mode === 'pace' || input.mode === 'time') {
+    validator.positive('distance', input.distance);
+  }
+  if (input.mode === 'pace' || input.mode === 'distance') {
+    validator.positive('time', input.time);
+  }
+  if (input.mode === 'time' || input.mode === 'distance') {
+    validator.positive('pace', input.pace);
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the pace calculator
+ */
+export const paceInputSchema: InputSchema<PaceInput> = {
+  fields: [
+    {
+      name: 'mode',
+      type: 'radio',
+      label: 'pace.form.modeLabel',
+      options: [
+        { value: 'pace', label: 'pace.form.calculatePace' },
+        { value: 'time', label: 'pace.form.calculateTime' },
+        { value: 'distance', label: 'pace.form.calculateDistance' },
+      ],
+      default: 'pace',
+    },
+    {
+      name: 'distance',
+      type: 'number',
+      label: 'pace.form.distanceLabel',
+      placeholder: 'pace.form.distancePlaceholder',
+      min: 0,
+      step: 0.01,
+      when: { mode: ['pace', 'time'] },
+    },
+    {
+      name: 'distanceUnit',
+      type: 'select',
+      label: 'pace.form.distanceUnitLabel',
+      options: [
+        { value: 'km', label: 'units.km' },
+        { value: 'mi', label: 'units.mi' },
+        { value: 'm', label: 'units.m' },
+        { value: 'yd', label: 'units.yd' },
+      ],
+    },
+    {
+      name: 'time',
+      type: 'duration',
+      label: 'pace.form.timeLabel',
+      help: 'pace.form.timeHint',
+      parts: ['hours', 'minutes', 'seconds'],
+      when: { mode: ['pace', 'distance'] },
+    },
+    {
+      name: 'pace',
+      type: 'duration',
+      label: 'pace.form.paceLabel',
+      help: 'pace.form.paceHint',
+      parts: ['minutes', 'seconds'],
+      when: { mode: ['time', 'distance'] },
+    },
+    {
+      name: 'paceUnit',
+      type: 'select',
+      label: 'pace.form.paceUnitLabel',
+      options: [
+        { value: 'min/km', label: 'units.minPerKm' },
+        { value: 'min/mi', label: 'units.minPerMi' },
+      ],
+    },
+  ],
+};
@@ -1,3 +1,6 @@
+import type { InputField, InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type PercentageCalculationType =
   | 'percentOf' // What is X% of Y?
   | 'isWhatPercent' // X is what % of Y?
@@ -40,7 +43,7 @@ export function calculatePercentOf(percent: number, value: number): PercentageRe
  */
 export function calculateIsWhatPercent(value: number, total: number): PercentageResult {
   if (total === 0) {
-    throw new Error('Total cannot be zero');
+    invalid('value2', 'nonZero');
   }
   const result = (value / total) * 100;
   return {
@@ -56,7 +59,7 @@ export function calculateIsWhatPercent(value: number, total: number): Percentage
  */
 export function calculateIsPercentOfWhat(value: number, percent: number): PercentageResult {
   if (percent === 0) {
-    throw new Error('Percentage cannot be zero');
+    invalid('value2', 'nonZero');
   }
   const result = (value / percent) * 100;
   return {
@@ -76,7 +79,7 @@ export function calculatePercentageChange(
   newValue: number
 ): PercentageResult {
   if (oldValue === 0) {
-    throw new Error('Old value cannot be zero');
+    invalid('value1', 'nonZero');
   }
   const change = newValue - oldValue;
   const percentChange = (change / oldValue) * 100;
@@ -102,7 +105,7 @@ export function calculatePercentageDifference(
 ): PercentageResult {
   const average = (value1 + value2) / 2;
   if (average === 0) {
-    throw new Error('Average of values cannot be zero');
+    invalid('value2', 'invalid');
   }
   const difference = Math.abs(value1 - value2);
   const percentDifference = (difference / average) * 100;
@@ -197,61 +200,110 @@ export function calculateReverseDiscount(
  * Main calculation function that routes to the appropriate calculator
  */
 export function calculatePercentage(input: PercentageInput): PercentageResult {
-  const { calculationType, value1, value2 } = input;
+  assertValid(validatePercentageInput(input));
+
+  const { calculationType, value1 } = input;
+  const value2 = input.value2!;
 
   switch (calculationType) {
     case 'percentOf':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for percentOf calculation');
-      }
       return calculatePercentOf(value1, value2);
 
     case 'isWhatPercent':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for isWhatPercent calculation');
-      }
       return calculateIsWhatPercent(value1, value2);
 
     case 'isPercentOfWhat':
       return calculateIsPercentOfWhat(value1, value2 || value1);
 
     case 'percentageChange':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for percentageChange calculation');
-      }
       return calculatePercentageChange(value1, value2);
 
     case 'percentageDifference':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for percentageDifference calculation');
-      }
       return calculatePercentageDifference(value1, value2);
 
     case 'addTax':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for addTax calculation');
-      }
       return calculateAddTax(value1, value2);
 
     case 'removeTax':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for removeTax calculation');
-      }
       return calculateRemoveTax(value1, value2);
 
     case 'discount':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for discount calculation');
-      }
       return calculateDiscount(value1, value2);
 
     case 'reverseDiscount':
-      if (value2 === undefined) {
-        throw new Error('Second value is required for reverseDiscount calculation');
-      }
       return calculateReverseDiscount(value1, value2);
 
     default:
-      throw new Error('Invalid calculation type');
+      return invalid('calculationType', 'invalid');
+  }
+}
+
+const PERCENTAGE_CALCULATION_TYPES: PercentageCalculationType[] = [
+  'percentOf',
+  'isWhatPercent',
+  'isPercentOfWhat',
+  'percentageChange',
+  'percentageDifference',
+  'addTax',
+  'removeTax',
+  'discount',
+  'reverseDiscount',
+];
+
+/**
+ * Validate percentage input
+ */
+export function validatePercentageInput(input: Partial<PercentageInput>): ValidationResult {
+  const { calculationType, value1, value2 } = input;
+  const validator = new Validator()
+    .required('calculationType', calculationType)
+    .required('value1', value1)
+    .required('value2', value2);
+
+  switch (calculationType) {
+    case 'isWhatPercent':
+    case 'isPercentOfWhat':
+      validator.nonZero('value2', value2);
+      break;
+    case 'percentageChange':
+      validator.nonZero('value1', value1);
+      break;
+    case 'percentageDifference':
+      validator.check(value1 !== undefined && value1 + (value2 ?? 0) === 0, 'value2', 'invalid');
+      break;
   }
+
+  return validator.result();
 }
+
+/**
+ * Form fields for the percentage calculator
+ */
+export const percentageInputSchema: InputSchema<PercentageInput> = {
+  fields: [
+    {
+      name: 'calculationType',
+      type: 'select',
+      label: 'percentage.form.typeLabel',
+      options: PERCENTAGE_CALCULATION_TYPES.map(type => ({ value: type, label: `percentage.forms.${type}.title` })),
+    },
+    ...PERCENTAGE_CALCULATION_TYPES.flatMap((type): InputField<PercentageInput>[] => [
+      {
+        name: 'value1',
+        id: `${type}-value1`,
+        type: 'number',
+        label: `percentage.forms.${type}.label1`,
+        step: 0.01,
+        when: { calculationType: type },
+      },
+      {
+        name: 'value2',
+        id: `${type}-value2`,
+        type: 'number',
+        label: `percentage.forms.${type}.label2`,
+        step: 0.01,
+        when: { calculationType: type },
+      },
+    ]),
+  ],
+};
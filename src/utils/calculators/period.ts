@@ -1,3 +1,7 @@
+import { MS_PER_DAY } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface PeriodInput {
   lastPeriodDate: Date;
   cycleLength: number; // Average cycle length in days (default 28)
@@ -38,10 +42,9 @@ export function addDays(date: Date, days: number): Date {
  * Calculate difference in days between two dates
  */
 export function daysBetween(date1: Date, date2: Date): number {
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
+    const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
   const utc2 = Date.UTC(date2.getFullYear(), date2.getMonth(), date2.getDate());
-  return Math.floor((utc2 - utc1) / msPerDay);
+  return Math.floor((utc2 - utc1) / MS_PER_DAY);
 }
 
 /**
@@ -146,6 +149,8 @@ export function getCurrentCycleDay(
  * Main function to calculate all period metrics
  */
 export function calculatePeriodMetrics(input: PeriodInput): PeriodResult {
+  assertValid(validatePeriodInput(input));
+
   const { lastPeriodDate, cycleLength, periodLength } = input;
   const today = new Date();
 
@@ -195,12 +200,46 @@ export function formatDateForInput(date: Date): string {
 }
 
 /**
- * Format date for display
+ * Validate period input
  */
-export function formatDate(date: Date, locale: string = 'es-ES'): string {
-  return date.toLocaleDateString(locale, {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+export function validatePeriodInput(input: Partial<PeriodInput>): ValidationResult {
+  return new Validator()
+    .date('lastPeriodDate', input.lastPeriodDate)
+    .range('cycleLength', input.cycleLength, 21, 35)
+    .range('periodLength', input.periodLength, 2, 10)
+    .result();
 }
+
+/**
+ * Form fields for the period calculator
+ */
+export const periodInputSchema: InputSchema<PeriodInput> = {
+  fields: [
+    {
+      name: 'lastPeriodDate',
+      type: 'date',
+      label: 'period:form.lastPeriodLabel',
+      help: 'period:form.lastPeriodHelp',
+    },
+    {
+      name: 'cycleLength',
+      type: 'number',
+      label: 'period:form.cycleLengthLabel',
+      help: 'period:form.cycleLengthHelp',
+      min: 21,
+      max: 35,
+      step: 1,
+      default: 28,
+    },
+    {
+      name: 'periodLength',
+      type: 'number',
+      label: 'period:form.periodLengthLabel',
+      help: 'period:form.periodLengthHelp',
+      min: 2,
+      max: 10,
+      step: 1,
+      default: 5,
+    },
+  ],
+};
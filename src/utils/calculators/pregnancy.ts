@@ -1,3 +1,7 @@
+import { MS_PER_DAY } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type CalculationMethod = 'lmp' | 'conception' | 'dueDate';
 
 export interface PregnancyInput {
@@ -38,10 +42,9 @@ export function addDays(date: Date, days: number): Date {
  * Calculate difference in days between two dates
  */
 export function daysBetween(date1: Date, date2: Date): number {
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
+    const utc1 = Date.UTC(date1.getFullYear(), date1.getMonth(), date1.getDate());
   const utc2 = Date.UTC(date2.getFullYear(), date2.getMonth(), date2.getDate());
-  return Math.floor((utc2 - utc1) / msPerDay);
+  return Math.floor((utc2 - utc1) / MS_PER_DAY);
 }
 
 /**
@@ -221,6 +224,8 @@ export function getPregnancyMilestones(lmpDate: Date): PregnancyMilestone[] {
  * Main function to calculate all pregnancy metrics
  */
 export function calculatePregnancyMetrics(input: PregnancyInput): PregnancyResult {
+  assertValid(validatePregnancyInput(input));
+
   let dueDate: Date;
   let conceptionDate: Date;
   let lmpDate: Date;
@@ -278,12 +283,72 @@ export function formatDateForInput(date: Date): string {
 }
 
 /**
- * Format date for display
+ * Validate pregnancy input
  */
-export function formatDate(date: Date, locale: string = 'es-ES'): string {
-  return date.toLocaleDateString(locale, {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+export function validatePregnancyInput(input: Partial<PregnancyInput>): ValidationResult {
+  const validator = new Validator()
+    .required('method', input.method)
+    .date('date', input.date);
+
+  if (input.method === 'lmp' && input.cycleLength !== undefined) {
+    validator.range('cycleLength', input.cycleLength, 22, 44);
+  }
+
+  return validator.result();
 }
+
+/**
+ * Form fields for the pregnancy calculator
+ */
+export const pregnancyInputSchema: InputSchema<PregnancyInput> = {
+  fields: [
+    {
+      name: 'method',
+      type: 'radio',
+      label: 'pregnancy:form.methodLabel',
+      options: [
+        { value: 'lmp', label: 'pregnancy:form.lmpMethod' },
+        { value: 'conception', label: 'pregnancy:form.conceptionMethod' },
+        { value: 'dueDate', label: 'pregnancy:form.dueDateMethod' },
+      ],
+      default: 'lmp',
+    },
+    {
+      name: 'date',
+      id: 'lmpDate',
+      type: 'date',
+      label: 'pregnancy:form.lmpDateLabel',
+      help: 'pregnancy:form.lmpDateHelp',
+      when: { method: 'lmp' },
+    },
+    {
+      name: 'date',
+      id: 'conceptionDate',
+      type: 'date',
+      label: 'pregnancy:form.conceptionDateLabel',
+      help: 'pregnancy:form.conceptionDateHelp',
+      when: { method: 'conception' },
+    },
+    {
+      name: 'date',
+      id: 'dueDate',
+      type: 'date',
+      label: 'pregnancy:form.dueDateLabel',
+      help: 'pregnancy:form.dueDateHelp',
+      when: { method: 'dueDate' },
+    },
+    {
+      name: 'cycleLength',
+      type: 'number',
+      label: 'pregnancy:form.cycleLengthLabel',
+      help: 'pregnancy:form.cycleLengthHelp',
+      min: 22,
+      max: 44,
+      step: 1,
+      suffix: 'common.days',
+      default: 28,
+      required: false,
+      when: { method: 'lmp' },
+    },
+  ],
+};
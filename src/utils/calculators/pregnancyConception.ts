@@ -1,3 +1,7 @@
+import { MS_PER_DAY } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type CalculationMode = 'lmp' | 'dueDate';
 
 export interface PregnancyConceptionInput {
@@ -124,7 +128,7 @@ export function calculateLMPFromDueDate(dueDate: Date): Date {
 export function calculateCurrentWeek(lmpDate: Date): { weeks: number; days: number } {
   const today = new Date();
   const diffTime = today.getTime() - lmpDate.getTime();
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  const diffDays = Math.floor(diffTime / MS_PER_DAY);
 
   if (diffDays < 0) {
     return { weeks: 0, days: 0 };
@@ -140,6 +144,8 @@ export function calculateCurrentWeek(lmpDate: Date): { weeks: number; days: numb
  * Main function to calculate pregnancy conception details
  */
 export function calculatePregnancyConception(input: PregnancyConceptionInput): PregnancyConceptionResult {
+  assertValid(validatePregnancyConceptionInput(input));
+
   const cycleLength = input.cycleLength || 28;
 
   if (input.mode === 'lmp') {
@@ -179,3 +185,64 @@ export function calculatePregnancyConception(input: PregnancyConceptionInput): P
     };
   }
 }
+
+/**
+ * Validate pregnancy conception input
+ */
+export function validatePregnancyConceptionInput(input: Partial<PregnancyConceptionInput>): ValidationResult {
+  const validator = new Validator()
+    .required('mode', input.mode)
+    .date('date', input.date);
+
+  if (input.cycleLength !== undefined) {
+    validator.range('cycleLength', input.cycleLength, 22, 44);
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the conception date calculator
+ */
+export const pregnancyConceptionInputSchema: InputSchema<PregnancyConceptionInput> = {
+  fields: [
+    {
+      name: 'mode',
+      type: 'radio',
+      label: 'pregnancyConception:form.modeLabel',
+      options: [
+        { value: 'lmp', label: 'pregnancyConception:form.modeLMP' },
+        { value: 'dueDate', label: 'pregnancyConception:form.modeDueDate' },
+      ],
+      default: 'lmp',
+    },
+    {
+      name: 'date',
+      id: 'lmpDate',
+      type: 'date',
+      label: 'pregnancyConception:form.lmpDateLabel',
+      help: 'pregnancyConception:form.lmpDateHelp',
+      when: { mode: 'lmp' },
+    },
+    {
+      name: 'date',
+      id: 'dueDate',
+      type: 'date',
+      label: 'pregnancyConception:form.dueDateLabel',
+      help: 'pregnancyConception:form.dueDateHelp',
+      when: { mode: 'dueDate' },
+    },
+    {
+      name: 'cycleLength',
+      type: 'number',
+      label: 'pregnancyConception:form.cycleLengthLabel',
+      help: 'pregnancyConception:form.cycleLengthHelp',
+      min: 22,
+      max: 44,
+      step: 1,
+      suffix: 'common.days',
+      default: 28,
+      required: false,
+    },
+  ],
+};
@@ -1,3 +1,16 @@
+import {
+  centimeters,
+  cmToMeters,
+  inches,
+  inchesToCm,
+  kgToLbs,
+  kilograms,
+  lbsToKg,
+  pounds,
+} from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type BMICategory = 'underweight' | 'normal' | 'overweight' | 'obese';
 
@@ -27,40 +40,12 @@ export interface PregnancyWeightGainResult {
   trimester: 1 | 2 | 3;
 }
 
-/**
- * Convert height from imperial (feet and inches) to centimeters
- */
-export function imperialHeightToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
-
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
-/**
- * Convert weight from kilograms to pounds
- */
-export function kgToLbs(kg: number): number {
-  return kg * 2.20462;
-}
-
-/**
- * Convert height from centimeters to meters
- */
-export function cmToMeters(cm: number): number {
-  return cm / 100;
-}
-
 /**
  * Calculate BMI using the standard formula: weight (kg) / height² (m)
  */
 export function calculateBMI(weightKg: number, heightM: number): number {
   if (heightM <= 0 || weightKg <= 0) {
-    throw new Error('Height and weight must be positive numbers');
+    invalid(heightM <= 0 ? 'height' : 'prePregnancyWeight', 'positive');
   }
   return weightKg / (heightM * heightM);
 }
@@ -131,8 +116,8 @@ export function getRecommendedWeightGain(
 
   if (unitSystem === 'imperial') {
     return {
-      min: parseFloat(kgToLbs(minKg).toFixed(1)),
-      max: parseFloat(kgToLbs(maxKg).toFixed(1)),
+      min: parseFloat(kgToLbs(kilograms(minKg)).toFixed(1)),
+      max: parseFloat(kgToLbs(kilograms(maxKg)).toFixed(1)),
       category,
     };
   }
@@ -198,8 +183,8 @@ export function getRecommendedWeeklyGain(
 
   if (unitSystem === 'imperial') {
     return {
-      min: parseFloat(kgToLbs(minKg).toFixed(2)),
-      max: parseFloat(kgToLbs(maxKg).toFixed(2)),
+      min: parseFloat(kgToLbs(kilograms(minKg)).toFixed(2)),
+      max: parseFloat(kgToLbs(kilograms(maxKg)).toFixed(2)),
     };
   }
 
@@ -261,10 +246,7 @@ export function getRecommendedCurrentGain(
 export function calculatePregnancyWeightGain(
   input: PregnancyWeightGainInput
 ): PregnancyWeightGainResult {
-  // Validate inputs
-  if (input.currentWeek < 1 || input.currentWeek > 40) {
-    throw new Error('Current week must be between 1 and 40');
-  }
+  assertValid(validatePregnancyWeightGainInput(input));
 
   let heightM: number;
   let prePregnancyWeightKg: number;
@@ -272,11 +254,11 @@ export function calculatePregnancyWeightGain(
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    heightM = cmToMeters(input.height * 2.54); // input.height is in inches
-    prePregnancyWeightKg = lbsToKg(input.prePregnancyWeight);
-    currentWeightKg = lbsToKg(input.currentWeight);
+    heightM = cmToMeters(inchesToCm(inches(input.height))); // input.height is in inches
+    prePregnancyWeightKg = lbsToKg(pounds(input.prePregnancyWeight));
+    currentWeightKg = lbsToKg(pounds(input.currentWeight));
   } else {
-    heightM = cmToMeters(input.height);
+    heightM = cmToMeters(centimeters(input.height));
     prePregnancyWeightKg = input.prePregnancyWeight;
     currentWeightKg = input.currentWeight;
   }
@@ -288,7 +270,7 @@ export function calculatePregnancyWeightGain(
   // Calculate current weight gain
   const currentWeightGainKg = currentWeightKg - prePregnancyWeightKg;
   const currentWeightGain = input.unitSystem === 'imperial'
-    ? parseFloat(kgToLbs(currentWeightGainKg).toFixed(1))
+    ? parseFloat(kgToLbs(kilograms(currentWeightGainKg)).toFixed(1))
     : parseFloat(currentWeightGainKg.toFixed(1));
 
   // Get recommendations
@@ -329,3 +311,64 @@ export function calculatePregnancyWeightGain(
     trimester,
   };
 }
+
+/**
+ * Validate pregnancy weight gain input
+ */
+export function validatePregnancyWeightGainInput(input: Partial<PregnancyWeightGainInput>): ValidationResult {
+  return new Validator()
+    .positive('height', input.height)
+    .positive('prePregnancyWeight', input.prePregnancyWeight)
+    .positive('currentWeight', input.currentWeight)
+    .range('currentWeek', input.currentWeek, 1, 40)
+    .result();
+}
+
+/**
+ * Form fields for the pregnancy weight gain calculator
+ */
+export const pregnancyWeightGainInputSchema: InputSchema<PregnancyWeightGainInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'currentWeek',
+      type: 'number',
+      label: 'pregnancyWeightGain:form.currentWeekLabel',
+      placeholder: 'pregnancyWeightGain:form.currentWeekPlaceholder',
+      suffix: 'pregnancyWeightGain:form.weeksUnit',
+      min: 1,
+      max: 40,
+    },
+    { name: 'isTwins', type: 'checkbox', label: 'pregnancyWeightGain:form.isTwinsLabel' },
+    {
+      name: 'height',
+      type: 'number',
+      label: 'pregnancyWeightGain:form.heightLabel',
+      placeholder: 'pregnancyWeightGain:form.heightPlaceholder',
+      unit: 'height',
+      min: 50,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'prePregnancyWeight',
+      type: 'number',
+      label: 'pregnancyWeightGain:form.prePregnancyWeightLabel',
+      placeholder: 'pregnancyWeightGain:form.prePregnancyWeightPlaceholder',
+      unit: 'mass',
+      min: 20,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'currentWeight',
+      type: 'number',
+      label: 'pregnancyWeightGain:form.currentWeightLabel',
+      placeholder: 'pregnancyWeightGain:form.currentWeightPlaceholder',
+      unit: 'mass',
+      min: 20,
+      max: 300,
+      step: 0.1,
+    },
+  ],
+};
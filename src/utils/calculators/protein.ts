@@ -1,3 +1,7 @@
+import { lbsToKg, pounds } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
 export type Goal = 'maintain' | 'lose' | 'gain';
@@ -17,13 +21,6 @@ export interface ProteinResult {
   weightInKg: number; // weight converted to kg
 }
 
-/**
- * Convert weight from pounds to kilograms
- */
-export function lbsToKg(lbs: number): number {
-  return lbs * 0.453592;
-}
-
 /**
  * Get protein multiplier based on activity level and goal
  * Returns grams of protein per kg of body weight
@@ -77,19 +74,17 @@ export function calculateProteinPercentage(proteinCalories: number, totalCalorie
  * Main function to calculate all protein-related metrics
  */
 export function calculateProteinMetrics(input: ProteinInput): ProteinResult {
+  assertValid(validateProteinInput(input));
+
   let weightKg: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    weightKg = lbsToKg(input.weight);
+    weightKg = lbsToKg(pounds(input.weight));
   } else {
     weightKg = input.weight;
   }
 
-  if (weightKg <= 0) {
-    throw new Error('Weight must be a positive number');
-  }
-
   const proteinPerKg = getProteinMultiplier(input.activityLevel, input.goal);
   const dailyProtein = calculateDailyProtein(weightKg, input.activityLevel, input.goal);
   const caloriesFromProtein = calculateCaloriesFromProtein(dailyProtein);
@@ -103,3 +98,58 @@ export function calculateProteinMetrics(input: ProteinInput): ProteinResult {
     weightInKg: parseFloat(weightKg.toFixed(1)),
   };
 }
+
+/**
+ * Validate protein input
+ */
+export function validateProteinInput(input: Partial<ProteinInput>): ValidationResult {
+  return new Validator()
+    .positive('weight', input.weight)
+    .required('activityLevel', input.activityLevel)
+    .required('goal', input.goal)
+    .result();
+}
+
+/**
+ * Form fields for the protein calculator
+ */
+export const proteinInputSchema: InputSchema<ProteinInput> = {
+  units: 'raw',
+  fields: [
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'protein:form.weightLabel',
+      placeholder: 'protein:form.weightPlaceholder',
+      unit: 'mass',
+      min: 10,
+      max: 500,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'protein:form.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'protein:form.activityLevels.sedentary' },
+        { value: 'light', label: 'protein:form.activityLevels.light' },
+        { value: 'moderate', label: 'protein:form.activityLevels.moderate' },
+        { value: 'active', label: 'protein:form.activityLevels.active' },
+        { value: 'very_active', label: 'protein:form.activityLevels.veryActive' },
+      ],
+      default: 'moderate',
+    },
+    {
+      name: 'goal',
+      type: 'select',
+      label: 'protein:form.goalLabel',
+      options: [
+        { value: 'maintain', label: 'protein:form.goals.maintain' },
+        { value: 'lose', label: 'protein:form.goals.lose' },
+        { value: 'gain', label: 'protein:form.goals.gain' },
+      ],
+      default: 'maintain',
+    },
+  ],
+};
@@ -1,3 +1,7 @@
+import { MINUTES_PER_HOUR } from '@/utils/units';
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type CalculationMode = 'wakeup' | 'bedtime';
 
 export interface SleepInput {
@@ -25,7 +29,7 @@ const FALL_ASLEEP_MINUTES = 14; // Average time to fall asleep
  */
 export function parseTimeToMinutes(time: string): number {
   const [hours, minutes] = time.split(':').map(Number);
-  return hours * 60 + minutes;
+  return hours * MINUTES_PER_HOUR + minutes;
 }
 
 /**
@@ -34,8 +38,8 @@ export function parseTimeToMinutes(time: string): number {
 export function minutesToTimeString(minutes: number): string {
   // Handle negative minutes and minutes >= 1440 (24 hours)
   const normalizedMinutes = ((minutes % 1440) + 1440) % 1440;
-  const hours = Math.floor(normalizedMinutes / 60);
-  const mins = normalizedMinutes % 60;
+  const hours = Math.floor(normalizedMinutes / MINUTES_PER_HOUR);
+  const mins = normalizedMinutes % MINUTES_PER_HOUR;
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
 }
 
@@ -53,7 +57,7 @@ export function calculateWakeUpTimes(bedtime: string): SleepTime[] {
   for (let cycles = 4; cycles <= 6; cycles++) {
     const totalSleepMinutes = cycles * SLEEP_CYCLE_MINUTES;
     const wakeUpMinutes = sleepStartMinutes + totalSleepMinutes;
-    const totalHours = (totalSleepMinutes + FALL_ASLEEP_MINUTES) / 60;
+    const totalHours = (totalSleepMinutes + FALL_ASLEEP_MINUTES) / MINUTES_PER_HOUR;
 
     suggestions.push({
       time: minutesToTimeString(wakeUpMinutes),
@@ -80,7 +84,7 @@ export function calculateBedtimes(wakeUpTime: string): SleepTime[] {
     const totalSleepMinutes = cycles * SLEEP_CYCLE_MINUTES;
     const sleepStartMinutes = wakeUpMinutes - totalSleepMinutes;
     const bedtimeMinutes = sleepStartMinutes - FALL_ASLEEP_MINUTES;
-    const totalHours = (totalSleepMinutes + FALL_ASLEEP_MINUTES) / 60;
+    const totalHours = (totalSleepMinutes + FALL_ASLEEP_MINUTES) / MINUTES_PER_HOUR;
 
     suggestions.push({
       time: minutesToTimeString(bedtimeMinutes),
@@ -97,11 +101,9 @@ export function calculateBedtimes(wakeUpTime: string): SleepTime[] {
  * Main function to calculate sleep times based on mode
  */
 export function calculateSleepTimes(input: SleepInput): SleepResult {
-  const { mode, time } = input;
+  assertValid(validateSleepInput(input));
 
-  if (!time || !/^\d{2}:\d{2}$/.test(time)) {
-    throw new Error('Invalid time format. Please use HH:MM format.');
-  }
+  const { mode, time } = input;
 
   const suggestions = mode === 'wakeup'
     ? calculateWakeUpTimes(time)
@@ -123,3 +125,55 @@ export function formatTime12Hour(time: string): string {
   const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
   return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
 }
+
+/**
+ * Validate sleep input
+ * Time must be in HH:MM format (24-hour)
+ */
+export function validateSleepInput(input: Partial<SleepInput>): ValidationResult {
+  const validator = new Validator()
+    .required('mode', input.mode)
+    .required('time', input.time);
+
+  if (input.time) {
+    validator.check(!/^\d{2}:\d{2}$/.test(input.time), 'time', 'invalid');
+  }
+
+  return validator.result();
+}
+
+/**
+ * Form fields for the sleep calculator
+ */
+export const sleepInputSchema: InputSchema<SleepInput> = {
+  fields: [
+    {
+      name: 'mode',
+      type: 'radio',
+      label: 'sleep.form.modeLabel',
+      options: [
+        { value: 'wakeup', label: 'sleep.form.modeWakeup' },
+        { value: 'bedtime', label: 'sleep.form.modeBedtime' },
+      ],
+      default: 'wakeup',
+    },
+    {
+      name: 'time',
+      id: 'bedtime',
+      type: 'time',
+      label: 'sleep.form.bedtimeLabel',
+      help: 'sleep.form.bedtimeHelper',
+      default: '22:00',
+      when: { mode: 'wakeup' },
+    },
+    {
+      name: 'time',
+      id: 'wakeup',
+      type: 'time',
+      label: 'sleep.form.wakeupLabel',
+      help: 'sleep.form.wakeupHelper',
+      default: '07:00',
+      when: { mode: 'bedtime' },
+    },
+  ],
+};
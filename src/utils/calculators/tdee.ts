@@ -3,6 +3,9 @@
  * Calculates Total Daily Energy Expenditure based on BMR and activity level
  */
 
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type Gender = 'male' | 'female';
 
 export type ActivityLevel =
@@ -127,6 +130,8 @@ function calculateMacros(tdee: number) {
  * Main function to calculate TDEE
  */
 export function calculateTDEE(input: TDEEInput): TDEEResult {
+  assertValid(validateTDEEInput(input));
+
   const { age, gender, heightCm, weightKg, activityLevel, bodyFatPercentage } = input;
 
   // Calculate BMR using Mifflin-St Jeor (default, most accurate)
@@ -189,30 +194,84 @@ export function calculateAllBMRFormulas(
   return result;
 }
 
-// Unit conversion utilities
-export function poundsToKg(pounds: number): number {
-  return pounds * 0.453592;
-}
-
-export function kgToPounds(kg: number): number {
-  return kg / 0.453592;
-}
-
-export function feetInchesToCm(feet: number, inches: number): number {
-  return (feet * 12 + inches) * 2.54;
-}
+/**
+ * Validate TDEE input
+ */
+export function validateTDEEInput(input: Partial<TDEEInput>): ValidationResult {
+  const validator = new Validator()
+    .positive('age', input.age)
+    .required('gender', input.gender)
+    .positive('heightCm', input.heightCm)
+    .positive('weightKg', input.weightKg)
+    .required('activityLevel', input.activityLevel);
 
-export function cmToFeetInches(cm: number): { feet: number; inches: number } {
-  const totalInches = cm / 2.54;
-  const feet = Math.floor(totalInches / 12);
-  const inches = Math.round(totalInches % 12);
-  return { feet, inches };
-}
+  if (input.bodyFatPercentage !== undefined) {
+    validator.range('bodyFatPercentage', input.bodyFatPercentage, 0, 100);
+  }
 
-export function caloriesToKJ(calories: number): number {
-  return calories * 4.184;
+  return validator.result();
 }
 
-export function kjToCalories(kj: number): number {
-  return kj / 4.184;
-}
+/**
+ * Form fields for the TDEE calculator
+ */
+export const tdeeInputSchema: InputSchema<TDEEInput> = {
+  units: 'convert',
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'tdee.form.ageLabel',
+      placeholder: 'tdee.form.agePlaceholder',
+      min: 15,
+      max: 80,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'tdee.form.genderLabel', options: genderOptions },
+    {
+      name: 'heightCm',
+      profile: 'height',
+      type: 'number',
+      label: 'tdee.form.heightLabel',
+      placeholder: 'tdee.form.heightPlaceholder',
+      unit: 'height',
+      min: 100,
+      max: 250,
+      step: 0.1,
+    },
+    {
+      name: 'weightKg',
+      profile: 'weight',
+      type: 'number',
+      label: 'tdee.form.weightLabel',
+      placeholder: 'tdee.form.weightPlaceholder',
+      unit: 'mass',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'tdee.form.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'tdee.activity.sedentary' },
+        { value: 'light', label: 'tdee.activity.light' },
+        { value: 'moderate', label: 'tdee.activity.moderate' },
+        { value: 'active', label: 'tdee.activity.active' },
+        { value: 'very-active', label: 'tdee.activity.veryActive' },
+        { value: 'extra-active', label: 'tdee.activity.extraActive' },
+      ],
+    },
+    {
+      name: 'bodyFatPercentage',
+      type: 'number',
+      label: 'tdee.form.bodyFatLabel',
+      placeholder: 'tdee.form.bodyFatPlaceholder',
+      min: 5,
+      max: 50,
+      step: 0.1,
+      required: false,
+    },
+  ],
+};
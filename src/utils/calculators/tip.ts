@@ -2,6 +2,9 @@
  * Tip Calculator - Pure calculation functions
  */
 
+import type { InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export interface TipInput {
   billAmount: number;
   tipPercentage: number;
@@ -22,6 +25,8 @@ export interface TipResult {
  * Calculate tip and split amounts
  */
 export function calculateTip(input: TipInput): TipResult {
+  assertValid(validateTipInput(input));
+
   const { billAmount, tipPercentage, numberOfPeople } = input;
 
   // Calculate tip amount
@@ -53,35 +58,49 @@ export function getCommonTipPercentages(): number[] {
 }
 
 /**
- * Format currency value to 2 decimal places
+ * Validate tip calculator input
  */
-export function formatCurrency(value: number): string {
-  return value.toFixed(2);
+export function validateTipInput(input: Partial<TipInput>): ValidationResult {
+  return new Validator()
+    .positive('billAmount', input.billAmount)
+    .nonNegative('tipPercentage', input.tipPercentage)
+    .min('numberOfPeople', input.numberOfPeople, 1)
+    .result();
 }
 
 /**
- * Validate tip calculator input
+ * Form fields for the tip calculator
  */
-export function validateTipInput(input: Partial<TipInput>): {
-  valid: boolean;
-  errors: string[];
-} {
-  const errors: string[] = [];
-
-  if (!input.billAmount || input.billAmount <= 0) {
-    errors.push('Bill amount must be greater than 0');
-  }
-
-  if (input.tipPercentage === undefined || input.tipPercentage < 0) {
-    errors.push('Tip percentage must be 0 or greater');
-  }
-
-  if (!input.numberOfPeople || input.numberOfPeople < 1) {
-    errors.push('Number of people must be at least 1');
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
-}
+export const tipInputSchema: InputSchema<TipInput> = {
+  fields: [
+    {
+      name: 'billAmount',
+      type: 'number',
+      label: 'tip.form.billAmountLabel',
+      placeholder: 'tip.form.billAmountPlaceholder',
+      suffix: 'tip.form.currencySymbol',
+      min: 0.01,
+      step: 0.01,
+    },
+    {
+      name: 'tipPercentage',
+      type: 'number',
+      label: 'tip.form.tipPercentageLabel',
+      placeholder: 'tip.form.customTipPlaceholder',
+      suffix: 'units.percent',
+      min: 0,
+      max: 100,
+      step: 0.1,
+    },
+    {
+      name: 'numberOfPeople',
+      type: 'number',
+      label: 'tip.form.numberOfPeopleLabel',
+      placeholder: 'tip.form.numberOfPeoplePlaceholder',
+      suffix: 'tip.form.peopleUnit',
+      min: 1,
+      max: 100,
+      default: 1,
+    },
+  ],
+};
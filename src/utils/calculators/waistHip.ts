@@ -1,3 +1,7 @@
+import { inches, inchesToCm } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, invalid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type UnitSystem = 'metric' | 'imperial';
 export type Gender = 'male' | 'female';
 export type WHRCategory = 'low' | 'moderate' | 'high' | 'very-high';
@@ -15,27 +19,13 @@ export interface WaistHipResult {
   healthRisk: string;
 }
 
-/**
- * Convert inches to centimeters
- */
-export function inchesToCm(inches: number): number {
-  return inches * 2.54;
-}
-
-/**
- * Convert centimeters to inches
- */
-export function cmToInches(cm: number): number {
-  return cm / 2.54;
-}
-
 /**
  * Calculate Waist-to-Hip Ratio
  * Formula: WHR = waist circumference / hip circumference
  */
 export function calculateWHR(waistCm: number, hipCm: number): number {
   if (waistCm <= 0 || hipCm <= 0) {
-    throw new Error('Waist and hip measurements must be positive numbers');
+    invalid(waistCm <= 0 ? 'waist' : 'hip', 'positive');
   }
   return waistCm / hipCm;
 }
@@ -77,13 +67,15 @@ export function getHealthRisk(category: WHRCategory): string {
  * Main function to calculate WHR and related metrics
  */
 export function calculateWaistHipMetrics(input: WaistHipInput): WaistHipResult {
+  assertValid(validateWaistHipInput(input));
+
   let waistCm: number;
   let hipCm: number;
 
   // Convert to metric if necessary
   if (input.unitSystem === 'imperial') {
-    waistCm = inchesToCm(input.waist);
-    hipCm = inchesToCm(input.hip);
+    waistCm = inchesToCm(inches(input.waist));
+    hipCm = inchesToCm(inches(input.hip));
   } else {
     waistCm = input.waist;
     hipCm = input.hip;
@@ -99,3 +91,44 @@ export function calculateWaistHipMetrics(input: WaistHipInput): WaistHipResult {
     healthRisk,
   };
 }
+
+/**
+ * Validate waist-to-hip input
+ */
+export function validateWaistHipInput(input: Partial<WaistHipInput>): ValidationResult {
+  return new Validator()
+    .positive('waist', input.waist)
+    .positive('hip', input.hip)
+    .required('gender', input.gender)
+    .result();
+}
+
+/**
+ * Form fields for the waist-hip calculator
+ */
+export const waistHipInputSchema: InputSchema<WaistHipInput> = {
+  units: 'raw',
+  fields: [
+    { name: 'gender', profile: 'gender', type: 'select', label: 'waistHip.form.genderLabel', options: genderOptions },
+    {
+      name: 'waist',
+      type: 'number',
+      label: 'waistHip.form.waistLabel',
+      placeholder: 'waistHip.form.waistPlaceholder',
+      unit: 'length',
+      min: 10,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'hip',
+      type: 'number',
+      label: 'waistHip.form.hipLabel',
+      placeholder: 'waistHip.form.hipPlaceholder',
+      unit: 'length',
+      min: 10,
+      max: 300,
+      step: 0.1,
+    },
+  ],
+};
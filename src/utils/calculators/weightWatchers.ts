@@ -1,3 +1,7 @@
+import { CM_PER_INCH } from '@/utils/units';
+import { genderOptions, type InputSchema } from '@/utils/inputSchema';
+import { assertValid, type ValidationResult, Validator } from '@/utils/validation';
+
 export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very-active';
 export type Gender = 'male' | 'female';
 
@@ -39,10 +43,7 @@ export interface DailyBudgetResult {
 export function calculateFoodPoints(input: FoodPointsInput): FoodPointsResult {
   const { calories, saturatedFat, sugar, protein } = input;
 
-  // Validate inputs
-  if (calories < 0 || saturatedFat < 0 || sugar < 0 || protein < 0) {
-    throw new Error('All nutritional values must be positive numbers');
-  }
+  assertValid(validateFoodPointsInput(input));
 
   // SmartPoints formula
   const rawPoints =
@@ -70,13 +71,7 @@ export function calculateFoodPoints(input: FoodPointsInput): FoodPointsResult {
 export function calculateDailyBudget(input: DailyBudgetInput): DailyBudgetResult {
   const { age, gender, weight, height, activityLevel } = input;
 
-  // Validate inputs
-  if (age < 18 || age > 100) {
-    throw new Error('Age must be between 18 and 100');
-  }
-  if (weight <= 0 || height <= 0) {
-    throw new Error('Weight and height must be positive numbers');
-  }
+  assertValid(validateDailyBudgetInput(input));
 
   // Base points calculation (simplified WW-style formula)
   let basePoints = 0;
@@ -97,9 +92,9 @@ export function calculateDailyBudget(input: DailyBudgetInput): DailyBudgetResult
     basePoints += 1;
   }
 
-  // Height adjustment (for every 2.54cm over 157cm, add 1 point)
+  // Height adjustment (for every inch over 157cm, add 1 point)
   if (height > 157) {
-    basePoints += Math.floor((height - 157) / 2.54);
+    basePoints += Math.floor((height - 157) / CM_PER_INCH);
   }
 
   // Weight adjustment (simplified - add points based on weight brackets)
@@ -174,3 +169,130 @@ export function estimatePointsForFood(
 ): number {
   return calculateFoodPoints({ calories, saturatedFat, sugar, protein }).points;
 }
+
+/**
+ * Validate food points input
+ */
+export function validateFoodPointsInput(input: Partial<FoodPointsInput>): ValidationResult {
+  return new Validator()
+    .nonNegative('calories', input.calories)
+    .nonNegative('saturatedFat', input.saturatedFat)
+    .nonNegative('sugar', input.sugar)
+    .nonNegative('protein', input.protein)
+    .result();
+}
+
+/**
+ * Validate daily budget input
+ */
+export function validateDailyBudgetInput(input: Partial<DailyBudgetInput>): ValidationResult {
+  return new Validator()
+    .range('age', input.age, 18, 100)
+    .required('gender', input.gender)
+    .positive('weight', input.weight)
+    .positive('height', input.height)
+    .required('activityLevel', input.activityLevel)
+    .result();
+}
+
+/**
+ * Form fields for the food points calculator
+ */
+export const foodPointsInputSchema: InputSchema<FoodPointsInput> = {
+  fields: [
+    {
+      name: 'calories',
+      type: 'number',
+      label: 'weightWatchers.foodPoints.caloriesLabel',
+      placeholder: 'weightWatchers.foodPoints.caloriesPlaceholder',
+      suffix: 'weightWatchers.units.kcal',
+      min: 0,
+      max: 10000,
+      step: 1,
+    },
+    {
+      name: 'saturatedFat',
+      type: 'number',
+      label: 'weightWatchers.foodPoints.saturatedFatLabel',
+      placeholder: 'weightWatchers.foodPoints.saturatedFatPlaceholder',
+      suffix: 'weightWatchers.units.grams',
+      min: 0,
+      max: 1000,
+      step: 0.1,
+    },
+    {
+      name: 'sugar',
+      type: 'number',
+      label: 'weightWatchers.foodPoints.sugarLabel',
+      placeholder: 'weightWatchers.foodPoints.sugarPlaceholder',
+      suffix: 'weightWatchers.units.grams',
+      min: 0,
+      max: 1000,
+      step: 0.1,
+    },
+    {
+      name: 'protein',
+      type: 'number',
+      label: 'weightWatchers.foodPoints.proteinLabel',
+      placeholder: 'weightWatchers.foodPoints.proteinPlaceholder',
+      suffix: 'weightWatchers.units.grams',
+      min: 0,
+      max: 1000,
+      step: 0.1,
+    },
+  ],
+};
+
+/**
+ * Form fields for the daily points budget calculator
+ */
+export const dailyBudgetInputSchema: InputSchema<DailyBudgetInput> = {
+  fields: [
+    {
+      name: 'age',
+      profile: 'age',
+      type: 'number',
+      label: 'weightWatchers.dailyBudget.ageLabel',
+      placeholder: 'weightWatchers.dailyBudget.agePlaceholder',
+      suffix: 'common.years',
+      min: 18,
+      max: 100,
+    },
+    { name: 'gender', profile: 'gender', type: 'select', label: 'weightWatchers.dailyBudget.genderLabel', options: genderOptions },
+    {
+      name: 'weight',
+      profile: 'weight',
+      type: 'number',
+      label: 'weightWatchers.dailyBudget.weightLabel',
+      placeholder: 'weightWatchers.dailyBudget.weightPlaceholder',
+      suffix: 'weightWatchers.units.kg',
+      min: 30,
+      max: 300,
+      step: 0.1,
+    },
+    {
+      name: 'height',
+      profile: 'height',
+      type: 'number',
+      label: 'weightWatchers.dailyBudget.heightLabel',
+      placeholder: 'weightWatchers.dailyBudget.heightPlaceholder',
+      suffix: 'weightWatchers.units.cm',
+      min: 100,
+      max: 250,
+      step: 1,
+    },
+    {
+      name: 'activityLevel',
+      type: 'select',
+      label: 'weightWatchers.dailyBudget.activityLabel',
+      options: [
+        { value: 'sedentary', label: 'weightWatchers.activity.sedentary' },
+        { value: 'light', label: 'weightWatchers.activity.light' },
+        { value: 'moderate', label: 'weightWatchers.activity.moderate' },
+        { value: 'active', label: 'weightWatchers.activity.active' },
+        { value: 'very-active', label: 'weightWatchers.activity.veryActive' },
+      ],
+      default: 'moderate',
+    },
+  ],
+};
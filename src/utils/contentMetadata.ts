@@ -0,0 +1,86 @@
+/**
+ * Content Metadata
+ *
+ * Build-time facts about MDX pages shown with them and in their metadata:
+ * - dates: first and last commit of the file in git, read with a single
+ *   `git log` for the whole content folder; the last-modified date falls
+ *   back to the `updated` frontmatter field outside a full git checkout
+ *   (shallow clones only know the latest commit, which would date every
+ *   page to the day of the deploy)
+ * - reading time: words of the page at the reading speed of its language
+ */
+
+import { execFileSync } from 'node:child_process';
+import { languages, type Locale } from '@/config/languages';
+
+export interface ContentDates {
+  published?: Date;
+  modified?: Date;
+}
+
+/** Folder of the MDX pages, relative to the project root */
+const CONTENT_DIR = 'src/content';
+
+let commitDates: Map<string, Required<ContentDates>> | undefined;
+
+/**
+ * First and last commit dates of every content file, by path from the project root
+ */
+function getCommitDates(): Map<string, Required<ContentDates>> {
+  if (commitDates) return commitDates;
+  commitDates = new Map();
+
+  try {
+    const git = (...args: string[]) => execFileSync('git', args, { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+    if (git('rev-parse', '--is-shallow-repository').trim() === 'true') return commitDates;
+
+    // Newest commit first: each commit is a NUL, its date, then the files it changed
+    for (const commit of git('log', '--format=%x00%cI', '--name-only', '--relative', '--', CONTENT_DIR).split('\0')) {
+      const [date, ...files] = commit.split('\n').filter(Boolean);
+      if (!date) continue;
+      for (const file of files) {
+        const dates = commitDates.get(file);
+        if (dates) {
+          dates.published = new Date(date);
+        } else {
+          commitDates.set(file, { published: new Date(date), modified: new Date(date) });
+        }
+      }
+    }
+  } catch {
+    // Not a git checkout, or git isn't installed: only frontmatter dates
+  }
+  return commitDates;
+}
+
+/**
+ * Publication and last-modified dates of a content file
+ * @param path - File path from the project root, e.g. 'src/content/calculators/es/bmi.mdx'
+ * @param updated - Last-modified date from the frontmatter
+ */
+export function getContentDates(path: string, updated?: Date): ContentDates {
+  const dates = getCommitDates().get(path);
+  return {
+    published: dates?.published,
+    modified: dates?.modified ?? updated,
+  };
+}
+
+/**
+ * Words of an MDX page, without its imports, components and Markdown syntax
+ */
+export function countWords(body: string): number {
+  const text = body
+    .replace(/^(?:import|export)\s.*$/gm, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\]\([^)]*\)/g, ']');
+  return text.match(/[\p{L}\p{N}][\p{L}\p{M}\p{N}'’-]*/gu)?.length ?? 0;
+}
+
+/**
+ * Minutes it takes to read an MDX page, at least one
+ */
+export function getReadingTime(body: string, locale: Locale): number {
+  return Math.max(1, Math.round(countWords(body) / languages[locale].wordsPerMinute));
+}
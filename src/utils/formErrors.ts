@@ -0,0 +1,206 @@
+/**
+ * Inline Form Errors
+ *
+ * Client-side rendering of validation errors next to the offending fields.
+ * Messages come from the form's data-error-messages attribute (see
+ * getValidationMessages() in i18n.ts), so scripts don't bundle translations.
+ *
+ * Forms use `novalidate`; the browser's constraint checks (required, min,
+ * max) are mapped to the same error codes so every message is localized.
+ */
+
+import { ValidationError, type FieldError, type ValidationResult } from '@/utils/validation';
+
+type FormControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/** Control names for input fields whose form control is named differently (e.g. heightCm -> height) */
+export type ControlNames = Record<string, string>;
+
+const ERROR_CLASS = 'field-error';
+
+/**
+ * Read the localized messages serialized on a form
+ */
+function getMessages(form: HTMLFormElement): Record<string, string> {
+  try {
+    return JSON.parse(form.dataset.errorMessages ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Fill {param} placeholders of a message template
+ */
+export function formatErrorMessage(template: string, params: FieldError['params'] = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    params[key] !== undefined ? String(params[key]) : match
+  );
+}
+
+function isVisible(control: FormControl): boolean {
+  return !control.disabled && control.getClientRects().length > 0;
+}
+
+/**
+ * Find the visible control for a field
+ * Falls back to controls whose name starts with the field name (e.g. heightFt, timeHours)
+ */
+function findControl(form: HTMLFormElement, field: string): FormControl | undefined {
+  const controls = Array.from(form.querySelectorAll<FormControl>('input, select, textarea'));
+  return (
+    controls.find(control => control.name === field && isVisible(control)) ??
+    controls.find(control => control.name.startsWith(field) && isVisible(control))
+  );
+}
+
+function describe(control: FormControl, errorId: string): void {
+  const describedBy = control.getAttribute('aria-describedby')?.split(' ').filter(Boolean) ?? [];
+  control.setAttribute('aria-describedby', [...describedBy, errorId].join(' '));
+  control.setAttribute('aria-invalid', 'true');
+}
+
+function undescribe(control: Element): void {
+  const describedBy = (control.getAttribute('aria-describedby') ?? '')
+    .split(' ')
+    .filter(id => id && !id.endsWith('-error'));
+  if (describedBy.length > 0) {
+    control.setAttribute('aria-describedby', describedBy.join(' '));
+  } else {
+    control.removeAttribute('aria-describedby');
+  }
+  control.removeAttribute('aria-invalid');
+}
+
+function createError(id: string, message: string): HTMLParagraphElement {
+  const element = document.createElement('p');
+  element.id = id;
+  element.className = ERROR_CLASS;
+  element.textContent = message;
+  return element;
+}
+
+/**
+ * Remove all inline errors from a form
+ */
+export function clearFieldErrors(form: HTMLFormElement): void {
+  form.querySelectorAll(`.${ERROR_CLASS}`).forEach(element => element.remove());
+  form.querySelectorAll('[aria-invalid]').forEach(undescribe);
+}
+
+/**
+ * Show field errors inline and focus the first invalid field
+ * Errors for fields without a visible control are shown above the form actions
+ */
+export function showFieldErrors(form: HTMLFormElement, errors: FieldError[], controls: ControlNames = {}): void {
+  clearFieldErrors(form);
+  const messages = getMessages(form);
+  let firstInvalid: FormControl | undefined;
+
+  for (const error of errors) {
+    const message = formatErrorMessage(messages[error.code] ?? messages.invalid ?? error.code, error.params);
+    const control = findControl(form, controls[error.field] ?? error.field);
+    const errorId = `${form.id}-${error.field}-error`;
+
+    if (!control) {
+      showFormError(form, message, errorId);
+      continue;
+    }
+
+    const group = control.closest('.form-group, fieldset') ?? control.parentElement!;
+    group.append(createError(errorId, message));
+    describe(control, errorId);
+    firstInvalid ??= control;
+
+    control.addEventListener('input', () => {
+      document.getElementById(errorId)?.remove();
+      undescribe(control);
+    }, { once: true });
+  }
+
+  firstInvalid?.focus();
+}
+
+function showFormError(form: HTMLFormElement, message: string, id: string): void {
+  const element = createError(id, message);
+  element.setAttribute('role', 'alert');
+  const actions = form.querySelector('.form-actions, button[type="submit"]');
+  if (actions) {
+    actions.before(element);
+  } else {
+    form.append(element);
+  }
+}
+
+/**
+ * Map the constraint validity of the visible controls to field errors
+ */
+function getConstraintErrors(form: HTMLFormElement): FieldError[] {
+  const errors: FieldError[] = [];
+
+  form.querySelectorAll<FormControl>('input, select, textarea').forEach((control) => {
+    if (!control.name || !isVisible(control) || errors.some(error => error.field === control.name)) return;
+    const { validity } = control;
+
+    if (validity.valueMissing) {
+      errors.push({ field: control.name, code: 'required' });
+    } else if (validity.badInput || validity.typeMismatch) {
+      errors.push({ field: control.name, code: 'invalid' });
+    } else if (validity.rangeUnderflow || validity.rangeOverflow) {
+      const min = control.getAttribute('min');
+      const max = control.getAttribute('max');
+      if (min !== null && max !== null) {
+        errors.push({ field: control.name, code: 'range', params: { min, max } });
+      } else if (min !== null) {
+        errors.push({ field: control.name, code: 'min', params: { min } });
+      } else {
+        errors.push({ field: control.name, code: 'invalid' });
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Show the errors of a validation result along with the form's own constraint errors
+ * @returns Whether the form is valid
+ */
+export function showValidationErrors(
+  form: HTMLFormElement,
+  result: ValidationResult,
+  controls: ControlNames = {}
+): boolean {
+  const errors = getConstraintErrors(form);
+  for (const error of result.errors) {
+    // Skip fields whose control already reports a constraint error (e.g. height -> heightFt)
+    const field = findControl(form, controls[error.field] ?? error.field)?.name ?? error.field;
+    if (!errors.some(existing => existing.field === field)) {
+      errors.push(error);
+    }
+  }
+
+  if (errors.length === 0) {
+    clearFieldErrors(form);
+    return true;
+  }
+
+  showFieldErrors(form, errors, controls);
+  return false;
+}
+
+/**
+ * Show an error thrown while calculating
+ * Validation errors are shown on their fields, anything else as a generic message
+ */
+export function showCalculationError(form: HTMLFormElement, error: unknown, controls: ControlNames = {}): void {
+  if (error instanceof ValidationError) {
+    showFieldErrors(form, error.errors, controls);
+    return;
+  }
+
+  console.error(error);
+  clearFieldErrors(form);
+  const messages = getMessages(form);
+  showFormError(form, messages.generic ?? messages.invalid ?? '', `${form.id}-error`);
+}
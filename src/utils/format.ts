@@ -0,0 +1,212 @@
+/**
+ * Locale Formatting
+ *
+ * Numbers, units and dates as calculator results display them, keyed by
+ * Locale. Intl does the formatting; decimal and thousand separators and the
+ * currency follow the locale profile in languages.ts, so every result is
+ * written the same way (12.345,6 in Spanish, 12 345,6 in Polish).
+ *
+ * Every function also takes a region (en-GB, pt-PT; see regions.ts) in place
+ * of the language, for the separators and currency of that market and Intl's
+ * formats for it (dates in day-month order in en-GB, lakh grouping in en-IN).
+ *
+ * Digits are always Latin (0-9), including in Arabic where some ICU builds
+ * default to Arabic-Indic digits, so they match the regional separators.
+ *
+ * Free of translation imports, like messageFormat.ts, so client scripts can
+ * use it with the page's language (document.documentElement.lang).
+ */
+
+import { languages, defaultLocale, type LanguageConfig, type Locale } from '@/config/languages';
+import { getRegionProfile, isValidRegion, type Region } from '@/config/regions';
+
+/** A language, or one of its regions */
+export type FormatLocale = Locale | Region;
+
+/** Measurement units supported by Intl.NumberFormat, including the rates calculators show */
+export type FormatUnit =
+  | 'centimeter'
+  | 'meter'
+  | 'kilometer'
+  | 'inch'
+  | 'foot'
+  | 'mile'
+  | 'gram'
+  | 'kilogram'
+  | 'ounce'
+  | 'pound'
+  | 'milliliter'
+  | 'liter'
+  | 'fluid-ounce'
+  | 'second'
+  | 'minute'
+  | 'hour'
+  | 'day'
+  | 'week'
+  | 'month'
+  | 'year'
+  | 'kilogram-per-week'
+  | 'pound-per-week';
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getProfile(locale: FormatLocale): LanguageConfig | undefined {
+  return isValidRegion(locale) ? getRegionProfile(locale) : languages[locale];
+}
+
+function getNumberFormat(locale: FormatLocale, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { numberingSystem: 'latn', ...options });
+    numberFormats.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Format with Intl, then apply the locale's separators
+ */
+function formatWithSeparators(value: number, locale: FormatLocale, options: Intl.NumberFormatOptions): string {
+  const config = getProfile(locale);
+  const format = getNumberFormat(locale, config?.thousandSeparator === '' ? { ...options, useGrouping: false } : options);
+  if (!config) return format.format(value);
+
+  return format.formatToParts(value).map(({ type, value: text }) =>
+    type === 'group' ? config.thousandSeparator :
+    type === 'decimal' ? config.decimalSeparator :
+    text
+  ).join('');
+}
+
+/**
+ * Format a number, with up to 2 decimals by default
+ * @example formatNumber(1234.5, 'de') // '1.234,5'
+ */
+export function formatNumber(value: number, locale: FormatLocale, options: Intl.NumberFormatOptions = {}): string {
+  return formatWithSeparators(value, locale, { maximumFractionDigits: 2, ...options });
+}
+
+/**
+ * Format a number with a fixed number of decimals, the locale-aware toFixed()
+ * @example formatDecimal(22.5, 'fr', 1) // '22,5'
+ */
+export function formatDecimal(value: number, locale: FormatLocale, decimals: number): string {
+  return formatNumber(value, locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+/**
+ * Format a percentage given in percent (25 -> '25%', '25 %' in French)
+ */
+export function formatPercent(value: number, locale: FormatLocale, maximumFractionDigits = 1): string {
+  return formatWithSeparators(value / 100, locale, { style: 'percent', maximumFractionDigits });
+}
+
+/**
+ * Format a money amount with 2 decimals and the currency symbol on the side
+ * the region writes it ('$12.50', '12,50 €')
+ * @param symbol - Symbol to show, the region's own by default
+ */
+export function formatCurrency(amount: number, locale: FormatLocale, symbol?: string): string {
+  const config = getProfile(locale) ?? languages[defaultLocale];
+  const value = formatDecimal(amount, locale, 2);
+  const currencySymbol = symbol ?? config.currencySymbol;
+  return config.currencyPosition === 'before' ? `${currencySymbol}${value}` : `${value} ${currencySymbol}`;
+}
+
+/**
+ * Format a measurement with its localized unit, short (kg) unless
+ * options.unitDisplay says otherwise
+ * @example formatUnit(70.5, 'kilogram', 'ru') // '70,5 кг'
+ */
+export function formatUnit(
+  value: number,
+  unit: FormatUnit,
+  locale: FormatLocale,
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return formatWithSeparators(value, locale, { maximumFractionDigits: 2, ...options, style: 'unit', unit });
+}
+
+/**
+ * Format a duration in years, months and days, skipping zero parts
+ * (an all-zero duration shows its smallest unit, e.g. '0 days')
+ * @example formatDuration({ years: 30, months: 2 }, 'en') // '30 years, 2 months'
+ */
+export function formatDuration(
+  duration: Partial<Record<'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes', number>>,
+  locale: FormatLocale
+): string {
+  const units: [keyof typeof duration, FormatUnit][] = [
+    ['years', 'year'],
+    ['months', 'month'],
+    ['weeks', 'week'],
+    ['days', 'day'],
+    ['hours', 'hour'],
+    ['minutes', 'minute'],
+  ];
+  const given = units.filter(([key]) => duration[key] !== undefined);
+  const nonZero = given.filter(([key]) => duration[key]);
+  const parts = (nonZero.length > 0 ? nonZero : given.slice(-1))
+    .map(([key, unit]) => formatUnit(duration[key]!, unit, locale, { unitDisplay: 'long' }));
+
+  return new Intl.ListFormat(locale, { style: 'long', type: 'unit' }).format(parts);
+}
+
+/**
+ * Format a date, as a long date by default (e.g. 'March 15, 2024')
+ */
+export function formatDate(
+  date: Date,
+  locale: FormatLocale,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let format = dateFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { numberingSystem: 'latn', ...options });
+    dateFormats.set(key, format);
+  }
+  return format.format(date);
+}
+
+/**
+ * Format a date range, sharing the parts both dates have in common
+ * @example formatDateRange(new Date(2024, 2, 1), new Date(2024, 2, 5), 'en') // 'March 1 – 5, 2024'
+ */
+export function formatDateRange(
+  start: Date,
+  end: Date,
+  locale: FormatLocale,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  return new Intl.DateTimeFormat(locale, { numberingSystem: 'latn', ...options }).formatRange(start, end);
+}
+
+/**
+ * Weekday name of a date (e.g. 'Wednesday', 'miércoles')
+ */
+export function formatWeekday(date: Date, locale: FormatLocale): string {
+  return formatDate(date, locale, { weekday: 'long' });
+}
+
+/**
+ * Format a 24-hour HH:MM time the way the locale writes times
+ * @example formatTime('19:30', 'en') // '7:30 PM'
+ * @example formatTime('19:30', 'de') // '19:30'
+ */
+export function formatTime(time: string, locale: FormatLocale): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return formatDate(new Date(2000, 0, 1, hours, minutes), locale, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Relative time from now, with words where the locale has them
+ * @example formatRelativeTime(1, 'day', 'en') // 'tomorrow'
+ * @example formatRelativeTime(66, 'day', 'es') // 'dentro de 66 días'
+ */
+export function formatRelativeTime(value: number, unit: Intl.RelativeTimeFormatUnit, locale: FormatLocale): string {
+  // RelativeTimeFormat takes the numbering system from the locale tag only
+  return new Intl.RelativeTimeFormat(`${locale}-u-nu-latn`, { numeric: 'auto' }).format(value, unit);
+}
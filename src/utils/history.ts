@@ -0,0 +1,174 @@
+/**
+ * Calculation History
+ *
+ * Opt-in record of past calculations, kept in localStorage on the user's
+ * device only. Calculator scripts call recordCalculation() after every
+ * successful calculation; it announces the result with a `calculation` event
+ * on the form, which the history panel (CalculationHistory.astro) stores for
+ * the page's calculator once the user has turned history on.
+ *
+ * Inputs are stored as share query strings (see shareUrl.ts), so an entry
+ * reopens its exact result, and results as their top-level values.
+ */
+
+import { formatDateValue, getUnitSystem, type InputSchema, type UnitSystem } from '@/utils/inputSchema';
+import { isLiveUpdate } from '@/utils/liveResults';
+import { getFormShareParams, type ShareOptions } from '@/utils/shareUrl';
+
+/** Event dispatched on a calculator form after a successful calculation */
+export const CALCULATION_EVENT = 'calculation';
+
+const STORAGE_PREFIX = 'calculationHistory';
+const ENABLED_KEY = `${STORAGE_PREFIX}:enabled`;
+/** Oldest entries are dropped beyond this many per calculator */
+const MAX_ENTRIES = 100;
+
+export type HistoryValue = string | number | boolean;
+
+export interface HistoryRecord {
+  /** Calculator inputs as a share query string */
+  query: string;
+  /** Top-level result values */
+  result: Record<string, HistoryValue>;
+}
+
+export interface HistoryEntry extends HistoryRecord {
+  id: string;
+  /** Milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Detail of the calculation event
+ * Carries the parsed input and the full result as well, for listeners other
+ * than the history (e.g. the profile prompt and result hand-offs).
+ */
+export interface CalculationDetail<T = unknown> extends HistoryRecord {
+  schema: InputSchema<T>;
+  input: Partial<T>;
+  /** The result as computed, before it is summarized for the history */
+  output: unknown;
+  unitSystem: UnitSystem;
+}
+
+/**
+ * Keep the top-level values of a result that can be listed and plotted
+ * Nested objects (zones, timelines...) are left out to keep entries small.
+ */
+function summarizeResult(result: unknown): Record<string, HistoryValue> {
+  const summary: Record<string, HistoryValue> = {};
+  if (!result || typeof result !== 'object') return summary;
+
+  for (const [key, value] of Object.entries(result)) {
+    if (value instanceof Date) {
+      summary[key] = formatDateValue(value);
+    } else if (typeof value === 'number' ? isFinite(value) : typeof value === 'string' || typeof value === 'boolean') {
+      summary[key] = value;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Announce a successful calculation to the history panel and the profile prompt
+ * Live updates while typing are not announced, only explicit calculations.
+ */
+export function recordCalculation<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  result: unknown,
+  options: Pick<ShareOptions, 'form'> = {}
+): void {
+  if (isLiveUpdate(form)) return;
+
+  const detail: CalculationDetail<T> = {
+    query: getFormShareParams(form, schema, input, options).toString(),
+    result: summarizeResult(result),
+    schema,
+    input,
+    output: result,
+    unitSystem: getUnitSystem(new FormData(form)),
+  };
+  form.dispatchEvent(new CustomEvent(CALCULATION_EVENT, { bubbles: true, detail }));
+}
+
+function storageKey(calculatorId: string): string {
+  return `${STORAGE_PREFIX}:${calculatorId}`;
+}
+
+/**
+ * Whether the user has turned history on for this device
+ */
+export function isHistoryEnabled(): boolean {
+  try {
+    return localStorage.getItem(ENABLED_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function setHistoryEnabled(enabled: boolean): void {
+  try {
+    if (enabled) {
+      localStorage.setItem(ENABLED_KEY, '1');
+    } else {
+      localStorage.removeItem(ENABLED_KEY);
+    }
+  } catch {
+    // Storage unavailable (e.g. disabled cookies): history stays off
+  }
+}
+
+/**
+ * Saved entries for a calculator, oldest first
+ */
+export function getHistory(calculatorId: string): HistoryEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(storageKey(calculatorId)) ?? '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(calculatorId: string, entries: HistoryEntry[]): void {
+  try {
+    if (entries.length > 0) {
+      localStorage.setItem(storageKey(calculatorId), JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(storageKey(calculatorId));
+    }
+  } catch {
+    // Storage full or unavailable: the calculation is simply not saved
+  }
+}
+
+/**
+ * Save a calculation
+ * Repeating the latest calculation (e.g. reloading a shared link) is not saved twice.
+ * @returns The saved entry, or undefined if it repeats the latest one
+ */
+export function addHistoryEntry(calculatorId: string, { query, result }: HistoryRecord): HistoryEntry | undefined {
+  const entries = getHistory(calculatorId);
+  if (entries.at(-1)?.query === query) return undefined;
+
+  const timestamp = Date.now();
+  const entry: HistoryEntry = {
+    id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    query,
+    result,
+  };
+  saveHistory(calculatorId, [...entries, entry].slice(-MAX_ENTRIES));
+  return entry;
+}
+
+export function deleteHistoryEntry(calculatorId: string, id: string): void {
+  saveHistory(calculatorId, getHistory(calculatorId).filter(entry => entry.id !== id));
+}
+
+export function clearHistory(calculatorId: string): void {
+  saveHistory(calculatorId, []);
+}
@@ -1,1005 +1,105 @@
-export type Locale = 'es' | 'en' | 'pt' | 'fr' | 'hi' | 'de' | 'it' | 'pl' | 'nl' | 'tr' | 'sv' | 'ru';
-
 // Import routing configuration
 import { getSlug } from '@/config/routes';
-import { languages, defaultLocale, getSupportedLocales } from '@/config/languages';
+import { languages, getHomePath, getLocalePrefix, getSupportedLocales, type Locale } from '@/config/languages';
 import type { CalculatorId } from '@/config/calculators';
 import { calculators } from '@/config/calculators';
+import { formatMessage, type MessageParams } from '@/utils/messageFormat';
 
-// Import common translations
-import esCommon from '../../public/locales/es/common.json';
-import enCommon from '../../public/locales/en/common.json';
-import ptCommon from '../../public/locales/pt/common.json';
-import frCommon from '../../public/locales/fr/common.json';
-import hiCommon from '../../public/locales/hi/common.json';
-import deCommon from '../../public/locales/de/common.json';
-import itCommon from '../../public/locales/it/common.json';
-import plCommon from '../../public/locales/pl/common.json';
-import nlCommon from '../../public/locales/nl/common.json';
-import trCommon from '../../public/locales/tr/common.json';
-import svCommon from '../../public/locales/sv/common.json';
-import ruCommon from '../../public/locales/ru/common.json';
-
-// Import categories translations
-import esCategories from '../../public/locales/es/categories.json';
-import enCategories from '../../public/locales/en/categories.json';
-import ptCategories from '../../public/locales/pt/categories.json';
-import frCategories from '../../public/locales/fr/categories.json';
-import hiCategories from '../../public/locales/hi/categories.json';
-import deCategories from '../../public/locales/de/categories.json';
-import itCategories from '../../public/locales/it/categories.json';
-import plCategories from '../../public/locales/pl/categories.json';
-import nlCategories from '../../public/locales/nl/categories.json';
-import trCategories from '../../public/locales/tr/categories.json';
-import svCategories from '../../public/locales/sv/categories.json';
-import ruCategories from '../../public/locales/ru/categories.json';
-
-// Import calculator-specific translations
-import esBMI from '../../public/locales/es/calculators/bmi.json';
-import enBMI from '../../public/locales/en/calculators/bmi.json';
-import ptBMI from '../../public/locales/pt/calculators/bmi.json';
-import frBMI from '../../public/locales/fr/calculators/bmi.json';
-import hiBMI from '../../public/locales/hi/calculators/bmi.json';
-import deBMI from '../../public/locales/de/calculators/bmi.json';
-import itBMI from '../../public/locales/it/calculators/bmi.json';
-
-import esCalorie from '../../public/locales/es/calculators/calorie.json';
-import enCalorie from '../../public/locales/en/calculators/calorie.json';
-import ptCalorie from '../../public/locales/pt/calculators/calorie.json';
-import frCalorie from '../../public/locales/fr/calculators/calorie.json';
-import hiCalorie from '../../public/locales/hi/calculators/calorie.json';
-import deCalorie from '../../public/locales/de/calculators/calorie.json';
-import itCalorie from '../../public/locales/it/calculators/calorie.json';
-
-import esIdealWeight from '../../public/locales/es/calculators/ideal-weight.json';
-import enIdealWeight from '../../public/locales/en/calculators/ideal-weight.json';
-import ptIdealWeight from '../../public/locales/pt/calculators/ideal-weight.json';
-import frIdealWeight from '../../public/locales/fr/calculators/ideal-weight.json';
-import hiIdealWeight from '../../public/locales/hi/calculators/ideal-weight.json';
-import deIdealWeight from '../../public/locales/de/calculators/ideal-weight.json';
-import itIdealWeight from '../../public/locales/it/calculators/ideal-weight.json';
-
-import esBodyFat from '../../public/locales/es/calculators/body-fat.json';
-import enBodyFat from '../../public/locales/en/calculators/body-fat.json';
-import ptBodyFat from '../../public/locales/pt/calculators/body-fat.json';
-import frBodyFat from '../../public/locales/fr/calculators/body-fat.json';
-import hiBodyFat from '../../public/locales/hi/calculators/body-fat.json';
-import deBodyFat from '../../public/locales/de/calculators/body-fat.json';
-import itBodyFat from '../../public/locales/it/calculators/body-fat.json';
-
-import esBMR from '../../public/locales/es/calculators/bmr.json';
-import enBMR from '../../public/locales/en/calculators/bmr.json';
-import ptBMR from '../../public/locales/pt/calculators/bmr.json';
-import frBMR from '../../public/locales/fr/calculators/bmr.json';
-import hiBMR from '../../public/locales/hi/calculators/bmr.json';
-import deBMR from '../../public/locales/de/calculators/bmr.json';
-import itBMR from '../../public/locales/it/calculators/bmr.json';
-
-import esTDEE from '../../public/locales/es/calculators/tdee.json';
-import enTDEE from '../../public/locales/en/calculators/tdee.json';
-import ptTDEE from '../../public/locales/pt/calculators/tdee.json';
-import frTDEE from '../../public/locales/fr/calculators/tdee.json';
-import hiTDEE from '../../public/locales/hi/calculators/tdee.json';
-import deTDEE from '../../public/locales/de/calculators/tdee.json';
-import itTDEE from '../../public/locales/it/calculators/tdee.json';
-
-import esArmyBodyFat from '../../public/locales/es/calculators/army-body-fat.json';
-import enArmyBodyFat from '../../public/locales/en/calculators/army-body-fat.json';
-import ptArmyBodyFat from '../../public/locales/pt/calculators/army-body-fat.json';
-import frArmyBodyFat from '../../public/locales/fr/calculators/army-body-fat.json';
-import hiArmyBodyFat from '../../public/locales/hi/calculators/army-body-fat.json';
-import deArmyBodyFat from '../../public/locales/de/calculators/army-body-fat.json';
-import itArmyBodyFat from '../../public/locales/it/calculators/army-body-fat.json';
-
-import esPace from '../../public/locales/es/calculators/pace.json';
-import enPace from '../../public/locales/en/calculators/pace.json';
-import ptPace from '../../public/locales/pt/calculators/pace.json';
-import frPace from '../../public/locales/fr/calculators/pace.json';
-import hiPace from '../../public/locales/hi/calculators/pace.json';
-import dePace from '../../public/locales/de/calculators/pace.json';
-import itPace from '../../public/locales/it/calculators/pace.json';
-
-import esMacro from '../../public/locales/es/calculators/macro.json';
-import enMacro from '../../public/locales/en/calculators/macro.json';
-import ptMacro from '../../public/locales/pt/calculators/macro.json';
-import frMacro from '../../public/locales/fr/calculators/macro.json';
-import hiMacro from '../../public/locales/hi/calculators/macro.json';
-import deMacro from '../../public/locales/de/calculators/macro.json';
-import itMacro from '../../public/locales/it/calculators/macro.json';
-
-import esBAC from '../../public/locales/es/calculators/bac.json';
-import enBAC from '../../public/locales/en/calculators/bac.json';
-import ptBAC from '../../public/locales/pt/calculators/bac.json';
-import frBAC from '../../public/locales/fr/calculators/bac.json';
-import hiBAC from '../../public/locales/hi/calculators/bac.json';
-import deBAC from '../../public/locales/de/calculators/bac.json';
-import itBAC from '../../public/locales/it/calculators/bac.json';
-
-import esPregnancy from '../../public/locales/es/calculators/pregnancy.json';
-import enPregnancy from '../../public/locales/en/calculators/pregnancy.json';
-import ptPregnancy from '../../public/locales/pt/calculators/pregnancy.json';
-import frPregnancy from '../../public/locales/fr/calculators/pregnancy.json';
-import hiPregnancy from '../../public/locales/hi/calculators/pregnancy.json';
-import dePregnancy from '../../public/locales/de/calculators/pregnancy.json';
-import itPregnancy from '../../public/locales/it/calculators/pregnancy.json';
-
-import esPregnancyWeightGain from '../../public/locales/es/calculators/pregnancy-weight-gain.json';
-import enPregnancyWeightGain from '../../public/locales/en/calculators/pregnancy-weight-gain.json';
-import ptPregnancyWeightGain from '../../public/locales/pt/calculators/pregnancy-weight-gain.json';
-import frPregnancyWeightGain from '../../public/locales/fr/calculators/pregnancy-weight-gain.json';
-import hiPregnancyWeightGain from '../../public/locales/hi/calculators/pregnancy-weight-gain.json';
-import dePregnancyWeightGain from '../../public/locales/de/calculators/pregnancy-weight-gain.json';
-import itPregnancyWeightGain from '../../public/locales/it/calculators/pregnancy-weight-gain.json';
-
-import esPregnancyConception from '../../public/locales/es/calculators/pregnancy-conception.json';
-import enPregnancyConception from '../../public/locales/en/calculators/pregnancy-conception.json';
-import ptPregnancyConception from '../../public/locales/pt/calculators/pregnancy-conception.json';
-import frPregnancyConception from '../../public/locales/fr/calculators/pregnancy-conception.json';
-import hiPregnancyConception from '../../public/locales/hi/calculators/pregnancy-conception.json';
-import dePregnancyConception from '../../public/locales/de/calculators/pregnancy-conception.json';
-import itPregnancyConception from '../../public/locales/it/calculators/pregnancy-conception.json';
-
-import esDueDate from '../../public/locales/es/calculators/due-date.json';
-import enDueDate from '../../public/locales/en/calculators/due-date.json';
-import ptDueDate from '../../public/locales/pt/calculators/due-date.json';
-import frDueDate from '../../public/locales/fr/calculators/due-date.json';
-import hiDueDate from '../../public/locales/hi/calculators/due-date.json';
-import deDueDate from '../../public/locales/de/calculators/due-date.json';
-import itDueDate from '../../public/locales/it/calculators/due-date.json';
-
-import esCarbohydrate from '../../public/locales/es/calculators/carbohydrate.json';
-import enCarbohydrate from '../../public/locales/en/calculators/carbohydrate.json';
-import ptCarbohydrate from '../../public/locales/pt/calculators/carbohydrate.json';
-import frCarbohydrate from '../../public/locales/fr/calculators/carbohydrate.json';
-import hiCarbohydrate from '../../public/locales/hi/calculators/carbohydrate.json';
-import deCarbohydrate from '../../public/locales/de/calculators/carbohydrate.json';
-import itCarbohydrate from '../../public/locales/it/calculators/carbohydrate.json';
-
-import esLeanBodyMass from '../../public/locales/es/calculators/lean-body-mass.json';
-import enLeanBodyMass from '../../public/locales/en/calculators/lean-body-mass.json';
-import ptLeanBodyMass from '../../public/locales/pt/calculators/lean-body-mass.json';
-import frLeanBodyMass from '../../public/locales/fr/calculators/lean-body-mass.json';
-import hiLeanBodyMass from '../../public/locales/hi/calculators/lean-body-mass.json';
-import deLeanBodyMass from '../../public/locales/de/calculators/lean-body-mass.json';
-import itLeanBodyMass from '../../public/locales/it/calculators/lean-body-mass.json';
+export type { Locale };
 
-import esHealthyWeight from '../../public/locales/es/calculators/healthy-weight.json';
-import enHealthyWeight from '../../public/locales/en/calculators/healthy-weight.json';
-import ptHealthyWeight from '../../public/locales/pt/calculators/healthy-weight.json';
-import frHealthyWeight from '../../public/locales/fr/calculators/healthy-weight.json';
-import hiHealthyWeight from '../../public/locales/hi/calculators/healthy-weight.json';
-import deHealthyWeight from '../../public/locales/de/calculators/healthy-weight.json';
-import itHealthyWeight from '../../public/locales/it/calculators/healthy-weight.json';
+// Translation files, one chunk each, loaded per locale by loadTranslations()
+const commonFiles = import.meta.glob<Translations>('../../public/locales/*/common.json', { import: 'default' });
+const categoryFiles = import.meta.glob<Translations>('../../public/locales/*/categories.json', { import: 'default' });
+const calculatorFiles = import.meta.glob<Translations>('../../public/locales/*/calculators/*.json', { import: 'default' });
 
-import esHeartRate from '../../public/locales/es/calculators/heart-rate.json';
-import enHeartRate from '../../public/locales/en/calculators/heart-rate.json';
-import ptHeartRate from '../../public/locales/pt/calculators/heart-rate.json';
-import frHeartRate from '../../public/locales/fr/calculators/heart-rate.json';
-import hiHeartRate from '../../public/locales/hi/calculators/heart-rate.json';
-import deHeartRate from '../../public/locales/de/calculators/heart-rate.json';
-import itHeartRate from '../../public/locales/it/calculators/heart-rate.json';
-import esBodyType from '../../public/locales/es/calculators/body-type.json';
-import enBodyType from '../../public/locales/en/calculators/body-type.json';
-import ptBodyType from '../../public/locales/pt/calculators/body-type.json';
-import frBodyType from '../../public/locales/fr/calculators/body-type.json';
-import hiBodyType from '../../public/locales/hi/calculators/body-type.json';
-import deBodyType from '../../public/locales/de/calculators/body-type.json';
-import itBodyType from '../../public/locales/it/calculators/body-type.json';
-
-import esProtein from '../../public/locales/es/calculators/protein.json';
-import enProtein from '../../public/locales/en/calculators/protein.json';
-import ptProtein from '../../public/locales/pt/calculators/protein.json';
-import frProtein from '../../public/locales/fr/calculators/protein.json';
-import hiProtein from '../../public/locales/hi/calculators/protein.json';
-import deProtein from '../../public/locales/de/calculators/protein.json';
-import itProtein from '../../public/locales/it/calculators/protein.json';
-
-import esCaloriesBurned from '../../public/locales/es/calculators/calories-burned.json';
-import enCaloriesBurned from '../../public/locales/en/calculators/calories-burned.json';
-import ptCaloriesBurned from '../../public/locales/pt/calculators/calories-burned.json';
-import frCaloriesBurned from '../../public/locales/fr/calculators/calories-burned.json';
-import hiCaloriesBurned from '../../public/locales/hi/calculators/calories-burned.json';
-import deCaloriesBurned from '../../public/locales/de/calculators/calories-burned.json';
-import itCaloriesBurned from '../../public/locales/it/calculators/calories-burned.json';
-
-import esBSA from '../../public/locales/es/calculators/bsa.json';
-import enBSA from '../../public/locales/en/calculators/bsa.json';
-import ptBSA from '../../public/locales/pt/calculators/bsa.json';
-import frBSA from '../../public/locales/fr/calculators/bsa.json';
-import hiBSA from '../../public/locales/hi/calculators/bsa.json';
-import deBSA from '../../public/locales/de/calculators/bsa.json';
-import itBSA from '../../public/locales/it/calculators/bsa.json';
-
-import esBloodType from '../../public/locales/es/calculators/blood-type.json';
-import enBloodType from '../../public/locales/en/calculators/blood-type.json';
-import ptBloodType from '../../public/locales/pt/calculators/blood-type.json';
-import frBloodType from '../../public/locales/fr/calculators/blood-type.json';
-import hiBloodType from '../../public/locales/hi/calculators/blood-type.json';
-import deBloodType from '../../public/locales/de/calculators/blood-type.json';
-import itBloodType from '../../public/locales/it/calculators/blood-type.json';
-
-import esOvulation from '../../public/locales/es/calculators/ovulation.json';
-import enOvulation from '../../public/locales/en/calculators/ovulation.json';
-import ptOvulation from '../../public/locales/pt/calculators/ovulation.json';
-import frOvulation from '../../public/locales/fr/calculators/ovulation.json';
-import hiOvulation from '../../public/locales/hi/calculators/ovulation.json';
-import deOvulation from '../../public/locales/de/calculators/ovulation.json';
-import itOvulation from '../../public/locales/it/calculators/ovulation.json';
-
-import esPeriod from '../../public/locales/es/calculators/period.json';
-import enPeriod from '../../public/locales/en/calculators/period.json';
-import ptPeriod from '../../public/locales/pt/calculators/period.json';
-import frPeriod from '../../public/locales/fr/calculators/period.json';
-import hiPeriod from '../../public/locales/hi/calculators/period.json';
-import dePeriod from '../../public/locales/de/calculators/period.json';
-import itPeriod from '../../public/locales/it/calculators/period.json';
-
-import esBodyFrame from '../../public/locales/es/calculators/body-frame.json';
-import enBodyFrame from '../../public/locales/en/calculators/body-frame.json';
-import ptBodyFrame from '../../public/locales/pt/calculators/body-frame.json';
-import frBodyFrame from '../../public/locales/fr/calculators/body-frame.json';
-import hiBodyFrame from '../../public/locales/hi/calculators/body-frame.json';
-import deBodyFrame from '../../public/locales/de/calculators/body-frame.json';
-import itBodyFrame from '../../public/locales/it/calculators/body-frame.json';
-
-import esWaistHip from '../../public/locales/es/calculators/waist-hip.json';
-import enWaistHip from '../../public/locales/en/calculators/waist-hip.json';
-import ptWaistHip from '../../public/locales/pt/calculators/waist-hip.json';
-import frWaistHip from '../../public/locales/fr/calculators/waist-hip.json';
-import hiWaistHip from '../../public/locales/hi/calculators/waist-hip.json';
-import deWaistHip from '../../public/locales/de/calculators/waist-hip.json';
-import itWaistHip from '../../public/locales/it/calculators/waist-hip.json';
-
-import esAge from '../../public/locales/es/calculators/age.json';
-import enAge from '../../public/locales/en/calculators/age.json';
-import ptAge from '../../public/locales/pt/calculators/age.json';
-import frAge from '../../public/locales/fr/calculators/age.json';
-import hiAge from '../../public/locales/hi/calculators/age.json';
-import deAge from '../../public/locales/de/calculators/age.json';
-import itAge from '../../public/locales/it/calculators/age.json';
-
-import esTip from '../../public/locales/es/calculators/tip.json';
-import enTip from '../../public/locales/en/calculators/tip.json';
-import ptTip from '../../public/locales/pt/calculators/tip.json';
-import frTip from '../../public/locales/fr/calculators/tip.json';
-import hiTip from '../../public/locales/hi/calculators/tip.json';
-import deTip from '../../public/locales/de/calculators/tip.json';
-import itTip from '../../public/locales/it/calculators/tip.json';
-
-import esDate from '../../public/locales/es/calculators/date.json';
-import enDate from '../../public/locales/en/calculators/date.json';
-import ptDate from '../../public/locales/pt/calculators/date.json';
-import frDate from '../../public/locales/fr/calculators/date.json';
-import hiDate from '../../public/locales/hi/calculators/date.json';
-import deDate from '../../public/locales/de/calculators/date.json';
-import itDate from '../../public/locales/it/calculators/date.json';
-
-import esPercentage from '../../public/locales/es/calculators/percentage.json';
-import enPercentage from '../../public/locales/en/calculators/percentage.json';
-import ptPercentage from '../../public/locales/pt/calculators/percentage.json';
-import frPercentage from '../../public/locales/fr/calculators/percentage.json';
-import hiPercentage from '../../public/locales/hi/calculators/percentage.json';
-import dePercentage from '../../public/locales/de/calculators/percentage.json';
-import itPercentage from '../../public/locales/it/calculators/percentage.json';
-
-import esSleep from '../../public/locales/es/calculators/sleep.json';
-import enSleep from '../../public/locales/en/calculators/sleep.json';
-import ptSleep from '../../public/locales/pt/calculators/sleep.json';
-import frSleep from '../../public/locales/fr/calculators/sleep.json';
-import hiSleep from '../../public/locales/hi/calculators/sleep.json';
-import deSleep from '../../public/locales/de/calculators/sleep.json';
-import itSleep from '../../public/locales/it/calculators/sleep.json';
-
-import esGFR from '../../public/locales/es/calculators/gfr.json';
-import enGFR from '../../public/locales/en/calculators/gfr.json';
-import ptGFR from '../../public/locales/pt/calculators/gfr.json';
-import frGFR from '../../public/locales/fr/calculators/gfr.json';
-import hiGFR from '../../public/locales/hi/calculators/gfr.json';
-import deGFR from '../../public/locales/de/calculators/gfr.json';
-import itGFR from '../../public/locales/it/calculators/gfr.json';
-
-
-import plBMI from '../../public/locales/pl/calculators/bmi.json';
-import svBMI from '../../public/locales/sv/calculators/bmi.json';
-import plCalorie from '../../public/locales/pl/calculators/calorie.json';
-import svCalorie from '../../public/locales/sv/calculators/calorie.json';
-import plIdealWeight from '../../public/locales/pl/calculators/ideal-weight.json';
-import svIdealWeight from '../../public/locales/sv/calculators/ideal-weight.json';
-import plBodyFat from '../../public/locales/pl/calculators/body-fat.json';
-import svBodyFat from '../../public/locales/sv/calculators/body-fat.json';
-import plBMR from '../../public/locales/pl/calculators/bmr.json';
-import svBMR from '../../public/locales/sv/calculators/bmr.json';
-import plTDEE from '../../public/locales/pl/calculators/tdee.json';
-import svTDEE from '../../public/locales/sv/calculators/tdee.json';
-import plArmyBodyFat from '../../public/locales/pl/calculators/army-body-fat.json';
-import svArmyBodyFat from '../../public/locales/sv/calculators/army-body-fat.json';
-import plPace from '../../public/locales/pl/calculators/pace.json';
-import svPace from '../../public/locales/sv/calculators/pace.json';
-import plMacro from '../../public/locales/pl/calculators/macro.json';
-import svMacro from '../../public/locales/sv/calculators/macro.json';
-import plBAC from '../../public/locales/pl/calculators/bac.json';
-import svBAC from '../../public/locales/sv/calculators/bac.json';
-import plPregnancy from '../../public/locales/pl/calculators/pregnancy.json';
-import svPregnancy from '../../public/locales/sv/calculators/pregnancy.json';
-import plPregnancyWeightGain from '../../public/locales/pl/calculators/pregnancy-weight-gain.json';
-import svPregnancyWeightGain from '../../public/locales/sv/calculators/pregnancy-weight-gain.json';
-import plPregnancyConception from '../../public/locales/pl/calculators/pregnancy-conception.json';
-import svPregnancyConception from '../../public/locales/sv/calculators/pregnancy-conception.json';
-import plDueDate from '../../public/locales/pl/calculators/due-date.json';
-import svDueDate from '../../public/locales/sv/calculators/due-date.json';
-import plCarbohydrate from '../../public/locales/pl/calculators/carbohydrate.json';
-import svCarbohydrate from '../../public/locales/sv/calculators/carbohydrate.json';
-import plLeanBodyMass from '../../public/locales/pl/calculators/lean-body-mass.json';
-import svLeanBodyMass from '../../public/locales/sv/calculators/lean-body-mass.json';
-import plHealthyWeight from '../../public/locales/pl/calculators/healthy-weight.json';
-import svHealthyWeight from '../../public/locales/sv/calculators/healthy-weight.json';
-import plHeartRate from '../../public/locales/pl/calculators/heart-rate.json';
-import svHeartRate from '../../public/locales/sv/calculators/heart-rate.json';
-import plBodyType from '../../public/locales/pl/calculators/body-type.json';
-import svBodyType from '../../public/locales/sv/calculators/body-type.json';
-import plProtein from '../../public/locales/pl/calculators/protein.json';
-import svProtein from '../../public/locales/sv/calculators/protein.json';
-import plCaloriesBurned from '../../public/locales/pl/calculators/calories-burned.json';
-import svCaloriesBurned from '../../public/locales/sv/calculators/calories-burned.json';
-import plBSA from '../../public/locales/pl/calculators/bsa.json';
-import svBSA from '../../public/locales/sv/calculators/bsa.json';
-import plBloodType from '../../public/locales/pl/calculators/blood-type.json';
-import svBloodType from '../../public/locales/sv/calculators/blood-type.json';
-import plOvulation from '../../public/locales/pl/calculators/ovulation.json';
-import svOvulation from '../../public/locales/sv/calculators/ovulation.json';
-import plPeriod from '../../public/locales/pl/calculators/period.json';
-import svPeriod from '../../public/locales/sv/calculators/period.json';
-import plBodyFrame from '../../public/locales/pl/calculators/body-frame.json';
-import svBodyFrame from '../../public/locales/sv/calculators/body-frame.json';
-import plWaistHip from '../../public/locales/pl/calculators/waist-hip.json';
-import svWaistHip from '../../public/locales/sv/calculators/waist-hip.json';
-import plAge from '../../public/locales/pl/calculators/age.json';
-import svAge from '../../public/locales/sv/calculators/age.json';
-import plTip from '../../public/locales/pl/calculators/tip.json';
-import svTip from '../../public/locales/sv/calculators/tip.json';
-import plDate from '../../public/locales/pl/calculators/date.json';
-import svDate from '../../public/locales/sv/calculators/date.json';
-import plPercentage from '../../public/locales/pl/calculators/percentage.json';
-import svPercentage from '../../public/locales/sv/calculators/percentage.json';
-import plSleep from '../../public/locales/pl/calculators/sleep.json';
-import svSleep from '../../public/locales/sv/calculators/sleep.json';
-import plGFR from '../../public/locales/pl/calculators/gfr.json';
-import svGFR from '../../public/locales/sv/calculators/gfr.json';
+interface Translations {
+  [key: string]: any;
+}
 
+declare global {
+  /**
+   * English translation keys, e.g. 'bmi.form.title': true
+   * Generated by the translation check integration when Astro syncs.
+   */
+  interface TranslationKeys {}
+}
 
-import nlBmi from '../../public/locales/nl/calculators/bmi.json';
-import trBmi from '../../public/locales/tr/calculators/bmi.json';
-import ruBmi from '../../public/locales/ru/calculators/bmi.json';
-import nlCalorie from '../../public/locales/nl/calculators/calorie.json';
-import trCalorie from '../../public/locales/tr/calculators/calorie.json';
-import ruCalorie from '../../public/locales/ru/calculators/calorie.json';
-import nlIdealWeight from '../../public/locales/nl/calculators/ideal-weight.json';
-import trIdealWeight from '../../public/locales/tr/calculators/ideal-weight.json';
-import ruIdealWeight from '../../public/locales/ru/calculators/ideal-weight.json';
-import nlBodyFat from '../../public/locales/nl/calculators/body-fat.json';
-import trBodyFat from '../../public/locales/tr/calculators/body-fat.json';
-import ruBodyFat from '../../public/locales/ru/calculators/body-fat.json';
-import nlBmr from '../../public/locales/nl/calculators/bmr.json';
-import trBmr from '../../public/locales/tr/calculators/bmr.json';
-import ruBmr from '../../public/locales/ru/calculators/bmr.json';
-import nlTdee from '../../public/locales/nl/calculators/tdee.json';
-import trTdee from '../../public/locales/tr/calculators/tdee.json';
-import ruTdee from '../../public/locales/ru/calculators/tdee.json';
-import nlArmyBodyFat from '../../public/locales/nl/calculators/army-body-fat.json';
-import trArmyBodyFat from '../../public/locales/tr/calculators/army-body-fat.json';
-import ruArmyBodyFat from '../../public/locales/ru/calculators/army-body-fat.json';
-import nlPace from '../../public/locales/nl/calculators/pace.json';
-import trPace from '../../public/locales/tr/calculators/pace.json';
-import ruPace from '../../public/locales/ru/calculators/pace.json';
-import nlMacro from '../../public/locales/nl/calculators/macro.json';
-import trMacro from '../../public/locales/tr/calculators/macro.json';
-import ruMacro from '../../public/locales/ru/calculators/macro.json';
-import nlBAC from '../../public/locales/nl/calculators/bac.json';
-import trBAC from '../../public/locales/tr/calculators/bac.json';
-import ruBAC from '../../public/locales/ru/calculators/bac.json';
-import nlPregnancy from '../../public/locales/nl/calculators/pregnancy.json';
-import trPregnancy from '../../public/locales/tr/calculators/pregnancy.json';
-import ruPregnancy from '../../public/locales/ru/calculators/pregnancy.json';
-import nlPregnancyWeightGain from '../../public/locales/nl/calculators/pregnancy-weight-gain.json';
-import trPregnancyWeightGain from '../../public/locales/tr/calculators/pregnancy-weight-gain.json';
-import ruPregnancyWeightGain from '../../public/locales/ru/calculators/pregnancy-weight-gain.json';
-import nlPregnancyConception from '../../public/locales/nl/calculators/pregnancy-conception.json';
-import trPregnancyConception from '../../public/locales/tr/calculators/pregnancy-conception.json';
-import ruPregnancyConception from '../../public/locales/ru/calculators/pregnancy-conception.json';
-import nlDueDate from '../../public/locales/nl/calculators/due-date.json';
-import trDueDate from '../../public/locales/tr/calculators/due-date.json';
-import ruDueDate from '../../public/locales/ru/calculators/due-date.json';
-import nlCarbohydrate from '../../public/locales/nl/calculators/carbohydrate.json';
-import trCarbohydrate from '../../public/locales/tr/calculators/carbohydrate.json';
-import ruCarbohydrate from '../../public/locales/ru/calculators/carbohydrate.json';
-import nlLeanBodyMass from '../../public/locales/nl/calculators/lean-body-mass.json';
-import trLeanBodyMass from '../../public/locales/tr/calculators/lean-body-mass.json';
-import ruLeanBodyMass from '../../public/locales/ru/calculators/lean-body-mass.json';
-import nlHealthyWeight from '../../public/locales/nl/calculators/healthy-weight.json';
-import trHealthyWeight from '../../public/locales/tr/calculators/healthy-weight.json';
-import ruHealthyWeight from '../../public/locales/ru/calculators/healthy-weight.json';
-import nlHeartRate from '../../public/locales/nl/calculators/heart-rate.json';
-import trHeartRate from '../../public/locales/tr/calculators/heart-rate.json';
-import ruHeartRate from '../../public/locales/ru/calculators/heart-rate.json';
-import nlBodyType from '../../public/locales/nl/calculators/body-type.json';
-import trBodyType from '../../public/locales/tr/calculators/body-type.json';
-import ruBodyType from '../../public/locales/ru/calculators/body-type.json';
-import nlProtein from '../../public/locales/nl/calculators/protein.json';
-import trProtein from '../../public/locales/tr/calculators/protein.json';
-import ruProtein from '../../public/locales/ru/calculators/protein.json';
-import nlCaloriesBurned from '../../public/locales/nl/calculators/calories-burned.json';
-import trCaloriesBurned from '../../public/locales/tr/calculators/calories-burned.json';
-import ruCaloriesBurned from '../../public/locales/ru/calculators/calories-burned.json';
-import nlBsa from '../../public/locales/nl/calculators/bsa.json';
-import trBsa from '../../public/locales/tr/calculators/bsa.json';
-import ruBsa from '../../public/locales/ru/calculators/bsa.json';
-import nlBloodType from '../../public/locales/nl/calculators/blood-type.json';
-import trBloodType from '../../public/locales/tr/calculators/blood-type.json';
-import ruBloodType from '../../public/locales/ru/calculators/blood-type.json';
-import nlOvulation from '../../public/locales/nl/calculators/ovulation.json';
-import trOvulation from '../../public/locales/tr/calculators/ovulation.json';
-import ruOvulation from '../../public/locales/ru/calculators/ovulation.json';
-import nlPeriod from '../../public/locales/nl/calculators/period.json';
-import trPeriod from '../../public/locales/tr/calculators/period.json';
-import ruPeriod from '../../public/locales/ru/calculators/period.json';
-import nlBodyFrame from '../../public/locales/nl/calculators/body-frame.json';
-import trBodyFrame from '../../public/locales/tr/calculators/body-frame.json';
-import ruBodyFrame from '../../public/locales/ru/calculators/body-frame.json';
-import nlWaistHip from '../../public/locales/nl/calculators/waist-hip.json';
-import trWaistHip from '../../public/locales/tr/calculators/waist-hip.json';
-import ruWaistHip from '../../public/locales/ru/calculators/waist-hip.json';
-import nlTip from '../../public/locales/nl/calculators/tip.json';
-import trTip from '../../public/locales/tr/calculators/tip.json';
-import ruTip from '../../public/locales/ru/calculators/tip.json';
-import nlDate from '../../public/locales/nl/calculators/date.json';
-import trDate from '../../public/locales/tr/calculators/date.json';
-import ruDate from '../../public/locales/ru/calculators/date.json';
-import nlAge from '../../public/locales/nl/calculators/age.json';
-import trAge from '../../public/locales/tr/calculators/age.json';
-import ruAge from '../../public/locales/ru/calculators/age.json';
-import nlPercentage from '../../public/locales/nl/calculators/percentage.json';
-import trPercentage from '../../public/locales/tr/calculators/percentage.json';
-import ruPercentage from '../../public/locales/ru/calculators/percentage.json';
-import nlSleep from '../../public/locales/nl/calculators/sleep.json';
-import trSleep from '../../public/locales/tr/calculators/sleep.json';
-import ruSleep from '../../public/locales/ru/calculators/sleep.json';
-import nlGFR from '../../public/locales/nl/calculators/gfr.json';
-import trGFR from '../../public/locales/tr/calculators/gfr.json';
-import ruGFR from '../../public/locales/ru/calculators/gfr.json';
+type DottedKey = [keyof TranslationKeys] extends [never] ? string : keyof TranslationKeys & string;
+type NamespacedKey<Key extends string> = Key extends `${infer Namespace}.${infer Path}` ? `${Namespace}:${Path}` : never;
 
+/**
+ * A key of the English translations: 'bmi.form.title' or 'bmi:form.title'
+ * Plain string until the key types have been generated (astro sync).
+ */
+export type TranslationKey = DottedKey | NamespacedKey<DottedKey>;
 
-import esOneRepMax from '../../public/locales/es/calculators/one-rep-max.json';
-import enOneRepMax from '../../public/locales/en/calculators/one-rep-max.json';
-import ptOneRepMax from '../../public/locales/pt/calculators/one-rep-max.json';
-import frOneRepMax from '../../public/locales/fr/calculators/one-rep-max.json';
-import hiOneRepMax from '../../public/locales/hi/calculators/one-rep-max.json';
-import deOneRepMax from '../../public/locales/de/calculators/one-rep-max.json';
-import itOneRepMax from '../../public/locales/it/calculators/one-rep-max.json';
-import plOneRepMax from '../../public/locales/pl/calculators/one-rep-max.json';
-import nlOneRepMax from '../../public/locales/nl/calculators/one-rep-max.json';
-import trOneRepMax from '../../public/locales/tr/calculators/one-rep-max.json';
-import svOneRepMax from '../../public/locales/sv/calculators/one-rep-max.json';
-import ruOneRepMax from '../../public/locales/ru/calculators/one-rep-max.json';
+/**
+ * Load a translation file by its path under public/locales
+ * Throws so a missing file fails the build instead of rendering raw keys
+ */
+function loadTranslationFile(files: Record<string, () => Promise<Translations>>, path: string): Promise<Translations> {
+  const load = files[`../../public/locales/${path}.json`];
+  if (!load) {
+    throw new Error(`Missing translation file: public/locales/${path}.json`);
+  }
+  return load();
+}
 
-import esWeightWatchers from '../../public/locales/es/calculators/weight-watchers.json';
-import enWeightWatchers from '../../public/locales/en/calculators/weight-watchers.json';
-import ptWeightWatchers from '../../public/locales/pt/calculators/weight-watchers.json';
-import frWeightWatchers from '../../public/locales/fr/calculators/weight-watchers.json';
-import hiWeightWatchers from '../../public/locales/hi/calculators/weight-watchers.json';
-import deWeightWatchers from '../../public/locales/de/calculators/weight-watchers.json';
-import itWeightWatchers from '../../public/locales/it/calculators/weight-watchers.json';
-import plWeightWatchers from '../../public/locales/pl/calculators/weight-watchers.json';
-import nlWeightWatchers from '../../public/locales/nl/calculators/weight-watchers.json';
-import trWeightWatchers from '../../public/locales/tr/calculators/weight-watchers.json';
-import svWeightWatchers from '../../public/locales/sv/calculators/weight-watchers.json';
-import ruWeightWatchers from '../../public/locales/ru/calculators/weight-watchers.json';
+/**
+ * Build the translations for a locale from the calculator registry
+ * Calculator namespaces use the camelCase calculator ID (e.g. 'ideal-weight' -> 'idealWeight')
+ */
+async function buildTranslations(locale: Locale): Promise<Translations> {
+  const [common, categories, ...calculatorTranslations] = await Promise.all([
+    loadTranslationFile(commonFiles, `${locale}/common`),
+    loadTranslationFile(categoryFiles, `${locale}/categories`),
+    ...calculators.map(calculatorId => loadTranslationFile(calculatorFiles, `${locale}/calculators/${calculatorId}`)),
+  ]);
+
+  const bundle: Translations = { ...common, categories };
+  calculators.forEach((calculatorId, index) => {
+    bundle[kebabToCamelCase(calculatorId)] = calculatorTranslations[index];
+  });
+
+  return bundle;
+}
 
-import esFatIntake from '../../public/locales/es/calculators/fat-intake.json';
-import enFatIntake from '../../public/locales/en/calculators/fat-intake.json';
-import ptFatIntake from '../../public/locales/pt/calculators/fat-intake.json';
-import frFatIntake from '../../public/locales/fr/calculators/fat-intake.json';
-import hiFatIntake from '../../public/locales/hi/calculators/fat-intake.json';
-import deFatIntake from '../../public/locales/de/calculators/fat-intake.json';
-import itFatIntake from '../../public/locales/it/calculators/fat-intake.json';
-import plFatIntake from '../../public/locales/pl/calculators/fat-intake.json';
-import nlFatIntake from '../../public/locales/nl/calculators/fat-intake.json';
-import trFatIntake from '../../public/locales/tr/calculators/fat-intake.json';
-import svFatIntake from '../../public/locales/sv/calculators/fat-intake.json';
-import ruFatIntake from '../../public/locales/ru/calculators/fat-intake.json';
+const translations = new Map<Locale, Translations>();
+const loadingTranslations = new Map<Locale, Promise<void>>();
 
-interface Translations {
-  [key: string]: any;
+/**
+ * Load the translations of a locale, once
+ * The middleware loads the locale of each page before it renders, so t()
+ * stays synchronous and a page only loads its own language.
+ */
+export function loadTranslations(locale: Locale): Promise<void> {
+  let loading = loadingTranslations.get(locale);
+  if (!loading) {
+    loading = buildTranslations(locale).then((bundle) => {
+      translations.set(locale, bundle);
+    });
+    loadingTranslations.set(locale, loading);
+  }
+  return loading;
 }
 
-const translations: Record<Locale, Translations> = {
-  es: {
-    ...esCommon,
-    categories: esCategories,
-    bmi: esBMI,
-    calorie: esCalorie,
-    idealWeight: esIdealWeight,
-    bodyFat: esBodyFat,
-    bmr: esBMR,
-    tdee: esTDEE,
-    armyBodyFat: esArmyBodyFat,
-    pace: esPace,
-    macro: esMacro,
-    bac: esBAC,
-    pregnancy: esPregnancy,
-    pregnancyWeightGain: esPregnancyWeightGain,
-    pregnancyConception: esPregnancyConception,
-    dueDate: esDueDate,
-    carbohydrate: esCarbohydrate,
-    leanBodyMass: esLeanBodyMass,
-    healthyWeight: esHealthyWeight,
-    heartRate: esHeartRate,
-    bodyType: esBodyType,
-    protein: esProtein,
-    caloriesBurned: esCaloriesBurned,
-    bsa: esBSA,
-    bloodType: esBloodType,
-    ovulation: esOvulation,
-    period: esPeriod,
-    bodyFrame: esBodyFrame,
-    waistHip: esWaistHip,
-    age: esAge,
-    tip: esTip,
-    weightWatchers: esWeightWatchers,
-    date: esDate,
-    percentage: esPercentage,
-    sleep: esSleep,
-    gfr: esGFR,
-    oneRepMax: esOneRepMax,
-    fatIntake: esFatIntake,
-  },
-  en: {
-    ...enCommon,
-    categories: enCategories,
-    bmi: enBMI,
-    calorie: enCalorie,
-    idealWeight: enIdealWeight,
-    bodyFat: enBodyFat,
-    bmr: enBMR,
-    tdee: enTDEE,
-    armyBodyFat: enArmyBodyFat,
-    pace: enPace,
-    macro: enMacro,
-    bac: enBAC,
-    pregnancy: enPregnancy,
-    pregnancyWeightGain: enPregnancyWeightGain,
-    pregnancyConception: enPregnancyConception,
-    weightWatchers: enWeightWatchers,
-    dueDate: enDueDate,
-    carbohydrate: enCarbohydrate,
-    leanBodyMass: enLeanBodyMass,
-    healthyWeight: enHealthyWeight,
-    heartRate: enHeartRate,
-    bodyType: enBodyType,
-    protein: enProtein,
-    caloriesBurned: enCaloriesBurned,
-    bsa: enBSA,
-    bloodType: enBloodType,
-    ovulation: enOvulation,
-    period: enPeriod,
-    bodyFrame: enBodyFrame,
-    waistHip: enWaistHip,
-    age: enAge,
-    tip: enTip,
-    date: enDate,
-    percentage: enPercentage,
-    sleep: enSleep,
-    gfr: enGFR,
-    oneRepMax: enOneRepMax,
-    fatIntake: enFatIntake,
-  },
-  pt: {
-    ...ptCommon,
-    categories: ptCategories,
-    bmi: ptBMI,
-    calorie: ptCalorie,
-    idealWeight: ptIdealWeight,
-    bodyFat: ptBodyFat,
-    bmr: ptBMR,
-    tdee: ptTDEE,
-    armyBodyFat: ptArmyBodyFat,
-    pace: ptPace,
-    macro: ptMacro,
-    bac: ptBAC,
-    pregnancy: ptPregnancy,
-    pregnancyWeightGain: ptPregnancyWeightGain,
-    weightWatchers: ptWeightWatchers,
-    pregnancyConception: ptPregnancyConception,
-    dueDate: ptDueDate,
-    carbohydrate: ptCarbohydrate,
-    leanBodyMass: ptLeanBodyMass,
-    healthyWeight: ptHealthyWeight,
-    heartRate: ptHeartRate,
-    bodyType: ptBodyType,
-    protein: ptProtein,
-    caloriesBurned: ptCaloriesBurned,
-    bsa: ptBSA,
-    bloodType: ptBloodType,
-    ovulation: ptOvulation,
-    period: ptPeriod,
-    bodyFrame: ptBodyFrame,
-    waistHip: ptWaistHip,
-    age: ptAge,
-    tip: ptTip,
-    date: ptDate,
-    percentage: ptPercentage,
-    sleep: ptSleep,
-    gfr: ptGFR,
-    oneRepMax: ptOneRepMax,
-    fatIntake: ptFatIntake,
-  },
-  fr: {
-    ...frCommon,
-    categories: frCategories,
-    bmi: frBMI,
-    calorie: frCalorie,
-    idealWeight: frIdealWeight,
-    bodyFat: frBodyFat,
-    bmr: frBMR,
-    tdee: frTDEE,
-    armyBodyFat: frArmyBodyFat,
-    pace: frPace,
-    macro: frMacro,
-    bac: frBAC,
-    pregnancy: frPregnancy,
-    weightWatchers: frWeightWatchers,
-    pregnancyWeightGain: frPregnancyWeightGain,
-    pregnancyConception: frPregnancyConception,
-    dueDate: frDueDate,
-    carbohydrate: frCarbohydrate,
-    leanBodyMass: frLeanBodyMass,
-    healthyWeight: frHealthyWeight,
-    heartRate: frHeartRate,
-    bodyType: frBodyType,
-    protein: frProtein,
-    caloriesBurned: frCaloriesBurned,
-    bsa: frBSA,
-    bloodType: frBloodType,
-    ovulation: frOvulation,
-    period: frPeriod,
-    bodyFrame: frBodyFrame,
-    waistHip: frWaistHip,
-    age: frAge,
-    tip: frTip,
-    date: frDate,
-    percentage: frPercentage,
-    sleep: frSleep,
-    gfr: frGFR,
-    oneRepMax: frOneRepMax,
-    fatIntake: frFatIntake,
-  },
-  hi: {
-    ...hiCommon,
-    categories: hiCategories,
-    bmi: hiBMI,
-    calorie: hiCalorie,
-    idealWeight: hiIdealWeight,
-    bodyFat: hiBodyFat,
-    bmr: hiBMR,
-    tdee: hiTDEE,
-    armyBodyFat: hiArmyBodyFat,
-    pace: hiPace,
-    macro: hiMacro,
-    bac: hiBAC,
-    weightWatchers: hiWeightWatchers,
-    pregnancy: hiPregnancy,
-    pregnancyWeightGain: hiPregnancyWeightGain,
-    pregnancyConception: hiPregnancyConception,
-    dueDate: hiDueDate,
-    carbohydrate: hiCarbohydrate,
-    leanBodyMass: hiLeanBodyMass,
-    healthyWeight: hiHealthyWeight,
-    heartRate: hiHeartRate,
-    bodyType: hiBodyType,
-    protein: hiProtein,
-    caloriesBurned: hiCaloriesBurned,
-    bsa: hiBSA,
-    bloodType: hiBloodType,
-    ovulation: hiOvulation,
-    period: hiPeriod,
-    bodyFrame: hiBodyFrame,
-    age: hiAge,
-    tip: hiTip,
-    waistHip: hiWaistHip,
-    date: hiDate,
-    percentage: hiPercentage,
-    sleep: hiSleep,
-    gfr: hiGFR,
-    oneRepMax: hiOneRepMax,
-    fatIntake: hiFatIntake,
-  },
-  de: {
-    ...deCommon,
-    categories: deCategories,
-    bmi: deBMI,
-    calorie: deCalorie,
-    idealWeight: deIdealWeight,
-    bodyFat: deBodyFat,
-    bmr: deBMR,
-    tdee: deTDEE,
-    armyBodyFat: deArmyBodyFat,
-    pace: dePace,
-    macro: deMacro,
-    weightWatchers: deWeightWatchers,
-    bac: deBAC,
-    pregnancy: dePregnancy,
-    pregnancyWeightGain: dePregnancyWeightGain,
-    pregnancyConception: dePregnancyConception,
-    dueDate: deDueDate,
-    carbohydrate: deCarbohydrate,
-    leanBodyMass: deLeanBodyMass,
-    healthyWeight: deHealthyWeight,
-    heartRate: deHeartRate,
-    bodyType: deBodyType,
-    protein: deProtein,
-    caloriesBurned: deCaloriesBurned,
-    bsa: deBSA,
-    bloodType: deBloodType,
-    ovulation: deOvulation,
-    period: dePeriod,
-    bodyFrame: deBodyFrame,
-    age: deAge,
-    tip: deTip,
-    waistHip: deWaistHip,
-    date: deDate,
-    percentage: dePercentage,
-    sleep: deSleep,
-    gfr: deGFR,
-    oneRepMax: deOneRepMax,
-    fatIntake: deFatIntake,
-  },
-  it: {
-    ...itCommon,
-    categories: itCategories,
-    bmi: itBMI,
-    calorie: itCalorie,
-    idealWeight: itIdealWeight,
-    bodyFat: itBodyFat,
-    bmr: itBMR,
-    tdee: itTDEE,
-    armyBodyFat: itArmyBodyFat,
-    weightWatchers: itWeightWatchers,
-    pace: itPace,
-    macro: itMacro,
-    bac: itBAC,
-    pregnancy: itPregnancy,
-    pregnancyWeightGain: itPregnancyWeightGain,
-    pregnancyConception: itPregnancyConception,
-    dueDate: itDueDate,
-    carbohydrate: itCarbohydrate,
-    leanBodyMass: itLeanBodyMass,
-    healthyWeight: itHealthyWeight,
-    heartRate: itHeartRate,
-    bodyType: itBodyType,
-    protein: itProtein,
-    caloriesBurned: itCaloriesBurned,
-    bsa: itBSA,
-    bloodType: itBloodType,
-    ovulation: itOvulation,
-    period: itPeriod,
-    bodyFrame: itBodyFrame,
-    age: itAge,
-    tip: itTip,
-    waistHip: itWaistHip,
-    date: itDate,
-    percentage: itPercentage,
-    sleep: itSleep,
-    gfr: itGFR,
-    oneRepMax: itOneRepMax,
-    fatIntake: itFatIntake,
-  },
-  pl: {
-    ...plCommon,
-    categories: plCategories,
-    bmi: plBMI,
-    calorie: plCalorie,
-    idealWeight: plIdealWeight,
-    bodyFat: plBodyFat,
-    bmr: plBMR,
-    tdee: plTDEE,
-    armyBodyFat: plArmyBodyFat,
-    weightWatchers: plWeightWatchers,
-    pace: plPace,
-    macro: plMacro,
-    bac: plBAC,
-    pregnancy: plPregnancy,
-    pregnancyWeightGain: plPregnancyWeightGain,
-    pregnancyConception: plPregnancyConception,
-    dueDate: plDueDate,
-    carbohydrate: plCarbohydrate,
-    leanBodyMass: plLeanBodyMass,
-    healthyWeight: plHealthyWeight,
-    heartRate: plHeartRate,
-    bodyType: plBodyType,
-    protein: plProtein,
-    caloriesBurned: plCaloriesBurned,
-    bsa: plBSA,
-    bloodType: plBloodType,
-    ovulation: plOvulation,
-    period: plPeriod,
-    bodyFrame: plBodyFrame,
-    waistHip: plWaistHip,
-    age: plAge,
-    tip: plTip,
-    date: plDate,
-    percentage: plPercentage,
-    gfr: plGFR,
-    sleep: plSleep,
-    oneRepMax: plOneRepMax,
-    fatIntake: plFatIntake,
-  },
-  sv: {
-    ...svCommon,
-    categories: svCategories,
-    bmi: svBMI,
-    calorie: svCalorie,
-    idealWeight: svIdealWeight,
-    bodyFat: svBodyFat,
-    bmr: svBMR,
-    tdee: svTDEE,
-    weightWatchers: svWeightWatchers,
-    armyBodyFat: svArmyBodyFat,
-    pace: svPace,
-    macro: svMacro,
-    bac: svBAC,
-    pregnancy: svPregnancy,
-    pregnancyWeightGain: svPregnancyWeightGain,
-    pregnancyConception: svPregnancyConception,
-    dueDate: svDueDate,
-    carbohydrate: svCarbohydrate,
-    leanBodyMass: svLeanBodyMass,
-    healthyWeight: svHealthyWeight,
-    heartRate: svHeartRate,
-    bodyType: svBodyType,
-    protein: svProtein,
-    caloriesBurned: svCaloriesBurned,
-    bsa: svBSA,
-    bloodType: svBloodType,
-    ovulation: svOvulation,
-    period: svPeriod,
-    bodyFrame: svBodyFrame,
-    waistHip: svWaistHip,
-    age: svAge,
-    tip: svTip,
-    date: svDate,
-    percentage: svPercentage,
-    gfr: svGFR,
-    sleep: svSleep,
-    oneRepMax: svOneRepMax,
-    fatIntake: svFatIntake,
-  },
-  nl: {
-    ...nlCommon,
-    categories: nlCategories,
-    bmi: nlBmi,
-    calorie: nlCalorie,
-    idealWeight: nlIdealWeight,
-    bodyFat: nlBodyFat,
-    bmr: nlBmr,
-    weightWatchers: nlWeightWatchers,
-    tdee: nlTdee,
-    armyBodyFat: nlArmyBodyFat,
-    pace: nlPace,
-    macro: nlMacro,
-    bac: nlBAC,
-    pregnancy: nlPregnancy,
-    pregnancyWeightGain: nlPregnancyWeightGain,
-    pregnancyConception: nlPregnancyConception,
-    dueDate: nlDueDate,
-    carbohydrate: nlCarbohydrate,
-    leanBodyMass: nlLeanBodyMass,
-    healthyWeight: nlHealthyWeight,
-    heartRate: nlHeartRate,
-    bodyType: nlBodyType,
-    protein: nlProtein,
-    caloriesBurned: nlCaloriesBurned,
-    bsa: nlBsa,
-    bloodType: nlBloodType,
-    ovulation: nlOvulation,
-    period: nlPeriod,
-    bodyFrame: nlBodyFrame,
-    waistHip: nlWaistHip,
-    tip: nlTip,
-    date: nlDate,
-    age: nlAge,
-    percentage: nlPercentage,
-    gfr: nlGFR,
-    sleep: nlSleep,
-    oneRepMax: nlOneRepMax,
-    fatIntake: nlFatIntake,
-  },
-  tr: {
-    ...trCommon,
-    categories: trCategories,
-    bmi: trBmi,
-    calorie: trCalorie,
-    idealWeight: trIdealWeight,
-    bodyFat: trBodyFat,
-    weightWatchers: trWeightWatchers,
-    bmr: trBmr,
-    tdee: trTdee,
-    armyBodyFat: trArmyBodyFat,
-    pace: trPace,
-    macro: trMacro,
-    bac: trBAC,
-    pregnancy: trPregnancy,
-    pregnancyWeightGain: trPregnancyWeightGain,
-    pregnancyConception: trPregnancyConception,
-    dueDate: trDueDate,
-    carbohydrate: trCarbohydrate,
-    leanBodyMass: trLeanBodyMass,
-    healthyWeight: trHealthyWeight,
-    heartRate: trHeartRate,
-    bodyType: trBodyType,
-    protein: trProtein,
-    caloriesBurned: trCaloriesBurned,
-    bsa: trBsa,
-    bloodType: trBloodType,
-    ovulation: trOvulation,
-    period: trPeriod,
-    bodyFrame: trBodyFrame,
-    waistHip: trWaistHip,
-    tip: trTip,
-    date: trDate,
-    age: trAge,
-    percentage: trPercentage,
-    gfr: trGFR,
-    sleep: trSleep,
-    oneRepMax: trOneRepMax,
-    fatIntake: trFatIntake,
-  },
-  ru: {
-    ...ruCommon,
-    categories: ruCategories,
-    bmi: ruBmi,
-    calorie: ruCalorie,
-    idealWeight: ruIdealWeight,
-    bodyFat: ruBodyFat,
-    weightWatchers: ruWeightWatchers,
-    bmr: ruBmr,
-    tdee: ruTdee,
-    armyBodyFat: ruArmyBodyFat,
-    pace: ruPace,
-    macro: ruMacro,
-    bac: ruBAC,
-    pregnancy: ruPregnancy,
-    pregnancyWeightGain: ruPregnancyWeightGain,
-    pregnancyConception: ruPregnancyConception,
-    dueDate: ruDueDate,
-    carbohydrate: ruCarbohydrate,
-    leanBodyMass: ruLeanBodyMass,
-    healthyWeight: ruHealthyWeight,
-    heartRate: ruHeartRate,
-    bodyType: ruBodyType,
-    protein: ruProtein,
-    caloriesBurned: ruCaloriesBurned,
-    bsa: ruBsa,
-    bloodType: ruBloodType,
-    ovulation: ruOvulation,
-    period: ruPeriod,
-    bodyFrame: ruBodyFrame,
-    waistHip: ruWaistHip,
-    tip: ruTip,
-    date: ruDate,
-    age: ruAge,
-    percentage: ruPercentage,
-    gfr: ruGFR,
-    sleep: ruSleep,
-    oneRepMax: ruOneRepMax,
-    fatIntake: ruFatIntake,
-  },
-};
+function getTranslations(locale: Locale): Translations {
+  const bundle = translations.get(locale);
+  if (!bundle) {
+    throw new Error(`Translations for "${locale}" are not loaded; await loadTranslations('${locale}') first`);
+  }
+  return bundle;
+}
 
 /**
  * Get translation for a key
+ * With params the text is formatted as an ICU message (see messageFormat.ts);
+ * without, it is returned as written, e.g. to serialize for client scripts.
  * @param key - Translation key (e.g., 'site.title' or 'bmi:form.title')
- * @param locale - Language locale
+ * @param locale - Language locale, loaded with loadTranslations()
+ * @param params - Message arguments (e.g., { count: 3 })
  */
-export function t(key: string, locale: Locale = 'en'): string {
+export function t(key: TranslationKey, locale: Locale = 'en', params?: MessageParams): string {
   const parts = key.split(':');
   let namespace = '';
   let path = '';
@@ -1012,7 +112,7 @@ export function t(key: string, locale: Locale = 'en'): string {
   }
 
   const keys = path.split('.');
-  let value: any = namespace ? translations[locale][namespace] : translations[locale];
+  let value: any = namespace ? getTranslations(locale)[namespace] : getTranslations(locale);
 
   for (const k of keys) {
     if (value && typeof value === 'object') {
@@ -1022,31 +122,19 @@ export function t(key: string, locale: Locale = 'en'): string {
     }
   }
 
-  return typeof value === 'string' ? value : key;
+  if (typeof value !== 'string') return key;
+  return params ? formatMessage(value, params, locale) : value;
 }
 
 /**
- * Language configuration
+ * Get the validation messages for a locale, keyed by error code
+ * Serialized into forms (data-error-messages) so client scripts can show
+ * inline errors without bundling the translation files
  */
-export const languageConfig: Record<Locale, { name: string; nativeName: string; path: string }> = {
-  es: { name: 'Spanish', nativeName: 'Español', path: '/es' },
-  en: { name: 'English', nativeName: 'English', path: '' },
-  pt: { name: 'Portuguese', nativeName: 'Português', path: '/pt' },
-  fr: { name: 'French', nativeName: 'Français', path: '/fr' },
-  hi: { name: 'Hindi', nativeName: 'हिन्दी', path: '/hi' },
-  de: { name: 'German', nativeName: 'Deutsch', path: '/de' },
-  it: { name: 'Italian', nativeName: 'Italiano', path: '/it' },
-  pl: { name: 'Polish', nativeName: 'Polski', path: '/pl' },
-  sv: { name: 'Swedish', nativeName: 'Svenska', path: '/sv' },
-  nl: { name: 'Dutch', nativeName: 'Nederlands', path: '/nl' },
-  tr: { name: 'Turkish', nativeName: 'Türkçe', path: '/tr' },
-  ru: { name: 'Russian', nativeName: 'Русский', path: '/ru' },
-};
+export function getValidationMessages(locale: Locale): Record<string, string> {
+  return getTranslations(locale).validation ?? {};
+}
 
-/**
- * Calculator paths for all supported locales
- * Maps calculator ID to locale-specific URLs
- */
 /**
  * Helper function to convert kebab-case to camelCase
  * Example: 'ideal-weight' -> 'idealWeight'
@@ -1055,6 +143,13 @@ function kebabToCamelCase(str: string): string {
   return str.replace(/-([a-z])/g, (g) => g[1].toUpperCase());
 }
 
+/**
+ * Translation namespace of a calculator, its camelCase ID
+ */
+export function getCalculatorNamespace(calculatorId: CalculatorId): string {
+  return kebabToCamelCase(calculatorId);
+}
+
 /**
  * Generate calculator paths dynamically from routes configuration
  * This ensures all paths use the correct translated slugs from routes.ts
@@ -1068,15 +163,7 @@ function generateCalculatorPaths(): Record<string, Record<Locale, string>> {
 
     for (const locale of getSupportedLocales()) {
       const slug = getSlug(calculatorId, locale);
-      const folder = languages[locale].folder;
-
-      if (locale === defaultLocale) {
-        // English (default locale) has no language prefix
-        paths[camelCaseId][locale] = `/${folder}/${slug}/`;
-      } else {
-        // All other languages include language code prefix
-        paths[camelCaseId][locale] = `/${locale}/${folder}/${slug}/`;
-      }
+      paths[camelCaseId][locale] = `${getLocalePrefix(locale)}/${languages[locale].folder}/${slug}/`;
     }
   }
 
@@ -1093,40 +180,21 @@ export const calculatorPaths = generateCalculatorPaths();
  * Get locale-specific URL
  */
 export function getLocalizedPath(path: string, locale: Locale): string {
-  if (locale === 'en') {
-    // English is default, no prefix
-    return path;
-  }
-
-  const langPath = languageConfig[locale].path;
-  if (path === '/') return langPath || '/';
-  return `${langPath}${path}`;
+  // The default locale (English) has no prefix
+  return path === '/' ? getHomePath(locale) : `${getLocalePrefix(locale)}${path}`;
 }
 
 /**
  * Get alternate locale path for a given calculator
  * Uses the new routing system from @/config/routes and @/config/languages
  */
-export function getAlternatePath(currentPath: string, targetLocale: Locale, calculator?: CalculatorId): string {
+export function getAlternatePath(targetLocale: Locale, calculator?: CalculatorId): string {
   // If we have a calculator ID, build the URL using the new routing system
   if (calculator) {
     const slug = getSlug(calculator, targetLocale);
-    const langConfig = languages[targetLocale];
-
-    if (targetLocale === defaultLocale) {
-      // English (default) has no language prefix
-      return `/${langConfig.folder}/${slug}/`;
-    } else {
-      // Other languages include language code
-      return `/${targetLocale}/${langConfig.folder}/${slug}/`;
-    }
+    return `${getLocalePrefix(targetLocale)}/${languages[targetLocale].folder}/${slug}/`;
   }
 
   // For homepage/language root
-  if (targetLocale === defaultLocale) {
-    return '/';
-  } else {
-    return `/${targetLocale}/`;
-  }
+  return getHomePath(targetLocale);
 }
-
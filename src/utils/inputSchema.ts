@@ -0,0 +1,482 @@
+/**
+ * Input Schema Utilities
+ *
+ * Declarative descriptions of calculator inputs. Each utility in
+ * src/utils/calculators exports a schema for its input type; the shared
+ * CalculatorForm component renders it (labels, unit switching, conditional
+ * fields) and parseFormInput() turns the submitted FormData back into a
+ * typed input object.
+ *
+ * Labels, help texts, placeholders and option labels are translation keys.
+ */
+
+import {
+  CM_PER_INCH,
+  INCHES_PER_FOOT,
+  SECONDS_PER_HOUR,
+  SECONDS_PER_MINUTE,
+  centimeters,
+  cmToInches,
+  feet,
+  feetInchesToCm,
+  inches,
+  inchesToCm,
+  kgToLbs,
+  kilograms,
+  kilometers,
+  kmToMiles,
+  lbsToKg,
+  miles,
+  milesToKm,
+  pounds,
+} from '@/utils/units';
+import type { TranslationKey } from '@/utils/i18n';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Physical dimension of a numeric field
+ * - mass: kg / lbs
+ * - length: cm / in
+ * - height: cm / ft + in (rendered as two inputs in imperial)
+ * - distance: km / miles
+ */
+export type UnitDimension = 'mass' | 'length' | 'height' | 'distance';
+
+/**
+ * Personal detail shared between calculators through the on-device profile
+ */
+export type ProfileField = 'age' | 'gender' | 'height' | 'weight';
+
+/**
+ * Field is active only when every listed field has one of the given values
+ */
+export type FieldCondition<T> = { [K in keyof T]?: T[K] | readonly T[K][] };
+
+interface BaseField<T> {
+  name: keyof T & string;
+  /** DOM id, defaults to the field name (needed when a name is reused under different conditions) */
+  id?: string;
+  label: TranslationKey;
+  help?: TranslationKey;
+  placeholder?: TranslationKey;
+  /** Defaults to true */
+  required?: boolean;
+  /** Field is shown, required and parsed only when this condition holds */
+  when?: FieldCondition<T>;
+  /** Profile value the field is pre-filled from (see '@/utils/profile') */
+  profile?: ProfileField;
+}
+
+export interface NumberField<T> extends BaseField<T> {
+  type: 'number';
+  /** Limits in metric units for dimensioned fields */
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: UnitDimension;
+  /** Translation key for a fixed unit label (e.g. 'common.years') */
+  suffix?: TranslationKey;
+  default?: number;
+}
+
+export interface ChoiceOption<V> {
+  value: V;
+  label: TranslationKey;
+}
+
+export interface ChoiceField<T, K extends keyof T = keyof T> extends BaseField<T> {
+  type: 'select' | 'radio';
+  options: readonly ChoiceOption<T[K]>[];
+  default?: T[K];
+}
+
+export interface CheckboxField<T> extends BaseField<T> {
+  type: 'checkbox';
+  /** Values for the checked and unchecked states, defaults to true / false */
+  values?: { checked: unknown; unchecked: unknown };
+  default?: boolean;
+}
+
+export interface DateField<T> extends BaseField<T> {
+  type: 'date';
+}
+
+export interface TimeField<T> extends BaseField<T> {
+  type: 'time';
+  default?: string;
+}
+
+/**
+ * Duration entered as separate parts and parsed to seconds
+ */
+export interface DurationField<T> extends BaseField<T> {
+  type: 'duration';
+  parts: readonly DurationPart[];
+}
+
+export type DurationPart = 'hours' | 'minutes' | 'seconds';
+
+export type InputField<T> =
+  | NumberField<T>
+  | ChoiceField<T>
+  | CheckboxField<T>
+  | DateField<T>
+  | TimeField<T>
+  | DurationField<T>;
+
+export interface InputSchema<T> {
+  /**
+   * Unit handling for dimensioned fields:
+   * - 'convert': unit toggle shown, imperial values converted to metric by the parser
+   * - 'raw': unit toggle shown, values passed as entered with a `unitSystem` field
+   * Omit when the calculator has no unit system.
+   */
+  units?: 'convert' | 'raw';
+  fields: readonly InputField<T>[];
+}
+
+/**
+ * Options shared by every calculator with a gender select
+ */
+export const genderOptions = [
+  { value: 'male', label: 'common.male' },
+  { value: 'female', label: 'common.female' },
+] as const;
+
+/**
+ * Unit labels (translation keys) per dimension and unit system
+ */
+export const unitLabels: Record<UnitDimension, Record<UnitSystem, TranslationKey>> = {
+  mass: { metric: 'units.kg', imperial: 'units.lbs' },
+  length: { metric: 'units.cm', imperial: 'units.in' },
+  height: { metric: 'units.cm', imperial: 'units.ft' },
+  distance: { metric: 'units.km', imperial: 'units.mi' },
+};
+
+const SECONDS_PER_PART: Record<DurationPart, number> = {
+  hours: SECONDS_PER_HOUR,
+  minutes: SECONDS_PER_MINUTE,
+  seconds: 1,
+};
+
+/**
+ * Convert a metric value of a dimension to its imperial unit
+ * Height is returned in total inches
+ */
+export function toImperial(value: number, dimension: UnitDimension): number {
+  switch (dimension) {
+    case 'mass':
+      return kgToLbs(kilograms(value));
+    case 'length':
+    case 'height':
+      return cmToInches(centimeters(value));
+    case 'distance':
+      return kmToMiles(kilometers(value));
+  }
+}
+
+/**
+ * Convert an imperial value of a dimension to its metric unit
+ * Height is expected in total inches
+ */
+export function toMetric(value: number, dimension: UnitDimension): number {
+  switch (dimension) {
+    case 'mass':
+      return lbsToKg(pounds(value));
+    case 'length':
+    case 'height':
+      return inchesToCm(inches(value));
+    case 'distance':
+      return milesToKm(miles(value));
+  }
+}
+
+/**
+ * Input limits for a numeric field in the given unit system
+ * Imperial limits are widened to whole units so valid metric values stay valid
+ */
+export function getFieldLimits(
+  field: NumberField<unknown>,
+  unitSystem: UnitSystem
+): { min?: number; max?: number; step?: number } {
+  if (!field.unit || unitSystem === 'metric') {
+    return { min: field.min, max: field.max, step: field.step };
+  }
+
+  if (field.unit === 'height') {
+    const cmPerFoot = CM_PER_INCH * INCHES_PER_FOOT;
+    return {
+      min: field.min !== undefined ? Math.floor(field.min / cmPerFoot) : undefined,
+      max: field.max !== undefined ? Math.floor(field.max / cmPerFoot) : undefined,
+      step: 1,
+    };
+  }
+
+  return {
+    min: field.min !== undefined ? Math.floor(toImperial(field.min, field.unit)) : undefined,
+    max: field.max !== undefined ? Math.ceil(toImperial(field.max, field.unit)) : undefined,
+    step: field.step,
+  };
+}
+
+/**
+ * Check whether a field is active for the current raw form values
+ */
+export function isFieldActive<T>(field: InputField<T>, values: Record<string, unknown>): boolean {
+  return matchesCondition(field.when, values);
+}
+
+/**
+ * Check a field condition (e.g. the data-when of a rendered block) against raw form values
+ */
+export function matchesCondition<T>(condition: FieldCondition<T> | undefined, values: Record<string, unknown>): boolean {
+  if (!condition) return true;
+
+  return Object.entries(condition).every(([name, expected]) => {
+    const actual = values[name];
+    return Array.isArray(expected)
+      ? expected.some(value => String(value) === String(actual))
+      : String(expected) === String(actual);
+  });
+}
+
+/**
+ * Read the raw string value of every named control in a form
+ */
+function getRawValues(formData: FormData): Record<string, string> {
+  const values: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') values[key] = value;
+  });
+  return values;
+}
+
+/**
+ * Parse a number, returning undefined for empty input
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  return parseFloat(value);
+}
+
+/**
+ * Parse a single field from the raw form values
+ */
+function parseField<T>(
+  field: InputField<T>,
+  raw: Record<string, string>,
+  units: InputSchema<T>['units'],
+  unitSystem: UnitSystem
+): unknown {
+  switch (field.type) {
+    case 'number': {
+      if (field.unit === 'height' && unitSystem === 'imperial') {
+        const ft = parseNumber(raw[`${field.name}Ft`]);
+        const inch = parseNumber(raw[`${field.name}In`]);
+        if (ft === undefined && inch === undefined) return undefined;
+        const cm = feetInchesToCm(feet(ft ?? 0), inches(inch ?? 0));
+        return units === 'convert' ? cm : cmToInches(cm);
+      }
+
+      const value = parseNumber(raw[field.name]);
+      if (value === undefined || !field.unit || unitSystem === 'metric' || units !== 'convert') {
+        return value;
+      }
+      return toMetric(value, field.unit);
+    }
+
+    case 'select':
+    case 'radio': {
+      const value = raw[field.name];
+      if (value === undefined || value === '') return undefined;
+      // Map back to the typed option value (e.g. numeric options)
+      const option = field.options.find(option => String(option.value) === value);
+      return option ? option.value : value;
+    }
+
+    case 'checkbox': {
+      const checked = raw[field.name] !== undefined;
+      if (field.values) {
+        return checked ? field.values.checked : field.values.unchecked;
+      }
+      return checked;
+    }
+
+    case 'date': {
+      const value = raw[field.name];
+      return value ? new Date(value) : undefined;
+    }
+
+    case 'time': {
+      const value = raw[field.name];
+      return value || undefined;
+    }
+
+    case 'duration': {
+      const parts = field.parts.map(part => parseNumber(raw[`${field.name}${capitalize(part)}`]));
+      if (parts.every(part => part === undefined)) return undefined;
+      return field.parts.reduce((total, part, i) => total + (parts[i] ?? 0) * SECONDS_PER_PART[part], 0);
+    }
+  }
+}
+
+/**
+ * Capitalize the first letter of a string
+ */
+export function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Get the unit system selected in a form (metric when there is no toggle)
+ */
+export function getUnitSystem(formData: FormData): UnitSystem {
+  return formData.get('unitSystem') === 'imperial' ? 'imperial' : 'metric';
+}
+
+/**
+ * Parse submitted form data into a calculator input object
+ *
+ * Only active fields are included; optional fields left empty are undefined.
+ * With `units: 'convert'` dimensioned values are returned in metric units,
+ * with `units: 'raw'` they are returned as entered alongside `unitSystem`.
+ */
+export function parseFormInput<T>(schema: InputSchema<T>, formData: FormData): T {
+  const raw = getRawValues(formData);
+  const unitSystem = getUnitSystem(formData);
+  const input: Record<string, unknown> = {};
+
+  for (const field of schema.fields) {
+    if (!isFieldActive(field, raw)) continue;
+    const value = parseField(field, raw, schema.units, unitSystem);
+    if (value !== undefined) {
+      input[field.name] = value;
+    }
+  }
+
+  if (schema.units === 'raw') {
+    input.unitSystem = unitSystem;
+  }
+
+  return input as T;
+}
+
+/**
+ * Format a date as YYYY-MM-DD for date inputs
+ * Dates parsed from date inputs are UTC midnight; other dates use their local day
+ */
+export function formatDateValue(date: Date): string {
+  const isUtcMidnight = date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+  const [year, month, day] = isUtcMidnight
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Round a value for display in a form control
+ */
+function formatNumber(value: number, decimals = 2): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+/**
+ * Set a control's value and notify listeners (unit toggles, conditional fields)
+ */
+function setControl(form: HTMLFormElement, name: string, value: string): void {
+  for (const control of form.querySelectorAll<HTMLInputElement | HTMLSelectElement>(`[name="${name}"]`)) {
+    if (control instanceof HTMLInputElement && control.type === 'radio') {
+      // Checking a radio unchecks the others, so only the checked one is notified
+      if (control.value !== value || control.checked) continue;
+      control.checked = true;
+    } else if (control instanceof HTMLInputElement && control.type === 'checkbox') {
+      if (control.checked === (value === 'on')) continue;
+      control.checked = value === 'on';
+    } else {
+      if (control.value === value) continue;
+      control.value = value;
+    }
+    control.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+}
+
+/**
+ * Get the raw control values of a single field
+ */
+function formatField<T>(
+  field: InputField<T>,
+  value: unknown,
+  name: string,
+  units: InputSchema<T>['units'],
+  unitSystem: UnitSystem
+): Record<string, string> {
+  switch (field.type) {
+    case 'number': {
+      const number = value as number;
+      if (field.unit === 'height' && unitSystem === 'imperial') {
+        // Rounded before splitting so the inches never round up to a whole foot
+        const totalInches = Number((units === 'convert' ? cmToInches(centimeters(number)) : number).toFixed(1));
+        const ft = Math.floor(totalInches / INCHES_PER_FOOT);
+        return { [`${name}Ft`]: String(ft), [`${name}In`]: formatNumber(totalInches - ft * INCHES_PER_FOOT, 1) };
+      }
+      if (field.unit && unitSystem === 'imperial' && units === 'convert') {
+        return { [name]: formatNumber(toImperial(number, field.unit)) };
+      }
+      return { [name]: formatNumber(number, 4) };
+    }
+
+    case 'select':
+    case 'radio':
+    case 'time':
+      return { [name]: String(value) };
+
+    case 'checkbox': {
+      const checked = field.values ? value === field.values.checked : value === true;
+      return { [name]: checked ? 'on' : '' };
+    }
+
+    case 'date':
+      return { [name]: formatDateValue(value as Date) };
+
+    case 'duration': {
+      let remaining = value as number;
+      return Object.fromEntries(field.parts.map((part) => {
+        const amount = Math.floor(remaining / SECONDS_PER_PART[part]);
+        remaining -= amount * SECONDS_PER_PART[part];
+        return [`${name}${capitalize(part)}`, String(amount)];
+      }));
+    }
+  }
+}
+
+/**
+ * Fill a form with an input object, the inverse of parseFormInput()
+ *
+ * The unit system and choice fields are set first so conditional fields are
+ * shown before they are filled. Fields whose control is named differently
+ * (e.g. heightCm -> height) are mapped with `controls`.
+ */
+export function fillFormInput<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  unitSystem: UnitSystem = 'metric',
+  controls: Record<string, string> = {}
+): void {
+  if (schema.units) {
+    setControl(form, 'unitSystem', unitSystem);
+  }
+
+  const values = input as Record<string, unknown>;
+  const fields = [...schema.fields].sort((a, b) => Number(a.type === 'number') - Number(b.type === 'number'));
+
+  for (const field of fields) {
+    const value = values[field.name];
+    if (value === undefined) continue;
+    const raw = formatField(field, value, controls[field.name] ?? field.name, schema.units, unitSystem);
+    for (const [name, rawValue] of Object.entries(raw)) {
+      setControl(form, name, rawValue);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Language Preference
+ *
+ * The language a visitor wants pages in: the one they last picked in the
+ * language selector (or stayed with when dismissing the language banner),
+ * kept in localStorage, else the first supported language among the browser
+ * languages (navigator.languages). Runs on the client only, so it works with
+ * the static build; the banner (LanguageBanner.astro) suggests the preferred
+ * language's version of a page instead of redirecting.
+ */
+
+import { detectLocale, isValidLocale, type Locale } from '@/config/languages';
+
+const STORAGE_KEY = 'language';
+
+export function getSavedLocale(): Locale | undefined {
+  try {
+    const locale = localStorage.getItem(STORAGE_KEY) ?? '';
+    return isValidLocale(locale) ? locale : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage full or unavailable: the language is detected again on the next visit
+  }
+}
+
+/**
+ * Get the visitor's preferred language, saved or detected
+ */
+export function getPreferredLocale(): Locale | undefined {
+  return getSavedLocale() ?? detectLocale(navigator.languages);
+}
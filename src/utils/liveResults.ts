@@ -0,0 +1,69 @@
+/**
+ * Live Results
+ *
+ * Once a form has been calculated, later edits recalculate it as the user
+ * types: the form is re-submitted shortly after each change while its
+ * controls are valid. Submit handlers run synchronously, so during such an
+ * update isLiveUpdate() tells them apart from an explicit calculation:
+ * results are not scrolled into view, and the calculation history and
+ * profile prompt only record explicit calculations.
+ */
+
+/** Delay after the last keystroke before recalculating */
+const LIVE_DELAY = 150;
+
+const calculatedForms = new WeakSet<HTMLFormElement>();
+let updatingForm: HTMLFormElement | null = null;
+
+/**
+ * Whether a live update of the form (or of any form) is being submitted
+ */
+export function isLiveUpdate(form?: HTMLFormElement): boolean {
+  return form ? updatingForm === form : updatingForm !== null;
+}
+
+/**
+ * Scroll results into view after an explicit calculation
+ */
+export function scrollToResults(results: Element): void {
+  if (!isLiveUpdate()) {
+    results.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }
+}
+
+/**
+ * Recalculate a form as its inputs change, once it has been submitted
+ */
+export function enableLiveResults(form: HTMLFormElement): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  form.addEventListener('submit', () => {
+    if (isLiveUpdate(form)) return;
+    clearTimeout(timer);
+    calculatedForms.add(form);
+  });
+
+  form.addEventListener('reset', () => {
+    clearTimeout(timer);
+    calculatedForms.delete(form);
+  });
+
+  const update = () => {
+    clearTimeout(timer);
+    if (!calculatedForms.has(form)) return;
+
+    timer = setTimeout(() => {
+      // Invalid input keeps the last result until the user submits
+      if (!form.checkValidity()) return;
+      updatingForm = form;
+      try {
+        form.requestSubmit();
+      } finally {
+        updatingForm = null;
+      }
+    }, LIVE_DELAY);
+  };
+
+  form.addEventListener('input', update);
+  form.addEventListener('change', update);
+}
@@ -0,0 +1,239 @@
+/**
+ * Message Format
+ *
+ * ICU MessageFormat for translated text: {name} placeholders, plural and
+ * selectordinal arguments picked with Intl.PluralRules for the locale (so
+ * Polish and Russian get their few/many forms), and select arguments such as
+ * gender. Numbers are formatted for the locale (see format.ts).
+ *
+ *   "{days, plural, =0 {today} one {in # day} other {in # days}}"
+ *   "{gender, select, female {She} male {He} other {They}} lost {weight} kg"
+ *
+ * Quoting follows ICU: '' is an apostrophe and a quote before {, } (or # in a
+ * plural) starts literal text up to the next quote. Other apostrophes, as in
+ * "l'une" or "O'Conner", are plain text.
+ *
+ * This module doesn't import the translation files, so client scripts can
+ * format messages serialized into the page; on the server t() calls it when
+ * given parameters.
+ */
+
+import type { Locale } from '@/config/languages';
+import { formatNumber } from '@/utils/format';
+
+export type MessageParams = Record<string, string | number>;
+
+type MessagePart =
+  | string
+  | { type: 'argument'; name: string; style?: string }
+  | { type: 'pound' }
+  | { type: 'plural'; name: string; ordinal: boolean; offset: number; options: Record<string, MessagePart[]> }
+  | { type: 'select'; name: string; options: Record<string, MessagePart[]> };
+
+const parsedMessages = new Map<string, MessagePart[]>();
+
+/**
+ * Parse a message into text and arguments
+ * Throws on malformed messages so a broken translation fails the build.
+ */
+function parseMessage(message: string): MessagePart[] {
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message "${message}" at ${position}: ${reason}`);
+  };
+
+  const skipSpace = () => {
+    while (/\s/.test(message[position] ?? '')) position++;
+  };
+
+  const readWord = (): string => {
+    skipSpace();
+    const start = position;
+    while (position < message.length && !/[\s,{}]/.test(message[position])) position++;
+    if (position === start) fail('expected a name');
+    return message.slice(start, position);
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (message[position] !== char) fail(`expected "${char}"`);
+    position++;
+  };
+
+  const parseOptions = (inPlural: boolean): Record<string, MessagePart[]> => {
+    const options: Record<string, MessagePart[]> = {};
+    skipSpace();
+    while (message[position] !== '}') {
+      const selector = readWord();
+      expect('{');
+      options[selector] = parseParts(inPlural);
+      expect('}');
+      skipSpace();
+    }
+    if (!options.other) fail('missing "other" option');
+    return options;
+  };
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    const name = readWord();
+    skipSpace();
+    if (message[position] === '}') {
+      position++;
+      return { type: 'argument', name };
+    }
+
+    expect(',');
+    const type = readWord();
+    let part: MessagePart;
+
+    if (type === 'plural' || type === 'selectordinal') {
+      expect(',');
+      skipSpace();
+      let offset = 0;
+      const offsetMatch = /^offset:\s*(\d+)/.exec(message.slice(position));
+      if (offsetMatch) {
+        offset = Number(offsetMatch[1]);
+        position += offsetMatch[0].length;
+      }
+      part = { type: 'plural', name, ordinal: type === 'selectordinal', offset, options: parseOptions(true) };
+    } else if (type === 'select') {
+      expect(',');
+      part = { type: 'select', name, options: parseOptions(inPlural) };
+    } else if (type === 'number') {
+      skipSpace();
+      let style: string | undefined;
+      if (message[position] === ',') {
+        position++;
+        style = readWord();
+      }
+      part = { type: 'argument', name, style: style ?? 'number' };
+    } else {
+      return fail(`unknown argument type "${type}"`);
+    }
+
+    expect('}');
+    return part;
+  };
+
+  // Text and arguments up to the closing brace of the enclosing option
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = '';
+
+    const pushText = () => {
+      if (text) parts.push(text);
+      text = '';
+    };
+
+    while (position < message.length) {
+      const char = message[position];
+      const next = message[position + 1];
+
+      if (char === "'") {
+        if (next === "'") {
+          text += "'";
+          position += 2;
+        } else if (next === '{' || next === '}' || (inPlural && next === '#')) {
+          // Quoted literal text up to the next lone quote
+          position++;
+          while (position < message.length) {
+            if (message[position] === "'") {
+              if (message[position + 1] !== "'") break;
+              position++;
+            }
+            text += message[position++];
+          }
+          position++;
+        } else {
+          text += char;
+          position++;
+        }
+      } else if (char === '{') {
+        pushText();
+        position++;
+        parts.push(parseArgument(inPlural));
+      } else if (char === '}') {
+        break;
+      } else if (char === '#' && inPlural) {
+        pushText();
+        parts.push({ type: 'pound' });
+        position++;
+      } else {
+        text += char;
+        position++;
+      }
+    }
+
+    pushText();
+    return parts;
+  };
+
+  const parts = parseParts(false);
+  if (position < message.length) fail('unexpected "}"');
+  return parts;
+}
+
+function getParts(message: string): MessagePart[] {
+  let parts = parsedMessages.get(message);
+  if (!parts) {
+    parts = parseMessage(message);
+    parsedMessages.set(message, parts);
+  }
+  return parts;
+}
+
+function formatValue(value: string | number, locale: Locale, style?: string): string {
+  if (typeof value !== 'number') return value;
+  return formatNumber(value, locale,
+    style === 'integer' ? { maximumFractionDigits: 0 } :
+    style === 'percent' ? { style: 'percent' } :
+    {}
+  );
+}
+
+function formatParts(
+  parts: MessagePart[],
+  params: MessageParams,
+  locale: Locale,
+  pound = '#'
+): string {
+  return parts.map((part) => {
+    if (typeof part === 'string') return part;
+
+    switch (part.type) {
+      case 'argument': {
+        const value = params[part.name];
+        return value === undefined ? `{${part.name}}` : formatValue(value, locale, part.style);
+      }
+      case 'pound':
+        return pound;
+      case 'plural': {
+        const value = Number(params[part.name]);
+        if (!Number.isFinite(value)) {
+          // Without a value the plural shows its "other" text with the placeholder
+          return formatParts(part.options.other, params, locale, `{${part.name}}`);
+        }
+        const category = new Intl.PluralRules(locale, { type: part.ordinal ? 'ordinal' : 'cardinal' })
+          .select(value - part.offset);
+        const option = part.options[`=${value}`] ?? part.options[category] ?? part.options.other;
+        return formatParts(option, params, locale, formatNumber(value - part.offset, locale));
+      }
+      case 'select': {
+        const option = part.options[String(params[part.name])] ?? part.options.other;
+        return formatParts(option, params, locale, pound);
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Format an ICU message
+ * Placeholders without a value are left as they are, e.g. '{name}'.
+ * @param message - Message text, e.g. '{count, plural, one {# day} other {# days}}'
+ * @param params - Argument values by name
+ * @param locale - Locale for plural rules and number formatting
+ */
+export function formatMessage(message: string, params: MessageParams, locale: Locale): string {
+  return formatParts(getParts(message), params, locale);
+}
@@ -0,0 +1,392 @@
+/**
+ * Open Graph Images
+ *
+ * Share images (1200×630) generated at build time for every calculator page
+ * and every home page (src/pages/og/), drawn as SVG and converted to PNG with
+ * sharp, without fetching anything. Each shows the localized title and
+ * category next to a visual of the calculator's kind of result: a gauge for
+ * ranges such as BMI, zones for heart rate, a donut for nutrient splits, a
+ * calendar for dates and bars for other measurements.
+ *
+ * Text is drawn as the outlines of its shaped glyphs in the Noto fonts of
+ * src/assets/fonts (Latin, Greek and Cyrillic, Devanagari and Arabic), so the
+ * images never depend on the fonts of the build machine, and titles are
+ * wrapped by the widths of those glyphs.
+ */
+
+import { join } from 'node:path';
+import { openSync, type Font, type GlyphRun } from 'fontkit';
+import sharp from 'sharp';
+import { getCalculatorDefinition, type CalculatorId } from '@/config/calculators';
+import type { CategoryId as IndexCategoryId } from '@/config/calculator-categories';
+import type { Locale } from '@/config/languages';
+
+export type OgVisual = 'gauge' | 'zones' | 'donut' | 'calendar' | 'bars';
+
+export interface OgImageContent {
+  title: string;
+  /** Shown above the title */
+  category?: string;
+  visual: OgVisual;
+  dir: 'ltr' | 'rtl';
+}
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/**
+ * Visual of each index category, unless the calculator has its own below
+ */
+const categoryVisuals: Record<IndexCategoryId, OgVisual> = {
+  'body-composition': 'gauge',
+  'nutrition': 'donut',
+  'pregnancy-fertility': 'calendar',
+  'health-fitness': 'zones',
+  'general': 'bars',
+};
+
+const calculatorVisuals: Partial<Record<CalculatorId, OgVisual>> = {
+  'gfr': 'gauge',
+  'bac': 'gauge',
+  'one-rep-max': 'bars',
+  'calories-burned': 'bars',
+  'age': 'calendar',
+  'date': 'calendar',
+  'percentage': 'donut',
+  'tip': 'donut',
+};
+
+/**
+ * Fonts of the text, each word drawn with the first one having all its glyphs
+ */
+const FONT_FAMILIES = ['NotoSans', 'NotoSansDevanagari', 'NotoSansArabic'];
+const FONT_STYLES = { 400: 'Regular', 700: 'Bold' } as const;
+type FontWeight = keyof typeof FONT_STYLES;
+
+/** Letters of right-to-left scripts (Hebrew, Arabic) */
+const RTL_LETTER = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+
+const PRIMARY = '#388e3c';
+const PRIMARY_DARK = '#1b5e20';
+/** Low to high ranges: below, within, above and far above normal */
+const RANGE_COLORS = ['#42a5f5', '#66bb6a', '#ffca28', '#ef5350'];
+const ZONE_COLORS = ['#90a4ae', '#42a5f5', '#66bb6a', '#ffa726', '#ef5350'];
+
+const MARGIN = 64;
+/** Side of the square panel holding the visual */
+const PANEL_SIZE = 420;
+/** Width of the title and the other text, beside the panel */
+export const OG_TEXT_WIDTH = OG_IMAGE_WIDTH - PANEL_SIZE - MARGIN * 3;
+const TITLE_MAX_LINES = 3;
+/** Font sizes of the title, the largest fitting without shortening it */
+const TITLE_FONT_SIZES = [68, 56, 48];
+
+/**
+ * Visual shown on the share image of a calculator
+ */
+export function getOgVisual(calculatorId: CalculatorId): OgVisual {
+  return calculatorVisuals[calculatorId] ?? categoryVisuals[getCalculatorDefinition(calculatorId).indexCategory];
+}
+
+/**
+ * URL of the share image of a calculator page, or of the home page without one
+ */
+export function getOgImagePath(locale: Locale, calculatorId?: CalculatorId): string {
+  return calculatorId ? `/og/${locale}/${calculatorId}.png` : `/og/${locale}.png`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** Fonts of each weight, loaded on first use, in the order of FONT_FAMILIES */
+const fonts: Partial<Record<FontWeight, Font[]>> = {};
+
+function getFonts(weight: FontWeight): Font[] {
+  // Single font files, never collections
+  return (fonts[weight] ??= FONT_FAMILIES.map(
+    family => openSync(join(process.cwd(), 'src/assets/fonts', `${family}-${FONT_STYLES[weight]}.ttf`)) as Font
+  ));
+}
+
+/**
+ * Glyph runs of a word in the first font having all its glyphs, or else runs
+ * of its characters, each in the first font having a glyph for it
+ */
+function shapeWord(word: string, stack: Font[]): { font: Font; run: GlyphRun }[] {
+  const hasGlyph = (font: Font, char: string) => font.hasGlyphForCodePoint(char.codePointAt(0)!);
+  const font = stack.find(font => [...word].every(char => hasGlyph(font, char)));
+  if (font) return [{ font, run: font.layout(word) }];
+
+  const runs: { font: Font; text: string }[] = [];
+  for (const char of word) {
+    const font = stack.find(font => hasGlyph(font, char)) ?? stack[0];
+    const last = runs.at(-1);
+    if (last?.font === font) {
+      last.text += char;
+    } else {
+      runs.push({ font, text: char });
+    }
+  }
+  if (RTL_LETTER.test(word)) runs.reverse();
+  return runs.map(({ font, text }) => ({ font, run: font.layout(text) }));
+}
+
+/**
+ * Words of a line from left to right: right-to-left lines start from the
+ * right, except for runs of words without right-to-left letters, e.g. "(BMR)"
+ * or "Weight Watchers"
+ */
+function orderWords(words: string[], dir: OgImageContent['dir']): string[] {
+  if (dir === 'ltr') return words;
+
+  const segments: string[][] = [];
+  for (const word of words) {
+    const last = segments.at(-1);
+    if (last && !RTL_LETTER.test(word) && !RTL_LETTER.test(last[0])) {
+      last.push(word);
+    } else {
+      segments.push([word]);
+    }
+  }
+  return segments.reverse().flat();
+}
+
+/**
+ * Outline of a line of text, as SVG path data from the start of its baseline,
+ * and its width, with the glyphs shaped (e.g. Devanagari conjuncts and joined
+ * Arabic letters)
+ */
+function shapeText(
+  text: string,
+  fontSize: number,
+  weight: FontWeight,
+  dir: OgImageContent['dir'] = 'ltr'
+): { path: string; width: number } {
+  const stack = getFonts(weight);
+  const space = (stack[0].layout(' ').advanceWidth / stack[0].unitsPerEm) * fontSize;
+  const paths: string[] = [];
+  let x = 0;
+
+  orderWords(text.split(/\s+/).filter(Boolean), dir).forEach((word, i) => {
+    if (i > 0) x += space;
+    for (const { font, run } of shapeWord(word, stack)) {
+      const scale = fontSize / font.unitsPerEm;
+      run.glyphs.forEach((glyph, j) => {
+        const { xAdvance, xOffset, yOffset } = run.positions[j];
+        paths.push(glyph.path.scale(scale, -scale).translate(x + xOffset * scale, -yOffset * scale).toSVG());
+        x += xAdvance * scale;
+      });
+    }
+  });
+  return { path: paths.join(''), width: x };
+}
+
+/**
+ * Width of a line of text in the fonts of the images
+ */
+export function measureText(text: string, fontSize: number, weight: FontWeight = 400): number {
+  return shapeText(text, fontSize, weight).width;
+}
+
+/**
+ * Line of text drawn as glyph outlines, x being where the line starts in its
+ * reading direction
+ */
+function renderText(text: string, x: number, y: number, fontSize: number, weight: FontWeight, dir: OgImageContent['dir']): string {
+  const { path, width } = shapeText(text, fontSize, weight, dir);
+  return `<path transform="translate(${(dir === 'rtl' ? x - width : x).toFixed(1)} ${y})" d="${path}"/>`;
+}
+
+/**
+ * Split a word too wide for a line into pieces that fit, between grapheme clusters
+ */
+function breakWord(word: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const pieces = [''];
+  for (const { segment } of new Intl.Segmenter().segment(word)) {
+    const last = pieces.length - 1;
+    if (pieces[last] && measure(pieces[last] + segment) > maxWidth) {
+      pieces.push(segment);
+    } else {
+      pieces[last] += segment;
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Split text into lines at most maxWidth wide, ending the last line with an
+ * ellipsis when the text doesn't fit
+ *
+ * Widths are character counts unless a measure is given; words wider than a
+ * line are broken after a hyphen, or else anywhere.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+  measure: (text: string) => number = text => text.length
+): string[] {
+  // Pieces of a word broken over lines follow each other without a space
+  const words = text.split(/\s+/).filter(Boolean).flatMap(word => {
+    const pieces = measure(word) > maxWidth
+      ? word.split(/(?<=-)/).flatMap(part => (measure(part) > maxWidth ? breakWord(part, maxWidth, measure) : [part]))
+      : [word];
+    return pieces.map((piece, i) => ({ piece, separator: i === 0 ? ' ' : '' }));
+  });
+
+  const lines: string[] = [];
+  for (const { piece, separator } of words) {
+    const last = lines.length - 1;
+    if (last >= 0 && measure(`${lines[last]}${separator}${piece}`) <= maxWidth) {
+      lines[last] = `${lines[last]}${separator}${piece}`;
+    } else {
+      lines.push(piece);
+    }
+  }
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    let line = lines[maxLines - 1];
+    while (line && measure(`${line}…`) > maxWidth) {
+      line = line.slice(0, -1);
+    }
+    lines[maxLines - 1] = `${line}…`;
+  }
+  return lines;
+}
+
+/**
+ * Font size and lines of a title: the largest size showing it whole without
+ * breaking words (other than after a hyphen), or the smallest one
+ */
+export function getTitleLayout(title: string): { fontSize: number; lines: string[] } {
+  const words = title.split(/\s+|(?<=-)/).filter(Boolean);
+  const layouts = TITLE_FONT_SIZES.map(fontSize => {
+    const measure = (text: string) => measureText(text, fontSize, 700);
+    const lines = wrapText(title, OG_TEXT_WIDTH, TITLE_MAX_LINES, measure);
+    const fits = !lines.at(-1)!.endsWith('…') && words.every(word => measure(word) <= OG_TEXT_WIDTH);
+    return { fontSize, lines, fits };
+  });
+  const { fontSize, lines } = layouts.find(({ fits }) => fits) ?? layouts.at(-1)!;
+  return { fontSize, lines };
+}
+
+/**
+ * Point on a circle, angles in degrees counterclockwise from the right
+ */
+function polar(cx: number, cy: number, r: number, angle: number): [x: string, y: string] {
+  const radians = (angle * Math.PI) / 180;
+  return [(cx + r * Math.cos(radians)).toFixed(1), (cy - r * Math.sin(radians)).toFixed(1)];
+}
+
+/**
+ * Arc from one angle to a smaller one, drawn clockwise
+ */
+function arc(cx: number, cy: number, r: number, from: number, to: number): string {
+  const large = from - to > 180 ? 1 : 0;
+  return `M ${polar(cx, cy, r, from).join(' ')} A ${r} ${r} 0 ${large} 1 ${polar(cx, cy, r, to).join(' ')}`;
+}
+
+/**
+ * Visual drawn in a PANEL_SIZE square
+ */
+function renderVisual(visual: OgVisual): string {
+  const center = PANEL_SIZE / 2;
+
+  switch (visual) {
+    case 'gauge': {
+      const r = 150;
+      const cy = 260;
+      const segments = RANGE_COLORS.map((color, i) =>
+        `<path d="${arc(center, cy, r, 180 - i * 45, 180 - (i + 1) * 45 + 2)}" stroke="${color}" stroke-width="48" fill="none"/>`
+      );
+      // Needle in the normal range
+      const [needleX, needleY] = polar(center, cy, r - 40, 110);
+      return `${segments.join('')}
+        <line x1="${center}" y1="${cy}" x2="${needleX}" y2="${needleY}" stroke="#37474f" stroke-width="12" stroke-linecap="round"/>
+        <circle cx="${center}" cy="${cy}" r="20" fill="#37474f"/>`;
+    }
+    case 'zones':
+      return ZONE_COLORS.map((color, i) =>
+        `<rect x="70" y="${300 - i * 56}" width="${120 + i * 46}" height="40" rx="10" fill="${color}"/>`
+      ).join('');
+    case 'donut': {
+      const r = 130;
+      // Shares of the circle, e.g. carbohydrate, protein and fat
+      const shares = [0.45, 0.3, 0.25];
+      let from = 90;
+      return shares.map((share, i) => {
+        const to = from - share * 360;
+        const path = `<path d="${arc(center, center, r, from, to + 2)}" stroke="${[PRIMARY, '#ffa726', '#42a5f5'][i]}" stroke-width="56" fill="none"/>`;
+        from = to;
+        return path;
+      }).join('');
+    }
+    case 'calendar': {
+      const cells = Array.from({ length: 35 }, (_, i) => {
+        const x = 80 + (i % 7) * 38;
+        const y = 150 + Math.floor(i / 7) * 38;
+        const fill = i === 17 ? PRIMARY : i >= 12 && i <= 16 ? '#a5d6a7' : '#eceff1';
+        return `<rect x="${x}" y="${y}" width="30" height="30" rx="6" fill="${fill}"/>`;
+      });
+      return `<rect x="60" y="70" width="300" height="290" rx="20" fill="none" stroke="#cfd8dc" stroke-width="4"/>
+        <path d="M 60 90 a 20 20 0 0 1 20 -20 h 260 a 20 20 0 0 1 20 20 v 40 h -300 z" fill="${PRIMARY}"/>
+        ${cells.join('')}`;
+    }
+    case 'bars':
+      return [120, 180, 150, 240, 290].map((height, i) =>
+        `<rect x="${70 + i * 58}" y="${340 - height}" width="40" height="${height}" rx="8" fill="${i === 4 ? PRIMARY : '#a5d6a7'}"/>`
+      ).join('');
+  }
+}
+
+/**
+ * SVG of a share image
+ */
+export function renderOgImageSvg({ title, category, visual, dir }: OgImageContent): string {
+  const rtl = dir === 'rtl';
+  const { fontSize, lines } = getTitleLayout(title);
+
+  // Text on the reading side, visual on the other
+  const textX = rtl ? OG_IMAGE_WIDTH - MARGIN : MARGIN;
+  const panelX = rtl ? MARGIN : OG_IMAGE_WIDTH - MARGIN - PANEL_SIZE;
+  const panelY = (OG_IMAGE_HEIGHT - PANEL_SIZE) / 2;
+  // First line under the category badge
+  const titleY = MARGIN + 140 + fontSize;
+
+  const badgeWidth = category ? measureText(category, 22) + 48 : 0;
+  const badge = category
+    ? `<rect x="${rtl ? textX - badgeWidth : textX}" y="${MARGIN + 64}" width="${badgeWidth}" height="48" rx="24" fill="#ffffff" fill-opacity="0.2"/>
+    ${renderText(category, rtl ? textX - 24 : textX + 24, MARGIN + 96, 22, 400, dir)}`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <title>${escapeXml(title)}</title>
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${PRIMARY}"/>
+      <stop offset="1" stop-color="${PRIMARY_DARK}"/>
+    </linearGradient>
+  </defs>
+  <rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="url(#background)"/>
+  <g fill="#ffffff">
+    ${renderText('Calculatoria', textX, MARGIN + 28, 32, 700, dir)}
+    ${badge}
+    ${lines.map((line, i) => renderText(line, textX, titleY + i * fontSize * 1.15, fontSize, 700, dir)).join('\n    ')}
+    <g fill-opacity="0.8">${renderText('calculatoria.net', textX, OG_IMAGE_HEIGHT - MARGIN, 26, 400, dir)}</g>
+  </g>
+  <g transform="translate(${panelX} ${panelY})">
+    <rect width="${PANEL_SIZE}" height="${PANEL_SIZE}" rx="32" fill="#ffffff"/>
+    ${renderVisual(visual)}
+  </g>
+</svg>`;
+}
+
+/**
+ * PNG of a share image
+ */
+export async function renderOgImagePng(content: OgImageContent): Promise<Uint8Array<ArrayBuffer>> {
+  const png = await sharp(Buffer.from(renderOgImageSvg(content))).png().toBuffer();
+  return new Uint8Array(png);
+}
@@ -0,0 +1,229 @@
+/**
+ * Personal Profile
+ *
+ * Optional profile (age, sex, height, weight and preferred unit system) kept
+ * in localStorage so calculators can pre-fill the fields their schema tags
+ * with `profile`. Nothing is stored until the user accepts the prompt shown
+ * after a calculation, and height and weight are stored in cm and kg.
+ *
+ * The prompts are localized templates rendered once per page by
+ * ProfilePrompt.astro. In markets with a privacy note the profile is only
+ * filled in when the user asks for it.
+ */
+
+import {
+  fillFormInput,
+  genderOptions,
+  getUnitSystem,
+  toImperial,
+  toMetric,
+  type InputSchema,
+  type ProfileField,
+  type UnitSystem,
+} from '@/utils/inputSchema';
+
+const STORAGE_KEY = 'profile';
+/** Set for the browser session once the user declines to save their profile */
+const DISMISSED_KEY = 'profile:dismissed';
+const PROMPT_CLASS = 'profile-prompt';
+
+export interface Profile {
+  age?: number;
+  gender?: (typeof genderOptions)[number]['value'];
+  /** Centimeters */
+  height?: number;
+  /** Kilograms */
+  weight?: number;
+  unitSystem?: UnitSystem;
+}
+
+/** Unit of the profile values that have one */
+const PROFILE_UNITS = { height: 'height', weight: 'mass' } as const;
+
+export function getProfile(): Profile | undefined {
+  try {
+    const profile = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return profile && typeof profile === 'object' ? profile : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveProfile(profile: Profile): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Storage full or unavailable: the profile is simply not saved
+  }
+}
+
+export function clearProfile(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable: nothing was saved
+  }
+}
+
+/**
+ * Whether parsed inputs carry imperial values ('convert' schemas always parse to metric)
+ */
+function isImperialInput<T>(schema: InputSchema<T>, unitSystem: UnitSystem): boolean {
+  return schema.units === 'raw' && unitSystem === 'imperial';
+}
+
+/**
+ * Build a calculator input from the profile
+ */
+export function getProfileInput<T>(schema: InputSchema<T>, profile: Profile, unitSystem: UnitSystem): Partial<T> {
+  const input: Record<string, unknown> = {};
+
+  for (const field of schema.fields) {
+    if (!field.profile || profile[field.profile] === undefined) continue;
+    const value = profile[field.profile];
+    input[field.name] = field.profile in PROFILE_UNITS && isImperialInput(schema, unitSystem)
+      ? toImperial(value as number, PROFILE_UNITS[field.profile as keyof typeof PROFILE_UNITS])
+      : value;
+  }
+
+  return input as Partial<T>;
+}
+
+/**
+ * Read the profile values from a calculator input
+ */
+export function getInputProfile<T>(schema: InputSchema<T>, input: Partial<T>, unitSystem: UnitSystem): Profile {
+  const profile: Record<string, unknown> = {};
+  const values = input as Record<string, unknown>;
+
+  for (const field of schema.fields) {
+    const value = values[field.name];
+    if (!field.profile || value === undefined) continue;
+    profile[field.profile] = field.profile in PROFILE_UNITS && isImperialInput(schema, unitSystem)
+      ? toMetric(value as number, PROFILE_UNITS[field.profile as keyof typeof PROFILE_UNITS])
+      : value;
+  }
+
+  return profile as Profile;
+}
+
+/**
+ * Whether saving the values would change the profile
+ * Height and weight are compared to 0.1 so unit round trips don't count as changes.
+ */
+function changesProfile(profile: Profile, values: Profile): boolean {
+  return (Object.keys(values) as (ProfileField | 'unitSystem')[]).some((key) => {
+    const value = values[key];
+    const saved = profile[key];
+    return typeof value === 'number' && typeof saved === 'number'
+      ? Math.abs(value - saved) >= 0.1
+      : value !== saved;
+  });
+}
+
+/**
+ * Page element holding the prompt templates, if the page has one
+ */
+function getPromptContainer(): HTMLElement | null {
+  return document.querySelector<HTMLElement>('[data-profile]');
+}
+
+/**
+ * Show a prompt template next to a form, replacing any previous prompt
+ * @param actions - Handlers for the template's [data-profile-action] buttons
+ */
+function showPrompt(
+  form: HTMLFormElement,
+  name: string,
+  position: 'before' | 'after',
+  actions: Record<string, () => void>
+): HTMLElement | undefined {
+  const template = getPromptContainer()?.querySelector<HTMLTemplateElement>(`template[data-profile-${name}]`);
+  const prompt = template?.content.firstElementChild?.cloneNode(true) as HTMLElement | undefined;
+  if (!prompt) return undefined;
+
+  removePrompt(form);
+  prompt.classList.add(PROMPT_CLASS);
+  prompt.querySelectorAll<HTMLElement>('[data-profile-action]').forEach((button) => {
+    button.addEventListener('click', () => {
+      actions[button.dataset.profileAction!]?.();
+      prompt.remove();
+    });
+  });
+  if (position === 'before') {
+    form.before(prompt);
+  } else {
+    form.after(prompt);
+  }
+  return prompt;
+}
+
+function removePrompt(form: HTMLFormElement): void {
+  for (const sibling of [form.previousElementSibling, form.nextElementSibling]) {
+    if (sibling?.classList.contains(PROMPT_CLASS)) sibling.remove();
+  }
+}
+
+/**
+ * Pre-fill a form from the profile
+ * Where the page asks before filling, a prompt is shown above the form instead.
+ * @param controls - Control names for fields named differently in the form
+ * @returns Whether the profile has values for the form
+ */
+export function applyProfile<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  options: { controls?: Record<string, string> } = {}
+): boolean {
+  const profile = getProfile();
+  const container = getPromptContainer();
+  if (!profile || !container) return false;
+
+  const unitSystem = (schema.units && profile.unitSystem) || getUnitSystem(new FormData(form));
+  const input = getProfileInput(schema, profile, unitSystem);
+  if (Object.keys(input).length === 0) return false;
+
+  const fill = () => fillFormInput(form, schema, input, unitSystem, options.controls);
+  const forget = () => clearProfile();
+
+  if ('askBeforeFilling' in container.dataset) {
+    showPrompt(form, 'fill', 'before', { fill, forget });
+  } else {
+    fill();
+    showPrompt(form, 'filled', 'before', { forget });
+  }
+  return true;
+}
+
+/**
+ * Offer to save the profile values of a calculation
+ * Nothing is shown when they match the saved profile or the user declined this session.
+ */
+export function offerProfileUpdate<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  unitSystem: UnitSystem
+): void {
+  const values = getInputProfile(schema, input, unitSystem);
+  if (Object.keys(values).length === 0) return;
+  if (schema.units) values.unitSystem = unitSystem;
+
+  const profile = getProfile();
+  if (profile && !changesProfile(profile, values)) return;
+
+  try {
+    if (sessionStorage.getItem(DISMISSED_KEY)) return;
+  } catch {
+    return;
+  }
+
+  const prompt = showPrompt(form, 'save', 'after', {
+    save: () => saveProfile({ ...profile, ...values }),
+    dismiss: () => sessionStorage.setItem(DISMISSED_KEY, '1'),
+  });
+  // The same template asks to save a new profile or update the existing one
+  prompt?.querySelectorAll<HTMLElement>('[data-profile-message]').forEach((message) => {
+    message.hidden = message.dataset.profileMessage !== (profile ? 'update' : 'save');
+  });
+}
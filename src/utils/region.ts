@@ -0,0 +1,40 @@
+/**
+ * Visitor Region
+ *
+ * The region (market) of the visitor within the page's language: the one
+ * they picked in the region selector, kept in localStorage, else the first
+ * region of the language among the browser languages (navigator.languages),
+ * else the language's default region. Calculator scripts apply it on load
+ * (units, currency, tax rates...), so a page serves every region of its
+ * language without separate content.
+ */
+
+import type { Locale } from '@/config/languages';
+import { detectRegion, getDefaultRegion, isValidRegion, regions, type Region } from '@/config/regions';
+
+const STORAGE_KEY = 'region';
+
+function getSavedRegion(locale: Locale): Region | undefined {
+  try {
+    const region = localStorage.getItem(STORAGE_KEY) ?? '';
+    return isValidRegion(region) && regions[region].locale === locale ? region : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveRegion(region: Region): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, region);
+  } catch {
+    // Storage full or unavailable: the region is detected again on the next page
+  }
+}
+
+/**
+ * Get the visitor's region for a language
+ * @returns undefined for languages without regional variants
+ */
+export function getRegion(locale: Locale): Region | undefined {
+  return getSavedRegion(locale) ?? detectRegion(locale, navigator.languages) ?? getDefaultRegion(locale);
+}
@@ -0,0 +1,162 @@
+/**
+ * Calculator Search
+ *
+ * Fuzzy search over the search index of a locale, built at build time
+ * (src/pages/search-index/[locale].json.ts) from calculator titles, slugs in
+ * every language, MDX keywords and category names. Text is compared
+ * normalized: lowercase, without accents and with Cyrillic transliterated, so
+ * "imc", "IMT" (ИМТ) and "body mass" all find the BMI calculator.
+ *
+ * Every word of the query has to match a word of the calculator: exactly, as
+ * its beginning, or with a typo or two in longer words. Matches in the title
+ * rank above matches in the other terms.
+ */
+
+import type { Locale } from '@/config/languages';
+
+export interface SearchEntry {
+  id: string;
+  title: string;
+  description: string;
+  url: string;
+  category: string;
+  /** Other text the calculator is found by, normalized */
+  terms: string[];
+}
+
+/** Letters NFD doesn't decompose to Latin ones */
+const TRANSLITERATION: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i', й: 'i',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e',
+  ю: 'yu', я: 'ya', ł: 'l', ø: 'o', ß: 'ss', æ: 'ae', œ: 'oe', ı: 'i', đ: 'd',
+};
+
+const TITLE_WEIGHT = 3;
+const TERM_WEIGHT = 1;
+
+/** Quality of a word match */
+const EXACT = 1;
+const PREFIX = 0.8;
+const FUZZY = 0.5;
+
+/**
+ * Normalize text for comparison: lowercase, without accents, transliterated
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/./g, char => TRANSLITERATION[char] ?? char);
+}
+
+/**
+ * Split normalized text into words
+ */
+function getWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Edit distance between two words, giving up above max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Typos allowed in a query word: none in short words, where they match too much
+ */
+function getAllowedTypos(word: string): number {
+  return word.length >= 8 ? 2 : word.length >= 5 ? 1 : 0;
+}
+
+/**
+ * How well a query word matches the best of a list of words, 0 when none does
+ */
+function matchWord(queryWord: string, words: string[]): number {
+  const typos = getAllowedTypos(queryWord);
+  let best = 0;
+
+  for (const word of words) {
+    if (word === queryWord) return EXACT;
+    if (word.startsWith(queryWord)) {
+      best = Math.max(best, PREFIX);
+    } else if (typos > 0 && best < FUZZY && editDistance(queryWord, word, typos) <= typos) {
+      best = FUZZY;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the calculators matching a query, best matches first
+ * @returns Nothing for an empty query
+ */
+export function searchCalculators(entries: SearchEntry[], query: string): SearchEntry[] {
+  const queryWords = getWords(normalizeSearchText(query));
+  if (queryWords.length === 0) return [];
+
+  const scored = entries.map((entry, index) => {
+    const titleWords = getWords(normalizeSearchText(entry.title));
+    const termWords = entry.terms.flatMap(getWords);
+    let score = 0;
+
+    for (const queryWord of queryWords) {
+      const wordScore = Math.max(
+        matchWord(queryWord, titleWords) * TITLE_WEIGHT,
+        matchWord(queryWord, termWords) * TERM_WEIGHT
+      );
+      if (wordScore === 0) return { entry, index, score: 0 };
+      score += wordScore;
+    }
+    return { entry, index, score };
+  });
+
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * URL of the search index of a locale
+ */
+export function getSearchIndexPath(locale: Locale): string {
+  return `/search-index/${locale}.json`;
+}
+
+const searchIndexes = new Map<Locale, Promise<SearchEntry[]>>();
+
+/**
+ * Fetch the search index of a locale, once
+ */
+export function loadSearchIndex(locale: Locale): Promise<SearchEntry[]> {
+  let index = searchIndexes.get(locale);
+  if (!index) {
+    index = fetch(getSearchIndexPath(locale)).then(response => {
+      if (!response.ok) throw new Error(`Search index not found for ${locale}`);
+      return response.json();
+    });
+    // A failed request is tried again on the next search
+    index.catch(() => searchIndexes.delete(locale));
+    searchIndexes.set(locale, index);
+  }
+  return index;
+}
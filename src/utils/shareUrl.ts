@@ -0,0 +1,219 @@
+/**
+ * Shareable Result URLs
+ *
+ * Calculator inputs are serialized to a compact, versioned query string
+ * (e.g. `?v=1&unitSystem=imperial&age=30&gender=male&weight=70.3068`) so a
+ * link reproduces the exact result. Values are stored as parsed by the input
+ * schema: numbers as calculated (metric for 'convert' schemas), dates as
+ * YYYY-MM-DD, checkboxes as 1/0 and durations in seconds.
+ *
+ * After every successful calculation the address bar is updated with
+ * history.replaceState(), so the share buttons and reloading the page keep
+ * the inputs. On load, restoreSharedInput() fills the form and submits it.
+ *
+ * Bump SHARE_VERSION when a schema change would make old links decode to
+ * different inputs; links with another version are ignored.
+ */
+
+import {
+  fillFormInput,
+  formatDateValue,
+  getUnitSystem,
+  type InputField,
+  type InputSchema,
+  type UnitSystem,
+} from '@/utils/inputSchema';
+
+export const SHARE_VERSION = 1;
+
+const VERSION_PARAM = 'v';
+const UNIT_SYSTEM_PARAM = 'unitSystem';
+/** Identifies the form on pages with several calculators (e.g. date add/subtract vs difference) */
+const FORM_PARAM = 'form';
+
+export interface SharedInput<T> {
+  input: Partial<T>;
+  unitSystem: UnitSystem;
+}
+
+export interface ShareOptions {
+  /** Unit system the form was submitted in ('raw' schemas carry it in the input) */
+  unitSystem?: UnitSystem;
+  /** Form name on pages with several calculators */
+  form?: string;
+}
+
+/**
+ * Encode a single field value
+ */
+function encodeValue<T>(field: InputField<T>, value: unknown): string {
+  switch (field.type) {
+    case 'number':
+    case 'duration':
+      return String(Number((value as number).toFixed(4)));
+    case 'checkbox':
+      return (field.values ? value === field.values.checked : value === true) ? '1' : '0';
+    case 'date':
+      return formatDateValue(value as Date);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Decode a single field value, returning undefined for malformed values
+ */
+function decodeValue<T>(field: InputField<T>, value: string): unknown {
+  switch (field.type) {
+    case 'number':
+    case 'duration': {
+      const number = parseFloat(value);
+      return isNaN(number) ? undefined : number;
+    }
+    case 'select':
+    case 'radio':
+      return field.options.find(option => String(option.value) === value)?.value;
+    case 'checkbox': {
+      const checked = value === '1';
+      return field.values ? (checked ? field.values.checked : field.values.unchecked) : checked;
+    }
+    case 'date': {
+      const date = new Date(value);
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) ? date : undefined;
+    }
+    case 'time':
+      return /^\d{2}:\d{2}$/.test(value) ? value : undefined;
+  }
+}
+
+/**
+ * Serialize a calculator input to query parameters
+ */
+export function encodeShareParams<T>(
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  options: ShareOptions = {}
+): URLSearchParams {
+  const params = new URLSearchParams({ [VERSION_PARAM]: String(SHARE_VERSION) });
+  const values = input as Record<string, unknown>;
+
+  if (options.form) {
+    params.set(FORM_PARAM, options.form);
+  }
+
+  const unitSystem = values.unitSystem ?? options.unitSystem;
+  if (schema.units && unitSystem === 'imperial') {
+    params.set(UNIT_SYSTEM_PARAM, unitSystem);
+  }
+
+  for (const field of schema.fields) {
+    const value = values[field.name];
+    if (value !== undefined && !params.has(field.name)) {
+      params.set(field.name, encodeValue(field, value));
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Read a calculator input from query parameters
+ * Returns undefined when the parameters are for another version, form or carry no input
+ */
+export function decodeShareParams<T>(
+  schema: InputSchema<T>,
+  params: URLSearchParams,
+  form?: string
+): SharedInput<T> | undefined {
+  if (params.get(VERSION_PARAM) !== String(SHARE_VERSION) || (params.get(FORM_PARAM) ?? undefined) !== form) {
+    return undefined;
+  }
+
+  const input: Record<string, unknown> = {};
+  for (const field of schema.fields) {
+    const raw = params.get(field.name);
+    const value = raw === null ? undefined : decodeValue(field, raw);
+    if (value !== undefined) {
+      input[field.name] = value;
+    }
+  }
+
+  if (Object.keys(input).length === 0) return undefined;
+
+  const unitSystem: UnitSystem = params.get(UNIT_SYSTEM_PARAM) === 'imperial' ? 'imperial' : 'metric';
+  if (schema.units === 'raw') {
+    input.unitSystem = unitSystem;
+  }
+
+  return { input: input as Partial<T>, unitSystem };
+}
+
+/**
+ * URL of the current page with the given query parameters
+ */
+export function getShareUrl(params: URLSearchParams): string {
+  const query = params.toString();
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Serialize an input submitted with a form, reading the unit system from its unit toggle
+ */
+export function getFormShareParams<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  options: Pick<ShareOptions, 'form'> = {}
+): URLSearchParams {
+  return encodeShareParams(schema, input, { ...options, unitSystem: getUnitSystem(new FormData(form)) });
+}
+
+/**
+ * Put a calculated input in the address bar so sharing and reloading keep it
+ */
+export function updateShareUrl<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  input: Partial<T>,
+  options: Pick<ShareOptions, 'form'> = {}
+): void {
+  history.replaceState(history.state, '', getShareUrl(getFormShareParams(form, schema, input, options)));
+}
+
+/**
+ * Remove shared inputs from the address bar (e.g. when the form is reset)
+ */
+export function clearShareUrl(): void {
+  history.replaceState(history.state, '', getShareUrl(new URLSearchParams()));
+}
+
+/**
+ * Read the input shared in the current page URL
+ */
+export function getSharedInput<T>(schema: InputSchema<T>, form?: string): SharedInput<T> | undefined {
+  return decodeShareParams(schema, new URLSearchParams(window.location.search), form);
+}
+
+/**
+ * Fill a form from the page URL and calculate
+ * Submitting runs the form's usual validation, so invalid links show inline errors.
+ * @param controls - Control names for fields named differently in the form,
+ *   or a function deriving them from the shared input
+ * @returns The shared input, if the URL had one
+ */
+export function restoreSharedInput<T>(
+  form: HTMLFormElement,
+  schema: InputSchema<T>,
+  options: {
+    controls?: Record<string, string> | ((input: Partial<T>) => Record<string, string>);
+    form?: string;
+  } = {}
+): SharedInput<T> | undefined {
+  const shared = getSharedInput(schema, options.form);
+  if (!shared) return undefined;
+
+  const controls = typeof options.controls === 'function' ? options.controls(shared.input) : options.controls;
+  fillFormInput(form, schema, shared.input, shared.unitSystem, controls);
+  form.requestSubmit();
+  return shared;
+}
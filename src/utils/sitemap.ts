@@ -0,0 +1,124 @@
+/**
+ * Sitemap
+ *
+ * Entries of the sitemap (src/pages/sitemap.xml.ts), built from the locale
+ * profiles and the calculator routes rather than from the generated pages, so
+ * every language and calculator is listed as soon as it is configured:
+ * - home and calculator pages of every language, with the page in the other
+ *   languages as hreflang alternates (the same ones as their <head>) and their
+ *   share image
+ * - calculator listing pages
+ * Calculator pages are prioritized by SEO tier (config/seo-tiers.ts) and
+ * dated like the pages themselves (utils/contentMetadata.ts).
+ */
+
+import { calculators, type CalculatorId } from '@/config/calculators';
+import {
+  defaultLocale,
+  getCalculatorsIndexPath,
+  getHomePath,
+  getSupportedLocales,
+  type Locale,
+} from '@/config/languages';
+import { getSeoTier, type SeoTier } from '@/config/seo-tiers';
+import { getContentDates } from '@/utils/contentMetadata';
+import { getAlternatePath } from '@/utils/i18n';
+import { getOgImagePath } from '@/utils/ogImage';
+
+export interface SitemapEntry {
+  path: string;
+  priority: number;
+  changefreq: 'daily' | 'weekly' | 'monthly';
+  lastmod?: Date;
+  /** Path of the same page in every language */
+  alternates?: Record<Locale, string>;
+  /** Paths of the images of the page */
+  images?: string[];
+}
+
+/**
+ * Last-modified date from the frontmatter of a calculator page
+ */
+export type UpdatedDates = (calculatorId: CalculatorId, locale: Locale) => Date | undefined;
+
+const tierPriorities: Record<SeoTier, number> = {
+  1: 0.8,
+  2: 0.7,
+  3: 0.6,
+};
+
+function getAlternates(calculatorId?: CalculatorId): Record<Locale, string> {
+  return Object.fromEntries(
+    getSupportedLocales().map(locale => [locale, getAlternatePath(locale, calculatorId)])
+  ) as Record<Locale, string>;
+}
+
+/**
+ * Sitemap entries of every page: home, calculator listing and calculator pages of each language
+ */
+export function getSitemapEntries(updated: UpdatedDates = () => undefined): SitemapEntry[] {
+  const homeAlternates = getAlternates();
+  const calculatorAlternates = new Map(calculators.map(id => [id, getAlternates(id)]));
+
+  return getSupportedLocales().flatMap((locale): SitemapEntry[] => [
+    {
+      path: getHomePath(locale),
+      priority: 1.0,
+      changefreq: 'daily',
+      alternates: homeAlternates,
+      images: [getOgImagePath(locale)],
+    },
+    {
+      path: getCalculatorsIndexPath(locale),
+      priority: 0.9,
+      changefreq: 'daily',
+    },
+    ...calculators.map((calculatorId): SitemapEntry => {
+      const alternates = calculatorAlternates.get(calculatorId)!;
+      return {
+        path: alternates[locale],
+        priority: tierPriorities[getSeoTier(calculatorId, locale)],
+        changefreq: 'weekly',
+        lastmod: getContentDates(`src/content/calculators/${locale}/${calculatorId}.mdx`, updated(calculatorId, locale)).modified,
+        alternates,
+        images: [getOgImagePath(locale, calculatorId)],
+      };
+    }),
+  ]);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Sitemap XML of the given entries, with absolute URLs on the site
+ */
+export function renderSitemap(entries: SitemapEntry[], site: URL): string {
+  const url = (path: string) => escapeXml(new URL(path, site).href);
+
+  const urls = entries.map(({ path, priority, changefreq, lastmod, alternates, images }) => {
+    const tags = [
+      `<loc>${url(path)}</loc>`,
+      ...(lastmod ? [`<lastmod>${lastmod.toISOString()}</lastmod>`] : []),
+      `<changefreq>${changefreq}</changefreq>`,
+      `<priority>${priority.toFixed(1)}</priority>`,
+      ...(alternates
+        ? [
+            ...Object.entries(alternates).map(([locale, href]) =>
+              `<xhtml:link rel="alternate" hreflang="${locale}" href="${url(href)}"/>`
+            ),
+            `<xhtml:link rel="alternate" hreflang="x-default" href="${url(alternates[defaultLocale])}"/>`,
+          ]
+        : []),
+      ...(images ?? []).map(image => `<image:image><image:loc>${url(image)}</image:loc></image:image>`),
+    ];
+    return `<url>${tags.join('')}</url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+${urls.join('\n')}
+</urlset>
+`;
+}
@@ -0,0 +1,299 @@
+/**
+ * Structured Data
+ *
+ * Schema.org JSON-LD of calculator pages, localized to the page language:
+ * - WebApplication: the calculator itself, free in the language's currency,
+ *   dated by its content, with the properties of the MDX `schema` frontmatter
+ *   on top
+ * - HowTo: the steps of filling in the calculator's form (its input schema),
+ *   each an instruction naming the field
+ * - MedicalWebPage about a MedicalRiskCalculator for clinical calculators
+ * - FAQPage: questions and answers of the MDX page's FAQ section
+ * - BreadcrumbList: the same trail as the breadcrumbs shown on the page
+ */
+
+import { getCalculatorDefinition, type CalculatorId } from '@/config/calculators';
+import { getCalculatorsIndexPath, getHomePath, languages, type Locale } from '@/config/languages';
+import type { ContentDates } from '@/utils/contentMetadata';
+import { calculatorPaths, getCalculatorNamespace, t, type TranslationKey } from '@/utils/i18n';
+import type { InputField } from '@/utils/inputSchema';
+
+export type JsonLd = Record<string, unknown>;
+
+export interface Breadcrumb {
+  name: string;
+  /** Omitted for the current page */
+  path?: string;
+}
+
+export interface FaqItem {
+  question: string;
+  /** Plain text, paragraphs and list items on separate lines */
+  answer: string;
+}
+
+export interface CalculatorPageData {
+  calculatorId: CalculatorId;
+  locale: Locale;
+  title: string;
+  description: string;
+  /** MDX source of the page */
+  body: string;
+  /** Extra WebApplication properties from the MDX frontmatter */
+  schema?: Record<string, unknown>;
+  dates?: ContentDates;
+}
+
+/**
+ * Calculators estimating a health risk, with their schema.org MedicalSpecialty
+ */
+export const medicalRiskCalculators: Partial<Record<CalculatorId, string>> = {
+  'bmi': 'DietNutrition',
+  'gfr': 'Renal',
+  'bac': 'Toxicologic',
+};
+
+/**
+ * Headings of FAQ sections in every content language
+ */
+const FAQ_HEADING = new RegExp(
+  [
+    '\\bfaqs?\\b',
+    '\\bsss\\b',
+    'frequently asked',
+    'preguntas frecuentes',
+    'perguntas frequentes',
+    'questions fr[ée]qu',
+    'h[äa]ufig gestellte fragen',
+    'domande frequenti',
+    'pytania',
+    'veelgestelde vragen',
+    's[ıi]k(?:ça)? sorulan sorular',
+    'vanliga fr[åa]gor',
+    'вопрос',
+    'أسئلة',
+    'प्रश्न',
+  ].join('|'),
+  'iu'
+);
+
+const QUESTION_MARK = /[?؟]/;
+
+/**
+ * Breadcrumb trail of a calculator page: home, calculator index, calculator
+ */
+export function getCalculatorBreadcrumbs(locale: Locale, title: string): Breadcrumb[] {
+  return [
+    { name: t('nav.home', locale), path: getHomePath(locale) },
+    { name: t('nav.calculators', locale), path: getCalculatorsIndexPath(locale) },
+    { name: title },
+  ];
+}
+
+/**
+ * Plain text of a Markdown fragment
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .split('\n')
+    // Table separator rows
+    .filter(line => !/^\s*\|?\s*:?-{3,}/.test(line))
+    .map(line => line
+      .replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\*\*|__|`/g, '')
+      .replace(/\*([^*]+)\*/g, '$1')
+      .replace(/\|/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Questions and answers of the FAQ sections of an MDX page
+ *
+ * Questions are the third-level headings of a section titled like
+ * "Frequently Asked Questions" (headings without a question mark end the
+ * previous answer), or in sections without such headings, questions in bold
+ * at the start of a line, followed by their answer on the same line or below.
+ */
+export function extractFaq(body: string): FaqItem[] {
+  const sections: string[][] = [];
+  let section: string[] | undefined;
+
+  for (const line of body.split('\n')) {
+    const heading = /^#{1,2}\s+(.*)$/.exec(line);
+    if (heading) {
+      section = FAQ_HEADING.test(heading[1]) ? [] : undefined;
+      if (section) sections.push(section);
+    } else {
+      section?.push(line);
+    }
+  }
+
+  const items: FaqItem[] = [];
+  for (const lines of sections) {
+    const hasHeadings = lines.some(line => line.startsWith('### '));
+    let question: string | undefined;
+    let answer: string[] = [];
+
+    const finish = () => {
+      const text = toPlainText(answer.join('\n'));
+      if (question && text) items.push({ question, answer: text });
+    };
+
+    for (const line of lines) {
+      const start = hasHeadings
+        ? /^#{3,6}\s+(.*)$/.exec(line)
+        : /^\*\*([^*]*[?؟][^*]*)\*\*\s*(.*)$/.exec(line.trim());
+      if (start) {
+        finish();
+        question = QUESTION_MARK.test(start[1]) ? toPlainText(start[1]) : undefined;
+        answer = start[2] ? [start[2]] : [];
+      } else {
+        answer.push(line);
+      }
+    }
+    finish();
+  }
+  return items;
+}
+
+/**
+ * JSON-LD of a calculator page
+ */
+export function getCalculatorStructuredData(page: CalculatorPageData, site: URL): JsonLd[] {
+  const { calculatorId, locale, title, description } = page;
+  const profile = languages[locale];
+  const breadcrumbs = getCalculatorBreadcrumbs(locale, title);
+  const url = new URL(calculatorPaths[getCalculatorNamespace(calculatorId)][locale], site);
+  const dates = {
+    ...(page.dates?.published && { datePublished: page.dates.published.toISOString() }),
+    ...(page.dates?.modified && { dateModified: page.dates.modified.toISOString() }),
+  };
+
+  const structuredData: JsonLd[] = [
+    {
+      '@context': 'https://schema.org',
+      '@type': ['WebApplication', 'SoftwareApplication'],
+      name: title,
+      url: url.toString(),
+      description,
+      applicationCategory: 'UtilityApplication',
+      operatingSystem: 'Any',
+      offers: {
+        '@type': 'Offer',
+        price: '0',
+        priceCurrency: profile.currency,
+      },
+      inLanguage: profile.tag,
+      ...dates,
+      creator: {
+        '@type': 'Organization',
+        name: 'Calculatoria',
+        url: site.toString(),
+      },
+      ...page.schema,
+    },
+    getHowTo(page),
+  ];
+
+  const specialty = medicalRiskCalculators[calculatorId];
+  if (specialty) {
+    structuredData.push({
+      '@context': 'https://schema.org',
+      '@type': 'MedicalWebPage',
+      name: title,
+      url: url.toString(),
+      description,
+      inLanguage: profile.tag,
+      ...dates,
+      specialty: `https://schema.org/${specialty}`,
+      about: {
+        '@type': 'MedicalRiskCalculator',
+        name: title,
+        url: url.toString(),
+      },
+    });
+  }
+
+  const faq = extractFaq(page.body);
+  if (faq.length > 0) {
+    structuredData.push({
+      '@context': 'https://schema.org',
+      '@type': 'FAQPage',
+      inLanguage: profile.tag,
+      mainEntity: faq.map(({ question, answer }) => ({
+        '@type': 'Question',
+        name: question,
+        acceptedAnswer: { '@type': 'Answer', text: answer },
+      })),
+    });
+  }
+
+  structuredData.push({
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: breadcrumbs.map((breadcrumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: breadcrumb.name,
+      ...(breadcrumb.path && { item: new URL(breadcrumb.path, site).toString() }),
+    })),
+  });
+
+  return structuredData;
+}
+
+/**
+ * Instruction of each field type, naming the field
+ */
+const STEP_INSTRUCTIONS: Record<InputField<unknown>['type'], TranslationKey> = {
+  number: 'howTo.enter',
+  date: 'howTo.enter',
+  time: 'howTo.enter',
+  duration: 'howTo.enter',
+  select: 'howTo.choose',
+  radio: 'howTo.choose',
+  checkbox: 'howTo.check',
+};
+
+/**
+ * Steps of using a calculator: one per field always shown, then calculating
+ *
+ * Each step is named after its field label and tells what to do with it,
+ * followed by the field's help text.
+ */
+function getHowTo({ calculatorId, locale, title, description }: CalculatorPageData): JsonLd {
+  // The same placeholder values as the calculator components (e.g. the {currency} of price labels)
+  const labelParams = { currency: languages[locale].currencySymbol };
+  const fields = getCalculatorDefinition(calculatorId).inputs.fields.filter(field => !field.when);
+  const button = t('common.calculate', locale);
+  const steps = [
+    ...fields.map(field => {
+      const name = t(field.label, locale, labelParams);
+      const instruction = t(STEP_INSTRUCTIONS[field.type], locale, { field: name });
+      return {
+        name,
+        text: field.help ? `${instruction} ${t(field.help, locale, labelParams)}` : instruction,
+      };
+    }),
+    { name: button, text: t('howTo.calculate', locale, { button }) },
+  ];
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'HowTo',
+    name: title,
+    description,
+    inLanguage: languages[locale].tag,
+    tool: { '@type': 'HowToTool', name: title },
+    step: steps.map((step, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      ...step,
+    })),
+  };
+}
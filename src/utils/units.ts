@@ -0,0 +1,336 @@
+/**
+ * Units and Conversion Utilities
+ *
+ * Single source of truth for every unit conversion used by the calculators.
+ * Quantities are branded numbers: a value in pounds has type `Pounds` and
+ * can't be passed where `Kilograms` is expected without converting it first.
+ *
+ * Conversions return unrounded values; rounding stays with each calculator.
+ *
+ * Dimensions covered:
+ * - Mass: kilograms, grams, pounds
+ * - Length: meters, centimeters, kilometers, inches, feet, miles, yards
+ * - Volume: milliliters, liters, US fluid ounces
+ * - Energy: kilocalories, kilojoules
+ * - Concentration: serum creatinine (mg/dL, μmol/L)
+ * - Time: seconds, minutes, hours
+ */
+
+declare const unitBrand: unique symbol;
+
+/**
+ * A number tagged with the unit it is expressed in
+ */
+export type Quantity<U extends string> = number & { readonly [unitBrand]: U };
+
+// Mass
+export type Kilograms = Quantity<'kg'>;
+export type Grams = Quantity<'g'>;
+export type Pounds = Quantity<'lb'>;
+
+// Length
+export type Meters = Quantity<'m'>;
+export type Centimeters = Quantity<'cm'>;
+export type Kilometers = Quantity<'km'>;
+export type Inches = Quantity<'in'>;
+export type Feet = Quantity<'ft'>;
+export type Miles = Quantity<'mi'>;
+export type Yards = Quantity<'yd'>;
+
+// Volume
+export type Milliliters = Quantity<'ml'>;
+export type Liters = Quantity<'l'>;
+export type FluidOunces = Quantity<'fl oz'>;
+
+// Energy
+export type Kilocalories = Quantity<'kcal'>;
+export type Kilojoules = Quantity<'kJ'>;
+
+// Concentration
+export type MilligramsPerDeciliter = Quantity<'mg/dL'>;
+export type MicromolesPerLiter = Quantity<'μmol/L'>;
+
+// Time
+export type Seconds = Quantity<'s'>;
+export type Minutes = Quantity<'min'>;
+export type Hours = Quantity<'h'>;
+
+// ============================================================================
+// Conversion Constants (exact definitions unless noted)
+// ============================================================================
+
+export const KG_PER_LB = 0.45359237;
+export const GRAMS_PER_KG = 1000;
+export const CM_PER_INCH = 2.54;
+export const CM_PER_METER = 100;
+export const INCHES_PER_FOOT = 12;
+export const METERS_PER_KM = 1000;
+export const KM_PER_MILE = 1.609344;
+export const KM_PER_YARD = 0.0009144;
+export const ML_PER_FL_OZ = 29.5735295625; // US fluid ounce
+export const ML_PER_LITER = 1000;
+export const KJ_PER_KCAL = 4.184; // Thermochemical calorie
+export const CREATININE_UMOL_PER_MG_DL = 88.42; // Creatinine molar mass 113.12 g/mol
+export const MS_PER_SECOND = 1000;
+export const SECONDS_PER_MINUTE = 60;
+export const MINUTES_PER_HOUR = 60;
+export const SECONDS_PER_HOUR = 3600;
+export const HOURS_PER_DAY = 24;
+export const MS_PER_MINUTE = MS_PER_SECOND * SECONDS_PER_MINUTE;
+export const MS_PER_HOUR = MS_PER_SECOND * SECONDS_PER_HOUR;
+export const MS_PER_DAY = MS_PER_HOUR * HOURS_PER_DAY;
+
+// ============================================================================
+// Quantity Constructors
+// ============================================================================
+
+export const kilograms = (value: number) => value as Kilograms;
+export const grams = (value: number) => value as Grams;
+export const pounds = (value: number) => value as Pounds;
+
+export const meters = (value: number) => value as Meters;
+export const centimeters = (value: number) => value as Centimeters;
+export const kilometers = (value: number) => value as Kilometers;
+export const inches = (value: number) => value as Inches;
+export const feet = (value: number) => value as Feet;
+export const miles = (value: number) => value as Miles;
+export const yards = (value: number) => value as Yards;
+
+export const milliliters = (value: number) => value as Milliliters;
+export const liters = (value: number) => value as Liters;
+export const fluidOunces = (value: number) => value as FluidOunces;
+
+export const kilocalories = (value: number) => value as Kilocalories;
+export const kilojoules = (value: number) => value as Kilojoules;
+
+export const milligramsPerDeciliter = (value: number) => value as MilligramsPerDeciliter;
+export const micromolesPerLiter = (value: number) => value as MicromolesPerLiter;
+
+export const seconds = (value: number) => value as Seconds;
+export const minutes = (value: number) => value as Minutes;
+export const hours = (value: number) => value as Hours;
+
+// ============================================================================
+// Mass
+// ============================================================================
+
+/**
+ * Convert weight from pounds to kilograms
+ */
+export function lbsToKg(lbs: Pounds): Kilograms {
+  return kilograms(lbs * KG_PER_LB);
+}
+
+/**
+ * Convert weight from kilograms to pounds
+ */
+export function kgToLbs(kg: Kilograms): Pounds {
+  return pounds(kg / KG_PER_LB);
+}
+
+/**
+ * Convert weight from kilograms to grams
+ */
+export function kgToGrams(kg: Kilograms): Grams {
+  return grams(kg * GRAMS_PER_KG);
+}
+
+/**
+ * Convert weight from pounds to grams
+ */
+export function lbsToGrams(lbs: Pounds): Grams {
+  return kgToGrams(lbsToKg(lbs));
+}
+
+// ============================================================================
+// Length
+// ============================================================================
+
+/**
+ * Convert length from inches to centimeters
+ */
+export function inchesToCm(value: Inches): Centimeters {
+  return centimeters(value * CM_PER_INCH);
+}
+
+/**
+ * Convert length from centimeters to inches
+ */
+export function cmToInches(cm: Centimeters): Inches {
+  return inches(cm / CM_PER_INCH);
+}
+
+/**
+ * Convert height from imperial (feet and inches) to centimeters
+ */
+export function feetInchesToCm(ft: Feet, inch: Inches): Centimeters {
+  return inchesToCm(inches(ft * INCHES_PER_FOOT + inch));
+}
+
+/**
+ * Convert height from centimeters to whole feet and rounded inches
+ * Note: inches are rounded, so values just under a foot boundary yield 12
+ */
+export function cmToFeetInches(cm: Centimeters): { feet: Feet; inches: Inches } {
+  const totalInches = cmToInches(cm);
+  return {
+    feet: feet(Math.floor(totalInches / INCHES_PER_FOOT)),
+    inches: inches(Math.round(totalInches % INCHES_PER_FOOT)),
+  };
+}
+
+/**
+ * Convert length from centimeters to meters
+ */
+export function cmToMeters(cm: Centimeters): Meters {
+  return meters(cm / CM_PER_METER);
+}
+
+/**
+ * Convert length from meters to centimeters
+ */
+export function metersToCm(m: Meters): Centimeters {
+  return centimeters(m * CM_PER_METER);
+}
+
+/**
+ * Convert distance from miles to kilometers
+ */
+export function milesToKm(mi: Miles): Kilometers {
+  return kilometers(mi * KM_PER_MILE);
+}
+
+/**
+ * Convert distance from kilometers to miles
+ */
+export function kmToMiles(km: Kilometers): Miles {
+  return miles(km / KM_PER_MILE);
+}
+
+/**
+ * Convert distance from meters to kilometers
+ */
+export function metersToKm(m: Meters): Kilometers {
+  return kilometers(m / METERS_PER_KM);
+}
+
+/**
+ * Convert distance from kilometers to meters
+ */
+export function kmToMeters(km: Kilometers): Meters {
+  return meters(km * METERS_PER_KM);
+}
+
+/**
+ * Convert distance from yards to kilometers
+ */
+export function yardsToKm(yd: Yards): Kilometers {
+  return kilometers(yd * KM_PER_YARD);
+}
+
+/**
+ * Convert distance from kilometers to yards
+ */
+export function kmToYards(km: Kilometers): Yards {
+  return yards(km / KM_PER_YARD);
+}
+
+// ============================================================================
+// Volume
+// ============================================================================
+
+/**
+ * Convert volume from US fluid ounces to milliliters
+ */
+export function flOzToMl(oz: FluidOunces): Milliliters {
+  return milliliters(oz * ML_PER_FL_OZ);
+}
+
+/**
+ * Convert volume from milliliters to US fluid ounces
+ */
+export function mlToFlOz(ml: Milliliters): FluidOunces {
+  return fluidOunces(ml / ML_PER_FL_OZ);
+}
+
+/**
+ * Convert volume from liters to milliliters
+ */
+export function litersToMl(l: Liters): Milliliters {
+  return milliliters(l * ML_PER_LITER);
+}
+
+// ============================================================================
+// Energy
+// ============================================================================
+
+/**
+ * Convert energy from kilocalories to kilojoules
+ */
+export function caloriesToKJ(kcal: Kilocalories): Kilojoules {
+  return kilojoules(kcal * KJ_PER_KCAL);
+}
+
+/**
+ * Convert energy from kilojoules to kilocalories
+ */
+export function kjToCalories(kj: Kilojoules): Kilocalories {
+  return kilocalories(kj / KJ_PER_KCAL);
+}
+
+// ============================================================================
+// Concentration
+// ============================================================================
+
+/**
+ * Convert serum creatinine from μmol/L to mg/dL
+ */
+export function creatinineUmolToMgDl(value: MicromolesPerLiter): MilligramsPerDeciliter {
+  return milligramsPerDeciliter(value / CREATININE_UMOL_PER_MG_DL);
+}
+
+/**
+ * Convert serum creatinine from mg/dL to μmol/L
+ */
+export function creatinineMgDlToUmol(value: MilligramsPerDeciliter): MicromolesPerLiter {
+  return micromolesPerLiter(value * CREATININE_UMOL_PER_MG_DL);
+}
+
+// ============================================================================
+// Time
+// ============================================================================
+
+/**
+ * Convert time from minutes to seconds
+ */
+export function minutesToSeconds(min: Minutes): Seconds {
+  return seconds(min * SECONDS_PER_MINUTE);
+}
+
+/**
+ * Convert time from hours to seconds
+ */
+export function hoursToSeconds(h: Hours): Seconds {
+  return seconds(h * SECONDS_PER_HOUR);
+}
+
+/**
+ * Convert time from seconds to minutes
+ */
+export function secondsToMinutes(s: Seconds): Minutes {
+  return minutes(s / SECONDS_PER_MINUTE);
+}
+
+/**
+ * Convert time from seconds to hours
+ */
+export function secondsToHours(s: Seconds): Hours {
+  return hours(s / SECONDS_PER_HOUR);
+}
+
+/**
+ * Convert time from hours to minutes
+ */
+export function hoursToMinutes(h: Hours): Minutes {
+  return minutes(h * MINUTES_PER_HOUR);
+}
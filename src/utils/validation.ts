@@ -0,0 +1,160 @@
+/**
+ * Validation Utilities
+ *
+ * Every calculator utility exports a validate*Input() function returning a
+ * ValidationResult. Errors are attached to an input field and carry a code
+ * that maps to the translation key `validation.<code>` in common.json, so the
+ * form can show a localized message next to the offending field.
+ *
+ * Calculation functions throw a ValidationError with the same structure when
+ * called with invalid input, never a plain English string.
+ */
+
+export type ValidationErrorCode =
+  | 'required'
+  | 'positive'
+  | 'nonNegative'
+  | 'nonZero'
+  | 'range'
+  | 'min'
+  | 'future'
+  | 'invalid';
+
+export interface FieldError {
+  /** Input field the error belongs to */
+  field: string;
+  code: ValidationErrorCode;
+  /** Values interpolated into the message (e.g. { min: 18, max: 120 }) */
+  params?: Record<string, number | string>;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: FieldError[];
+}
+
+/**
+ * Error thrown by calculation functions for invalid input
+ */
+export class ValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(errors.map(error => `${error.field}: ${error.code}`).join(', '));
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Translation key for an error code
+ */
+export function getErrorKey(code: ValidationErrorCode): string {
+  return `validation.${code}`;
+}
+
+/**
+ * Create a validation result from a list of errors
+ */
+export function toValidationResult(errors: FieldError[]): ValidationResult {
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Throw a ValidationError unless the result is valid
+ */
+export function assertValid(result: ValidationResult): void {
+  if (!result.valid) {
+    throw new ValidationError(result.errors);
+  }
+}
+
+/**
+ * Throw a ValidationError for a single field
+ */
+export function invalid(
+  field: string,
+  code: ValidationErrorCode,
+  params?: FieldError['params']
+): never {
+  throw new ValidationError([{ field, code, ...(params && { params }) }]);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (typeof value === 'number' && isNaN(value));
+}
+
+/**
+ * Collects field errors; each check records at most one error per field
+ */
+export class Validator {
+  private readonly errors: FieldError[] = [];
+
+  private add(field: string, code: ValidationErrorCode, params?: FieldError['params']): this {
+    if (!this.errors.some(error => error.field === field)) {
+      this.errors.push({ field, code, ...(params && { params }) });
+    }
+    return this;
+  }
+
+  /** Value must be present */
+  required(field: string, value: unknown): this {
+    return isMissing(value) ? this.add(field, 'required') : this;
+  }
+
+  /** Value must be present and greater than 0 */
+  positive(field: string, value: number | undefined): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return value! > 0 ? this : this.add(field, 'positive');
+  }
+
+  /** Value must be present and 0 or greater */
+  nonNegative(field: string, value: number | undefined): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return value! >= 0 ? this : this.add(field, 'nonNegative');
+  }
+
+  /** Value must be present and not 0 */
+  nonZero(field: string, value: number | undefined): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return value !== 0 ? this : this.add(field, 'nonZero');
+  }
+
+  /** Value must be present and within [min, max] */
+  range(field: string, value: number | undefined, min: number, max: number): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return value! >= min && value! <= max ? this : this.add(field, 'range', { min, max });
+  }
+
+  /** Value must be present and at least min */
+  min(field: string, value: number | undefined, min: number): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return value! >= min ? this : this.add(field, 'min', { min });
+  }
+
+  /** Date must be present, valid and not after now */
+  pastDate(field: string, value: Date | undefined, now: Date = new Date()): this {
+    if (!this.date(field, value).isValid(field)) return this;
+    return value!.getTime() <= now.getTime() ? this : this.add(field, 'future');
+  }
+
+  /** Date must be present and valid */
+  date(field: string, value: Date | undefined): this {
+    if (isMissing(value)) return this.add(field, 'required');
+    return isNaN(value!.getTime()) ? this.add(field, 'invalid') : this;
+  }
+
+  /** Record an error when the condition holds */
+  check(condition: boolean, field: string, code: ValidationErrorCode, params?: FieldError['params']): this {
+    return condition ? this.add(field, code, params) : this;
+  }
+
+  /** Whether no error has been recorded for a field */
+  isValid(field: string): boolean {
+    return !this.errors.some(error => error.field === field);
+  }
+
+  result(): ValidationResult {
+    return toValidationResult([...this.errors]);
+  }
+}
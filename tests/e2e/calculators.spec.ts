@@ -8,11 +8,13 @@
  */
 
 import { test, expect } from '@playwright/test';
-import { calculators } from '../../src/config/calculators';
+import type { handoffs } from '../../src/config/calculator-handoffs';
+import type { CalculatorId } from '../../src/config/calculators';
+import type { Locale } from '../../src/config/languages';
 import { getCalculatorUrl } from '../helpers/url-builder';
 
 // Sample calculators to test (representative sample, not all 36)
-const sampleCalculators = [
+const sampleCalculators: CalculatorId[] = [
   'bmi',           // Most common
   'army-body-fat', // Recently created (Batch 1-3)
   'bmr',           // Recently created (Batch 1-3)
@@ -22,13 +24,13 @@ const sampleCalculators = [
 ];
 
 // Sample languages (representative, not all 12)
-const sampleLanguages = ['en', 'es', 'de', 'pt'];
+const sampleLanguages: Locale[] = ['en', 'es', 'de', 'pt'];
 
 test.describe('Calculator Rendering', () => {
   for (const calculatorId of sampleCalculators) {
     for (const lang of sampleLanguages) {
       test(`[${calculatorId}] renders correctly in [${lang}]`, async ({ page }) => {
-        const url = getCalculatorUrl(calculatorId as any, lang as any);
+        const url = getCalculatorUrl(calculatorId, lang);
 
         // Navigate to calculator page
         const response = await page.goto(url);
@@ -59,7 +61,8 @@ test.describe('Calculator Functionality Smoke Test', () => {
   test('BMI calculator can calculate result', async ({ page }) => {
     await page.goto(getCalculatorUrl('bmi', 'en'));
 
-    // Fill in form (all required fields)
+    // Fill in form (all required fields), in metric units
+    await page.check('input[name="unitSystem"][value="metric"]');
     await page.fill('input[name="age"]', '30');
     await page.selectOption('select[name="gender"]', 'male');
     await page.fill('input[name="height"]', '170');
@@ -79,4 +82,166 @@ test.describe('Calculator Functionality Smoke Test', () => {
     const resultsText = await results.innerText();
     expect(resultsText).toMatch(/\d+/);
   });
+
+  test('BMI results appear instantly and follow input changes', async ({ page }) => {
+    await page.goto(getCalculatorUrl('bmi', 'en'));
+
+    // English pages start in imperial units
+    await page.check('input[name="unitSystem"][value="metric"]');
+    await page.fill('input[name="age"]', '30');
+    await page.fill('input[name="height"]', '180');
+    await page.fill('input[name="weight"]', '81');
+    await page.click('button[type="submit"]');
+
+    // Results are computed synchronously, without a loading delay
+    await expect(page.locator('#bmi-value')).toHaveText('25', { timeout: 500 });
+
+    // Later edits update the result without submitting again
+    await page.fill('input[name="weight"]', '72.9');
+    await expect(page.locator('#bmi-value')).toHaveText('22.5', { timeout: 1000 });
+  });
+});
+
+test.describe('Calculator Validation', () => {
+  test('BMI calculator shows localized errors next to invalid fields', async ({ page }) => {
+    await page.goto(getCalculatorUrl('bmi', 'de'));
+
+    // Submit with only the weight filled in
+    await page.fill('input[name="weight"]', '70');
+    await page.click('button[type="submit"]');
+
+    // The empty height field is marked invalid and described by a German message
+    const height = page.locator('input[name="height"]');
+    await expect(height).toHaveAttribute('aria-invalid', 'true');
+    const errorId = await height.getAttribute('aria-describedby');
+    await expect(page.locator(`[id="${errorId}"]`)).toHaveText('Dieses Feld ist erforderlich');
+
+    // The valid field has no error and no result is shown
+    await expect(page.locator('input[name="weight"]')).not.toHaveAttribute('aria-invalid', 'true');
+    await expect(page.locator('#results')).toBeHidden();
+  });
+});
+
+test.describe('Shareable Results', () => {
+  test('BMI calculator restores imperial inputs from the URL', async ({ page }) => {
+    await page.goto(`${getCalculatorUrl('bmi', 'en')}?v=1&unitSystem=imperial&age=30&gender=male&height=70&weight=154`);
+
+    // Height in inches is split back into feet and inches
+    await expect(page.locator('input[name="heightFt"]')).toHaveValue('5');
+    await expect(page.locator('input[name="heightIn"]')).toHaveValue('10');
+    await expect(page.locator('input[name="weight"]')).toHaveValue('154');
+
+    // The shared result is calculated and the link is kept for the share buttons
+    await expect(page.locator('#results')).toBeVisible();
+    expect(page.url()).toContain('unitSystem=imperial');
+    expect(page.url()).toContain('height=70');
+  });
+
+  test('BMI calculator round-trips a share link with fractional inches', async ({ page }) => {
+    await page.goto(`${getCalculatorUrl('bmi', 'en')}?v=1&unitSystem=imperial&age=30&gender=male&height=70.5&weight=154`);
+
+    // The inches keep their decimal and the form still validates
+    await expect(page.locator('input[name="heightIn"]')).toHaveValue('10.5');
+    expect(await page.locator('form').first().evaluate(form => (form as HTMLFormElement).checkValidity())).toBe(true);
+    await expect(page.locator('#results')).toBeVisible();
+
+    // Live results keep following edits, and the link shares the same height
+    const bmi = await page.locator('#bmi-value').innerText();
+    await page.fill('input[name="weight"]', '170');
+    await expect(page.locator('#bmi-value')).not.toHaveText(bmi);
+    expect(page.url()).toContain('height=70.5');
+    expect(page.url()).toContain('weight=170');
+  });
+});
+
+test.describe('Calculation History', () => {
+  test('Heart rate calculator saves calculations and plots resting heart rate once enabled', async ({ page }) => {
+    await page.goto(getCalculatorUrl('heart-rate', 'en'));
+    const history = page.locator('[data-calculation-history]');
+
+    // Nothing is saved before opting in
+    await page.fill('input[name="age"]', '30');
+    await page.fill('input[name="restingHeartRate"]', '70');
+    await page.click('#heart-rate-form button[type="submit"]');
+    await history.locator('summary').click();
+    await expect(history.locator('tbody tr')).toHaveCount(0);
+
+    await history.locator('[data-history-toggle]').check();
+    await page.click('#heart-rate-form button[type="submit"]');
+    await page.fill('input[name="restingHeartRate"]', '64');
+    await page.click('#heart-rate-form button[type="submit"]');
+
+    // Two entries, newest first, and a trend chart
+    await expect(history.locator('tbody tr')).toHaveCount(2);
+    await expect(history.locator('tbody tr').first()).toContainText('64');
+    await expect(history.locator('[data-history-trends] svg')).toHaveCount(1);
+
+    // Entries can be deleted
+    await history.locator('tbody tr').first().getByRole('button').click();
+    await expect(history.locator('tbody tr')).toHaveCount(1);
+  });
+});
+
+test.describe('Personal Profile', () => {
+  test('Details saved in one calculator are pre-filled in another', async ({ page }) => {
+    await page.goto(getCalculatorUrl('tdee', 'en'));
+    await page.fill('input[name="age"]', '42');
+    await page.selectOption('select[name="gender"]', 'female');
+    await page.fill('input[name="heightCm"]', '168');
+    await page.fill('input[name="weightKg"]', '64');
+    await page.click('#tdee-form button[type="submit"]');
+
+    // Saving is offered after the calculation and nothing is stored before accepting
+    await page.locator('[data-profile-action="save"]').click();
+
+    await page.goto(getCalculatorUrl('calorie', 'en'));
+    await expect(page.locator('input[name="age"]')).toHaveValue('42');
+    await expect(page.locator('select[name="gender"]')).toHaveValue('female');
+    await expect(page.locator('input[name="heightCm"]')).toHaveValue('168');
+    await expect(page.locator('input[name="weightKg"]')).toHaveValue('64');
+  });
+
+  test('Profile is only filled in on request where a privacy note applies', async ({ page }) => {
+    await page.goto(getCalculatorUrl('calorie', 'sv'));
+    await page.evaluate(() => localStorage.setItem('profile', JSON.stringify({ age: 42, gender: 'female' })));
+    await page.reload();
+
+    await expect(page.locator('input[name="age"]')).toHaveValue('');
+    await page.locator('[data-profile-action="fill"]').click();
+    await expect(page.locator('input[name="age"]')).toHaveValue('42');
+  });
+});
+
+test.describe('Localized Messages', () => {
+  test('Sleep calculator uses Russian plural forms', async ({ page }) => {
+    await page.goto(getCalculatorUrl('sleep', 'ru'));
+    await page.fill('input[name="bedtime"]', '22:00');
+    await page.click('#sleep-form button[type="submit"]');
+
+    // 4 and 6 cycles take different plural forms
+    const cycles = page.locator('.cycle-info');
+    await expect(cycles.first()).toHaveText('4 цикла');
+    await expect(cycles.last()).toHaveText('6 циклов');
+  });
+});
+
+// Shared inputs of every calculator that hands its result on, with the target linked in Spanish
+const handoffSources: Record<(typeof handoffs)[number]['from'], { query: string; target: CalculatorId }> = {
+  'body-fat': { query: 'age=30&gender=male&heightCm=180&weightKg=80&neckCm=38&waistCm=85&method=navy', target: 'bmr' },
+  'bmr': { query: 'age=30&gender=male&heightCm=180&weightKg=80', target: 'tdee' },
+  'tdee': { query: 'age=30&gender=male&heightCm=180&weightKg=80&activityLevel=moderate', target: 'macro' },
+  'period': { query: 'lastPeriodDate=2024-03-01&cycleLength=30&periodLength=5', target: 'due-date' },
+};
+
+test.describe('Result Hand-offs', () => {
+  for (const [calculatorId, { query, target }] of Object.entries(handoffSources)) {
+    test(`[${calculatorId}] links its result to [${target}]`, async ({ page }) => {
+      await page.goto(`${getCalculatorUrl(calculatorId as CalculatorId, 'es')}?v=1&${query}`);
+
+      // The restored calculation appends pre-filled links to its results
+      const link = page.locator(`#results .result-handoffs a[data-handoff="${target}"]`);
+      await expect(link).toBeVisible();
+      expect(await link.getAttribute('href')).toContain('v=1');
+    });
+  }
 });
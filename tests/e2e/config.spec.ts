@@ -5,13 +5,16 @@
  * - All calculators in config have routes
  * - All calculators have translation files
  * - All calculator components exist as files
+ * - Slugs and categories derived from the registry are complete
  *
  * Coverage: ~10 tests (fast, no browser navigation)
  */
 
 import { test, expect } from '@playwright/test';
-import { calculators } from '../../src/config/calculators';
-import { languages } from '../../src/config/languages';
+import { calculators, getCalculatorComponentName } from '../../src/config/calculators';
+import { categories } from '../../src/config/calculator-categories';
+import { calculatorCategories } from '../../src/config/categories';
+import { getSupportedLocales } from '../../src/config/languages';
 import { getSlug } from '../../src/config/routes';
 import { existsSync } from 'fs';
 import { join } from 'path';
@@ -19,11 +22,7 @@ import { join } from 'path';
 test.describe('Configuration Validation', () => {
   test('All calculators have component files', () => {
     for (const calculatorId of calculators) {
-      // Convert calculator-id to CalculatorIdCalculator.astro format
-      const componentName = calculatorId
-        .split('-')
-        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-        .join('') + 'Calculator.astro';
+      const componentName = getCalculatorComponentName(calculatorId) + '.astro';
 
       const componentPath = join(process.cwd(), 'src', 'components', 'calculators', componentName);
       expect(existsSync(componentPath), `Component file should exist: ${componentPath}`).toBe(true);
@@ -32,8 +31,8 @@ test.describe('Configuration Validation', () => {
 
   test('All calculators have route configurations', () => {
     for (const calculatorId of calculators) {
-      for (const lang of Object.keys(languages)) {
-        const slug = getSlug(calculatorId, lang as any);
+      for (const lang of getSupportedLocales()) {
+        const slug = getSlug(calculatorId, lang);
         expect(slug, `Calculator ${calculatorId} should have a slug for language ${lang}`).toBeTruthy();
         expect(slug.length, `Slug for ${calculatorId} in ${lang} should not be empty`).toBeGreaterThan(0);
       }
@@ -42,7 +41,7 @@ test.describe('Configuration Validation', () => {
 
   test('All calculators have translation files for all languages', () => {
     for (const calculatorId of calculators) {
-      for (const lang of Object.keys(languages)) {
+      for (const lang of getSupportedLocales()) {
         const translationPath = join(process.cwd(), 'public', 'locales', lang, 'calculators', `${calculatorId}.json`);
         expect(existsSync(translationPath), `Translation file should exist: ${translationPath}`).toBe(true);
       }
@@ -53,4 +52,20 @@ test.describe('Configuration Validation', () => {
     const uniqueIds = new Set(calculators);
     expect(uniqueIds.size, 'All calculator IDs should be unique').toBe(calculators.length);
   });
+
+  test('No duplicate slugs within a language', () => {
+    for (const lang of getSupportedLocales()) {
+      const slugs = calculators.map(calculatorId => getSlug(calculatorId, lang));
+      expect(new Set(slugs).size, `Slugs for ${lang} should be unique`).toBe(slugs.length);
+    }
+  });
+
+  test('Every calculator appears in exactly one category', () => {
+    const indexed = categories.flatMap(category => category.calculators);
+    expect(indexed.sort(), 'Index page categories should list each calculator once').toEqual([...calculators].sort());
+
+    for (const calculatorId of calculators) {
+      expect(calculatorCategories[calculatorId], `Calculator ${calculatorId} should have a category`).toBeTruthy();
+    }
+  });
 });
@@ -62,7 +62,7 @@ export function getAlternateUrls(
   calculatorId: CalculatorId,
   excludeLocale?: Locale
 ): Record<Locale, string> {
-  const allLocales: Locale[] = ['es', 'en', 'pt', 'fr', 'hi', 'de', 'it', 'pl', 'nl', 'tr', 'sv', 'ru'];
+  const allLocales: Locale[] = ['es', 'en', 'pt', 'fr', 'hi', 'de', 'it', 'pl', 'nl', 'tr', 'sv', 'ru', 'ar'];
   const locales = excludeLocale
     ? allLocales.filter(l => l !== excludeLocale)
     : allLocales;
@@ -0,0 +1,99 @@
+/**
+ * Calculator Hand-off Tests
+ *
+ * A hand-off's share parameters decode with the target's schema to an input
+ * that reproduces the source's values, in the unit system it was used in.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CalculatorId } from '@/config/calculators';
+import { getHandoffParams, getHandoffs, handoffs, type CalculatorHandoff } from '@/config/calculator-handoffs';
+import { calculateBMR, type BMRInput } from '@/utils/calculators/bmr';
+import { calculateBodyFat } from '@/utils/calculators/bodyFat';
+import { calculateMacroMetrics, type MacroInput } from '@/utils/calculators/macro';
+import { calculatePeriodMetrics } from '@/utils/calculators/period';
+import { calculateTDEE, type TDEEInput } from '@/utils/calculators/tdee';
+import { decodeShareParams } from '@/utils/shareUrl';
+
+function getHandoff<From extends CalculatorId, To extends CalculatorId>(from: From, to: To): CalculatorHandoff<From, To> {
+  return handoffs.find(handoff => handoff.from === from && handoff.to === to) as unknown as CalculatorHandoff<From, To>;
+}
+
+const tdeeInput: TDEEInput = {
+  age: 30,
+  gender: 'male',
+  heightCm: 175,
+  weightKg: 70,
+  activityLevel: 'very-active',
+};
+
+describe('getHandoffParams', () => {
+  it('passes the body fat percentage to the Katch-McArdle field of BMR', () => {
+    const handoff = getHandoff('body-fat', 'bmr');
+    const input = { age: 30, gender: 'male', heightCm: 180, weightKg: 80, neckCm: 38, waistCm: 85, method: 'navy' } as const;
+    const result = calculateBodyFat(input);
+
+    const shared = decodeShareParams(handoff.schema, getHandoffParams(handoff, { input, result, unitSystem: 'metric' }));
+
+    expect(shared?.input).toEqual({ age: 30, gender: 'male', heightCm: 180, weightKg: 80, bodyFatPercentage: result.bodyFatPercentage });
+    expect(calculateBMR(shared!.input as BMRInput).katch).not.toBeNull();
+  });
+
+  it('opens macro with the TDEE of the source', () => {
+    const handoff = getHandoff('tdee', 'macro');
+    const result = calculateTDEE(tdeeInput);
+
+    const shared = decodeShareParams(handoff.schema, getHandoffParams(handoff, { input: tdeeInput, result, unitSystem: 'metric' }));
+    const macro = calculateMacroMetrics({ goal: 'maintain', dietType: 'balanced', ...shared!.input } as MacroInput);
+
+    expect(shared?.input).toMatchObject({ height: 175, weight: 70, activityLevel: 'veryActive', unitSystem: 'metric' });
+    expect(macro.tdee).toBe(result.tdee);
+  });
+
+  it('converts metric values for imperial raw schemas', () => {
+    const handoff = getHandoff('tdee', 'protein');
+    const result = calculateTDEE(tdeeInput);
+
+    const shared = decodeShareParams(handoff.schema, getHandoffParams(handoff, { input: tdeeInput, result, unitSystem: 'imperial' }));
+
+    expect(shared?.unitSystem).toBe('imperial');
+    expect(shared?.input).toMatchObject({ activityLevel: 'very_active', unitSystem: 'imperial' });
+    expect(shared?.input.weight).toBeCloseTo(154.32, 2);
+  });
+
+  it('keeps imperial display for metric schemas', () => {
+    const handoff = getHandoff('bmr', 'tdee');
+    const input: BMRInput = { age: 40, gender: 'female', heightCm: 165, weightKg: 60 };
+
+    const params = getHandoffParams(handoff, { input, result: calculateBMR(input), unitSystem: 'imperial' });
+
+    expect(params.get('unitSystem')).toBe('imperial');
+    expect(params.get('heightCm')).toBe('165');
+  });
+
+  it('dates a due date from the last period', () => {
+    const handoff = getHandoff('period', 'due-date');
+    const input = { lastPeriodDate: new Date('2024-03-01'), cycleLength: 30, periodLength: 5 };
+    const result = calculatePeriodMetrics(input);
+
+    const params = getHandoffParams(handoff, { input, result, unitSystem: 'metric' });
+
+    expect(params.get('method')).toBe('lmp');
+    expect(params.get('date')).toBe('2024-03-01');
+    expect(params.get('cycleLength')).toBe('30');
+  });
+});
+
+describe('getHandoffs', () => {
+  it('lists the hand-offs of a calculator', () => {
+    expect(getHandoffs('tdee', 'en').map(handoff => handoff.to)).toEqual(['macro', 'protein']);
+    expect(getHandoffs('bmi', 'en')).toEqual([]);
+  });
+
+  it('follows the BMR regional features', () => {
+    // Hindi BMR has no body fat field and no macro link
+    expect(getHandoffs('body-fat', 'hi')).toEqual([]);
+    expect(getHandoffs('bmr', 'hi').map(handoff => handoff.to)).toEqual(['tdee']);
+    expect(getHandoffs('bmr', 'es').map(handoff => handoff.to)).toEqual(['tdee', 'macro']);
+  });
+});
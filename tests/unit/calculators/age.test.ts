@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateAge,
+  calculateAgeDifference,
+  calculateDateAtAge,
+  calculateDateDifference,
+  validateAgeInput,
+} from '@/utils/calculators/age';
+
+describe('Age', () => {
+  it('counts completed years, months and days', () => {
+    const result = calculateAge({ birthDate: new Date(1990, 4, 15), targetDate: new Date(2024, 2, 10) });
+    // February 2024 has 29 days: 10 March is 24 days after 15 February
+    expect(result).toMatchObject({ years: 33, months: 9, days: 24, totalMonths: 405, totalDays: 12353, totalWeeks: 1764 });
+    expect(result.totalHours).toBe(12353 * 24);
+    expect(result.nextBirthday).toMatchObject({ date: new Date(2024, 4, 15), daysUntil: 66, weekday: 'Wednesday' });
+  });
+
+  it('rolls the next birthday over once it has passed', () => {
+    const { nextBirthday } = calculateAge({ birthDate: new Date(1990, 0, 1), targetDate: new Date(2024, 5, 1) });
+    expect(nextBirthday.date).toEqual(new Date(2025, 0, 1));
+  });
+
+  it('is symmetric for age differences', () => {
+    const a = new Date(1985, 6, 4);
+    const b = new Date(1992, 1, 29);
+    expect(calculateAgeDifference({ date1: a, date2: b })).toEqual(calculateAgeDifference({ date1: b, date2: a }));
+    expect(calculateAgeDifference({ date1: a, date2: b })).toMatchObject({ years: 6, months: 7, days: 25 });
+  });
+
+  it('finds the date at a given age', () => {
+    expect(calculateDateAtAge({ birthDate: new Date(2000, 0, 31), targetYears: 18, targetMonths: 6, targetDays: 1 }))
+      .toEqual(new Date(2018, 6, 32));
+  });
+
+  it('never returns negative components and agrees with the date at that age', () => {
+    const day = fc.date({ min: new Date(1920, 0, 1), max: new Date(2030, 0, 1), noInvalidDate: true })
+      .map(date => new Date(date.getFullYear(), date.getMonth(), date.getDate()));
+    fc.assert(
+      fc.property(day, day, (first, second) => {
+        const [start, end] = first <= second ? [first, second] : [second, first];
+        const { years, months, days } = calculateDateDifference(start, end);
+        return years >= 0 && months >= 0 && months < 12 && days >= 0 && days < 31 &&
+          calculateDateAtAge({ birthDate: start, targetYears: years, targetMonths: months }) <= end;
+      })
+    );
+  });
+
+  it('rejects birth dates after the target date', () => {
+    expect(validateAgeInput({ birthDate: new Date(2030, 0, 1), targetDate: new Date(2024, 0, 1) }).valid).toBe(false);
+  });
+});
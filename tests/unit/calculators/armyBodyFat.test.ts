@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateArmyBodyFat, calculateArmyBodyFatMetrics, getMaxAllowedBodyFat } from '@/utils/calculators/armyBodyFat';
+import { ValidationError } from '@/utils/validation';
+
+describe('Army body fat', () => {
+  it('matches the AR 600-9 circumference equations', () => {
+    // 86.010 × log10(34 − 15) − 70.041 × log10(70) + 36.76
+    expect(calculateArmyBodyFat(70, 15, 34, undefined, 'male', 'imperial')).toBeCloseTo(17.513, 3);
+    // 163.205 × log10(30 + 38 − 13) − 97.684 × log10(65) − 78.387
+    expect(calculateArmyBodyFat(65, 13, 30, 38, 'female', 'imperial')).toBeCloseTo(28.556, 3);
+  });
+
+  it('converts metric measurements to inches', () => {
+    expect(calculateArmyBodyFat(178, 38, 86, undefined, 'male', 'metric')).toBeCloseTo(17.277, 3);
+  });
+
+  it('compares the result with the standard for the age group', () => {
+    expect(getMaxAllowedBodyFat(25, 'male')).toEqual({ max: 22, ageGroup: '21-27' });
+    expect(getMaxAllowedBodyFat(45, 'female')).toEqual({ max: 36, ageGroup: '40+' });
+    expect(calculateArmyBodyFatMetrics({ age: 19, gender: 'male', height: 70, neck: 15, waist: 34, unitSystem: 'imperial' }))
+      .toEqual({ bodyFatPercentage: 17.5, maxAllowedPercentage: 20, standard: 'pass', ageGroup: '17-20' });
+  });
+
+  it('rises with waist circumference', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 150, max: 200, noNaN: true }),
+        fc.double({ min: 30, max: 45, noNaN: true }),
+        fc.double({ min: 60, max: 130, noNaN: true }),
+        (height, neck, waist) =>
+          calculateArmyBodyFat(height, neck, waist + 1, undefined, 'male', 'metric') >
+            calculateArmyBodyFat(height, neck, waist, undefined, 'male', 'metric') &&
+          calculateArmyBodyFat(height, neck, waist + 1, 100, 'female', 'metric') >
+            calculateArmyBodyFat(height, neck, waist, 100, 'female', 'metric')
+      )
+    );
+  });
+
+  it('requires the hip measurement for women', () => {
+    expect(() => calculateArmyBodyFatMetrics({ age: 25, gender: 'female', height: 165, neck: 33, waist: 75, unitSystem: 'metric' }))
+      .toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { applyDrinkPreset, calculateBAC, DRINK_PRESETS, findDrinkType, type BACInput } from '@/utils/calculators/bac';
+
+const fourBeers: BACInput = {
+  weight: 80,
+  weightUnit: 'kg',
+  gender: 'male',
+  drinks: 4,
+  drinkVolume: DRINK_PRESETS.beer.volume,
+  volumeUnit: DRINK_PRESETS.beer.volumeUnit,
+  alcoholContent: DRINK_PRESETS.beer.alcoholContent,
+  hoursDrinking: 2,
+};
+
+describe('BAC', () => {
+  it('matches the Widmark formula', () => {
+    // 56.0 g of ethanol / (80 000 g × 0.68) × 100 − 0.015 × 2 h
+    const result = calculateBAC(fourBeers);
+    expect(result.bac).toBeCloseTo(0.0729, 4);
+    expect(result).toMatchObject({
+      bacFormatted: '0.073%',
+      timeUntilSober: 4.9,
+      impairmentLevel: 'moderate',
+      isOverLegalLimit: false,
+    });
+  });
+
+  it('uses the lower distribution ratio for women', () => {
+    // Two glasses of wine, 60 kg: 28.0 g / (60 000 g × 0.55) × 100 − 0.015
+    const result = calculateBAC({
+      ...fourBeers,
+      weight: 60,
+      gender: 'female',
+      drinks: 2,
+      drinkVolume: DRINK_PRESETS.wine.volume,
+      alcoholContent: DRINK_PRESETS.wine.alcoholContent,
+      hoursDrinking: 1,
+    });
+    expect(result.bac).toBeCloseTo(0.0698, 4);
+    expect(result.timeUntilSober).toBe(4.7);
+  });
+
+  it('gives the same result for pounds and kilograms', () => {
+    const pounds = calculateBAC({ ...fourBeers, weight: 80 / 0.45359237, weightUnit: 'lb' });
+    expect(pounds.bac).toBeCloseTo(calculateBAC(fourBeers).bac, 10);
+  });
+
+  it('rises with drinks, falls with body weight and time, and never goes negative', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 15 }),
+        fc.double({ min: 40, max: 150, noNaN: true }),
+        fc.double({ min: 0, max: 24, noNaN: true }),
+        (drinks, weight, hours) => {
+          const bac = calculateBAC({ ...fourBeers, drinks, weight, hoursDrinking: hours }).bac;
+          return bac >= 0 &&
+            calculateBAC({ ...fourBeers, drinks: drinks + 1, weight, hoursDrinking: hours }).bac >= bac &&
+            calculateBAC({ ...fourBeers, drinks, weight: weight + 10, hoursDrinking: hours }).bac <= bac &&
+            calculateBAC({ ...fourBeers, drinks, weight, hoursDrinking: hours + 1 }).bac <= bac;
+        }
+      )
+    );
+  });
+});
+
+describe('drink presets', () => {
+  it('takes the volume and strength from the preset drink', () => {
+    const custom = { ...fourBeers, drinkVolume: 330, volumeUnit: 'ml' as const, alcoholContent: 7 };
+
+    expect(applyDrinkPreset({ ...custom, drinkType: 'wine' })).toMatchObject({ drinkVolume: 5, volumeUnit: 'oz', alcoholContent: 12 });
+    expect(applyDrinkPreset({ ...custom, drinkType: 'custom' })).toEqual({ ...custom, drinkType: 'custom' });
+    expect(applyDrinkPreset(custom)).toEqual(custom);
+  });
+
+  it('recognizes preset drinks', () => {
+    expect(findDrinkType(fourBeers)).toBe('beer');
+    expect(findDrinkType({ ...fourBeers, alcoholContent: 7 })).toBe('custom');
+  });
+});
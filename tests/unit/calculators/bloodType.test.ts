@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateBloodTypeProbabilities,
+  getBloodTypeInfo,
+  type BloodType,
+  type RhFactor,
+} from '@/utils/calculators/bloodType';
+
+const bloodType = fc.constantFrom<BloodType>('A', 'B', 'AB', 'O');
+const rh = fc.constantFrom<RhFactor>('+', '-');
+
+function probabilities(mother: `${BloodType}${RhFactor}`, father: `${BloodType}${RhFactor}`) {
+  const result = calculateBloodTypeProbabilities({
+    motherBloodType: mother.slice(0, -1) as BloodType,
+    motherRh: mother.slice(-1) as RhFactor,
+    fatherBloodType: father.slice(0, -1) as BloodType,
+    fatherRh: father.slice(-1) as RhFactor,
+  });
+  return Object.fromEntries(result.possibleBloodTypes.map(type => [`${type.bloodType}${type.rh}`, type.probability]));
+}
+
+describe('Blood type inheritance', () => {
+  it('follows Mendelian ABO and Rh inheritance', () => {
+    expect(probabilities('O-', 'O-')).toEqual({ 'O-': 100 });
+    expect(probabilities('AB-', 'O-')).toEqual({ 'A-': 50, 'B-': 50 });
+    // Equally likely genotypes AA/AO × BB/BO: AB 9/16, A 3/16, B 3/16, O 1/16; Rh− 1/16
+    expect(probabilities('A+', 'B+')).toMatchObject({ 'AB+': 52.73, 'O+': 5.86, 'O-': 0.39 });
+  });
+
+  it('gives probabilities that add up to 100%', () => {
+    fc.assert(
+      fc.property(bloodType, rh, bloodType, rh, (motherBloodType, motherRh, fatherBloodType, fatherRh) => {
+        const { possibleBloodTypes } = calculateBloodTypeProbabilities({ motherBloodType, motherRh, fatherBloodType, fatherRh });
+        const total = possibleBloodTypes.reduce((sum, type) => sum + type.probability, 0);
+        return Math.abs(total - 100) < 0.05;
+      })
+    );
+  });
+
+  it('lists consistent donor and recipient compatibility', () => {
+    expect(getBloodTypeInfo('O', '-').canDonateTo).toHaveLength(8);
+    expect(getBloodTypeInfo('AB', '+').canReceiveFrom).toHaveLength(8);
+
+    fc.assert(
+      fc.property(bloodType, rh, bloodType, rh, (donorType, donorRh, recipientType, recipientRh) =>
+        getBloodTypeInfo(donorType, donorRh).canDonateTo.includes(`${recipientType}${recipientRh}`) ===
+          getBloodTypeInfo(recipientType, recipientRh).canReceiveFrom.includes(`${donorType}${donorRh}`)
+      )
+    );
+  });
+});
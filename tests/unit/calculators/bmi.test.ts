@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateBMI,
+  calculateBMIMetrics,
+  calculatePonderalIndex,
+  getBMICategory,
+  getHealthyWeightRange,
+  validateBMIInput,
+} from '@/utils/calculators/bmi';
+import { ValidationError } from '@/utils/validation';
+
+describe('BMI', () => {
+  it('divides weight by height squared (Quetelet index)', () => {
+    expect(calculateBMI(70, 1.75)).toBeCloseTo(22.857, 3);
+    expect(calculateBMIMetrics({ age: 30, gender: 'male', height: 180, weight: 81, unitSystem: 'metric' })).toMatchObject({
+      bmi: 25,
+      bmiPrime: 1,
+      ponderalIndex: 13.9,
+      category: 'pre-obese',
+    });
+  });
+
+  it('gives the same BMI for imperial inputs', () => {
+    // 5 ft 10 in, 154 lb ≈ 177.8 cm, 69.85 kg
+    const imperial = calculateBMIMetrics({ age: 30, gender: 'male', height: 70, weight: 154, unitSystem: 'imperial' });
+    expect(imperial.bmi).toBe(22.1);
+    expect(imperial.healthyWeightRange).toEqual({ min: 128.9, max: 173.5 });
+  });
+
+  it('applies the WHO and Asian cut-off points', () => {
+    expect(getBMICategory(15.9)).toBe('severe-thinness');
+    expect(getBMICategory(18.5)).toBe('normal');
+    expect(getBMICategory(40)).toBe('obese-iii');
+    expect(getBMICategory(24, 'WHO_4')).toBe('normal');
+    // WHO expert consultation (Lancet 2004): 23 and 27.5 are public health action points for Asia
+    expect(getBMICategory(24, 'ASIAN')).toBe('overweight');
+    expect(getBMICategory(25, 'ASIAN')).toBe('obese');
+  });
+
+  it('computes the healthy weight range for a height', () => {
+    expect(getHealthyWeightRange(1.8)).toEqual({ min: 59.9, max: 80.7 });
+    expect(getHealthyWeightRange(1.8, 'metric', 'ASIAN')).toEqual({ min: 59.9, max: 74.2 });
+  });
+
+  it('increases with weight and decreases with height', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 20, max: 300, noNaN: true }),
+        fc.double({ min: 0.1, max: 50, noNaN: true }),
+        fc.double({ min: 1.2, max: 2.2, noNaN: true }),
+        (weight, gain, height) =>
+          calculateBMI(weight + gain, height) > calculateBMI(weight, height) &&
+          calculateBMI(weight, height + 0.05) < calculateBMI(weight, height) &&
+          calculatePonderalIndex(weight + gain, height) > calculatePonderalIndex(weight, height)
+      )
+    );
+  });
+
+  it('rejects invalid input', () => {
+    expect(validateBMIInput({ age: 30, gender: 'male', height: 0, weight: 70 }).errors).toEqual([
+      { field: 'height', code: 'positive' },
+    ]);
+    expect(() => calculateBMIMetrics({ age: 30, gender: 'male', height: 180, weight: -1, unitSystem: 'metric' }))
+      .toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateBMR,
+  calculateHarrisBenedict,
+  calculateKatchMcArdle,
+  calculateMifflinStJeor,
+  calculateSchofield,
+  calculateTenHaaf,
+  calculateWHOFAO,
+  type Gender,
+} from '@/utils/calculators/bmr';
+import { ValidationError } from '@/utils/validation';
+
+const gender = fc.constantFrom<Gender>('male', 'female');
+
+describe('BMR', () => {
+  it('matches Mifflin et al. (1990)', () => {
+    // 10 × 70 + 6.25 × 175 − 5 × 30 + 5
+    expect(calculateMifflinStJeor(70, 175, 30, 'male')).toBe(1648.75);
+    // 10 × 60 + 6.25 × 165 − 5 × 25 − 161
+    expect(calculateMifflinStJeor(60, 165, 25, 'female')).toBe(1345.25);
+  });
+
+  it('matches the revised Harris-Benedict equations (Roza & Shizgal 1984)', () => {
+    expect(calculateHarrisBenedict(70, 175, 30, 'male')).toBeCloseTo(1695.667, 3);
+    expect(calculateHarrisBenedict(60, 165, 25, 'female')).toBeCloseTo(1405.333, 3);
+  });
+
+  it('matches Katch-McArdle, WHO/FAO/UNU (1985), Ten Haaf & Weijs (2014) and Schofield (1985)', () => {
+    // 370 + 21.6 × lean mass (59.5 kg)
+    expect(calculateKatchMcArdle(70, 15)).toBeCloseTo(1655.2, 6);
+    // Men 30-60: 11.6W + 879
+    expect(calculateWHOFAO(70, 45, 'male')).toBeCloseTo(1691, 6);
+    expect(calculateTenHaaf(70, 175, 30, 'male')).toBeCloseTo(1840.48, 2);
+    // Men 30-60: (0.048W + 3.653) MJ/day
+    expect(calculateSchofield(70, 45, 'male')).toBeCloseTo(1676.15, 2);
+  });
+
+  it('recommends Katch-McArdle when body fat is known', () => {
+    const input = { age: 30, gender: 'male' as const, heightCm: 175, weightKg: 70 };
+    expect(calculateBMR(input)).toMatchObject({
+      mifflin: 1649,
+      harris: 1696,
+      katch: null,
+      recommended: 1649,
+      recommendedFormula: 'mifflin',
+      calorieNeeds: { sedentary: 1979, moderate: 2556 },
+    });
+    expect(calculateBMR({ ...input, bodyFatPercentage: 15 })).toMatchObject({
+      katch: 1655,
+      recommended: 1655,
+      recommendedFormula: 'katch',
+    });
+  });
+
+  it('uses the first requested formula as the primary one', () => {
+    const result = calculateBMR({ age: 45, gender: 'male', heightCm: 175, weightKg: 70, formulas: ['whoFao', 'mifflin'] });
+    expect(result.recommendedFormula).toBe('whoFao');
+    expect(result.formulas).toEqual([
+      { formula: 'whoFao', value: 1691 },
+      { formula: 'mifflin', value: 1574 },
+    ]);
+  });
+
+  it('rises with weight and falls with age', () => {
+    fc.assert(
+      fc.property(
+        gender,
+        fc.double({ min: 30, max: 200, noNaN: true }),
+        fc.double({ min: 140, max: 210, noNaN: true }),
+        fc.integer({ min: 18, max: 79 }),
+        (sex, weight, height, age) =>
+          calculateMifflinStJeor(weight + 1, height, age, sex) > calculateMifflinStJeor(weight, height, age, sex) &&
+          calculateHarrisBenedict(weight + 1, height, age, sex) > calculateHarrisBenedict(weight, height, age, sex) &&
+          calculateMifflinStJeor(weight, height, age + 1, sex) < calculateMifflinStJeor(weight, height, age, sex)
+      )
+    );
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => calculateBMR({ age: 30, gender: 'male', heightCm: 175, weightKg: 0 })).toThrow(ValidationError);
+  });
+});
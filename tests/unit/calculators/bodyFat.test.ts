@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateBodyFat, type BodyFatInput } from '@/utils/calculators/bodyFat';
+import { ValidationError } from '@/utils/validation';
+
+const navyMale: BodyFatInput = { age: 30, gender: 'male', heightCm: 178, weightKg: 80, neckCm: 38, waistCm: 86, method: 'navy' };
+
+describe('Body fat', () => {
+  it('matches the US Navy circumference method (Hodgdon & Beckett 1984)', () => {
+    expect(calculateBodyFat(navyMale)).toEqual({
+      bodyFatPercentage: 17.2,
+      category: 'Average',
+      bodyFatMass: 13.8,
+      leanBodyMass: 66.2,
+      idealBodyFat: 12.7,
+      fatToLose: 3.6,
+      method: 'navy',
+    });
+    expect(calculateBodyFat({ age: 30, gender: 'female', heightCm: 165, weightKg: 60, neckCm: 33, waistCm: 75, hipCm: 100, method: 'navy' })
+      .bodyFatPercentage).toBe(29.4);
+  });
+
+  it('matches the BMI-based estimate (Deurenberg et al. 1991)', () => {
+    // 1.20 × BMI + 0.23 × age − 10.8 × sex − 5.4
+    expect(calculateBodyFat({ age: 30, gender: 'male', heightCm: 180, weightKg: 81, method: 'bmi' }).bodyFatPercentage).toBe(20.7);
+    expect(calculateBodyFat({ age: 40, gender: 'female', heightCm: 165, weightKg: 60, method: 'bmi' }).bodyFatPercentage).toBe(30.2);
+  });
+
+  it('rises with waist and weight and stays within 2-70%', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 60, max: 150, noNaN: true }),
+        fc.double({ min: 45, max: 150, noNaN: true }),
+        (waistCm, weightKg) => {
+          const navy = calculateBodyFat({ ...navyMale, waistCm }).bodyFatPercentage;
+          const bmi = calculateBodyFat({ ...navyMale, weightKg, method: 'bmi' }).bodyFatPercentage;
+          return navy >= 2 && navy <= 70 &&
+            calculateBodyFat({ ...navyMale, waistCm: waistCm + 2 }).bodyFatPercentage >= navy &&
+            calculateBodyFat({ ...navyMale, weightKg: weightKg + 2, method: 'bmi' }).bodyFatPercentage >= bmi;
+        }
+      )
+    );
+  });
+
+  it('requires the circumferences of the Navy method', () => {
+    expect(() => calculateBodyFat({ ...navyMale, gender: 'female' })).toThrow(ValidationError);
+  });
+});
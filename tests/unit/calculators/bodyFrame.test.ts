@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculateBodyFrame,
+  calculateFrameSizeByElbow,
+  calculateFrameSizeByWrist,
+  type FrameSize,
+  type Gender,
+} from '@/utils/calculators/bodyFrame';
+
+const order: Record<FrameSize, number> = { small: 0, medium: 1, large: 2 };
+
+describe('Body frame', () => {
+  it('classifies the height-to-wrist ratio (Grant 1980)', () => {
+    expect(calculateBodyFrame({ gender: 'male', height: 178, wristCircumference: 17, unitSystem: 'metric' }))
+      .toMatchObject({ frameSize: 'small', method: 'wrist', rValue: 10.47 });
+    expect(calculateFrameSizeByWrist(178, 18, 'male')).toBe('medium');
+    expect(calculateFrameSizeByWrist(165, 15, 'female')).toBe('medium');
+    expect(calculateFrameSizeByWrist(165, 17, 'female')).toBe('large');
+  });
+
+  it('classifies elbow breadth by height (Metropolitan Life 1983)', () => {
+    // 5 ft 10 in: 2 3/4 - 3 in is a medium frame for men
+    expect(calculateFrameSizeByElbow(177.8, 7, 'male')).toBe('medium');
+    expect(calculateBodyFrame({ gender: 'male', height: 70, elbowBreadth: 3.25, unitSystem: 'imperial' }))
+      .toMatchObject({ frameSize: 'large', method: 'elbow' });
+  });
+
+  it('never shrinks the frame as the wrist gets thicker', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<Gender>('male', 'female'),
+        fc.double({ min: 140, max: 210, noNaN: true }),
+        fc.double({ min: 12, max: 22, noNaN: true }),
+        (gender, height, wrist) =>
+          order[calculateFrameSizeByWrist(height, wrist + 0.5, gender)] >= order[calculateFrameSizeByWrist(height, wrist, gender)]
+      )
+    );
+  });
+});
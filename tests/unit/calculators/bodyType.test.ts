@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateBodyType, calculateBodyTypeMetrics, calculateFrameSize, type Gender } from '@/utils/calculators/bodyType';
+
+describe('Body type', () => {
+  it('classifies slim, average and heavy bone structures', () => {
+    // Height-to-wrist and height-to-ankle ratios averaging 10.84, 10.13 and 7.99
+    expect(calculateBodyType(15.5, 19, 185, 'male')).toBe('ectomorph');
+    expect(calculateBodyType(16, 20, 180, 'male')).toBe('mesomorph');
+    expect(calculateBodyType(19.5, 25, 175, 'male')).toBe('endomorph');
+  });
+
+  it('reports ratios in either unit system', () => {
+    const metric = calculateBodyTypeMetrics({ gender: 'male', height: 180, wristCircumference: 16, ankleCircumference: 20, unitSystem: 'metric' });
+    const imperial = calculateBodyTypeMetrics({
+      gender: 'male',
+      height: 180 / 2.54,
+      wristCircumference: 16 / 2.54,
+      ankleCircumference: 20 / 2.54,
+      unitSystem: 'imperial',
+    });
+    expect(metric).toMatchObject({ bodyType: 'mesomorph', frameSize: 'small', wristToHeightRatio: 11.25, ankleToHeightRatio: 9 });
+    expect(imperial).toMatchObject({ bodyType: metric.bodyType, frameSize: metric.frameSize, wristToHeightRatio: 11.25 });
+  });
+
+  it('uses the same frame size cut-offs as the body frame calculator', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<Gender>('male', 'female'),
+        fc.double({ min: 12, max: 22, noNaN: true }),
+        (gender, wrist) => {
+          const r = 170 / wrist;
+          const small = gender === 'male' ? r > 10.4 : r > 11;
+          return (calculateFrameSize(wrist, 170, gender) === 'small') === small;
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateBSAMetrics, calculateDuBois, calculateHaycock, calculateMosteller } from '@/utils/calculators/bsa';
+import { ValidationError } from '@/utils/validation';
+
+describe('Body surface area', () => {
+  it('matches Du Bois & Du Bois (1916), Mosteller (1987) and Haycock (1978)', () => {
+    // 0.007184 × 170^0.725 × 70^0.425
+    expect(calculateDuBois(170, 70)).toBeCloseTo(1.8097, 4);
+    // √(180 × 75 / 3600)
+    expect(calculateMosteller(180, 75)).toBeCloseTo(1.9365, 4);
+    expect(calculateHaycock(180, 75)).toBeCloseTo(1.9381, 4);
+    expect(calculateBSAMetrics({ height: 180, weight: 75, unitSystem: 'metric' }))
+      .toEqual({ dubois: 1.942, mosteller: 1.936, haycock: 1.938, averageBSA: 1.939 });
+  });
+
+  it('gives the same result for imperial inputs', () => {
+    expect(calculateBSAMetrics({ height: 180 / 2.54, weight: 75 / 0.45359237, unitSystem: 'imperial' }))
+      .toEqual(calculateBSAMetrics({ height: 180, weight: 75, unitSystem: 'metric' }));
+  });
+
+  it('grows with height and weight in every formula', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 150, max: 200, noNaN: true }),
+        fc.double({ min: 45, max: 120, noNaN: true }),
+        (height, weight) => [calculateDuBois, calculateMosteller, calculateHaycock].every(formula =>
+          formula(height + 1, weight) > formula(height, weight) && formula(height, weight + 1) > formula(height, weight)
+        )
+      )
+    );
+  });
+
+  it('rejects non-positive measurements', () => {
+    expect(() => calculateBSAMetrics({ height: 0, weight: 70, unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
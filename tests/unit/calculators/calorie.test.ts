@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateAllBMRFormulas, calculateCalories, type ActivityLevel, type CalorieInput } from '@/utils/calculators/calorie';
+
+const input: CalorieInput = { age: 30, gender: 'male', heightCm: 175, weightKg: 70, activityLevel: 'moderate' };
+const activityLevels: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'very-active', 'extra-active'];
+
+describe('Calories', () => {
+  it('multiplies the Mifflin-St Jeor BMR by the activity factor', () => {
+    // 1648.75 kcal × 1.55; a 0.5 kg/week change is 550 kcal/day (7700 kcal/kg)
+    expect(calculateCalories(input)).toEqual({
+      bmr: 1649,
+      maintenance: 2556,
+      mildWeightLoss: 2281,
+      weightLoss: 2006,
+      extremeWeightLoss: 1456,
+      mildWeightGain: 2831,
+      weightGain: 3106,
+      extremeWeightGain: 3656,
+      formula: 'mifflin',
+    });
+    expect(calculateCalories({ age: 25, gender: 'female', heightCm: 165, weightKg: 60, activityLevel: 'sedentary' }).maintenance)
+      .toBe(1614);
+  });
+
+  it('switches to Katch-McArdle when body fat is known', () => {
+    expect(calculateCalories({ ...input, bodyFatPercentage: 15 })).toMatchObject({ bmr: 1655, maintenance: 2566, formula: 'katch' });
+    expect(calculateAllBMRFormulas(70, 175, 30, 'male', 15)).toEqual({ mifflin: 1649, harris: 1696, katch: 1655 });
+  });
+
+  it('orders goals around maintenance and rises with activity', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 40, max: 150, noNaN: true }),
+        fc.integer({ min: 0, max: activityLevels.length - 2 }),
+        (weightKg, level) => {
+          const result = calculateCalories({ ...input, weightKg, activityLevel: activityLevels[level] });
+          const moreActive = calculateCalories({ ...input, weightKg, activityLevel: activityLevels[level + 1] });
+          return result.extremeWeightLoss < result.weightLoss &&
+            result.weightLoss < result.mildWeightLoss &&
+            result.mildWeightLoss < result.maintenance &&
+            result.maintenance < result.mildWeightGain &&
+            moreActive.maintenance >= result.maintenance;
+        }
+      )
+    );
+  });
+});
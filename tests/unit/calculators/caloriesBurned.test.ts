@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateCaloriesBurned, MET_VALUES, type ActivityLevel } from '@/utils/calculators/caloriesBurned';
+import { ValidationError } from '@/utils/validation';
+
+describe('Calories burned', () => {
+  it('uses the ACSM equation kcal/min = MET × 3.5 × kg / 200', () => {
+    expect(calculateCaloriesBurned({ activity: 'walking_moderate', duration: 60, weight: 80, unitSystem: 'metric' }))
+      .toEqual({ calories: 294, met: 3.5, caloriesPerMinute: 4.9, caloriesPerHour: 294 });
+    expect(calculateCaloriesBurned({ activity: 'running_slow', duration: 30, weight: 70, unitSystem: 'metric' }).calories)
+      .toBe(220.5);
+  });
+
+  it('converts pounds', () => {
+    expect(calculateCaloriesBurned({ activity: 'running_slow', duration: 30, weight: 70 / 0.45359237, unitSystem: 'imperial' }).calories)
+      .toBe(220.5);
+  });
+
+  it('is proportional to duration and weight', () => {
+    const activities = Object.keys(MET_VALUES) as ActivityLevel[];
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...activities),
+        fc.integer({ min: 1, max: 300 }),
+        fc.integer({ min: 30, max: 150 }),
+        (activity, duration, weight) => {
+          const once = calculateCaloriesBurned({ activity, duration, weight, unitSystem: 'metric' }).calories;
+          const twiceAsLong = calculateCaloriesBurned({ activity, duration: duration * 2, weight, unitSystem: 'metric' }).calories;
+          const twiceAsHeavy = calculateCaloriesBurned({ activity, duration, weight: weight * 2, unitSystem: 'metric' }).calories;
+          return Math.abs(twiceAsLong - 2 * once) <= 0.15 && Math.abs(twiceAsHeavy - 2 * once) <= 0.15;
+        }
+      )
+    );
+  });
+
+  it('rejects a zero duration', () => {
+    expect(() => calculateCaloriesBurned({ activity: 'yoga', duration: 0, weight: 70, unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateCarbGrams, calculateCarbohydrateNeeds, getMinimumDailyCarbs, type CarbohydrateInput } from '@/utils/calculators/carbohydrate';
+
+const input: CarbohydrateInput = {
+  age: 30,
+  gender: 'male',
+  height: 175,
+  weight: 70,
+  activityLevel: 'moderate',
+  goal: 'maintain',
+  unitSystem: 'metric',
+};
+
+describe('Carbohydrate', () => {
+  it('splits the daily energy need at 4 kcal per gram of carbohydrate', () => {
+    // Mifflin-St Jeor 1648.75 kcal × 1.55 = 2555.6 kcal
+    expect(calculateCarbohydrateNeeds(input)).toEqual({
+      bmr: 1649,
+      tdee: 2556,
+      adjustedCalories: 2556,
+      recommendations: {
+        low: { level: 'low', percentage: 20, gramsPerDay: 127.8, caloriesFromCarbs: 511 },
+        moderate: { level: 'moderate', percentage: 40, gramsPerDay: 255.6, caloriesFromCarbs: 1022 },
+        high: { level: 'high', percentage: 60, gramsPerDay: 383.3, caloriesFromCarbs: 1533 },
+      },
+    });
+  });
+
+  it('adjusts energy by 500 kcal for weight goals', () => {
+    expect(calculateCarbohydrateNeeds({ ...input, goal: 'loss' }).adjustedCalories).toBe(2056);
+    expect(calculateCarbohydrateNeeds({ ...input, goal: 'gain' }).adjustedCalories).toBe(3056);
+  });
+
+  it('uses the IOM minimum of 130 g/day', () => {
+    expect(getMinimumDailyCarbs()).toBe(130);
+  });
+
+  it('gives the same result for imperial inputs', () => {
+    expect(calculateCarbohydrateNeeds({ ...input, height: 175 / 2.54, weight: 70 / 0.45359237, unitSystem: 'imperial' }))
+      .toEqual(calculateCarbohydrateNeeds(input));
+  });
+
+  it('scales grams linearly with calories and percentage', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 1000, max: 5000, noNaN: true }),
+        fc.integer({ min: 5, max: 80 }),
+        (calories, percentage) =>
+          Math.abs(calculateCarbGrams(calories * 2, percentage) - 2 * calculateCarbGrams(calories, percentage)) < 1e-9 &&
+          Math.abs(calculateCarbGrams(calories, percentage) * 4 - calories * percentage / 100) < 1e-9
+      )
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  addSubtractDate,
+  calculateDateDifference,
+  getDayOfWeek,
+  getDaysInMonth,
+  getWeekOfYear,
+  isLeapYear,
+  parseDateString,
+  formatDateForInput,
+} from '@/utils/calculators/date';
+
+describe('Date', () => {
+  it('follows the Gregorian leap year rules', () => {
+    expect([1900, 2000, 2023, 2024].map(isLeapYear)).toEqual([false, true, false, true]);
+    expect(getDaysInMonth(2023, 1)).toBe(28);
+    expect(getDaysInMonth(2024, 1)).toBe(29);
+  });
+
+  it('numbers weeks as in ISO 8601', () => {
+    // 31 December 2020 and 3 January 2021 both fall in week 53 of 2020
+    expect(getWeekOfYear(new Date(2020, 11, 31))).toBe(53);
+    expect(getWeekOfYear(new Date(2021, 0, 3))).toBe(53);
+    expect(getWeekOfYear(new Date(2021, 0, 4))).toBe(1);
+  });
+
+  it('names the day of the week in the given locale', () => {
+    const date = new Date(2024, 0, 25);
+    expect(getDayOfWeek(date)).toBe('Thursday');
+    expect(getDayOfWeek(date, 'es')).toBe('jueves');
+    expect(getDayOfWeek(date, 'de')).toBe('Donnerstag');
+  });
+
+  it('adds and subtracts days', () => {
+    expect(addSubtractDate({ startDate: new Date(2024, 0, 15), mode: 'add', days: 10 })).toEqual({
+      resultDate: new Date(2024, 0, 25),
+      dayOfWeek: 'Thursday',
+      dayOfYear: 25,
+      weekOfYear: 4,
+      isLeapYear: true,
+    });
+    expect(addSubtractDate({ startDate: new Date(2023, 2, 1), mode: 'subtract', days: 1 }).resultDate)
+      .toEqual(new Date(2023, 1, 28));
+  });
+
+  it('counts the days, weekdays and weekends of a year', () => {
+    // 2024 starts on a Monday: 52 full weeks and two more weekdays
+    expect(calculateDateDifference({ startDate: new Date(2024, 0, 1), endDate: new Date(2024, 11, 31) })).toMatchObject({
+      totalDays: 365,
+      years: 0,
+      months: 11,
+      days: 30,
+      weeks: 52,
+      businessDays: 262,
+      weekdays: 262,
+      weekends: 104,
+    });
+  });
+
+  it('adds a day when the end date is included', () => {
+    const result = calculateDateDifference({ startDate: new Date(2024, 0, 1), endDate: new Date(2024, 11, 31), includeEndDate: true });
+    expect(result.totalDays).toBe(366);
+  });
+
+  it('undoes an addition with the matching subtraction', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date(1950, 0, 1), max: new Date(2100, 0, 1), noInvalidDate: true }),
+        fc.integer({ min: 0, max: 5000 }),
+        (date, days) => {
+          const start = parseDateString(formatDateForInput(date));
+          const added = addSubtractDate({ startDate: start, mode: 'add', days }).resultDate;
+          return addSubtractDate({ startDate: added, mode: 'subtract', days }).resultDate.getTime() === start.getTime() &&
+            calculateDateDifference({ startDate: start, endDate: added }).totalDays === days;
+        }
+      )
+    );
+  });
+});
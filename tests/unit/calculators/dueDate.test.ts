@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { calculateDueDate } from '@/utils/calculators/dueDate';
+import { ValidationError } from '@/utils/validation';
+
+describe('Due Date', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 1) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("applies Naegele's rule: 280 days after the last menstrual period", () => {
+    const result = calculateDueDate({ method: 'lmp', date: new Date(2024, 0, 1) });
+    expect(result).toMatchObject({
+      dueDate: new Date(2024, 9, 7),
+      conceptionDate: new Date(2024, 0, 15),
+      currentWeek: 17,
+      currentDay: 2,
+      daysRemaining: 159,
+      trimester: 2,
+      trimesterWeeksRemaining: 10,
+      gestationalAge: '17 weeks 2 days',
+      earlyTermStart: new Date(2024, 8, 16),
+      fullTermStart: new Date(2024, 8, 30),
+    });
+  });
+
+  it('shifts the due date for cycles longer than 28 days', () => {
+    expect(calculateDueDate({ method: 'lmp', date: new Date(2024, 0, 1), cycleLength: 30 }).dueDate).toEqual(new Date(2024, 9, 9));
+  });
+
+  it('dates the pregnancy from an ultrasound or an embryo transfer', () => {
+    // 8 weeks 2 days on 1 March leaves 222 days to go
+    expect(calculateDueDate({ method: 'ultrasound', date: new Date(2024, 2, 1), ultrasoundWeeks: 8, ultrasoundDays: 2 }).dueDate)
+      .toEqual(new Date(2024, 9, 9));
+    // A day-5 blastocyst transferred on 20 January was conceived on 15 January
+    expect(calculateDueDate({ method: 'ivf', date: new Date(2024, 0, 20), embryoAge: 5 })).toMatchObject({
+      dueDate: new Date(2024, 9, 7),
+      conceptionDate: new Date(2024, 0, 15),
+    });
+  });
+
+  it('agrees between the LMP and conception methods', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 3650 }), (offset) => {
+        const lmp = new Date(2015, 0, 1 + offset);
+        const conception = new Date(2015, 0, 15 + offset);
+        return calculateDueDate({ method: 'lmp', date: lmp }).dueDate.getTime() ===
+          calculateDueDate({ method: 'conception', date: conception }).dueDate.getTime();
+      })
+    );
+  });
+
+  it('rejects cycle lengths outside 22-44 days', () => {
+    expect(() => calculateDueDate({ method: 'lmp', date: new Date(2024, 0, 1), cycleLength: 50 })).toThrow(ValidationError);
+  });
+});
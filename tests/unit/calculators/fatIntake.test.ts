@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateFatIntake, type FatIntakeInput } from '@/utils/calculators/fatIntake';
+import { ValidationError } from '@/utils/validation';
+
+const input: FatIntakeInput = {
+  age: 30,
+  gender: 'male',
+  heightCm: 175,
+  weightKg: 70,
+  activityLevel: 'moderate',
+  goal: 'maintain',
+};
+
+describe('Fat Intake', () => {
+  it('recommends 30% of energy from fat at 9 kcal per gram', () => {
+    // Mifflin-St Jeor 1648.75 kcal × 1.55 = 2555.6 kcal; 25-35% is the AMDR for adults
+    expect(calculateFatIntake(input)).toEqual({
+      tdee: 2556,
+      bmr: 1649,
+      dailyCalories: 2556,
+      recommendedFatGrams: 85,
+      fatCalories: 767,
+      fatPercentage: 30,
+      minFatGrams: 71,
+      maxFatGrams: 99,
+      goal: 'maintain',
+    });
+  });
+
+  it('adjusts energy and the fat share for the goal', () => {
+    expect(calculateFatIntake({ ...input, goal: 'lose-weight' })).toMatchObject({ dailyCalories: 2056, fatPercentage: 25, recommendedFatGrams: 57 });
+    expect(calculateFatIntake({ ...input, goal: 'gain-muscle' })).toMatchObject({ dailyCalories: 2856, fatPercentage: 25, recommendedFatGrams: 79 });
+  });
+
+  it('keeps the recommendation within the range', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 18, max: 80 }),
+        fc.integer({ min: 140, max: 210 }),
+        fc.integer({ min: 40, max: 150 }),
+        fc.constantFrom<FatIntakeInput['goal']>('lose-weight', 'maintain', 'gain-muscle'),
+        (age, heightCm, weightKg, goal) => {
+          const result = calculateFatIntake({ ...input, age, heightCm, weightKg, goal });
+          return result.minFatGrams <= result.recommendedFatGrams && result.recommendedFatGrams <= result.maxFatGrams;
+        }
+      )
+    );
+  });
+
+  it('rejects missing measurements', () => {
+    expect(() => calculateFatIntake({ ...input, weightKg: 0 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateGFR, validateGFRInput, type GFRInput } from '@/utils/calculators/gfr';
+
+const male50: GFRInput = { age: 50, gender: 'male', serumCreatinine: 1.0, creatinineUnit: 'mg/dL' };
+
+describe('GFR', () => {
+  it('matches the race-free CKD-EPI 2021 equation (Inker et al., NEJM 2021)', () => {
+    expect(calculateGFR(male50)).toMatchObject({ gfr: 91.7, stage: 1, equation: 'CKD-EPI 2021' });
+    expect(calculateGFR({ age: 60, gender: 'female', serumCreatinine: 0.8, creatinineUnit: 'mg/dL' }).gfr).toBe(84.3);
+    expect(calculateGFR({ age: 70, gender: 'male', serumCreatinine: 2.5, creatinineUnit: 'mg/dL' })).toMatchObject({
+      gfr: 27,
+      stage: 4,
+      interpretation: 'severely_decreased',
+    });
+  });
+
+  it('matches CKD-EPI 2009 (Levey et al., Ann Intern Med 2009)', () => {
+    expect(calculateGFR({ ...male50, equation: 'ckd-epi-2009' }).gfr).toBe(87.4);
+    expect(calculateGFR({ ...male50, equation: 'ckd-epi-2009', race: 'african-american' }).gfr).toBe(101.3);
+  });
+
+  it('accepts creatinine in μmol/L', () => {
+    expect(calculateGFR({ ...male50, serumCreatinine: 88.42, creatinineUnit: 'μmol/L' }).gfr).toBe(91.7);
+  });
+
+  it('falls as creatinine and age rise', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<GFRInput['gender']>('male', 'female'),
+        fc.integer({ min: 18, max: 100 }),
+        fc.double({ min: 0.2, max: 15, noNaN: true }),
+        (gender, age, creatinine) => {
+          const base = calculateGFR({ age, gender, serumCreatinine: creatinine, creatinineUnit: 'mg/dL' }).gfr;
+          const higherCreatinine = calculateGFR({ age, gender, serumCreatinine: creatinine + 0.5, creatinineUnit: 'mg/dL' }).gfr;
+          const older = calculateGFR({ age: age + 10, gender, serumCreatinine: creatinine, creatinineUnit: 'mg/dL' }).gfr;
+          return higherCreatinine <= base && older <= base;
+        }
+      )
+    );
+  });
+
+  it('limits creatinine to 0.1-20 mg/dL in either unit', () => {
+    expect(validateGFRInput({ ...male50, serumCreatinine: 25 }).errors).toEqual([
+      { field: 'serumCreatinine', code: 'range', params: { min: 0.1, max: 20 } },
+    ]);
+    expect(validateGFRInput({ ...male50, serumCreatinine: 2000, creatinineUnit: 'μmol/L' }).errors).toEqual([
+      { field: 'serumCreatinine', code: 'range', params: { min: 8.8, max: 1768.4 } },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateHealthyWeight, getBMICategory } from '@/utils/calculators/healthyWeight';
+import { ValidationError } from '@/utils/validation';
+
+describe('Healthy Weight', () => {
+  it('gives the BMI 18.5-25 range and the ideal weight formulas', () => {
+    // 6 ft (182.88 cm) man: Devine 50 + 2.3 kg per inch over 5 ft = 77.6 kg
+    const result = calculateHealthyWeight({ age: 40, gender: 'male', height: 182.88, currentWeight: 95, unitSystem: 'metric' });
+    expect(result).toEqual({
+      currentBMI: 28.4,
+      currentCategory: 'overweight',
+      healthyBMIRange: { min: 18.5, max: 25 },
+      healthyWeightRange: { min: 61.9, max: 83.6 },
+      idealWeights: { robinson: 74.8, miller: 73.1, devine: 77.6, hamwi: 80.4, hamwiSmallFrame: 72.4, hamwiLargeFrame: 88.4 },
+      weightToLose: 11.4,
+      weightToGain: undefined,
+      isHealthy: false,
+    });
+  });
+
+  it('uses the female formulas', () => {
+    // 5 ft 4 in woman: Robinson 55.8, Miller 58.5, Devine 54.7, Hamwi 54.3 kg
+    const { idealWeights } = calculateHealthyWeight({ age: 40, gender: 'female', height: 162.56, unitSystem: 'metric' });
+    expect(idealWeights).toMatchObject({ robinson: 55.8, miller: 58.5, devine: 54.7, hamwi: 54.3 });
+  });
+
+  it('works in inches and pounds', () => {
+    const result = calculateHealthyWeight({ age: 40, gender: 'male', height: 72, currentWeight: 209.4, unitSystem: 'imperial' });
+    expect(result).toMatchObject({ currentBMI: 28.4, healthyWeightRange: { min: 136.4, max: 184.3 }, weightToLose: 25.1 });
+  });
+
+  it('puts the healthy range in the normal BMI category', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 140, max: 210 }), (height) => {
+        const { healthyWeightRange } = calculateHealthyWeight({ age: 40, gender: 'female', height, unitSystem: 'metric' });
+        const heightM = height / 100;
+        return getBMICategory((healthyWeightRange.min + 0.1) / heightM ** 2) === 'normal' &&
+          getBMICategory((healthyWeightRange.max - 0.1) / heightM ** 2) === 'normal';
+      })
+    );
+  });
+
+  it('rejects a missing height', () => {
+    expect(() => calculateHealthyWeight({ age: 40, gender: 'male', height: 0, unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
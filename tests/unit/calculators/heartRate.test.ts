@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateHeartRateMetrics, calculateTargetHeartRate } from '@/utils/calculators/heartRate';
+import { ValidationError } from '@/utils/validation';
+
+describe('Heart Rate', () => {
+  it('builds zones from the heart rate reserve (Karvonen)', () => {
+    // Maximum 220 - 40 = 180 bpm, reserve 180 - 60 = 120 bpm
+    const result = calculateHeartRateMetrics({ age: 40, restingHeartRate: 60 });
+    expect(result).toMatchObject({ maxHeartRate: 180, restingHeartRate: 60, heartRateReserve: 120 });
+    expect(result.zones.map(({ name, min, max }) => ({ name, min, max }))).toEqual([
+      { name: 'resting', min: 60, max: 60 },
+      { name: 'warmup', min: 120, max: 132 },
+      { name: 'fatburn', min: 132, max: 144 },
+      { name: 'cardio', min: 144, max: 162 },
+      { name: 'peak', min: 162, max: 180 },
+    ]);
+  });
+
+  it('rises with intensity from resting to maximum', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 100 }),
+        fc.integer({ min: 30, max: 120 }),
+        fc.integer({ min: 0, max: 99 }),
+        (age, resting, intensity) => {
+          const max = 220 - age;
+          return calculateTargetHeartRate(max, resting, intensity) <= calculateTargetHeartRate(max, resting, intensity + 1) &&
+            calculateTargetHeartRate(max, resting, 0) === resting &&
+            calculateTargetHeartRate(max, resting, 100) === max;
+        }
+      )
+    );
+  });
+
+  it('rejects resting heart rates outside 30-120 bpm', () => {
+    expect(() => calculateHeartRateMetrics({ age: 40, restingHeartRate: 20 })).toThrow(ValidationError);
+  });
+});
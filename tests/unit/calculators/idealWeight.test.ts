@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateIdealWeight } from '@/utils/calculators/idealWeight';
+import { ValidationError } from '@/utils/validation';
+
+describe('Ideal Weight', () => {
+  it('matches the published formulas for a 6 ft man', () => {
+    // Robinson (1983), Miller (1983), Devine (1974) and Hamwi (1964) at 12 in over 5 ft
+    expect(calculateIdealWeight({ heightCm: 182.88, gender: 'male' })).toEqual({
+      robinson: 74.8,
+      miller: 73.1,
+      devine: 77.6,
+      hamwi: 80.4,
+      bmiRange: { min: 61.9, max: 83.6 },
+      average: 76.5,
+    });
+  });
+
+  it('matches the published formulas for a 5 ft 4 in woman', () => {
+    expect(calculateIdealWeight({ heightCm: 162.56, gender: 'female' })).toMatchObject({
+      robinson: 55.8,
+      miller: 58.5,
+      devine: 54.7,
+      hamwi: 54.3,
+    });
+  });
+
+  it('gives the base weights at exactly 5 ft', () => {
+    expect(calculateIdealWeight({ heightCm: 152.4, gender: 'male' })).toMatchObject({ robinson: 52, miller: 56.2, devine: 50, hamwi: 48 });
+  });
+
+  it('increases with height', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 150, max: 210 }), fc.constantFrom('male' as const, 'female' as const), (heightCm, gender) => {
+        const shorter = calculateIdealWeight({ heightCm, gender });
+        const taller = calculateIdealWeight({ heightCm: heightCm + 1, gender });
+        return taller.devine > shorter.devine && taller.average > shorter.average && taller.bmiRange.max > shorter.bmiRange.max;
+      })
+    );
+  });
+
+  it('rejects a missing height', () => {
+    expect(() => calculateIdealWeight({ heightCm: 0, gender: 'male' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateLBMMetrics, calculateBoerLBM, calculateHumeLBM } from '@/utils/calculators/leanBodyMass';
+import { ValidationError } from '@/utils/validation';
+
+describe('Lean Body Mass', () => {
+  it('matches the Boer, James and Hume formulas', () => {
+    // 80 kg, 180 cm man: Boer (1984) 0.407·W + 0.267·H - 19.2 = 61.42 kg
+    expect(calculateLBMMetrics({ age: 35, gender: 'male', height: 180, weight: 80, unitSystem: 'metric' })).toEqual({
+      boer: { leanBodyMass: 61.42, fatMass: 18.58, bodyFatPercentage: 23.2 },
+      james: { leanBodyMass: 62.72, fatMass: 17.28, bodyFatPercentage: 21.6 },
+      hume: { leanBodyMass: 57.79, fatMass: 22.21, bodyFatPercentage: 27.8 },
+      average: { leanBodyMass: 60.64, fatMass: 19.36, bodyFatPercentage: 24.2 },
+    });
+  });
+
+  it('gives the same percentages for imperial inputs', () => {
+    const metric = calculateLBMMetrics({ age: 35, gender: 'female', height: 165, weight: 60, unitSystem: 'metric' });
+    const imperial = calculateLBMMetrics({ age: 35, gender: 'female', height: 165 / 2.54, weight: 60 / 0.45359237, unitSystem: 'imperial' });
+    expect(imperial.average.bodyFatPercentage).toBe(metric.average.bodyFatPercentage);
+  });
+
+  it('increases with weight and height', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 40, max: 150 }),
+        fc.integer({ min: 140, max: 210 }),
+        fc.constantFrom('male' as const, 'female' as const),
+        (weight, height, gender) =>
+          calculateBoerLBM(weight + 1, height, gender) > calculateBoerLBM(weight, height, gender) &&
+          calculateHumeLBM(weight, height + 1, gender) > calculateHumeLBM(weight, height, gender)
+      )
+    );
+  });
+
+  it('rejects ages outside 2-120', () => {
+    expect(() => calculateLBMMetrics({ age: 1, gender: 'male', height: 80, weight: 10, unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateMacroMetrics, calculateMacros, calculateWeeklyWeightChange, type MacroInput } from '@/utils/calculators/macro';
+
+const input: MacroInput = {
+  age: 30,
+  gender: 'male',
+  height: 175,
+  weight: 70,
+  activityLevel: 'moderate',
+  goal: 'moderateLoss',
+  dietType: 'balanced',
+  unitSystem: 'metric',
+};
+
+describe('Macro', () => {
+  it('splits the goal calories 30/40/30 for a balanced diet', () => {
+    // Mifflin-St Jeor 1648.75 kcal × 1.55 - 500 kcal = 2055.6 kcal
+    expect(calculateMacroMetrics(input)).toEqual({
+      bmr: 1649,
+      tdee: 2556,
+      goalCalories: 2056,
+      protein: { grams: 154, calories: 617, percentage: 30 },
+      carbs: { grams: 206, calories: 822, percentage: 40 },
+      fats: { grams: 69, calories: 617, percentage: 30 },
+      weeklyWeightChange: -0.45,
+    });
+  });
+
+  it('uses 3500 kcal per pound and 7700 kcal per kilogram', () => {
+    expect(calculateWeeklyWeightChange('moderateLoss', 'imperial')).toBe(-1);
+    expect(calculateWeeklyWeightChange('extremeGain', 'metric')).toBe(0.91);
+  });
+
+  it('never goes below 1200 kcal', () => {
+    expect(calculateMacroMetrics({ ...input, weight: 45, height: 150, age: 70, gender: 'female', activityLevel: 'sedentary', goal: 'extremeLoss' }).goalCalories).toBe(1200);
+  });
+
+  it('accounts for the goal calories within rounding', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1200, max: 5000 }),
+        fc.constantFrom<MacroInput['dietType']>('balanced', 'lowFat', 'lowCarb', 'highProtein'),
+        (calories, dietType) => {
+          const { protein, carbs, fats } = calculateMacros(calories, dietType);
+          return protein.percentage + carbs.percentage + fats.percentage === 100 &&
+            Math.abs(protein.grams * 4 + carbs.grams * 4 + fats.grams * 9 - calories) <= 10;
+        }
+      )
+    );
+  });
+});
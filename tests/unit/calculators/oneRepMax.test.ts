@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateBrzycki, calculateEpley, calculateOneRepMax } from '@/utils/calculators/oneRepMax';
+import { ValidationError } from '@/utils/validation';
+
+describe('One Rep Max', () => {
+  it('matches the published formulas for 100 kg × 5', () => {
+    // Epley (1985) 100 · (1 + 5/30) = 116.7; Brzycki (1993) 100 · 36 / 32 = 112.5
+    expect(calculateOneRepMax({ weight: 100, reps: 5, unitSystem: 'metric' })).toEqual({
+      average: 115.5,
+      formulas: { epley: 116.7, brzycki: 112.5, lander: 113.7, lombardi: 117.5, mayhew: 119, oconner: 112.5, wathan: 116.6 },
+      unitSystem: 'metric',
+    });
+  });
+
+  it('returns the lifted weight for a single rep', () => {
+    const { average, formulas } = calculateOneRepMax({ weight: 140, reps: 1, unitSystem: 'imperial' });
+    expect(average).toBe(140);
+    expect(new Set(Object.values(formulas))).toEqual(new Set([140]));
+  });
+
+  it('increases with reps', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 20, max: 300 }), fc.integer({ min: 1, max: 29 }), (weight, reps) =>
+        calculateEpley(weight, reps + 1) > calculateEpley(weight, reps) &&
+        calculateBrzycki(weight, reps + 1) > calculateBrzycki(weight, reps)
+      )
+    );
+  });
+
+  it('rejects more than 30 reps', () => {
+    expect(() => calculateOneRepMax({ weight: 100, reps: 31, unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { calculateOvulation, daysBetween } from '@/utils/calculators/ovulation';
+import { ValidationError } from '@/utils/validation';
+
+describe('Ovulation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2024, 2, 10) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('places ovulation 14 days before the next period', () => {
+    // 28-day cycle: ovulation on day 14, fertile window the five days before it and the day itself
+    expect(calculateOvulation({ lastPeriodDate: new Date(2024, 2, 1), cycleLength: 28 })).toEqual({
+      ovulationDate: new Date(2024, 2, 15),
+      fertileWindowStart: new Date(2024, 2, 10),
+      fertileWindowEnd: new Date(2024, 2, 15),
+      nextPeriodDate: new Date(2024, 2, 29),
+      daysUntilOvulation: 5,
+      isInFertileWindow: true,
+    });
+  });
+
+  it('moves ovulation with the cycle length', () => {
+    const result = calculateOvulation({ lastPeriodDate: new Date(2024, 2, 1), cycleLength: 32 });
+    expect(result).toMatchObject({ ovulationDate: new Date(2024, 2, 19), isInFertileWindow: false });
+  });
+
+  it('keeps a six-day fertile window ending on ovulation', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 3650 }), fc.integer({ min: 21, max: 35 }), (offset, cycleLength) => {
+        const result = calculateOvulation({ lastPeriodDate: new Date(2015, 0, 1 + offset), cycleLength });
+        return daysBetween(result.fertileWindowStart, result.fertileWindowEnd) === 5 &&
+          daysBetween(result.ovulationDate, result.nextPeriodDate) === 14;
+      })
+    );
+  });
+
+  it('rejects cycles outside 21-35 days', () => {
+    expect(() => calculateOvulation({ lastPeriodDate: new Date(2024, 2, 1), cycleLength: 40 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculatePaceMetrics, secondsToTimeString, timeStringToSeconds } from '@/utils/calculators/pace';
+import { ValidationError } from '@/utils/validation';
+
+describe('Pace', () => {
+  it('gives the pace of a three-hour marathon', () => {
+    // 10800 s over 42.195 km = 256 s/km, or 412 s per mile
+    const result = calculatePaceMetrics({ mode: 'pace', distance: 42.195, distanceUnit: 'km', time: 10800, paceUnit: 'min/km' });
+    expect(result.pace).toBeCloseTo(255.954, 3);
+    expect(result.paceFormatted).toBe('4:15');
+    expect(calculatePaceMetrics({ mode: 'pace', distance: 42.195, distanceUnit: 'km', time: 10800, paceUnit: 'min/mi' }).paceFormatted).toBe('6:51');
+  });
+
+  it('predicts race times from a pace', () => {
+    const result = calculatePaceMetrics({ mode: 'time', distance: 10, distanceUnit: 'km', pace: 300, paceUnit: 'min/km' });
+    expect(result).toMatchObject({ time: 3000, timeFormatted: '50:00' });
+    expect(result.commonRaces.map(race => [race.name, race.timeFormatted])).toEqual([
+      ['5K', '25:00'],
+      ['10K', '50:00'],
+      ['Half Marathon', '1:45:29'],
+      ['Marathon', '3:30:58'],
+    ]);
+  });
+
+  it('gives the distance covered', () => {
+    expect(calculatePaceMetrics({ mode: 'distance', distanceUnit: 'km', time: 3600, pace: 300, paceUnit: 'min/km' }).distanceFormatted).toBe('12.00');
+    // A mile is 1609.344 m exactly
+    expect(calculatePaceMetrics({ mode: 'distance', distanceUnit: 'm', time: 480, pace: 480, paceUnit: 'min/mi' }).distance).toBeCloseTo(1609.344, 6);
+  });
+
+  it('round-trips time strings', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 99 * 3600 }), (seconds) => timeStringToSeconds(secondsToTimeString(seconds)) === seconds)
+    );
+  });
+
+  it('rejects a missing distance', () => {
+    expect(() => calculatePaceMetrics({ mode: 'pace', distanceUnit: 'km', time: 3000, paceUnit: 'min/km' })).toThrow(ValidationError);
+  });
+});
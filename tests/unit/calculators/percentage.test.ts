@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateAddTax, calculatePercentage, calculateRemoveTax } from '@/utils/calculators/percentage';
+import { ValidationError } from '@/utils/validation';
+
+describe('Percentage', () => {
+  it.each([
+    ['percentOf', 15, 200, 30],
+    ['isWhatPercent', 30, 200, 15],
+    ['isPercentOfWhat', 30, 15, 200],
+    ['percentageChange', 80, 100, 25],
+    ['percentageChange', 100, 80, -20],
+    ['percentageDifference', 80, 100, 22.2222],
+    ['addTax', 100, 21, 121],
+    ['removeTax', 121, 21, 100],
+    ['discount', 80, 25, 60],
+    ['reverseDiscount', 60, 25, 80],
+  ] as const)('%s(%d, %d) = %d', (calculationType, value1, value2, result) => {
+    expect(calculatePercentage({ calculationType, value1, value2 }).result).toBe(result);
+  });
+
+  it('explains the result', () => {
+    expect(calculatePercentage({ calculationType: 'percentageChange', value1: 100, value2: 80 }).explanation).toBe('Decrease of 20.0000%');
+  });
+
+  it('removes the tax it adds', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 1_000_000 }), fc.integer({ min: 0, max: 50 }), (cents, tax) => {
+        const price = cents / 100;
+        return calculateRemoveTax(calculateAddTax(price, tax).result, tax).result === price;
+      })
+    );
+  });
+
+  it('rejects a percentage change from zero', () => {
+    expect(() => calculatePercentage({ calculationType: 'percentageChange', value1: 0, value2: 10 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { calculatePeriodMetrics, daysBetween, getCurrentPhase } from '@/utils/calculators/period';
+import { ValidationError } from '@/utils/validation';
+
+describe('Period', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2024, 2, 10) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('predicts the next period and the following ovulation', () => {
+    const result = calculatePeriodMetrics({ lastPeriodDate: new Date(2024, 2, 1), cycleLength: 28, periodLength: 5 });
+    expect(result).toMatchObject({
+      nextPeriodDate: new Date(2024, 2, 29),
+      nextPeriodEnd: new Date(2024, 3, 2),
+      // Ovulation comes 14 days before the period after next
+      nextOvulationDate: new Date(2024, 3, 12),
+      fertilityWindowStart: new Date(2024, 3, 7),
+      fertilityWindowEnd: new Date(2024, 3, 12),
+      cycleDay: 10,
+      daysUntilNextPeriod: 19,
+      currentPhase: 'follicular',
+    });
+    expect(result.upcomingPeriods).toHaveLength(6);
+    expect(result.upcomingPeriods[5].startDate).toEqual(new Date(2024, 7, 16));
+  });
+
+  it('walks through the phases of a 28-day cycle', () => {
+    const start = new Date(2024, 0, 1);
+    const phaseOn = (day: number) => getCurrentPhase(start, 28, 5, new Date(2024, 0, day));
+    expect([1, 5, 6, 11, 12, 14, 15, 28, 29].map(phaseOn)).toEqual([
+      'menstrual', 'menstrual', 'follicular', 'follicular', 'ovulation', 'ovulation', 'luteal', 'luteal', 'menstrual',
+    ]);
+  });
+
+  it('spaces predicted periods one cycle apart', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 3650 }), fc.integer({ min: 21, max: 35 }), (offset, cycleLength) => {
+        const { upcomingPeriods } = calculatePeriodMetrics({ lastPeriodDate: new Date(2015, 0, 1 + offset), cycleLength, periodLength: 5 });
+        return upcomingPeriods.slice(1).every((period, i) => daysBetween(upcomingPeriods[i].startDate, period.startDate) === cycleLength);
+      })
+    );
+  });
+
+  it('rejects periods longer than 10 days', () => {
+    expect(() => calculatePeriodMetrics({ lastPeriodDate: new Date(2024, 2, 1), cycleLength: 28, periodLength: 12 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { calculatePregnancyMetrics, getTrimester } from '@/utils/calculators/pregnancy';
+import { ValidationError } from '@/utils/validation';
+
+describe('Pregnancy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 1) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('tracks progress from the last menstrual period', () => {
+    // Naegele's rule: due 280 days after the LMP, conception about 14 days after it
+    const result = calculatePregnancyMetrics({ method: 'lmp', date: new Date(2024, 0, 1) });
+    expect(result).toMatchObject({
+      dueDate: new Date(2024, 9, 7),
+      conceptionDate: new Date(2024, 0, 15),
+      currentWeek: 17,
+      currentDay: 2,
+      trimester: 2,
+      percentComplete: 43,
+      daysRemaining: 159,
+    });
+    expect(result.milestones.at(-1)).toMatchObject({ week: 40, date: new Date(2024, 9, 7) });
+  });
+
+  it('gives the same dates from the conception or due date', () => {
+    const fromLmp = calculatePregnancyMetrics({ method: 'lmp', date: new Date(2024, 0, 1) });
+    expect(calculatePregnancyMetrics({ method: 'conception', date: new Date(2024, 0, 15) })).toEqual(fromLmp);
+    expect(calculatePregnancyMetrics({ method: 'dueDate', date: new Date(2024, 9, 7) })).toEqual(fromLmp);
+  });
+
+  it('counts trimesters up to weeks 13 and 27', () => {
+    expect([0, 13, 14, 27, 28, 40].map(getTrimester)).toEqual([1, 1, 2, 2, 3, 3]);
+  });
+
+  it('never reports negative days remaining or more than 100% complete', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -400, max: 400 }), (offset) => {
+        const result = calculatePregnancyMetrics({ method: 'lmp', date: new Date(2024, 4, 1 - offset) });
+        return result.daysRemaining >= 0 && result.percentComplete >= 0 && result.percentComplete <= 100;
+      })
+    );
+  });
+
+  it('rejects cycle lengths outside 22-44 days', () => {
+    expect(() => calculatePregnancyMetrics({ method: 'lmp', date: new Date(2024, 0, 1), cycleLength: 20 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { calculatePregnancyConception } from '@/utils/calculators/pregnancyConception';
+import { ValidationError } from '@/utils/validation';
+
+describe('Pregnancy Conception', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date(2024, 4, 1) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('places conception at ovulation, 14 days before the end of the cycle', () => {
+    expect(calculatePregnancyConception({ mode: 'lmp', date: new Date(2024, 0, 1) })).toEqual({
+      conceptionDate: new Date(2024, 0, 15),
+      conceptionRangeStart: new Date(2024, 0, 12),
+      conceptionRangeEnd: new Date(2024, 0, 16),
+      fertilityWindowStart: new Date(2024, 0, 10),
+      fertilityWindowEnd: new Date(2024, 0, 15),
+      dueDate: new Date(2024, 9, 7),
+      currentWeek: 17,
+      currentDay: 2,
+    });
+  });
+
+  it('works back from the due date', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 3650 }), fc.integer({ min: 22, max: 44 }), (offset, cycleLength) => {
+        const lmp = new Date(2015, 0, 1 + offset);
+        const fromLmp = calculatePregnancyConception({ mode: 'lmp', date: lmp, cycleLength });
+        const fromDueDate = calculatePregnancyConception({ mode: 'dueDate', date: fromLmp.dueDate, cycleLength });
+        return fromDueDate.conceptionDate.getTime() === fromLmp.conceptionDate.getTime() &&
+          fromDueDate.fertilityWindowStart.getTime() === fromLmp.fertilityWindowStart.getTime();
+      })
+    );
+  });
+
+  it('rejects a missing date', () => {
+    expect(() => calculatePregnancyConception({ mode: 'lmp', date: new Date(NaN) })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  calculatePregnancyWeightGain,
+  getRecommendedCurrentGain,
+  getRecommendedWeightGain,
+  type BMICategory,
+} from '@/utils/calculators/pregnancyWeightGain';
+import { ValidationError } from '@/utils/validation';
+
+// IOM (2009) Weighing the evidence, table S-1: total gain by pre-pregnancy BMI, in kg and lb
+const singletons: [BMICategory, number, number, number, number][] = [
+  ['underweight', 12.7, 18.1, 28, 40],
+  ['normal', 11.3, 15.9, 25, 35],
+  ['overweight', 6.8, 11.3, 15, 25],
+  ['obese', 5, 9.1, 11, 20],
+];
+
+// Provisional guidelines for twin pregnancies
+const twins: [BMICategory, number, number][] = [
+  ['normal', 37, 54],
+  ['overweight', 31, 50],
+  ['obese', 25, 42],
+];
+
+describe('Pregnancy Weight Gain', () => {
+  it.each(singletons)('recommends the IOM total gain for %s women', (category, minKg, maxKg, minLb, maxLb) => {
+    expect(getRecommendedWeightGain(category, false)).toEqual({ min: minKg, max: maxKg, category });
+    const imperial = getRecommendedWeightGain(category, false, 'imperial');
+    expect(Math.abs(imperial.min - minLb)).toBeLessThanOrEqual(0.2);
+    expect(Math.abs(imperial.max - maxLb)).toBeLessThanOrEqual(0.2);
+  });
+
+  it.each(twins)('recommends the IOM total gain for %s women expecting twins', (category, minLb, maxLb) => {
+    const imperial = getRecommendedWeightGain(category, true, 'imperial');
+    expect(Math.abs(imperial.min - minLb)).toBeLessThanOrEqual(0.2);
+    expect(Math.abs(imperial.max - maxLb)).toBeLessThanOrEqual(0.2);
+  });
+
+  it('tracks the gain so far against the expected gain for the week', () => {
+    // BMI 22.0; 0.9 kg in the first trimester, then 0.36-0.45 kg a week for 7 weeks
+    expect(calculatePregnancyWeightGain({
+      height: 165,
+      prePregnancyWeight: 60,
+      currentWeight: 64,
+      currentWeek: 20,
+      isTwins: false,
+      unitSystem: 'metric',
+    })).toEqual({
+      prePregnancyBMI: 22,
+      category: 'normal',
+      currentWeightGain: 4,
+      recommendedTotalGain: { min: 11.3, max: 15.9, category: 'normal' },
+      recommendedWeeklyGain: { min: 0.36, max: 0.45 },
+      recommendedCurrentGain: { min: 3.4, max: 4 },
+      isOnTrack: true,
+      trimester: 2,
+    });
+  });
+
+  it('expects more gain week by week after the first trimester', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 14, max: 39 }),
+        fc.constantFrom<BMICategory>('underweight', 'normal', 'overweight', 'obese'),
+        fc.boolean(),
+        (week, category, isTwins) => {
+          const now = getRecommendedCurrentGain(week, category, isTwins);
+          const next = getRecommendedCurrentGain(week + 1, category, isTwins);
+          return next.min >= now.min && next.max >= now.max && now.min <= now.max;
+        }
+      )
+    );
+  });
+
+  it('rejects weeks beyond 40', () => {
+    expect(() => calculatePregnancyWeightGain({
+      height: 165,
+      prePregnancyWeight: 60,
+      currentWeight: 64,
+      currentWeek: 41,
+      isTwins: false,
+      unitSystem: 'metric',
+    })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateProteinMetrics, type ProteinInput } from '@/utils/calculators/protein';
+import { ValidationError } from '@/utils/validation';
+
+describe('Protein', () => {
+  it('uses the RDA of 0.8 g/kg for sedentary adults', () => {
+    expect(calculateProteinMetrics({ weight: 70, activityLevel: 'sedentary', goal: 'maintain', unitSystem: 'metric' })).toEqual({
+      dailyProtein: 56,
+      proteinPerKg: 0.8,
+      caloriesFromProtein: 224,
+      percentageOfDiet: 11.2,
+      weightInKg: 70,
+    });
+  });
+
+  it('raises the intake for activity and goals', () => {
+    // 1.2 g/kg for moderate activity, 30% more to gain muscle
+    expect(calculateProteinMetrics({ weight: 70, activityLevel: 'moderate', goal: 'gain', unitSystem: 'metric' })).toMatchObject({
+      dailyProtein: 109.2,
+      proteinPerKg: 1.56,
+      caloriesFromProtein: 437,
+      percentageOfDiet: 21.8,
+    });
+  });
+
+  it('converts pounds to kilograms', () => {
+    expect(calculateProteinMetrics({ weight: 154.3, activityLevel: 'sedentary', goal: 'maintain', unitSystem: 'imperial' }))
+      .toMatchObject({ weightInKg: 70, dailyProtein: 56 });
+  });
+
+  it('increases with activity', () => {
+    const levels: ProteinInput['activityLevel'][] = ['sedentary', 'light', 'moderate', 'active', 'very_active'];
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 30, max: 200 }),
+        fc.constantFrom<ProteinInput['goal']>('maintain', 'lose', 'gain'),
+        (weight, goal) => {
+          const protein = levels.map(activityLevel => calculateProteinMetrics({ weight, activityLevel, goal, unitSystem: 'metric' }).dailyProtein);
+          return protein.every((value, i) => i === 0 || value > protein[i - 1]);
+        }
+      )
+    );
+  });
+
+  it('rejects a missing weight', () => {
+    expect(() => calculateProteinMetrics({ weight: 0, activityLevel: 'light', goal: 'maintain', unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateSleepTimes, formatTime12Hour, minutesToTimeString, parseTimeToMinutes } from '@/utils/calculators/sleep';
+import { ValidationError } from '@/utils/validation';
+
+describe('Sleep', () => {
+  it('suggests waking after 4-6 cycles of 90 minutes, allowing 14 minutes to fall asleep', () => {
+    expect(calculateSleepTimes({ mode: 'wakeup', time: '22:30' }).suggestions).toEqual([
+      { time: '04:44', cycles: 4, totalHours: 6.2 },
+      { time: '06:14', cycles: 5, totalHours: 7.7 },
+      { time: '07:44', cycles: 6, totalHours: 9.2 },
+    ]);
+  });
+
+  it('suggests bedtimes across midnight, earliest first', () => {
+    expect(calculateSleepTimes({ mode: 'bedtime', time: '07:00' }).suggestions.map(s => s.time)).toEqual(['21:46', '23:16', '00:46']);
+  });
+
+  it('formats 12-hour times', () => {
+    expect(['00:05', '12:00', '23:59'].map(formatTime12Hour)).toEqual(['12:05 AM', '12:00 PM', '11:59 PM']);
+  });
+
+  it('wakes up when going to bed at the suggested bedtime', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 1439 }), (minutes) => {
+        const wakeUp = minutesToTimeString(minutes);
+        return calculateSleepTimes({ mode: 'bedtime', time: wakeUp }).suggestions.every(({ time, cycles }) =>
+          calculateSleepTimes({ mode: 'wakeup', time }).suggestions.find(s => s.cycles === cycles)?.time === wakeUp
+        ) && parseTimeToMinutes(wakeUp) === minutes;
+      })
+    );
+  });
+
+  it('rejects malformed times', () => {
+    expect(() => calculateSleepTimes({ mode: 'wakeup', time: '7pm' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateAllBMRFormulas, calculateTDEE, type TDEEInput } from '@/utils/calculators/tdee';
+import { ValidationError } from '@/utils/validation';
+
+const input: TDEEInput = {
+  age: 30,
+  gender: 'male',
+  heightCm: 175,
+  weightKg: 70,
+  activityLevel: 'moderate',
+};
+
+describe('TDEE', () => {
+  it('multiplies the Mifflin-St Jeor BMR by the activity factor', () => {
+    // 1648.75 kcal × 1.55 = 2555.6 kcal
+    expect(calculateTDEE(input)).toEqual({
+      bmr: 1649,
+      tdee: 2556,
+      maintenance: 2556,
+      mildWeightLoss: 2281,
+      weightLoss: 2006,
+      extremeWeightLoss: 1456,
+      mildWeightGain: 2831,
+      weightGain: 3106,
+      extremeWeightGain: 3656,
+      formula: 'mifflin',
+      macros: {
+        protein: { grams: 192, calories: 767 },
+        carbs: { grams: 256, calories: 1022 },
+        fats: { grams: 85, calories: 767 },
+      },
+    });
+  });
+
+  it('uses Katch-McArdle when the body fat is known', () => {
+    // 370 + 21.6 × 59.5 kg lean mass = 1655.2 kcal
+    expect(calculateTDEE({ ...input, bodyFatPercentage: 15 })).toMatchObject({ bmr: 1655, tdee: 2566, formula: 'katch' });
+    expect(calculateAllBMRFormulas(70, 175, 30, 'male', 15)).toEqual({ mifflin: 1649, harris: 1696, katch: 1655 });
+  });
+
+  it('increases with activity', () => {
+    const levels: TDEEInput['activityLevel'][] = ['sedentary', 'light', 'moderate', 'active', 'very-active', 'extra-active'];
+    fc.assert(
+      fc.property(fc.integer({ min: 18, max: 80 }), fc.integer({ min: 140, max: 210 }), fc.integer({ min: 40, max: 150 }), (age, heightCm, weightKg) => {
+        const tdee = levels.map(activityLevel => calculateTDEE({ ...input, age, heightCm, weightKg, activityLevel }).tdee);
+        return tdee.every((value, i) => i === 0 || value > tdee[i - 1]);
+      })
+    );
+  });
+
+  it('rejects body fat above 100%', () => {
+    expect(() => calculateTDEE({ ...input, bodyFatPercentage: 120 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateTip } from '@/utils/calculators/tip';
+import { ValidationError } from '@/utils/validation';
+
+describe('Tip', () => {
+  it('splits the bill and tip between people', () => {
+    const result = calculateTip({ billAmount: 85.5, tipPercentage: 18, numberOfPeople: 3 });
+    expect(result.tipAmount).toBeCloseTo(15.39, 10);
+    expect(result.totalAmount).toBeCloseTo(100.89, 10);
+    expect(result.tipPerPerson).toBeCloseTo(5.13, 10);
+    expect(result.totalPerPerson).toBeCloseTo(33.63, 10);
+  });
+
+  it('adds up to the total', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 1_000_000 }), fc.integer({ min: 0, max: 50 }), fc.integer({ min: 1, max: 20 }), (cents, tipPercentage, numberOfPeople) => {
+        const result = calculateTip({ billAmount: cents / 100, tipPercentage, numberOfPeople });
+        return Math.abs(result.totalPerPerson * numberOfPeople - result.totalAmount) < 1e-6 &&
+          Math.abs(result.billAmount + result.tipAmount - result.totalAmount) < 1e-9;
+      })
+    );
+  });
+
+  it('rejects splitting between no one', () => {
+    expect(() => calculateTip({ billAmount: 50, tipPercentage: 15, numberOfPeople: 0 })).toThrow(ValidationError);
+  });
+});
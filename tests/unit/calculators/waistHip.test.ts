@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateWaistHipMetrics, getWHRCategory } from '@/utils/calculators/waistHip';
+import { ValidationError } from '@/utils/validation';
+
+describe('Waist-to-Hip Ratio', () => {
+  it('uses the WHO cut-offs of 0.90 for men and 0.85 for women', () => {
+    // WHO (2008) Waist circumference and waist-hip ratio: substantially increased risk at these ratios
+    expect(calculateWaistHipMetrics({ waist: 90, hip: 100, gender: 'male', unitSystem: 'metric' }))
+      .toEqual({ whr: 0.9, category: 'moderate', healthRisk: 'moderate' });
+    expect(calculateWaistHipMetrics({ waist: 85, hip: 100, gender: 'female', unitSystem: 'metric' }))
+      .toEqual({ whr: 0.85, category: 'high', healthRisk: 'high' });
+    expect(calculateWaistHipMetrics({ waist: 70, hip: 100, gender: 'female', unitSystem: 'metric' }).category).toBe('low');
+  });
+
+  it('does not depend on the unit', () => {
+    expect(calculateWaistHipMetrics({ waist: 34, hip: 40, gender: 'male', unitSystem: 'imperial' }).whr).toBe(0.85);
+  });
+
+  it('ranks higher ratios at equal or higher risk', () => {
+    const rank = ['low', 'moderate', 'high', 'very-high'];
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0.5, max: 1.5, noNaN: true }),
+        fc.double({ min: 0, max: 0.5, noNaN: true }),
+        fc.constantFrom('male' as const, 'female' as const),
+        (whr, increase, gender) => rank.indexOf(getWHRCategory(whr + increase, gender)) >= rank.indexOf(getWHRCategory(whr, gender))
+      )
+    );
+  });
+
+  it('rejects a missing hip measurement', () => {
+    expect(() => calculateWaistHipMetrics({ waist: 80, hip: 0, gender: 'male', unitSystem: 'metric' })).toThrow(ValidationError);
+  });
+});
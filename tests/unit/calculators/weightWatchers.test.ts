@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { calculateDailyBudget, calculateFoodPoints, estimatePointsForFood } from '@/utils/calculators/weightWatchers';
+import { ValidationError } from '@/utils/validation';
+
+describe('Weight Watchers', () => {
+  it('scores food from calories, saturated fat, sugar and protein', () => {
+    // 200 × 0.0305 + 5 × 0.275 + 10 × 0.12 - 8 × 0.098 = 7.9
+    expect(calculateFoodPoints({ calories: 200, saturatedFat: 5, sugar: 10, protein: 8 }).points).toBe(8);
+    expect(estimatePointsForFood(0, 0, 0, 30)).toBe(0);
+  });
+
+  it('builds the daily budget from sex, age, height, weight and activity', () => {
+    // 18 (female) + 4 (21-35) + 3 (inches over 157 cm) + 2 (68-82 kg) + 1 (light activity)
+    expect(calculateDailyBudget({ age: 30, gender: 'female', weight: 70, height: 165, activityLevel: 'light' })).toEqual({
+      dailyPoints: 28,
+      basePoints: 27,
+      activityBonus: 1,
+      weeklyPoints: 35,
+    });
+  });
+
+  it('scores more calories with more points', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 2000 }), fc.integer({ min: 0, max: 50 }), (calories, saturatedFat) =>
+        estimatePointsForFood(calories + 100, saturatedFat) >= estimatePointsForFood(calories, saturatedFat)
+      )
+    );
+  });
+
+  it('rejects budgets for minors', () => {
+    expect(() => calculateDailyBudget({ age: 16, gender: 'male', weight: 60, height: 170, activityLevel: 'light' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Content Metadata Tests
+ *
+ * Pages are dated by their git history, or by their frontmatter without one,
+ * and read at the reading speed of their language.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+import { countWords, getContentDates, getReadingTime } from '@/utils/contentMetadata';
+
+/** Shallow clones (the default in CI) have no history to date pages by */
+const shallow = execFileSync('git', ['rev-parse', '--is-shallow-repository'], { encoding: 'utf8' }).trim() === 'true';
+
+describe('getContentDates', () => {
+  it.skipIf(shallow)('dates committed pages by their history', () => {
+    const { published, modified } = getContentDates('src/content/calculators/en/bmi.mdx', new Date('2000-01-01'));
+
+    expect(published).toBeInstanceOf(Date);
+    expect(modified!.getTime()).toBeGreaterThanOrEqual(published!.getTime());
+    expect(modified!.getFullYear()).toBeGreaterThan(2000);
+  });
+
+  it('falls back to the frontmatter date', () => {
+    const updated = new Date('2025-03-01');
+
+    expect(getContentDates('src/content/calculators/en/missing.mdx', updated)).toEqual({ published: undefined, modified: updated });
+    expect(getContentDates('src/content/calculators/en/missing.mdx')).toEqual({ published: undefined, modified: undefined });
+  });
+});
+
+describe('countWords', () => {
+  it('counts the text, not the MDX around it', () => {
+    const body = [
+      "import BMICalculator from '@/components/calculators/BMICalculator.astro';",
+      '',
+      '# BMI Calculator',
+      '<BMICalculator lang="en" />',
+      'See the **[WHO table](https://www.who.int/data/gho)** for adults.',
+    ].join('\n');
+
+    expect(countWords(body)).toBe(8);
+  });
+
+  it('counts words of every script', () => {
+    expect(countWords('बॉडी मास इंडेक्स क्या है?')).toBe(5);
+    expect(countWords('ما هو مؤشر كتلة الجسم؟')).toBe(5);
+    expect(countWords("Qu'est-ce que l'IMC ?")).toBe(3);
+  });
+});
+
+describe('getReadingTime', () => {
+  it('uses the reading speed of the language', () => {
+    const body = 'word '.repeat(900);
+
+    expect(getReadingTime(body, 'en')).toBe(4);
+    expect(getReadingTime(body, 'ar')).toBe(7);
+  });
+
+  it('takes at least a minute', () => {
+    expect(getReadingTime('Short page.', 'es')).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Formatting Tests
+ *
+ * Separators come from the locale profile rather than Intl's defaults:
+ * French and Polish group with a plain space, not Intl's narrow no-break
+ * space, so results match what the percentage calculator shows.
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  formatCurrency,
+  formatDate,
+  formatDateRange,
+  formatDecimal,
+  formatDuration,
+  formatNumber,
+  formatPercent,
+  formatRelativeTime,
+  formatTime,
+  formatUnit,
+  formatWeekday,
+} from '@/utils/format';
+import { getSupportedLocales, languages } from '@/config/languages';
+
+describe('formatNumber', () => {
+  it('uses the locale separators', () => {
+    expect(formatNumber(12345.6, 'en')).toBe('12,345.6');
+    expect(formatNumber(12345.6, 'es')).toBe('12.345,6');
+    expect(formatNumber(12345.6, 'de')).toBe('12.345,6');
+    expect(formatNumber(12345.6, 'fr')).toBe('12 345,6');
+    expect(formatNumber(12345.6, 'pl')).toBe('12 345,6');
+    expect(formatNumber(12345.6, 'ru')).toBe('12 345,6');
+  });
+
+  it('rounds to 2 decimals by default', () => {
+    expect(formatNumber(22.4567, 'en')).toBe('22.46');
+    expect(formatNumber(25, 'en')).toBe('25');
+  });
+
+  it('keeps Latin digits and the locale decimal mark in every locale', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...getSupportedLocales()),
+        fc.integer({ min: 0, max: 99 }),
+        fc.integer({ min: 1, max: 9 }),
+        (locale, whole, tenth) => {
+          const { decimalSeparator } = languages[locale];
+          expect(formatNumber(whole + tenth / 10, locale)).toBe(`${whole}${decimalSeparator}${tenth}`);
+        }
+      )
+    );
+  });
+});
+
+describe('regions', () => {
+  it('use the separators, currency and formats of the region', () => {
+    expect(formatNumber(1234567.5, 'en-IN')).toBe('12,34,567.5');
+    expect(formatNumber(12345.6, 'es-MX')).toBe('12,345.6');
+    expect(formatCurrency(12.5, 'en-GB')).toBe('£12.50');
+    expect(formatCurrency(12345.5, 'pt-PT')).toBe('12 345,50 €');
+    expect(formatDate(new Date(2024, 2, 15), 'en-GB')).toBe('15 March 2024');
+  });
+});
+
+describe('formatDecimal', () => {
+  it('pads to a fixed number of decimals like toFixed', () => {
+    expect(formatDecimal(22.5, 'en', 2)).toBe('22.50');
+    expect(formatDecimal(22.5, 'fr', 1)).toBe('22,5');
+    expect(formatDecimal(1234, 'de', 2)).toBe('1.234,00');
+  });
+});
+
+describe('formatPercent', () => {
+  it('takes the value in percent', () => {
+    // The space before % is a no-break space, so the sign never wraps alone
+    expect(formatPercent(25, 'en')).toBe('25%');
+    expect(formatPercent(18.25, 'es')).toBe('18,3\u00a0%');
+    expect(formatPercent(12.5, 'de', 2)).toBe('12,5\u00a0%');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('places the symbol where the region writes it', () => {
+    expect(formatCurrency(1234.5, 'en')).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'de')).toBe('1.234,50 €');
+    expect(formatCurrency(12, 'es', '$')).toBe('12,00 $');
+  });
+});
+
+describe('formatUnit', () => {
+  it('localizes unit names', () => {
+    expect(formatUnit(70.5, 'kilogram', 'en')).toBe('70.5 kg');
+    expect(formatUnit(70.5, 'kilogram', 'ru')).toBe('70,5 кг');
+    expect(formatUnit(3, 'day', 'es', { unitDisplay: 'long' })).toBe('3 días');
+    expect(formatUnit(0.5, 'kilogram-per-week', 'en', { unitDisplay: 'long' })).toBe('0.5 kilograms per week');
+  });
+});
+
+describe('formatDuration', () => {
+  it('lists the non-zero parts', () => {
+    expect(formatDuration({ years: 30, months: 2, days: 0 }, 'en')).toBe('30 years, 2 months');
+    expect(formatDuration({ weeks: 12, days: 3 }, 'de')).toBe('12 Wochen, 3 Tage');
+  });
+
+  it('shows an empty duration in its smallest unit', () => {
+    expect(formatDuration({ years: 0, months: 0, days: 0 }, 'en')).toBe('0 days');
+  });
+});
+
+describe('dates', () => {
+  const date = new Date(2024, 2, 15);
+
+  it('formats long dates for the locale', () => {
+    expect(formatDate(date, 'en')).toBe('March 15, 2024');
+    expect(formatDate(date, 'es')).toBe('15 de marzo de 2024');
+    expect(formatDate(date, 'de')).toBe('15. März 2024');
+  });
+
+  it('names weekdays in the locale', () => {
+    expect(formatWeekday(date, 'en')).toBe('Friday');
+    expect(formatWeekday(date, 'fr')).toBe('vendredi');
+    expect(formatWeekday(date, 'pl')).toBe('piątek');
+  });
+
+  it('shares the common parts of a range', () => {
+    expect(formatDateRange(new Date(2024, 2, 1), new Date(2024, 2, 5), 'en')).toBe('March 1\u2009–\u20095, 2024');
+  });
+
+  it('formats times with the locale clock', () => {
+    expect(formatTime('19:30', 'en')).toBe('7:30 PM');
+    expect(formatTime('19:30', 'de')).toBe('19:30');
+  });
+
+  it('words relative days', () => {
+    expect(formatRelativeTime(0, 'day', 'en')).toBe('today');
+    expect(formatRelativeTime(1, 'day', 'en')).toBe('tomorrow');
+    expect(formatRelativeTime(66, 'day', 'es')).toBe('dentro de 66 días');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Language Detection Tests
+ *
+ * Browser preferences are matched by their language subtag, so en-AU and
+ * es-419 find English and Spanish pages.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { detectLocale, parseAcceptLanguage } from '@/config/languages';
+
+describe('parseAcceptLanguage', () => {
+  it('orders tags by quality, keeping header order for ties', () => {
+    expect(parseAcceptLanguage('es-MX,en;q=0.8,es;q=0.9')).toEqual(['es-MX', 'es', 'en']);
+    expect(parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.9, *;q=0.5')).toEqual(['fr-CH', 'fr', 'en']);
+  });
+
+  it('drops refused and empty entries', () => {
+    expect(parseAcceptLanguage('de;q=0,nl')).toEqual(['nl']);
+    expect(parseAcceptLanguage('')).toEqual([]);
+  });
+});
+
+describe('detectLocale', () => {
+  it('picks the first supported language', () => {
+    expect(detectLocale(['ja-JP', 'es-419', 'en'])).toBe('es');
+    expect(detectLocale(['en-AU'])).toBe('en');
+    expect(detectLocale('zh-CN,ar-EG;q=0.7,fr;q=0.8')).toBe('fr');
+  });
+
+  it('finds nothing for unsupported languages', () => {
+    expect(detectLocale(['ja', 'zh-Hant-TW'])).toBeUndefined();
+    expect(detectLocale([])).toBeUndefined();
+  });
+});
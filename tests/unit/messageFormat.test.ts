@@ -0,0 +1,122 @@
+/**
+ * Message Format Tests
+ *
+ * Plural categories follow CLDR (via Intl.PluralRules): Polish and Russian
+ * distinguish one/few/many, and decimals fall into "other".
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { formatMessage } from '@/utils/messageFormat';
+import { loadTranslations, t } from '@/utils/i18n';
+import { getSupportedLocales } from '@/config/languages';
+import { flattenTranslations } from '@/integrations/translationCheck';
+
+const RU_DAYS = '{days, plural, one {# день} few {# дня} many {# дней} other {# дня}}';
+const PL_HOURS = '{hours, plural, one {# godzina} few {# godziny} many {# godzin} other {# godziny}}';
+
+describe('formatMessage', () => {
+  it('fills placeholders and formats numbers for the locale', () => {
+    expect(formatMessage('You need to lose {weight} {unit}', { weight: 4.2, unit: 'kg' }, 'en'))
+      .toBe('You need to lose 4.2 kg');
+    expect(formatMessage('Sie müssen {weight} {unit} verlieren', { weight: 4.2, unit: 'kg' }, 'de'))
+      .toBe('Sie müssen 4,2 kg verlieren');
+    expect(formatMessage('{share, number, percent}', { share: 0.25 }, 'en')).toBe('25%');
+  });
+
+  it('leaves placeholders without a value', () => {
+    expect(formatMessage('Between {min} and {max}', { min: 1 }, 'en')).toBe('Between 1 and {max}');
+  });
+
+  it('selects Russian plural forms', () => {
+    // CLDR: one = 1, 21, 101...; few = 2-4, 22-24...; many = 0, 5-20, 25-30...
+    expect(formatMessage(RU_DAYS, { days: 1 }, 'ru')).toBe('1 день');
+    expect(formatMessage(RU_DAYS, { days: 3 }, 'ru')).toBe('3 дня');
+    expect(formatMessage(RU_DAYS, { days: 11 }, 'ru')).toBe('11 дней');
+    expect(formatMessage(RU_DAYS, { days: 21 }, 'ru')).toBe('21 день');
+    expect(formatMessage(RU_DAYS, { days: 25 }, 'ru')).toBe('25 дней');
+  });
+
+  it('selects Polish plural forms', () => {
+    // CLDR: one = 1; few = 2-4, 22-24 (not 12-14); many = other integers; other = decimals
+    expect(formatMessage(PL_HOURS, { hours: 1 }, 'pl')).toBe('1 godzina');
+    expect(formatMessage(PL_HOURS, { hours: 4 }, 'pl')).toBe('4 godziny');
+    expect(formatMessage(PL_HOURS, { hours: 12 }, 'pl')).toBe('12 godzin');
+    expect(formatMessage(PL_HOURS, { hours: 22 }, 'pl')).toBe('22 godziny');
+    expect(formatMessage(PL_HOURS, { hours: 7.5 }, 'pl')).toBe('7,5 godziny');
+  });
+
+  it('prefers exact matches and applies the offset', () => {
+    const message = '{count, plural, offset:1 =0 {Nobody} =1 {Only {name}} one {{name} and # other} other {{name} and # others}}';
+    expect(formatMessage(message, { count: 0, name: 'Ana' }, 'en')).toBe('Nobody');
+    expect(formatMessage(message, { count: 1, name: 'Ana' }, 'en')).toBe('Only Ana');
+    expect(formatMessage(message, { count: 2, name: 'Ana' }, 'en')).toBe('Ana and 1 other');
+    expect(formatMessage(message, { count: 4, name: 'Ana' }, 'en')).toBe('Ana and 3 others');
+  });
+
+  it('formats ordinals and selects', () => {
+    const ordinal = '{week, selectordinal, one {#st} two {#nd} few {#rd} other {#th}} week';
+    expect(formatMessage(ordinal, { week: 1 }, 'en')).toBe('1st week');
+    expect(formatMessage(ordinal, { week: 12 }, 'en')).toBe('12th week');
+    expect(formatMessage(ordinal, { week: 23 }, 'en')).toBe('23rd week');
+
+    const gender = '{gender, select, female {Ella está} male {Él está} other {Está}} en su peso';
+    expect(formatMessage(gender, { gender: 'female' }, 'es')).toBe('Ella está en su peso');
+    expect(formatMessage(gender, { gender: 'unknown' }, 'es')).toBe('Está en su peso');
+  });
+
+  it('keeps apostrophes and quoted braces as text', () => {
+    expect(formatMessage("à l'une de ces heures, {time}", { time: '7:00' }, 'fr')).toBe("à l'une de ces heures, 7:00");
+    expect(formatMessage("Use '{name}' or '#' and it''s fine", {}, 'en')).toBe("Use {name} or '#' and it's fine");
+    expect(formatMessage("{n, plural, other {'#' #}}", { n: 5 }, 'en')).toBe('# 5');
+  });
+
+  it('rejects malformed messages', () => {
+    expect(() => formatMessage('{count, plural, one {# day}}', { count: 1 }, 'en')).toThrow(/other/);
+    expect(() => formatMessage('{count, plural, one {# day}', { count: 1 }, 'en')).toThrow();
+    expect(() => formatMessage('Closed } brace', {}, 'en')).toThrow();
+    expect(() => formatMessage('{date, time}', {}, 'en')).toThrow(/time/);
+  });
+
+  it('picks a form for every count in every locale', () => {
+    const message = '{n, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}';
+    fc.assert(
+      fc.property(fc.constantFrom(...getSupportedLocales()), fc.nat(10000), (locale, n) => {
+        const category = new Intl.PluralRules(locale).select(n);
+        expect(formatMessage(message, { n }, locale)).toBe(category);
+      })
+    );
+  });
+});
+
+describe('t', () => {
+  beforeAll(() => Promise.all((['en', 'pl', 'ru'] as const).map(locale => loadTranslations(locale))));
+
+  it('formats messages when given parameters', () => {
+    expect(t('period.results.daysUntil', 'ru', { days: 5 })).toBe('Через 5 дней');
+    expect(t('sleep.results.cycles', 'pl', { count: 4 })).toBe('4 cykle');
+    expect(t('healthyWeight.results.goalLose', 'en', { weight: 4.2, unit: 'kg' }))
+      .toBe('You need to lose 4.2 kg to reach a healthy range');
+  });
+
+  it('returns the message as written without parameters', () => {
+    expect(t('sleep.results.cycles', 'en')).toBe('{count, plural, one {# cycle} other {# cycles}}');
+  });
+
+  it('parses every shipped translation', () => {
+    for (const locale of getSupportedLocales()) {
+      const dir = join(process.cwd(), 'public/locales', locale);
+      const files = ['common.json', 'categories.json', ...readdirSync(join(dir, 'calculators')).map(file => `calculators/${file}`)];
+
+      for (const file of files) {
+        const translations = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+        for (const [key, value] of flattenTranslations(translations)) {
+          if (typeof value !== 'string') continue;
+          expect(() => formatMessage(value, {}, locale), `${locale}/${file}: ${key}`).not.toThrow();
+        }
+      }
+    }
+  });
+});
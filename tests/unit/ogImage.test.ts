@@ -0,0 +1,141 @@
+/**
+ * Open Graph Image Tests
+ *
+ * Share images are 1200×630 PNGs whose SVG holds the escaped title, wrapped
+ * by its glyph widths on the reading side of the language, and the visual of
+ * the calculator.
+ */
+
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { calculators } from '@/config/calculators';
+import {
+  getOgImagePath,
+  getOgVisual,
+  getTitleLayout,
+  measureText,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  OG_TEXT_WIDTH,
+  renderOgImagePng,
+  renderOgImageSvg,
+  wrapText,
+  type OgImageContent,
+} from '@/utils/ogImage';
+
+/**
+ * Brightest red of a column range of the rendered image, below the logo and
+ * above the footer: the background stays below 60 and the white text above
+ */
+async function maxRed(content: OgImageContent, fromX: number, toX: number): Promise<number> {
+  const { data, info } = await sharp(await renderOgImagePng(content))
+    .extract({ left: fromX, top: 120, width: toX - fromX, height: OG_IMAGE_HEIGHT - 240 })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  let max = 0;
+  for (let i = 0; i < data.length; i += info.channels) max = Math.max(max, data[i]);
+  return max;
+}
+
+describe('wrapText', () => {
+  it('fills lines up to the given length', () => {
+    expect(wrapText('Calculadora de Peso Ideal', 14, 3)).toEqual(['Calculadora de', 'Peso Ideal']);
+  });
+
+  it('shortens the last line when the text does not fit', () => {
+    expect(wrapText('one two three four', 7, 2)).toEqual(['one two', 'three…']);
+  });
+
+  it('breaks words wider than a line after a hyphen, or else anywhere', () => {
+    expect(wrapText('Taille-Hüft-Verhältnis', 12, 3)).toEqual(['Taille-Hüft-', 'Verhältnis']);
+    expect(wrapText('Schwangerschaftsrechner', 10, 3)).toEqual(['Schwangers', 'chaftsrech', 'ner']);
+  });
+});
+
+describe('getTitleLayout', () => {
+  it('wraps titles by the widths of their glyphs', () => {
+    // Narrow letters fit more characters on a line than wide ones
+    expect(getTitleLayout('iiiiiiii iiiiiiii').lines).toHaveLength(1);
+    expect(getTitleLayout('WWWWWWWW WWWWWWWW').lines).toHaveLength(2);
+  });
+
+  it('shrinks titles with long words before breaking them', () => {
+    const { fontSize, lines } = getTitleLayout('Schwangerschaftsgewichtszunahme-Rechner');
+
+    expect(fontSize).toBe(48);
+    for (const line of lines) {
+      expect(measureText(line, fontSize, 700)).toBeLessThanOrEqual(OG_TEXT_WIDTH);
+    }
+  });
+});
+
+describe('getOgVisual', () => {
+  it('shows the kind of result of the calculator', () => {
+    expect(getOgVisual('bmi')).toBe('gauge');
+    expect(getOgVisual('heart-rate')).toBe('zones');
+    expect(getOgVisual('macro')).toBe('donut');
+    expect(getOgVisual('due-date')).toBe('calendar');
+    expect(getOgVisual('age')).toBe('calendar');
+  });
+
+  it('has a visual for every calculator', () => {
+    for (const calculatorId of calculators) {
+      expect(getOgVisual(calculatorId), calculatorId).toBeTruthy();
+    }
+  });
+});
+
+describe('getOgImagePath', () => {
+  it('gives every calculator and language its own image', () => {
+    expect(getOgImagePath('es', 'bmi')).toBe('/og/es/bmi.png');
+    expect(getOgImagePath('ar')).toBe('/og/ar.png');
+  });
+});
+
+describe('renderOgImageSvg', () => {
+  it('escapes the text', () => {
+    const svg = renderOgImageSvg({ title: 'Tip & <Split>', category: 'Finance', visual: 'bars', dir: 'ltr' });
+
+    expect(svg).toContain('Tip &#38; &#60;Split&#62;');
+    expect(svg).not.toContain('<Split>');
+  });
+
+  it('puts the text on the right in right-to-left languages', () => {
+    const ltr = renderOgImageSvg({ title: 'BMI', visual: 'gauge', dir: 'ltr' });
+    const rtl = renderOgImageSvg({ title: 'مؤشر كتلة الجسم', visual: 'gauge', dir: 'rtl' });
+    const titleWidth = measureText('مؤشر كتلة الجسم', 68, 700);
+
+    expect(ltr).toContain('translate(64.0 ');
+    expect(rtl).toContain(`translate(${(OG_IMAGE_WIDTH - 64 - titleWidth).toFixed(1)} `);
+  });
+
+  it('draws the text as glyph outlines, without system fonts', () => {
+    const svg = renderOgImageSvg({ title: 'BMR कैलकुलेटर', category: 'स्वास्थ्य', visual: 'gauge', dir: 'ltr' });
+
+    expect(svg).not.toContain('<text');
+    expect(svg).not.toContain('font-family');
+  });
+});
+
+describe('renderOgImagePng', () => {
+  it('renders a PNG of the Open Graph size', async () => {
+    const png = await renderOgImagePng({ title: 'BMI Calculator', category: 'Health', visual: 'gauge', dir: 'ltr' });
+    const metadata = await sharp(png).metadata();
+
+    expect(metadata.format).toBe('png');
+    expect([metadata.width, metadata.height]).toEqual([OG_IMAGE_WIDTH, OG_IMAGE_HEIGHT]);
+  });
+
+  it('keeps non-Latin titles inside their box', async () => {
+    const hindi: OgImageContent = { title: 'BMR कैलकुलेटर (बेसल मेटाबोलिक रेट)', category: 'स्वास्थ्य', visual: 'gauge', dir: 'ltr' };
+    const arabic: OgImageContent = { title: 'حاسبة إجمالي استهلاك الطاقة اليومي', category: 'الصحة', visual: 'gauge', dir: 'rtl' };
+    const textEnd = 64 + OG_TEXT_WIDTH;
+    const panelStart = OG_IMAGE_WIDTH - 64 - 420;
+
+    // The text is drawn, and the gap between the text box and the panel stays empty
+    expect(await maxRed(hindi, 64, textEnd)).toBeGreaterThan(200);
+    expect(await maxRed(hindi, textEnd, panelStart)).toBeLessThan(60);
+    expect(await maxRed(arabic, OG_IMAGE_WIDTH - textEnd, OG_IMAGE_WIDTH - 64)).toBeGreaterThan(200);
+    expect(await maxRed(arabic, OG_IMAGE_WIDTH - panelStart, OG_IMAGE_WIDTH - textEnd)).toBeLessThan(60);
+  });
+});
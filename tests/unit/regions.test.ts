@@ -0,0 +1,62 @@
+/**
+ * Regional Variant Tests
+ *
+ * Regions are detected from Accept-Language headers (with q-values) and
+ * navigator.languages alike, and only match regions of the page's language.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getSupportedLocales, languages } from '@/config/languages';
+import {
+  detectRegion,
+  getDefaultRegion,
+  getLocaleRegions,
+  getRegionProfile,
+  regions,
+  type Region,
+} from '@/config/regions';
+
+describe('detectRegion', () => {
+  it('picks the first region of the language in navigator.languages', () => {
+    expect(detectRegion('en', ['en-GB', 'en-US'])).toBe('en-GB');
+    expect(detectRegion('en', ['fr-FR', 'en-in'])).toBe('en-IN');
+    expect(detectRegion('pt', ['pt-PT'])).toBe('pt-PT');
+  });
+
+  it('orders an Accept-Language header by quality', () => {
+    expect(detectRegion('es', 'es-ES;q=0.5,es-MX;q=0.9,en;q=0.8')).toBe('es-MX');
+    expect(detectRegion('en', 'en-AU,en-GB;q=0.8')).toBe('en-GB');
+    expect(detectRegion('en', 'en-GB;q=0,en-US;q=0.5')).toBe('en-US');
+  });
+
+  it('ignores bare languages, unknown regions and other languages', () => {
+    expect(detectRegion('en', ['en', 'en-AU', 'es-MX'])).toBeUndefined();
+    expect(detectRegion('de', 'de-AT,de;q=0.9')).toBeUndefined();
+    expect(detectRegion('en', '')).toBeUndefined();
+  });
+});
+
+describe('regions', () => {
+  it('make each language profile the default region of its variants', () => {
+    for (const locale of getSupportedLocales()) {
+      const localeRegions = getLocaleRegions(locale);
+      if (localeRegions.length === 0) continue;
+
+      const defaultRegion = getDefaultRegion(locale);
+      expect(localeRegions).toContain(defaultRegion);
+      expect(getRegionProfile(defaultRegion!)).toEqual(languages[locale]);
+    }
+  });
+
+  it('override the language profile', () => {
+    expect(getRegionProfile('en-GB')).toMatchObject({ units: 'metric', currencySymbol: '£', ogLocale: 'en_GB', folder: 'calculators' });
+    expect(getRegionProfile('pt-PT')).toMatchObject({ currency: 'EUR', currencyPosition: 'after', tag: 'pt-PT' });
+  });
+
+  it('are valid BCP-47 tags of their language', () => {
+    for (const region of Object.keys(regions) as Region[]) {
+      expect(Intl.getCanonicalLocales(region)).toEqual([region]);
+      expect(region.startsWith(`${regions[region].locale}-`)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Related Calculators Tests
+ *
+ * Linked calculators come first, then calculators sharing categories, and
+ * every page gets between MIN_RELATED and MAX_RELATED distinct suggestions.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { calculators } from '@/config/calculators';
+import {
+  getRelatedCalculators,
+  getRelatedness,
+  MAX_RELATED,
+  MIN_RELATED,
+} from '@/config/related-calculators';
+
+describe('getRelatedCalculators', () => {
+  it('puts linked calculators first', () => {
+    expect(getRelatedCalculators('bmi').slice(0, 2)).toEqual(['healthy-weight', 'ideal-weight']);
+    expect(getRelatedCalculators('bmr')[0]).toBe('tdee');
+    expect(getRelatedCalculators('due-date')[0]).toBe('pregnancy-weight-gain');
+  });
+
+  it('follows links in both directions', () => {
+    expect(getRelatedCalculators('tdee').slice(0, 2)).toEqual(['bmr', 'macro']);
+    expect(getRelatedCalculators('pregnancy-weight-gain')[0]).toBe('due-date');
+    expect(getRelatedCalculators('healthy-weight')[0]).toBe('bmi');
+  });
+
+  it('suggests calculators two links away', () => {
+    expect(getRelatedCalculators('bmr')).toContain('macro');
+    expect(getRelatedCalculators('macro')).toContain('bmr');
+  });
+
+  it.each(calculators)('suggests %s a bounded list of other calculators', (calculatorId) => {
+    const related = getRelatedCalculators(calculatorId);
+
+    expect(related.length).toBeGreaterThanOrEqual(MIN_RELATED);
+    expect(related.length).toBeLessThanOrEqual(MAX_RELATED);
+    expect(related).not.toContain(calculatorId);
+    expect(new Set(related).size).toBe(related.length);
+  });
+});
+
+describe('getRelatedness', () => {
+  it('ranks links above shared categories', () => {
+    expect(getRelatedness('bmi', 'ideal-weight')).toBeGreaterThan(getRelatedness('bmi', 'body-fat'));
+  });
+
+  it('is symmetric', () => {
+    expect(getRelatedness('bmr', 'tdee')).toBe(getRelatedness('tdee', 'bmr'));
+    expect(getRelatedness('bmr', 'macro')).toBe(getRelatedness('macro', 'bmr'));
+  });
+
+  it('is 0 for unrelated calculators', () => {
+    expect(getRelatedness('tip', 'pregnancy')).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Calculator Search Tests
+ *
+ * Queries are compared without case, accents or Cyrillic script, every query
+ * word has to match, and title matches rank first.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { normalizeSearchText, searchCalculators, type SearchEntry } from '@/utils/search';
+
+function entry(id: string, title: string, terms: string[]): SearchEntry {
+  return {
+    id,
+    title,
+    description: '',
+    url: `/${id}/`,
+    category: '',
+    terms: terms.map(normalizeSearchText),
+  };
+}
+
+const entries = [
+  entry('bmi', 'BMI Calculator', ['body mass index', 'imc', 'индекс массы тела', 'имт', 'kalkulyator imt']),
+  entry('bmr', 'BMR Calculator', ['basal metabolic rate', 'metabolismo basal']),
+  entry('body-fat', 'Body Fat Calculator', ['body fat percentage', 'grasa corporal']),
+  entry('pregnancy', 'Pregnancy Calculator', ['embarazo', 'gestational age']),
+];
+
+const search = (query: string) => searchCalculators(entries, query).map(({ id }) => id);
+
+describe('normalizeSearchText', () => {
+  it('lowercases and removes accents', () => {
+    expect(normalizeSearchText('Índice de Masa Corporal')).toBe('indice de masa corporal');
+    expect(normalizeSearchText('Körperfett')).toBe('korperfett');
+  });
+
+  it('transliterates letters without decomposition', () => {
+    expect(normalizeSearchText('ИМТ')).toBe('imt');
+    expect(normalizeSearchText('Łódź')).toBe('lodz');
+    expect(normalizeSearchText('Größe')).toBe('grosse');
+  });
+});
+
+describe('searchCalculators', () => {
+  it('finds calculators by their names in other languages', () => {
+    expect(search('imc')).toEqual(['bmi']);
+    expect(search('IMT')).toEqual(['bmi']);
+    expect(search('ИМТ')).toEqual(['bmi']);
+    expect(search('body mass')).toEqual(['bmi']);
+  });
+
+  it('ignores accents in the query', () => {
+    expect(search('embarazó')).toEqual(['pregnancy']);
+    expect(search('INDEKS MASSY')).toEqual(['bmi']);
+  });
+
+  it('matches the beginning of words', () => {
+    expect(search('preg')).toEqual(['pregnancy']);
+    expect(search('metab')).toEqual(['bmr']);
+  });
+
+  it('tolerates typos in longer words', () => {
+    expect(search('pregnacy')).toEqual(['pregnancy']);
+    expect(search('metabolsm')).toEqual(['bmr']);
+    // Short words have to be spelled right
+    expect(search('bmo')).toEqual([]);
+  });
+
+  it('requires every word of the query to match', () => {
+    expect(search('body')).toEqual(['body-fat', 'bmi']);
+    expect(search('body fat')).toEqual(['body-fat']);
+    expect(search('body pregnancy')).toEqual([]);
+  });
+
+  it('ranks title matches above other terms', () => {
+    expect(search('calculator')).toEqual(['bmi', 'bmr', 'body-fat', 'pregnancy']);
+    expect(search('body')[0]).toBe('body-fat');
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(search('')).toEqual([]);
+    expect(search('  - ')).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Sitemap Tests
+ *
+ * The sitemap lists the home, listing and calculator pages of every language
+ * from the routes, with hreflang alternates, share images and priorities
+ * from the SEO tiers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { calculators } from '@/config/calculators';
+import { getSupportedLocales } from '@/config/languages';
+import { getSeoTier, seoTiers } from '@/config/seo-tiers';
+import { calculatorPaths, getCalculatorNamespace } from '@/utils/i18n';
+import { getSitemapEntries, renderSitemap } from '@/utils/sitemap';
+
+const site = new URL('https://calculatoria.net');
+
+describe('getSitemapEntries', () => {
+  const entries = getSitemapEntries();
+  const byPath = new Map(entries.map(entry => [entry.path, entry]));
+
+  it('lists every page of every language once', () => {
+    const locales = getSupportedLocales();
+
+    expect(entries).toHaveLength(locales.length * (calculators.length + 2));
+    expect(byPath.size).toBe(entries.length);
+    for (const locale of locales) {
+      for (const calculatorId of calculators) {
+        expect(byPath.has(calculatorPaths[getCalculatorNamespace(calculatorId)][locale]), `${locale}/${calculatorId}`).toBe(true);
+      }
+    }
+    expect([...byPath.keys()]).toEqual(expect.arrayContaining(['/', '/es/', '/calculators/', '/ar/hasibat/']));
+  });
+
+  it('links calculator pages to their translations and share image', () => {
+    const page = byPath.get('/es/calculadoras/imc/')!;
+
+    expect(page.alternates).toMatchObject({ en: '/calculators/bmi/', es: '/es/calculadoras/imc/', tr: '/tr/hesap-makineleri/vki/' });
+    expect(page.images).toEqual(['/og/es/bmi.png']);
+  });
+
+  it('prioritizes calculator pages by SEO tier', () => {
+    expect(getSeoTier('bmi', 'en')).toBe(1);
+    expect(byPath.get('/calculators/bmi/')!.priority).toBe(0.8);
+    expect(getSeoTier('body-frame', 'it')).toBe(3);
+    expect(byPath.get(calculatorPaths.bodyFrame.it)!.priority).toBe(0.6);
+    // Languages outside the keyword research take the middle tier
+    expect(byPath.get(calculatorPaths.bmi.ar)!.priority).toBe(0.7);
+  });
+
+  it('dates calculator pages only', () => {
+    const dated = getSitemapEntries(() => new Date('2025-03-01'));
+
+    expect(dated.find(entry => entry.path === '/ar/hasibat/')!.lastmod).toBeUndefined();
+    expect(dated.find(entry => entry.path === '/calculators/bmi/')!.lastmod).toBeInstanceOf(Date);
+  });
+});
+
+describe('seoTiers', () => {
+  it('covers the researched languages of every calculator', () => {
+    for (const calculatorId of calculators) {
+      expect(Object.keys(seoTiers[calculatorId] ?? {}), calculatorId).toHaveLength(12);
+    }
+  });
+});
+
+describe('renderSitemap', () => {
+  it('writes absolute URLs with alternates and images', () => {
+    const xml = renderSitemap([
+      {
+        path: '/es/calculadoras/imc/',
+        priority: 0.8,
+        changefreq: 'weekly',
+        lastmod: new Date('2025-03-01T00:00:00Z'),
+        alternates: { ...getSitemapEntries()[0].alternates!, es: '/es/calculadoras/imc/', en: '/calculators/bmi/' },
+        images: ['/og/es/bmi.png'],
+      },
+    ], site);
+
+    expect(xml).toContain('<loc>https://calculatoria.net/es/calculadoras/imc/</loc><lastmod>2025-03-01T00:00:00.000Z</lastmod>');
+    expect(xml).toContain('<priority>0.8</priority>');
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="es" href="https://calculatoria.net/es/calculadoras/imc/"/>');
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="x-default" href="https://calculatoria.net/calculators/bmi/"/>');
+    expect(xml).toContain('<image:image><image:loc>https://calculatoria.net/og/es/bmi.png</image:loc></image:image>');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Structured Data Tests
+ *
+ * The JSON-LD of every calculator page in every language is checked against
+ * the shapes schema.org and search engines expect, and FAQ extraction against
+ * the ways the MDX content writes its questions.
+ */
+
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculators } from '@/config/calculators';
+import { getSupportedLocales, type Locale } from '@/config/languages';
+import { loadTranslations } from '@/utils/i18n';
+import {
+  extractFaq,
+  getCalculatorBreadcrumbs,
+  getCalculatorStructuredData,
+  medicalRiskCalculators,
+  type JsonLd,
+} from '@/utils/structuredData';
+
+const site = new URL('https://calculatoria.net');
+
+/**
+ * MDX body of a calculator page, without its frontmatter
+ */
+function readBody(locale: Locale, calculatorId: string): string {
+  const source = readFileSync(`src/content/calculators/${locale}/${calculatorId}.mdx`, 'utf8');
+  return source.replace(/^---\n[\s\S]*?\n---\n/, '');
+}
+
+function getStructuredData(locale: Locale, calculatorId: (typeof calculators)[number]): JsonLd[] {
+  return getCalculatorStructuredData(
+    { calculatorId, locale, title: 'Title', description: 'Description', body: readBody(locale, calculatorId) },
+    site
+  );
+}
+
+function findType(structuredData: JsonLd[], type: string): JsonLd | undefined {
+  return structuredData.find(item => [item['@type']].flat().includes(type));
+}
+
+/** A JSON-LD value as an object, empty when it isn't one */
+const asObject = (value: unknown): JsonLd =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonLd) : {};
+/** A JSON-LD value as a list of objects, empty when it isn't a list */
+const asList = (value: unknown): JsonLd[] => (Array.isArray(value) ? value.map(asObject) : []);
+
+const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+const isAbsoluteUrl = (value: unknown) => typeof value === 'string' && value.startsWith('https://calculatoria.net/');
+
+/**
+ * Schema.org shape problems of a JSON-LD item, none when it is valid
+ */
+function validate(item: JsonLd): string[] {
+  const errors: string[] = [];
+  const check = (ok: boolean, message: string) => ok || errors.push(`${item['@type']}: ${message}`);
+
+  check(item['@context'] === 'https://schema.org', 'missing @context');
+  switch ([item['@type']].flat()[0]) {
+    case 'WebApplication':
+      check(isText(item.name) && isAbsoluteUrl(item.url), 'name and url');
+      check(asObject(item.offers)['@type'] === 'Offer' && /^[A-Z]{3}$/.test(String(asObject(item.offers).priceCurrency)), 'offer');
+      break;
+    case 'HowTo':
+      check(asList(item.step).length > 1, 'steps');
+      asList(item.step).forEach((step, index) => {
+        check(step['@type'] === 'HowToStep' && step.position === index + 1, 'step position');
+        check(isText(step.name) && isText(step.text) && step.text !== step.name, 'step text');
+        check(!/[{}]/.test(`${step.name} ${step.text}`), 'step placeholders');
+      });
+      break;
+    case 'MedicalWebPage':
+      check(asObject(item.about)['@type'] === 'MedicalRiskCalculator', 'about');
+      check(/^https:\/\/schema\.org\/[A-Z]\w+$/.test(String(item.specialty)), 'specialty');
+      break;
+    case 'FAQPage':
+      check(asList(item.mainEntity).length > 0, 'questions');
+      for (const question of asList(item.mainEntity)) {
+        const answer = asObject(question.acceptedAnswer);
+        check(question['@type'] === 'Question' && isText(question.name), 'question');
+        check(answer['@type'] === 'Answer' && isText(answer.text), 'answer');
+      }
+      break;
+    case 'BreadcrumbList':
+      asList(item.itemListElement).forEach((listItem, index, listItems) => {
+        const last = index === listItems.length - 1;
+        check(listItem['@type'] === 'ListItem' && listItem.position === index + 1, 'item position');
+        check(isText(listItem.name) && (last ? !listItem.item : isAbsoluteUrl(listItem.item)), 'item link');
+      });
+      break;
+    default:
+      check(false, 'unexpected type');
+  }
+  return errors;
+}
+
+beforeAll(() => Promise.all(getSupportedLocales().map(locale => loadTranslations(locale))));
+
+describe('getCalculatorStructuredData', () => {
+  it('emits valid schema.org data for every calculator page', () => {
+    for (const locale of getSupportedLocales()) {
+      for (const calculatorId of calculators) {
+        const errors = getStructuredData(locale, calculatorId).flatMap(validate);
+        expect(errors, `${locale}/${calculatorId}`).toEqual([]);
+      }
+    }
+  });
+
+  it('localizes the page data', () => {
+    const structuredData = getStructuredData('es', 'bmi');
+    const application = findType(structuredData, 'WebApplication')!;
+
+    expect(application.url).toBe('https://calculatoria.net/es/calculadoras/imc/');
+    expect(application.inLanguage).toBe('es-ES');
+    expect(asObject(application.offers).priceCurrency).toBe('EUR');
+    expect(asList(findType(structuredData, 'HowTo')!.step).at(-1)!.name).toBe('Calcular');
+  });
+
+  it('writes the steps as instructions', () => {
+    const [birthDate, targetDate] = asList(findType(getStructuredData('en', 'age'), 'HowTo')!.step);
+    const steps = asList(findType(getStructuredData('es', 'bmi'), 'HowTo')!.step);
+
+    expect(birthDate.text).toBe(`Enter the value for “${birthDate.name}”.`);
+    expect(targetDate.text).toBe(
+      'Enter the value for “Calculate age at (optional)”. Leave as current date to calculate your age today'
+    );
+    expect(steps.at(-1)!.text).toBe('Pulsa «Calcular» para ver los resultados.');
+  });
+
+  it('describes risk calculators as medical pages', () => {
+    for (const calculatorId of calculators) {
+      const page = findType(getStructuredData('en', calculatorId), 'MedicalWebPage');
+      expect(!!page, calculatorId).toBe(calculatorId in medicalRiskCalculators);
+    }
+    expect(findType(getStructuredData('en', 'gfr'), 'MedicalWebPage')!.specialty).toBe('https://schema.org/Renal');
+  });
+
+  it('mirrors the breadcrumbs of the page', () => {
+    const breadcrumbs = getCalculatorBreadcrumbs('de', 'BMI-Rechner');
+    const listItems = asList(findType(getStructuredData('de', 'bmi'), 'BreadcrumbList')!.itemListElement);
+
+    expect(breadcrumbs.map(({ path }) => path)).toEqual(['/de/', '/de/rechner/', undefined]);
+    expect(listItems.map(({ item }) => item)).toEqual([
+      'https://calculatoria.net/de/',
+      'https://calculatoria.net/de/rechner/',
+      undefined,
+    ]);
+    expect(listItems[0].name).toBe(breadcrumbs[0].name);
+  });
+
+  it('adds the properties of the MDX schema field', () => {
+    const [application] = getCalculatorStructuredData(
+      { calculatorId: 'tip', locale: 'en', title: 'Tip', description: '', body: '', schema: { operatingSystem: 'Web' } },
+      site
+    );
+    expect(application.operatingSystem).toBe('Web');
+  });
+});
+
+describe('extractFaq', () => {
+  it('reads questions from headings in every language', () => {
+    const faq = extractFaq(readBody('es', 'bmi'));
+
+    expect(faq).toHaveLength(4);
+    expect(faq[0].question).toBe('¿El IMC es igual para hombres y mujeres?');
+    expect(faq[2].answer).toContain('Cada 6 meses para monitoreo general de salud');
+    expect(extractFaq(readBody('ru', 'bmi')).length).toBeGreaterThan(0);
+    expect(extractFaq(readBody('ar', 'tdee')).length).toBeGreaterThan(0);
+  });
+
+  it('reads questions written in bold', () => {
+    const faq = extractFaq(readBody('en', 'fat-intake'));
+
+    expect(faq.length).toBeGreaterThan(5);
+    expect(faq[0].question).toBe('How much fat should I eat per day?');
+  });
+
+  it('keeps only FAQ sections and questions', () => {
+    const faq = extractFaq([
+      '## Why it matters',
+      '### Is this a question?',
+      'Not in a FAQ.',
+      '## Frequently Asked Questions',
+      '### Special cases',
+      'Not a question.',
+      '### Is it **free**?',
+      'Yes, see [the guide](/guide/).',
+      '',
+      '- No sign-up',
+      '## Conclusion',
+      'The end.',
+    ].join('\n'));
+
+    expect(faq).toEqual([{ question: 'Is it free?', answer: 'Yes, see the guide.\nNo sign-up' }]);
+  });
+});
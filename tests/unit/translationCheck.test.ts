@@ -0,0 +1,101 @@
+/**
+ * Translation Check Tests
+ *
+ * Comparison of locale files with English, the scan for keys used in source
+ * files, and the shipped locales themselves: every key referenced in src/
+ * must resolve in every locale.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  compareTranslations,
+  findTranslationKeys,
+  formatFileReport,
+  getBundlePrefix,
+  getTranslationKeyTypes,
+  getTranslationReport,
+} from '@/integrations/translationCheck';
+
+describe('compareTranslations', () => {
+  const source = {
+    title: 'BMI Calculator',
+    form: { heightLabel: 'Height', weightLabel: 'Weight', unit: 'kg/m²' },
+    results: { bmi: 'BMI', range: '18.5 - 25' },
+  };
+
+  it('lists missing, extra and untranslated keys', () => {
+    const target = {
+      title: 'Calculadora de IMC',
+      form: { heightLabel: 'Altura', unit: 'kg/m²', old: 'Antiguo' },
+      results: { bmi: 'BMI', range: '18.5 - 25' },
+    };
+
+    expect(compareTranslations('calculators/bmi.json', source, target)).toEqual({
+      file: 'calculators/bmi.json',
+      missing: ['form.weightLabel'],
+      extra: ['form.old'],
+      untranslated: ['form.unit', 'results.bmi'],
+    });
+  });
+
+  it('ignores text without letters', () => {
+    const report = compareTranslations('calculators/bmi.json', source, source);
+    expect(report.untranslated).not.toContain('results.range');
+  });
+
+  it('reports a missing file as all keys missing', () => {
+    const report = compareTranslations('calculators/bmi.json', source, {});
+    expect(report.missing).toHaveLength(6);
+    expect(formatFileReport(report)).toBe('calculators/bmi.json: 6 missing');
+  });
+});
+
+describe('getBundlePrefix', () => {
+  it('matches the t() bundle layout', () => {
+    expect(getBundlePrefix('common.json')).toBe('');
+    expect(getBundlePrefix('categories.json')).toBe('categories.');
+    expect(getBundlePrefix('calculators/army-body-fat.json')).toBe('armyBodyFat.');
+  });
+});
+
+describe('findTranslationKeys', () => {
+  const namespaces = new Set(['common', 'bmi', 'profile']);
+  const calculatorNamespaces = new Set(['bmi']);
+
+  it('finds dotted and colon keys of known namespaces', () => {
+    const keys = findTranslationKeys([
+      { file: 'a.astro', content: `{t('bmi.form.title', lang)} {t("common.calculate", lang)}` },
+      { file: 'b.ts', content: `label: 'bmi:results.bmi', other: 'common.calculate'` },
+    ], namespaces, calculatorNamespaces);
+
+    expect(Object.fromEntries(keys)).toEqual({
+      'bmi.form.title': ['a.astro'],
+      'common.calculate': ['a.astro', 'b.ts'],
+      'bmi.results.bmi': ['b.ts'],
+    });
+  });
+
+  it('skips storage keys, unknown namespaces and runtime keys', () => {
+    const keys = findTranslationKeys([
+      { file: 'a.ts', content: `'profile:dismissed' 'example.com' \`bmi.\${key}\`` },
+    ], namespaces, calculatorNamespaces);
+
+    expect(keys.size).toBe(0);
+  });
+});
+
+describe('getTranslationKeyTypes', () => {
+  it('declares every English string key for t()', () => {
+    const types = getTranslationKeyTypes(process.cwd());
+    expect(types).toContain('interface TranslationKeys {');
+    expect(types).toContain("  'bmi.form.title': true;");
+    expect(types).toContain("  'categories.health': true;");
+    expect(types).not.toContain("  'bmi.form': true;");
+  });
+});
+
+describe('shipped locales', () => {
+  it('have every translation key used in src/', () => {
+    expect(getTranslationReport(process.cwd()).missingReferences).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Conversion Tests
+ *
+ * Exact definitions (1 lb = 0.45359237 kg, 1 in = 2.54 cm, 1 mi = 1.609344 km)
+ * and round trips between every pair of conversions.
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  caloriesToKJ,
+  centimeters,
+  cmToFeetInches,
+  cmToInches,
+  cmToMeters,
+  creatinineMgDlToUmol,
+  creatinineUmolToMgDl,
+  feet,
+  feetInchesToCm,
+  flOzToMl,
+  fluidOunces,
+  hours,
+  hoursToMinutes,
+  hoursToSeconds,
+  inches,
+  inchesToCm,
+  kgToLbs,
+  kilocalories,
+  kilograms,
+  kilojoules,
+  kilometers,
+  kjToCalories,
+  kmToMeters,
+  kmToMiles,
+  kmToYards,
+  lbsToKg,
+  meters,
+  metersToCm,
+  metersToKm,
+  micromolesPerLiter,
+  milesToKm,
+  milligramsPerDeciliter,
+  milliliters,
+  miles,
+  minutes,
+  minutesToSeconds,
+  mlToFlOz,
+  pounds,
+  seconds,
+  secondsToHours,
+  secondsToMinutes,
+  yards,
+  yardsToKm,
+} from '@/utils/units';
+
+const positive = fc.double({ min: 0.001, max: 1e6, noNaN: true });
+
+describe('unit conversions', () => {
+  it('uses the exact international definitions', () => {
+    expect(lbsToKg(pounds(1))).toBe(0.45359237);
+    expect(inchesToCm(inches(1))).toBe(2.54);
+    expect(milesToKm(miles(1))).toBe(1.609344);
+    expect(yardsToKm(yards(1))).toBeCloseTo(0.0009144, 10);
+    expect(flOzToMl(fluidOunces(1))).toBeCloseTo(29.5735, 4);
+    expect(caloriesToKJ(kilocalories(1))).toBe(4.184);
+    expect(creatinineMgDlToUmol(milligramsPerDeciliter(1))).toBeCloseTo(88.42, 10);
+  });
+
+  it('converts imperial heights', () => {
+    expect(feetInchesToCm(feet(5), inches(10))).toBeCloseTo(177.8, 10);
+    expect(cmToFeetInches(centimeters(177.8))).toEqual({ feet: 5, inches: 10 });
+    expect(cmToFeetInches(centimeters(182.88))).toEqual({ feet: 6, inches: 0 });
+  });
+
+  it('converts durations', () => {
+    expect(minutesToSeconds(minutes(1.5))).toBe(90);
+    expect(hoursToSeconds(hours(2))).toBe(7200);
+    expect(secondsToMinutes(seconds(90))).toBe(1.5);
+    expect(secondsToHours(seconds(5400))).toBe(1.5);
+    expect(hoursToMinutes(hours(0.25))).toBe(15);
+  });
+
+  const roundTrips: [string, (value: number) => number][] = [
+    ['kg ↔ lb', value => lbsToKg(kgToLbs(kilograms(value)))],
+    ['cm ↔ in', value => inchesToCm(cmToInches(centimeters(value)))],
+    ['cm ↔ m', value => metersToCm(cmToMeters(centimeters(value)))],
+    ['km ↔ mi', value => milesToKm(kmToMiles(kilometers(value)))],
+    ['km ↔ m', value => metersToKm(kmToMeters(kilometers(value)))],
+    ['km ↔ yd', value => yardsToKm(kmToYards(kilometers(value)))],
+    ['ml ↔ fl oz', value => flOzToMl(mlToFlOz(milliliters(value)))],
+    ['kcal ↔ kJ', value => kjToCalories(caloriesToKJ(kilocalories(value)))],
+    ['kJ ↔ kcal', value => caloriesToKJ(kjToCalories(kilojoules(value)))],
+    ['mg/dL ↔ μmol/L', value => creatinineUmolToMgDl(creatinineMgDlToUmol(milligramsPerDeciliter(value)))],
+    ['μmol/L ↔ mg/dL', value => creatinineMgDlToUmol(creatinineUmolToMgDl(micromolesPerLiter(value)))],
+    ['m ↔ km', value => kmToMeters(metersToKm(meters(value)))],
+    ['s ↔ min', value => minutesToSeconds(secondsToMinutes(seconds(value)))],
+    ['s ↔ h', value => hoursToSeconds(secondsToHours(seconds(value)))],
+  ];
+
+  it.each(roundTrips)('round-trips %s', (_, roundTrip) => {
+    fc.assert(fc.property(positive, value => Math.abs(roundTrip(value) - value) <= value * 1e-12));
+  });
+
+  it('splits heights into feet and inches within half an inch', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 30, max: 250, noNaN: true }), (cm) => {
+        const { feet: ft, inches: inch } = cmToFeetInches(centimeters(cm));
+        return Math.abs(feetInchesToCm(ft, inch) - cm) <= 2.54 / 2 + 1e-9;
+      })
+    );
+  });
+});
@@ -0,0 +1,18 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from 'astro/config';
+
+// Date calculators work in local time; pin the zone so results don't depend on the machine
+process.env.TZ = 'UTC';
+
+/**
+ * Vitest Configuration
+ *
+ * Unit tests for the pure calculator functions. They run in Node and don't
+ * need the dev server; browser tests are run by Playwright (see playwright.config.ts).
+ */
+export default getViteConfig({
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'node',
+  },
+});